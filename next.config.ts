@@ -29,6 +29,17 @@ const withPWA = withPWAInit({
         },
       },
     },
+    {
+      // The offline queue page renders from IndexedDB, so keep a copy to open without a connection
+      urlPattern: /\/dashboard\/offline(?:\?.*)?$/i,
+      handler: "NetworkFirst",
+      options: {
+        cacheName: "offline-queue-page",
+        expiration: {
+          maxEntries: 8,
+        },
+      },
+    },
     {
       urlPattern: /\.(?:js|css)$/i,
       handler: "StaleWhileRevalidate",
@@ -9,6 +9,11 @@ import { useToast } from '@/components/ui/Toast'
 import { ConfirmModal } from '@/components/ui/Modal'
 import { StatCardSkeleton, UserTableSkeleton, RecordingListSkeleton } from '@/components/ui/Skeleton'
 import { User } from '@supabase/supabase-js'
+import RubricEditor from './RubricEditor'
+import PromptHistory from './PromptHistory'
+import PromptReplay from './PromptReplay'
+import CalibrationReport from './CalibrationReport'
+import OrganizationManager from '@/components/OrganizationManager'
 
 interface UserStats {
   id: string
@@ -68,7 +73,7 @@ interface RecordingWithUser {
   user_role: string
 }
 
-type Tab = 'users' | 'recordings' | 'usage' | 'prompts'
+type Tab = 'users' | 'recordings' | 'usage' | 'prompts' | 'rubrics' | 'calibration' | 'organizations'
 type TimeRange = 'today' | 'week' | 'month' | 'year'
 
 export default function AdminDashboard({ user }: { user: User }) {
@@ -102,6 +107,7 @@ export default function AdminDashboard({ user }: { user: User }) {
   const [promptLoading, setPromptLoading] = useState(false)
   const [promptSaving, setPromptSaving] = useState(false)
   const [promptMessage, setPromptMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [promptHistoryKey, setPromptHistoryKey] = useState(0)
   const [lockedOutput, setLockedOutput] = useState('')
   const [showLockedOutput, setShowLockedOutput] = useState(false)
   
@@ -202,7 +208,8 @@ export default function AdminDashboard({ user }: { user: User }) {
       }
 
       setOriginalPrompt(prompt)
-      setPromptMessage({ type: 'success', text: 'Prompt saved successfully!' })
+      setPromptHistoryKey(key => key + 1)
+      setPromptMessage({ type: 'success', text: `Prompt saved as v${data.version.version}` })
       toast.success('Prompt saved!')
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to save'
@@ -213,6 +220,14 @@ export default function AdminDashboard({ user }: { user: User }) {
     }
   }
 
+  // A rollback is already saved server-side - just load the restored text into the editor
+  const handlePromptRolledBack = (restored: string, description: string) => {
+    setPrompt(restored)
+    setOriginalPrompt(restored)
+    setPromptDescription(description)
+    setPromptMessage(null)
+  }
+
   const resetPrompt = () => {
     setPrompt(originalPrompt)
     setPromptMessage(null)
@@ -522,6 +537,45 @@ export default function AdminDashboard({ user }: { user: User }) {
             </svg>
             Prompts
           </button>
+          <button
+            onClick={() => { setActiveTab('rubrics'); setSearchQuery(''); }}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 ${
+              activeTab === 'rubrics'
+                ? 'bg-emerald-500/20 text-emerald-400'
+                : 'text-slate-400 hover:text-white hover:bg-slate-800'
+            }`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+            </svg>
+            Rubrics
+          </button>
+          <button
+            onClick={() => { setActiveTab('calibration'); setSearchQuery(''); }}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 ${
+              activeTab === 'calibration'
+                ? 'bg-violet-500/20 text-violet-400'
+                : 'text-slate-400 hover:text-white hover:bg-slate-800'
+            }`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3" />
+            </svg>
+            Calibration
+          </button>
+          <button
+            onClick={() => { setActiveTab('organizations'); setSearchQuery(''); }}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 ${
+              activeTab === 'organizations'
+                ? 'bg-sky-500/20 text-sky-400'
+                : 'text-slate-400 hover:text-white hover:bg-slate-800'
+            }`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
+            </svg>
+            Organizations
+          </button>
         </div>
 
         {/* Search */}
@@ -570,7 +624,13 @@ export default function AdminDashboard({ user }: { user: User }) {
         )}
 
         {/* Content */}
-        {activeTab === 'prompts' ? (
+        {activeTab === 'organizations' ? (
+          <OrganizationManager isAdmin />
+        ) : activeTab === 'calibration' ? (
+          <CalibrationReport />
+        ) : activeTab === 'rubrics' ? (
+          <RubricEditor />
+        ) : activeTab === 'prompts' ? (
           promptLoading ? (
             <div className="flex items-center justify-center py-12">
               <div className="animate-spin w-8 h-8 border-2 border-emerald-500 border-t-transparent rounded-full" />
@@ -786,6 +846,16 @@ Focus on GAPS and WEAKNESSES`}</pre>
                 </div>
               </div>
 
+              {/* Version History & Diff */}
+              <PromptHistory
+                promptName="w4_analysis"
+                refreshKey={promptHistoryKey}
+                onRolledBack={handlePromptRolledBack}
+              />
+
+              {/* Replay against the golden set before saving */}
+              <PromptReplay editorPrompt={prompt} />
+
               {/* Quick Reference */}
               <div className="bg-slate-800/30 border border-slate-700/30 rounded-lg p-4">
                 <h3 className="text-sm font-medium text-slate-300 mb-3 flex items-center gap-2">
@@ -1134,7 +1204,7 @@ Focus on GAPS and WEAKNESSES`}</pre>
                         </td>
                         <td className="px-4 py-3">
                           <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                            u.role === 'admin' ? 'bg-red-500/20 text-red-400' : 'bg-blue-500/20 text-blue-400'
+                            u.role === 'admin' ? 'bg-red-500/20 text-red-400' : u.role === 'manager' ? 'bg-violet-500/20 text-violet-400' : 'bg-blue-500/20 text-blue-400'
                           }`}>
                             {u.role}
                           </span>
@@ -1158,6 +1228,7 @@ Focus on GAPS and WEAKNESSES`}</pre>
                             disabled={u.id === user.id}
                           >
                             <option value="user">User</option>
+                            <option value="manager">Manager</option>
                             <option value="admin">Admin</option>
                           </select>
                         </td>
@@ -1178,7 +1249,7 @@ Focus on GAPS and WEAKNESSES`}</pre>
                       <p className="text-slate-500 text-xs font-mono">{u.id.slice(0, 8)}...</p>
                     </div>
                     <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                      u.role === 'admin' ? 'bg-red-500/20 text-red-400' : 'bg-blue-500/20 text-blue-400'
+                      u.role === 'admin' ? 'bg-red-500/20 text-red-400' : u.role === 'manager' ? 'bg-violet-500/20 text-violet-400' : 'bg-blue-500/20 text-blue-400'
                     }`}>
                       {u.role}
                     </span>
@@ -1210,6 +1281,7 @@ Focus on GAPS and WEAKNESSES`}</pre>
                       disabled={u.id === user.id}
                     >
                       <option value="user">User</option>
+                      <option value="manager">Manager</option>
                       <option value="admin">Admin</option>
                     </select>
                   </div>
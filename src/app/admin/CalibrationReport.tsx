@@ -0,0 +1,146 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useToast } from '@/components/ui/Toast'
+import { W4CalibrationReport } from '@/types/database'
+
+function formatDelta(value: number): string {
+  return value > 0 ? `+${value}` : String(value)
+}
+
+function deltaColor(value: number): string {
+  if (Math.abs(value) < 0.5) return 'text-slate-400'
+  return value > 0 ? 'text-amber-400' : 'text-blue-400'
+}
+
+// Where managers keep disagreeing with the AI - candidates for rubric guidance or prompt changes
+export default function CalibrationReport() {
+  const [report, setReport] = useState<W4CalibrationReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const toast = useToast()
+
+  const load = async () => {
+    try {
+      const response = await fetch('/api/admin/calibration')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.message || 'Failed to load calibration report')
+      setReport(data.calibration)
+    } catch (err) {
+      console.error('Error loading calibration report:', err)
+      toast.error('Failed to load calibration report')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin w-8 h-8 border-2 border-violet-500 border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  if (!report || report.total_overrides === 0) {
+    return (
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-8 text-center">
+        <p className="text-slate-300 font-medium">No score overrides yet</p>
+        <p className="text-slate-500 text-sm mt-1">
+          When managers or admins override a checkpoint score on a report, the difference from the AI shows up here.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+          <p className="text-slate-400 text-sm">Overrides</p>
+          <p className="text-2xl font-bold text-white">{report.total_overrides}</p>
+        </div>
+        <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+          <p className="text-slate-400 text-sm">Reports overridden</p>
+          <p className="text-2xl font-bold text-white">{report.reports_overridden}</p>
+        </div>
+        <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+          <p className="text-slate-400 text-sm">Checkpoints affected</p>
+          <p className="text-2xl font-bold text-white">{report.checkpoints.length}</p>
+        </div>
+      </div>
+
+      {/* Per-checkpoint drift */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-700/50">
+          <h3 className="text-white font-medium">AI vs manager by checkpoint</h3>
+          <p className="text-slate-500 text-xs">Positive = managers score higher than the AI</p>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-400 border-b border-slate-700/50">
+              <th className="px-4 py-2 font-medium">Checkpoint</th>
+              <th className="px-4 py-2 font-medium">Overrides</th>
+              <th className="px-4 py-2 font-medium">Raised / lowered</th>
+              <th className="px-4 py-2 font-medium">Mean delta</th>
+              <th className="px-4 py-2 font-medium">Mean |delta|</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.checkpoints.map(cp => (
+              <tr key={`${cp.phase}:${cp.checkpoint_name}`} className="border-b border-slate-700/30">
+                <td className="px-4 py-2">
+                  <span className="text-slate-500 uppercase text-xs mr-2">{cp.phase}</span>
+                  <span className="text-slate-200">{cp.checkpoint_name}</span>
+                  <span className="text-slate-500 text-xs ml-1">/{cp.max_score}</span>
+                </td>
+                <td className="px-4 py-2 text-slate-300">{cp.overrides}</td>
+                <td className="px-4 py-2 text-slate-300">{cp.raised} / {cp.lowered}</td>
+                <td className={`px-4 py-2 font-medium ${deltaColor(cp.mean_delta)}`}>{formatDelta(cp.mean_delta)}</td>
+                <td className="px-4 py-2 text-slate-300">{cp.mean_abs_delta}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Latest overrides with reasons */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50">
+        <div className="px-4 py-3 border-b border-slate-700/50">
+          <h3 className="text-white font-medium">Recent overrides</h3>
+        </div>
+        <ul className="divide-y divide-slate-700/30">
+          {report.recent.map(override => (
+            <li key={override.id} className="px-4 py-3">
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-slate-200">
+                  {override.checkpoint_name}:{' '}
+                  <span className="text-slate-400">AI {override.ai_score}</span> →{' '}
+                  <span className="text-violet-400">{override.override_score}</span>
+                  <span className={`ml-2 ${deltaColor(override.override_score - override.ai_score)}`}>
+                    ({formatDelta(override.override_score - override.ai_score)})
+                  </span>
+                </p>
+                <Link
+                  href={`/dashboard/recordings/${override.recording_id}`}
+                  className="text-xs text-slate-400 hover:text-white flex-shrink-0"
+                >
+                  View report
+                </Link>
+              </div>
+              <p className="text-xs text-slate-400 mt-1">{override.reason}</p>
+              <p className="text-xs text-slate-600 mt-0.5">
+                {override.overridden_by_email || 'Unknown reviewer'} · {new Date(override.updated_at).toLocaleDateString()}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
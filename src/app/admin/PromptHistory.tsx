@@ -0,0 +1,190 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { useToast } from '@/components/ui/Toast'
+import { AdminPromptVersion } from '@/types/database'
+import { DiffRow, diffLinesSideBySide } from '@/lib/textDiff'
+
+const ROW_STYLES: Record<DiffRow['kind'], { left: string; right: string }> = {
+  same: { left: 'text-slate-400', right: 'text-slate-400' },
+  removed: { left: 'bg-red-500/15 text-red-300', right: 'bg-slate-900/60' },
+  added: { left: 'bg-slate-900/60', right: 'bg-emerald-500/15 text-emerald-300' },
+  changed: { left: 'bg-red-500/15 text-red-300', right: 'bg-emerald-500/15 text-emerald-300' },
+}
+
+interface PromptHistoryProps {
+  promptName: string
+  refreshKey: number // Bumped by the parent after each save
+  onRolledBack: (prompt: string, description: string) => void
+}
+
+export default function PromptHistory({ promptName, refreshKey, onRolledBack }: PromptHistoryProps) {
+  const [versions, setVersions] = useState<AdminPromptVersion[]>([])
+  const [currentVersionId, setCurrentVersionId] = useState<string | null>(null)
+  const [fromId, setFromId] = useState('')
+  const [toId, setToId] = useState('')
+  const [changesOnly, setChangesOnly] = useState(true)
+  const [loading, setLoading] = useState(true)
+  const [rollingBack, setRollingBack] = useState<string | null>(null)
+  const toast = useToast()
+
+  const loadVersions = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/prompt', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'versions', name: promptName }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.message || 'Failed to load prompt history')
+
+      const list: AdminPromptVersion[] = data.versions || []
+      setVersions(list)
+      setCurrentVersionId(data.currentVersionId)
+      // Default to "what changed in the latest save"
+      setToId(list[0]?.id || '')
+      setFromId(list[1]?.id || list[0]?.id || '')
+    } catch (err) {
+      console.error('Error loading prompt history:', err)
+      toast.error('Failed to load prompt history')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadVersions()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [promptName, refreshKey])
+
+  const fromVersion = versions.find(v => v.id === fromId)
+  const toVersion = versions.find(v => v.id === toId)
+
+  const rows = useMemo(
+    () => fromVersion && toVersion ? diffLinesSideBySide(fromVersion.prompt, toVersion.prompt) : [],
+    [fromVersion, toVersion]
+  )
+  const changedCount = rows.filter(r => r.kind !== 'same').length
+  const visibleRows = changesOnly ? rows.filter(r => r.kind !== 'same') : rows
+
+  const rollback = async (version: AdminPromptVersion) => {
+    setRollingBack(version.id)
+    try {
+      const response = await fetch('/api/admin/prompt', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'rollback', versionId: version.id }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.message || 'Failed to roll back')
+
+      toast.success(`Rolled back to v${version.version} (saved as v${data.version.version})`)
+      onRolledBack(data.version.prompt, data.version.description || '')
+      await loadVersions()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to roll back')
+    } finally {
+      setRollingBack(null)
+    }
+  }
+
+  const versionLabel = (v: AdminPromptVersion) =>
+    `v${v.version} - ${new Date(v.created_at).toLocaleString()}${v.id === currentVersionId ? ' (current)' : ''}`
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin w-6 h-6 border-2 border-emerald-500 border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="bg-slate-800/30 border border-slate-700/30 rounded-lg p-4 text-sm text-slate-400">
+        No saved versions yet - the built-in prompt is in use. Saving creates version 1.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Version list */}
+      <div className="bg-slate-800/50 rounded-xl border border-slate-700/50 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-700/50 text-sm font-medium text-slate-300">
+          Version History ({versions.length})
+        </div>
+        <div className="max-h-64 overflow-auto divide-y divide-slate-700/50">
+          {versions.map(v => (
+            <div key={v.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+              <span className="font-mono text-slate-300 w-10">v{v.version}</span>
+              <div className="flex-1 min-w-0">
+                <div className="text-slate-200 truncate">{v.description || <span className="text-slate-500">No description</span>}</div>
+                <div className="text-xs text-slate-500">
+                  {v.author_email || 'Unknown author'} · {new Date(v.created_at).toLocaleString()}
+                </div>
+              </div>
+              {v.id === currentVersionId ? (
+                <span className="px-2 py-0.5 rounded text-xs bg-emerald-500/20 text-emerald-300">Current</span>
+              ) : (
+                <button
+                  onClick={() => rollback(v)}
+                  disabled={rollingBack !== null}
+                  className="px-3 py-1 rounded-lg text-xs border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+                >
+                  {rollingBack === v.id ? 'Rolling back...' : 'Rollback'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Side-by-side diff */}
+      <div className="bg-slate-800/50 rounded-xl border border-slate-700/50 overflow-hidden">
+        <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b border-slate-700/50 text-sm">
+          <select
+            value={fromId}
+            onChange={(e) => setFromId(e.target.value)}
+            className="px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-slate-200"
+          >
+            {versions.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+          </select>
+          <span className="text-slate-500">→</span>
+          <select
+            value={toId}
+            onChange={(e) => setToId(e.target.value)}
+            className="px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-slate-200"
+          >
+            {versions.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+          </select>
+          <span className="text-xs text-slate-400">{changedCount} changed line{changedCount === 1 ? '' : 's'}</span>
+          <label className="ml-auto flex items-center gap-2 text-xs text-slate-400">
+            <input type="checkbox" checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} />
+            Only show changes
+          </label>
+        </div>
+
+        {visibleRows.length === 0 ? (
+          <div className="p-4 text-sm text-slate-500">These versions are identical.</div>
+        ) : (
+          <div className="max-h-[500px] overflow-auto font-mono text-xs">
+            {visibleRows.map((row, i) => (
+              <div key={i} className="grid grid-cols-2 divide-x divide-slate-700/50">
+                <div className={`flex gap-2 px-2 py-0.5 ${ROW_STYLES[row.kind].left}`}>
+                  <span className="w-8 shrink-0 text-right text-slate-600">{row.left?.lineNumber ?? ''}</span>
+                  <span className="whitespace-pre-wrap break-words">{row.left?.text ?? ''}</span>
+                </div>
+                <div className={`flex gap-2 px-2 py-0.5 ${ROW_STYLES[row.kind].right}`}>
+                  <span className="w-8 shrink-0 text-right text-slate-600">{row.right?.lineNumber ?? ''}</span>
+                  <span className="whitespace-pre-wrap break-words">{row.right?.text ?? ''}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
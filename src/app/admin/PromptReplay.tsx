@@ -0,0 +1,324 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useToast } from '@/components/ui/Toast'
+import { PromptGoldenCall, PromptReplayRun, PromptReplayVariant } from '@/types/database'
+import { PromptReplayReport, ReplayVariantOutcome } from '@/lib/w4/replay'
+
+const POLL_INTERVAL_MS = 5000
+
+const VARIANT_LABELS: Record<PromptReplayVariant, string> = {
+  baseline: 'Current prompt',
+  candidate: 'Candidate',
+}
+
+interface CandidateAnalysis {
+  id: string
+  title: string
+  created_at: string
+}
+
+type RunListItem = Pick<PromptReplayRun, 'id' | 'description' | 'candidate_version_id' | 'created_at'>
+
+function formatDelta(value: number | null | undefined): string {
+  if (value === null || value === undefined) return '-'
+  const rounded = Math.round(value * 10) / 10
+  return rounded > 0 ? `+${rounded}` : String(rounded)
+}
+
+function formatNumber(value: number | null | undefined): string {
+  return value === null || value === undefined ? '-' : (Math.round(value * 10) / 10).toString()
+}
+
+function deltaColor(value: number | null | undefined): string {
+  if (value === null || value === undefined || Math.abs(value) < 0.5) return 'text-slate-400'
+  return value > 0 ? 'text-amber-400' : 'text-blue-400'
+}
+
+function OutcomeCell({ outcome }: { outcome?: ReplayVariantOutcome }) {
+  if (!outcome) return <span className="text-slate-600">-</span>
+  if (outcome.status === 'queued') return <span className="text-slate-500">Running...</span>
+  if (outcome.status === 'error') return <span className="text-red-400" title={outcome.error || ''}>Failed</span>
+  return (
+    <span>
+      <span className="text-slate-200">{outcome.totalScore}</span>{' '}
+      <span className={deltaColor(outcome.totalDelta)}>({formatDelta(outcome.totalDelta)})</span>{' '}
+      <span className="text-slate-400">{outcome.rating}</span>
+    </span>
+  )
+}
+
+interface PromptReplayProps {
+  editorPrompt: string  // Unsaved editor text is what gets replayed as the candidate
+}
+
+export default function PromptReplay({ editorPrompt }: PromptReplayProps) {
+  const [goldenCalls, setGoldenCalls] = useState<PromptGoldenCall[]>([])
+  const [candidates, setCandidates] = useState<CandidateAnalysis[]>([])
+  const [runs, setRuns] = useState<RunListItem[]>([])
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null)
+  const [report, setReport] = useState<PromptReplayReport | null>(null)
+  const [addAnalysisId, setAddAnalysisId] = useState('')
+  const [description, setDescription] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [starting, setStarting] = useState(false)
+  const toast = useToast()
+
+  const load = async (runId = selectedRunId) => {
+    try {
+      const response = await fetch(`/api/admin/prompt/replay${runId ? `?runId=${runId}` : ''}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.message || 'Failed to load replays')
+
+      setGoldenCalls(data.goldenCalls)
+      setCandidates(data.candidates)
+      setRuns(data.runs)
+      setReport(data.report)
+    } catch (err) {
+      console.error('Error loading prompt replays:', err)
+      toast.error('Failed to load prompt replays')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedRunId])
+
+  // Keep refreshing while replay jobs are still running
+  useEffect(() => {
+    if (!selectedRunId || !report || report.pending === 0) return
+    const timer = setTimeout(() => load(selectedRunId), POLL_INTERVAL_MS)
+    return () => clearTimeout(timer)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedRunId, report])
+
+  const post = async (body: Record<string, unknown>) => {
+    const response = await fetch('/api/admin/prompt/replay', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.message || 'Request failed')
+    return data
+  }
+
+  const addGoldenCall = async () => {
+    if (!addAnalysisId) return
+    try {
+      await post({ action: 'add_golden', analysisId: addAnalysisId })
+      setAddAnalysisId('')
+      toast.success('Added to the golden set')
+      await load()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to add call')
+    }
+  }
+
+  const removeGoldenCall = async (id: string) => {
+    try {
+      await post({ action: 'remove_golden', id })
+      await load()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove call')
+    }
+  }
+
+  const startRun = async () => {
+    setStarting(true)
+    try {
+      const data = await post({ action: 'start', prompt: editorPrompt, description })
+      toast.success(`Replaying ${goldenCalls.length} calls with both prompts`)
+      setDescription('')
+      setSelectedRunId(data.run.id)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to start replay')
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin w-6 h-6 border-2 border-emerald-500 border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid lg:grid-cols-2 gap-4">
+        {/* Golden set */}
+        <div className="bg-slate-800/50 rounded-xl border border-slate-700/50 overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-700/50 text-sm font-medium text-slate-300">
+            Golden Set ({goldenCalls.length})
+            <p className="text-xs font-normal text-slate-500">Calls whose current scores are manager-approved</p>
+          </div>
+          <div className="max-h-56 overflow-auto divide-y divide-slate-700/50">
+            {goldenCalls.length === 0 && (
+              <div className="px-4 py-3 text-sm text-slate-500">No golden calls yet.</div>
+            )}
+            {goldenCalls.map(call => (
+              <div key={call.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                <span className="flex-1 truncate text-slate-200">{call.file_name || call.analysis_id}</span>
+                <span className="text-slate-400">{call.approved_scores.total_score} · {call.approved_scores.rating}</span>
+                <button onClick={() => removeGoldenCall(call.id)} className="text-xs text-slate-500 hover:text-red-400">
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 p-3 border-t border-slate-700/50">
+            <select
+              value={addAnalysisId}
+              onChange={(e) => setAddAnalysisId(e.target.value)}
+              className="flex-1 min-w-0 px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-200"
+            >
+              <option value="">Add an analyzed call...</option>
+              {candidates.map(a => (
+                <option key={a.id} value={a.id}>{a.title || a.id} ({new Date(a.created_at).toLocaleDateString()})</option>
+              ))}
+            </select>
+            <button
+              onClick={addGoldenCall}
+              disabled={!addAnalysisId}
+              className="px-3 py-1.5 rounded-lg text-sm border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+
+        {/* Start + previous runs */}
+        <div className="bg-slate-800/50 rounded-xl border border-slate-700/50 overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-700/50 text-sm font-medium text-slate-300">
+            Replay Runs
+            <p className="text-xs font-normal text-slate-500">Dry runs - scores are saved separately, analyses are not changed</p>
+          </div>
+          <div className="flex gap-2 p-3 border-b border-slate-700/50">
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What changed in this prompt?"
+              className="flex-1 min-w-0 px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500"
+            />
+            <button
+              onClick={startRun}
+              disabled={starting || goldenCalls.length === 0}
+              className="px-3 py-1.5 rounded-lg text-sm bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30 disabled:opacity-50"
+            >
+              {starting ? 'Starting...' : 'Replay editor prompt'}
+            </button>
+          </div>
+          <div className="max-h-40 overflow-auto divide-y divide-slate-700/50">
+            {runs.map(run => (
+              <button
+                key={run.id}
+                onClick={() => setSelectedRunId(run.id)}
+                className={`w-full text-left px-4 py-2 text-sm hover:bg-slate-700/50 ${run.id === selectedRunId ? 'bg-slate-700/50' : ''}`}
+              >
+                <span className="text-slate-200">{run.description || 'Untitled run'}</span>
+                <span className="ml-2 text-xs text-slate-500">{new Date(run.created_at).toLocaleString()}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Report */}
+      {report && (
+        <div className="space-y-4">
+          {report.pending > 0 && (
+            <div className="p-3 rounded-lg bg-blue-500/10 border border-blue-500/20 text-sm text-blue-300">
+              {report.pending} replay{report.pending === 1 ? '' : 's'} still running - results update automatically.
+            </div>
+          )}
+
+          <div className="grid sm:grid-cols-3 gap-4">
+            {(['baseline', 'candidate'] as PromptReplayVariant[]).map(variant => {
+              const summary = report.summary[variant]
+              return (
+                <div key={variant} className="bg-slate-800/50 rounded-xl border border-slate-700/50 p-4 text-sm">
+                  <h4 className="font-medium text-slate-300 mb-2">{VARIANT_LABELS[variant]}</h4>
+                  <div className="space-y-1 text-xs">
+                    <div className="flex justify-between"><span className="text-slate-500">Total score MAE</span><span className="text-slate-200 font-mono">{formatNumber(summary.totalScoreMae)}</span></div>
+                    <div className="flex justify-between"><span className="text-slate-500">Checkpoint MAE</span><span className="text-slate-200 font-mono">{formatNumber(summary.checkpointMae)}</span></div>
+                    <div className="flex justify-between"><span className="text-slate-500">Rating matches</span><span className="text-slate-200 font-mono">{summary.ratingMatches}/{summary.completed}</span></div>
+                    {summary.failed > 0 && (
+                      <div className="flex justify-between"><span className="text-slate-500">Failed</span><span className="text-red-400 font-mono">{summary.failed}</span></div>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+            <div className="bg-slate-800/50 rounded-xl border border-slate-700/50 p-4 text-sm">
+              <h4 className="font-medium text-slate-300 mb-2">Rating changes</h4>
+              <div className="text-2xl font-bold text-white">{report.ratingChanges}</div>
+              <p className="text-xs text-slate-500">calls where the candidate gives a different rating than the current prompt</p>
+            </div>
+          </div>
+
+          {/* Per-checkpoint deltas */}
+          <div className="bg-slate-800/50 rounded-xl border border-slate-700/50 overflow-auto">
+            <table className="w-full text-xs">
+              <thead className="text-slate-400 border-b border-slate-700/50">
+                <tr>
+                  <th className="text-left px-4 py-2">Checkpoint</th>
+                  <th className="text-right px-4 py-2">Current Δ (MAE)</th>
+                  <th className="text-right px-4 py-2">Candidate Δ (MAE)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700/30">
+                {report.checkpoints.map(cp => (
+                  <tr key={`${cp.phase}:${cp.name}`}>
+                    <td className="px-4 py-1.5 text-slate-300">
+                      <span className="uppercase text-slate-500 mr-2">{cp.phase}</span>{cp.name}
+                    </td>
+                    {(['baseline', 'candidate'] as PromptReplayVariant[]).map(variant => (
+                      <td key={variant} className="px-4 py-1.5 text-right font-mono">
+                        <span className={deltaColor(cp.meanDelta[variant])}>{formatDelta(cp.meanDelta[variant])}</span>
+                        <span className="text-slate-500"> ({formatNumber(cp.mae[variant])})</span>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Per-call results */}
+          <div className="bg-slate-800/50 rounded-xl border border-slate-700/50 overflow-auto">
+            <table className="w-full text-xs">
+              <thead className="text-slate-400 border-b border-slate-700/50">
+                <tr>
+                  <th className="text-left px-4 py-2">Call</th>
+                  <th className="text-left px-4 py-2">Approved</th>
+                  <th className="text-left px-4 py-2">Current prompt</th>
+                  <th className="text-left px-4 py-2">Candidate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700/30">
+                {report.calls.map(call => (
+                  <tr key={call.goldenCallId} className={call.ratingChanged ? 'bg-amber-500/5' : ''}>
+                    <td className="px-4 py-1.5 text-slate-300 truncate max-w-[200px]">
+                      {call.ratingChanged && <span className="text-amber-400 mr-1" title="Rating changed">⚠</span>}
+                      {call.fileName || call.goldenCallId}
+                    </td>
+                    <td className="px-4 py-1.5 text-slate-300">{call.approvedTotal} {call.approvedRating}</td>
+                    <td className="px-4 py-1.5"><OutcomeCell outcome={call.variants.baseline} /></td>
+                    <td className="px-4 py-1.5"><OutcomeCell outcome={call.variants.candidate} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
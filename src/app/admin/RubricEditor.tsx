@@ -0,0 +1,347 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { useToast } from '@/components/ui/Toast'
+import { W4Rubric, W4RubricDefinition, W4PhaseKey } from '@/types/database'
+import { W4_PHASE_KEYS, getPhaseMaxScore, getRubricMaxScore, validateRubricDefinition } from '@/lib/w4/rubric'
+
+const PHASE_COLORS: Record<W4PhaseKey, string> = {
+  why: 'text-amber-400',
+  what: 'text-blue-400',
+  who: 'text-purple-400',
+  when: 'text-emerald-400',
+}
+
+const RATING_KEYS = ['MVP', 'Playmaker', 'Starter', 'Prospect'] as const
+
+function cloneDefinition(definition: W4RubricDefinition): W4RubricDefinition {
+  return JSON.parse(JSON.stringify(definition))
+}
+
+export default function RubricEditor() {
+  const [rubrics, setRubrics] = useState<W4Rubric[]>([])
+  const [builtIn, setBuiltIn] = useState<W4RubricDefinition | null>(null)
+  const [selectedName, setSelectedName] = useState('default')
+  const [newName, setNewName] = useState('')
+  const [draft, setDraft] = useState<W4RubricDefinition | null>(null)
+  const [baseVersion, setBaseVersion] = useState<number>(0)
+  const [description, setDescription] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const toast = useToast()
+
+  const loadRubrics = async (name = selectedName) => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/rubrics')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.message || 'Failed to load rubrics')
+
+      setRubrics(data.rubrics)
+      setBuiltIn(data.builtIn)
+      selectVariant(name, data.rubrics, data.builtIn)
+    } catch (err) {
+      console.error('Error loading rubrics:', err)
+      toast.error('Failed to load rubrics')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadRubrics()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // Load the active version of a variant into the editor (or its latest, or the built-in default)
+  const selectVariant = (name: string, list = rubrics, fallback = builtIn) => {
+    const versions = list.filter(r => r.name === name)
+    const base = versions.find(r => r.is_active) || versions[0]
+    setSelectedName(name)
+    setBaseVersion(base?.version || 0)
+    setDraft(base ? cloneDefinition(base.definition) : fallback ? cloneDefinition(fallback) : null)
+    setDescription('')
+  }
+
+  const loadVersion = (rubric: W4Rubric) => {
+    setBaseVersion(rubric.version)
+    setDraft(cloneDefinition(rubric.definition))
+    setDescription('')
+  }
+
+  const variantNames = useMemo(
+    () => Array.from(new Set(['default', ...rubrics.map(r => r.name)])),
+    [rubrics]
+  )
+  const versions = rubrics.filter(r => r.name === selectedName)
+  const problems = draft ? validateRubricDefinition(draft) : []
+
+  const updateDraft = (update: (next: W4RubricDefinition) => void) => {
+    if (!draft) return
+    const next = cloneDefinition(draft)
+    update(next)
+    setDraft(next)
+  }
+
+  const saveVersion = async () => {
+    if (!draft || problems.length > 0) return
+    setSaving(true)
+    try {
+      const response = await fetch('/api/admin/rubrics', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: selectedName, description, definition: draft, activate: true }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.message || 'Failed to save rubric')
+
+      toast.success(`Saved ${selectedName} v${data.rubric.version} and made it active`)
+      await loadRubrics(selectedName)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save rubric')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const activateVersion = async (rubric: W4Rubric) => {
+    try {
+      const response = await fetch('/api/admin/rubrics', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'activate', id: rubric.id }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.message || 'Failed to activate rubric')
+
+      toast.success(`${rubric.name} v${rubric.version} is now active`)
+      await loadRubrics(selectedName)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to activate rubric')
+    }
+  }
+
+  const createVariant = () => {
+    const name = newName.trim().toLowerCase()
+    if (!/^[a-z0-9][a-z0-9_-]{0,39}$/.test(name)) {
+      toast.error('Use lowercase letters, numbers, - or _')
+      return
+    }
+    // New variants start from whatever is in the editor
+    setSelectedName(name)
+    setBaseVersion(0)
+    setNewName('')
+  }
+
+  if (loading && !draft) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin w-8 h-8 border-2 border-emerald-500 border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  if (!draft) return null
+
+  const total = getRubricMaxScore(draft)
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">W4 Rubrics</h2>
+          <p className="text-slate-400 text-sm">
+            Checkpoint weights and rating thresholds. Saving creates a new version; reports record the version that scored them.
+          </p>
+        </div>
+        <button
+          onClick={saveVersion}
+          disabled={saving || problems.length > 0}
+          className={`px-5 py-2 rounded-lg font-medium flex items-center gap-2 ${
+            problems.length === 0
+              ? 'bg-gradient-to-r from-emerald-500 to-green-500 text-white hover:from-emerald-600 hover:to-green-600'
+              : 'bg-slate-800 text-slate-500 cursor-not-allowed'
+          }`}
+        >
+          {saving ? 'Saving...' : `Save as ${selectedName} v${(versions[0]?.version || 0) + 1}`}
+        </button>
+      </div>
+
+      {/* Variant picker */}
+      <div className="flex flex-wrap items-center gap-2">
+        {variantNames.map(name => (
+          <button
+            key={name}
+            onClick={() => selectVariant(name)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              selectedName === name ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'
+            }`}
+          >
+            {name}
+          </button>
+        ))}
+        {!variantNames.includes(selectedName) && (
+          <span className="px-3 py-1.5 rounded-lg text-sm font-medium bg-slate-700 text-white">{selectedName} (new)</span>
+        )}
+        <div className="flex items-center gap-2 ml-auto">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="new variant, e.g. storm"
+            className="px-3 py-1.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500"
+          />
+          <button
+            onClick={createVariant}
+            disabled={!newName.trim()}
+            className="px-3 py-1.5 border border-slate-700 text-slate-300 rounded-lg text-sm hover:bg-slate-800 disabled:opacity-50"
+          >
+            Add variant
+          </button>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-4 gap-4">
+        {/* Editor */}
+        <div className="lg:col-span-3 space-y-4">
+          <div className="text-xs text-slate-500">
+            Editing from {baseVersion ? `v${baseVersion}` : 'the built-in default'}
+          </div>
+
+          {W4_PHASE_KEYS.map(phaseKey => {
+            const phase = draft.phases[phaseKey]
+            return (
+              <div key={phaseKey} className="bg-slate-800/50 rounded-xl border border-slate-700/50 overflow-hidden">
+                <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700/50">
+                  <span className={`font-medium ${PHASE_COLORS[phaseKey]}`}>{phase.name}</span>
+                  <span className="text-xs text-slate-400">{getPhaseMaxScore(draft, phaseKey)} pts</span>
+                </div>
+                <div className="divide-y divide-slate-700/30">
+                  {phase.checkpoints.map((cp, i) => (
+                    <div key={i} className="grid grid-cols-12 gap-2 p-3 items-start">
+                      <input
+                        type="text"
+                        value={cp.name}
+                        onChange={(e) => updateDraft(d => { d.phases[phaseKey].checkpoints[i].name = e.target.value })}
+                        placeholder="Checkpoint name"
+                        className="col-span-4 px-2 py-1.5 bg-slate-950 border border-slate-700/50 rounded text-sm text-white focus:outline-none focus:border-emerald-500"
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        value={cp.maxScore}
+                        onChange={(e) => updateDraft(d => { d.phases[phaseKey].checkpoints[i].maxScore = Number(e.target.value) })}
+                        className="col-span-1 px-2 py-1.5 bg-slate-950 border border-slate-700/50 rounded text-sm text-white text-center focus:outline-none focus:border-emerald-500"
+                      />
+                      <input
+                        type="text"
+                        value={cp.guidance}
+                        onChange={(e) => updateDraft(d => { d.phases[phaseKey].checkpoints[i].guidance = e.target.value })}
+                        placeholder="What the justification should cover"
+                        className="col-span-6 px-2 py-1.5 bg-slate-950 border border-slate-700/50 rounded text-sm text-slate-300 focus:outline-none focus:border-emerald-500"
+                      />
+                      <button
+                        onClick={() => updateDraft(d => { d.phases[phaseKey].checkpoints.splice(i, 1) })}
+                        className="col-span-1 p-1.5 text-slate-500 hover:text-red-400"
+                        title="Remove checkpoint"
+                      >
+                        <svg className="w-4 h-4 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => updateDraft(d => { d.phases[phaseKey].checkpoints.push({ name: '', maxScore: 1, guidance: '' }) })}
+                  className="w-full px-4 py-2 text-sm text-slate-400 hover:text-white hover:bg-slate-800 border-t border-slate-700/50"
+                >
+                  + Add checkpoint
+                </button>
+              </div>
+            )
+          })}
+        </div>
+
+        {/* Side panel */}
+        <div className="space-y-4">
+          <div className={`rounded-xl border p-4 ${total === 100 ? 'border-emerald-500/30 bg-emerald-500/10' : 'border-red-500/30 bg-red-500/10'}`}>
+            <div className="text-xs text-slate-400">Total</div>
+            <div className={`text-2xl font-bold ${total === 100 ? 'text-emerald-400' : 'text-red-400'}`}>{total} / 100</div>
+          </div>
+
+          <div className="bg-slate-800/50 rounded-xl border border-slate-700/50 p-4 space-y-2">
+            <h4 className="text-sm font-medium text-slate-300">Rating thresholds</h4>
+            {RATING_KEYS.map(rating => (
+              <label key={rating} className="flex items-center justify-between text-xs">
+                <span className="text-slate-400">{rating} from</span>
+                <input
+                  type="number"
+                  value={draft.ratingThresholds[rating]}
+                  onChange={(e) => updateDraft(d => { d.ratingThresholds[rating] = Number(e.target.value) })}
+                  className="w-16 px-2 py-1 bg-slate-950 border border-slate-700/50 rounded text-white text-center focus:outline-none focus:border-emerald-500"
+                />
+              </label>
+            ))}
+            <label className="flex items-center justify-between text-xs pt-2 border-t border-slate-700/50">
+              <span className="text-slate-400">No-sale cap</span>
+              <input
+                type="number"
+                value={draft.noSaleScoreCap}
+                onChange={(e) => updateDraft(d => { d.noSaleScoreCap = Number(e.target.value) })}
+                className="w-16 px-2 py-1 bg-slate-950 border border-slate-700/50 rounded text-white text-center focus:outline-none focus:border-emerald-500"
+              />
+            </label>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">Version description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g., Added insurance claim walkthrough"
+              className="w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white placeholder-slate-500 focus:border-emerald-500 focus:outline-none"
+            />
+          </div>
+
+          {problems.length > 0 && (
+            <ul className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-xs text-red-400 space-y-1">
+              {problems.map(problem => <li key={problem}>• {problem}</li>)}
+            </ul>
+          )}
+
+          {/* Version history */}
+          <div className="bg-slate-800/50 rounded-xl border border-slate-700/50 overflow-hidden">
+            <div className="px-4 py-3 border-b border-slate-700/50 text-sm font-medium text-slate-300">Versions</div>
+            {versions.length === 0 ? (
+              <p className="p-4 text-xs text-slate-500">No saved versions - the built-in default is in use.</p>
+            ) : (
+              <div className="divide-y divide-slate-700/30 max-h-80 overflow-auto">
+                {versions.map(rubric => (
+                  <div key={rubric.id} className="p-3 text-xs space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-white">v{rubric.version}</span>
+                      {rubric.is_active && (
+                        <span className="px-1.5 py-0.5 rounded bg-emerald-500/20 text-emerald-400">Active</span>
+                      )}
+                      <span className="ml-auto text-slate-500">{new Date(rubric.created_at).toLocaleDateString()}</span>
+                    </div>
+                    {rubric.description && <p className="text-slate-400">{rubric.description}</p>}
+                    <div className="flex gap-3">
+                      <button onClick={() => loadVersion(rubric)} className="text-slate-400 hover:text-white">Edit copy</button>
+                      {!rubric.is_active && (
+                        <button onClick={() => activateVersion(rubric)} className="text-emerald-400 hover:text-emerald-300">Activate</button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
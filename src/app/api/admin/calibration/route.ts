@@ -0,0 +1,59 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { buildCalibrationReport } from '@/lib/w4/overrides'
+import { W4ScoreOverride } from '@/types/database'
+
+async function requireAdmin(supabase: SupabaseClient) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ message: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profile?.role !== 'admin') {
+    return { user: null, response: NextResponse.json({ message: 'Admin access required' }, { status: 403 }) }
+  }
+
+  return { user, response: null }
+}
+
+// GET - Where managers disagree with the AI: per-checkpoint override deltas and the latest overrides
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { response } = await requireAdmin(supabase)
+    if (response) return response
+
+    const { data, error } = await supabase
+      .from('w4_score_overrides')
+      .select('*')
+      .order('updated_at', { ascending: false })
+
+    if (error) throw error
+    const overrides = (data || []) as W4ScoreOverride[]
+
+    const reviewerIds = [...new Set(overrides.map(o => o.overridden_by).filter(Boolean))]
+    const { data: reviewers } = reviewerIds.length > 0
+      ? await supabase.from('profiles').select('id, email').in('id', reviewerIds)
+      : { data: [] }
+    const emails = Object.fromEntries((reviewers || []).map((r: { id: string; email: string }) => [r.id, r.email]))
+
+    return NextResponse.json({ calibration: buildCalibrationReport(overrides, emails) })
+  } catch (error) {
+    console.error('Error building calibration report:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to build calibration report' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
-import { W4_EDITABLE_CONTENT, W4_OUTPUT_FORMAT } from '@/app/api/analyze/w4-prompt'
+import { W4_EDITABLE_CONTENT, buildW4OutputFormat } from '@/app/api/analyze/w4-prompt'
+import { loadActiveRubric } from '@/lib/w4/rubric'
 
 // GET - Return the default prompt from the codebase
 export async function GET() {
@@ -28,7 +29,7 @@ export async function GET() {
 
     return NextResponse.json({ 
       prompt: W4_EDITABLE_CONTENT,
-      lockedOutput: W4_OUTPUT_FORMAT 
+      lockedOutput: buildW4OutputFormat((await loadActiveRubric(supabase)).definition), // Generated from the active default rubric
     })
   } catch (error) {
     console.error('Error fetching default prompt:', error)
@@ -0,0 +1,260 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { W4_EDITABLE_CONTENT } from '@/app/api/analyze/w4-prompt'
+import { requestReplayJob } from '@/lib/jobs/queue'
+import { buildReplayReport, getApprovedScores, REPLAY_VARIANTS } from '@/lib/w4/replay'
+import { PromptGoldenCall, PromptReplayResult } from '@/types/database'
+
+const PROMPT_NAME = 'w4_analysis'
+
+async function requireAdmin(supabase: SupabaseClient) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ message: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profile?.role !== 'admin') {
+    return { user: null, response: NextResponse.json({ message: 'Admin access required' }, { status: 403 }) }
+  }
+
+  return { user, response: null }
+}
+
+// Golden calls with the recording's file name spread in for display
+async function loadGoldenCalls(supabase: SupabaseClient): Promise<PromptGoldenCall[]> {
+  const { data, error } = await supabase
+    .from('prompt_golden_calls')
+    .select('*, ...recordings(file_name)')
+    .order('created_at')
+    .overrideTypes<PromptGoldenCall[], { merge: false }>()
+
+  if (error) throw error
+  return data || []
+}
+
+// GET - Golden set, recent runs and analyses that could join the set; ?runId= adds that run's report
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { response } = await requireAdmin(supabase)
+    if (response) return response
+
+    const goldenCalls = await loadGoldenCalls(supabase)
+
+    const { data: runs, error: runsError } = await supabase
+      .from('prompt_replay_runs')
+      .select('id, description, candidate_version_id, baseline_version_id, created_at')
+      .eq('prompt_name', PROMPT_NAME)
+      .order('created_at', { ascending: false })
+      .limit(20)
+
+    if (runsError) throw runsError
+
+    const { data: analyses } = await supabase
+      .from('audio_analyses')
+      .select('id, recording_id, title, created_at')
+      .eq('processing_status', 'done')
+      .not('w4_report', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(50)
+
+    const goldenAnalysisIds = new Set(goldenCalls.map(c => c.analysis_id))
+    const candidates = (analyses || []).filter((a: { id: string }) => !goldenAnalysisIds.has(a.id))
+
+    const url = new URL(request.url)
+    const runId = url.searchParams.get('runId')
+    let run = null
+    let report = null
+
+    if (runId) {
+      const { data: runRow, error: runError } = await supabase
+        .from('prompt_replay_runs')
+        .select('*')
+        .eq('id', runId)
+        .single()
+
+      if (runError || !runRow) {
+        return NextResponse.json({ message: 'Replay run not found' }, { status: 404 })
+      }
+
+      const { data: results, error: resultsError } = await supabase
+        .from('prompt_replay_results')
+        .select('*')
+        .eq('run_id', runId)
+
+      if (resultsError) throw resultsError
+
+      run = runRow
+      report = buildReplayReport(goldenCalls, (results || []) as PromptReplayResult[])
+    }
+
+    return NextResponse.json({
+      goldenCalls,
+      runs: runs || [],
+      candidates,
+      run,
+      report,
+    })
+  } catch (error) {
+    console.error('Error fetching prompt replays:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch prompt replays' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Manage the golden set or start a replay run
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { user, response } = await requireAdmin(supabase)
+    if (response) return response
+
+    const { action, analysisId, notes, id, prompt, versionId, description } = await request.json()
+
+    if (action === 'add_golden') {
+      if (!analysisId) {
+        return NextResponse.json({ message: 'Analysis id is required' }, { status: 400 })
+      }
+
+      const { data: analysis } = await supabase
+        .from('audio_analyses')
+        .select('id, recording_id, w4_report')
+        .eq('id', analysisId)
+        .single()
+
+      if (!analysis?.w4_report) {
+        return NextResponse.json({ message: 'Analysis has no W4 report to approve' }, { status: 400 })
+      }
+
+      // The reviewed report's scores become the expected answer for this call
+      const { data: goldenCall, error } = await supabase
+        .from('prompt_golden_calls')
+        .insert({
+          recording_id: analysis.recording_id,
+          analysis_id: analysis.id,
+          approved_scores: getApprovedScores(analysis.w4_report),
+          notes: notes || null,
+          added_by: user.id,
+        })
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === '23505') {
+          return NextResponse.json({ message: 'This call is already in the golden set' }, { status: 409 })
+        }
+        throw error
+      }
+
+      return NextResponse.json({ success: true, goldenCall })
+    }
+
+    if (action === 'remove_golden') {
+      if (!id) {
+        return NextResponse.json({ message: 'Golden call id is required' }, { status: 400 })
+      }
+      const { error } = await supabase.from('prompt_golden_calls').delete().eq('id', id)
+      if (error) throw error
+      return NextResponse.json({ success: true })
+    }
+
+    if (action === 'start') {
+      // Candidate is either a saved version or unsaved editor text
+      let candidatePrompt = typeof prompt === 'string' ? prompt : ''
+      if (versionId) {
+        const { data: version } = await supabase
+          .from('admin_prompt_versions')
+          .select('prompt')
+          .eq('id', versionId)
+          .single()
+        if (!version) {
+          return NextResponse.json({ message: 'Version not found' }, { status: 404 })
+        }
+        candidatePrompt = version.prompt
+      }
+
+      if (!candidatePrompt.trim()) {
+        return NextResponse.json({ message: 'Candidate prompt is required' }, { status: 400 })
+      }
+
+      const goldenCalls = await loadGoldenCalls(supabase)
+      if (goldenCalls.length === 0) {
+        return NextResponse.json({ message: 'Add calls to the golden set first' }, { status: 400 })
+      }
+
+      // Baseline = whatever processAnalysis would use right now
+      const { data: current } = await supabase
+        .from('admin_prompts')
+        .select('prompt, current_version_id')
+        .eq('name', PROMPT_NAME)
+        .eq('is_active', true)
+        .maybeSingle()
+
+      const { data: run, error: runError } = await supabase
+        .from('prompt_replay_runs')
+        .insert({
+          prompt_name: PROMPT_NAME,
+          candidate_prompt: candidatePrompt,
+          candidate_version_id: versionId || null,
+          baseline_prompt: current?.prompt || W4_EDITABLE_CONTENT,
+          baseline_version_id: current?.prompt ? current.current_version_id || null : null,
+          description: description || null,
+          created_by: user.id,
+        })
+        .select()
+        .single()
+
+      if (runError) throw runError
+
+      const { data: results, error: resultsError } = await supabase
+        .from('prompt_replay_results')
+        .insert(goldenCalls.flatMap(call => REPLAY_VARIANTS.map(variant => ({
+          run_id: run.id,
+          golden_call_id: call.id,
+          variant,
+        }))))
+        .select()
+
+      if (resultsError) throw resultsError
+
+      for (const result of (results || []) as PromptReplayResult[]) {
+        const { error: jobError } = await requestReplayJob(supabase, result.id)
+        if (jobError) {
+          console.error('❌ Failed to enqueue replay job:', jobError)
+          await supabase.from('prompt_replay_results').update({
+            status: 'error',
+            error_message: `Failed to queue: ${jobError.message}`,
+          }).eq('id', result.id)
+        }
+      }
+
+      console.log(`🧪 Started prompt replay ${run.id}: ${goldenCalls.length} calls x ${REPLAY_VARIANTS.length} prompts`)
+      return NextResponse.json({ success: true, run })
+    }
+
+    return NextResponse.json({ message: 'Invalid action' }, { status: 400 })
+  } catch (error) {
+    console.error('Error in prompt replay:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed' },
+      { status: 500 }
+    )
+  }
+}
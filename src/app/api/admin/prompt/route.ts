@@ -1,6 +1,56 @@
+import { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
-import { W4_OUTPUT_FORMAT } from '@/app/api/analyze/w4-prompt'
+import { buildW4OutputFormat } from '@/app/api/analyze/w4-prompt'
+import { loadActiveRubric } from '@/lib/w4/rubric'
+
+// Every save inserts an immutable version, then points admin_prompts at it.
+// Rollback goes through here too, so history only ever grows.
+async function savePromptVersion(
+  supabase: SupabaseClient,
+  params: { name: string; prompt: string; description?: string | null; userId: string }
+) {
+  const { name, prompt, description, userId } = params
+
+  const { data: latest } = await supabase
+    .from('admin_prompt_versions')
+    .select('version')
+    .eq('prompt_name', name)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { data: version, error: versionError } = await supabase
+    .from('admin_prompt_versions')
+    .insert({
+      prompt_name: name,
+      version: (latest?.version || 0) + 1,
+      prompt,
+      description: description || null,
+      created_by: userId,
+    })
+    .select()
+    .single()
+
+  if (versionError) return { data: null, version: null, error: versionError }
+
+  const { data, error } = await supabase
+    .from('admin_prompts')
+    .upsert({
+      name,
+      prompt,
+      description,
+      current_version_id: version.id,
+      updated_at: new Date().toISOString(),
+      updated_by: userId,
+    }, {
+      onConflict: 'name',
+    })
+    .select()
+    .single()
+
+  return { data, version, error }
+}
 
 // GET - Fetch prompt by name
 export async function GET(request: Request) {
@@ -41,7 +91,7 @@ export async function GET(request: Request) {
 
     return NextResponse.json({ 
       prompt,
-      lockedOutput: W4_OUTPUT_FORMAT 
+      lockedOutput: buildW4OutputFormat((await loadActiveRubric(supabase)).definition), // Generated from the active default rubric
     })
   } catch (error) {
     console.error('Error fetching prompt:', error)
@@ -52,7 +102,7 @@ export async function GET(request: Request) {
   }
 }
 
-// PUT - Update or create prompt
+// PUT - Save prompt as a new version and make it current
 export async function PUT(request: Request) {
   try {
     const supabase = await createClient()
@@ -82,26 +132,16 @@ export async function PUT(request: Request) {
       return NextResponse.json({ message: 'Name and prompt are required' }, { status: 400 })
     }
 
-    // Upsert the prompt
-    const { data, error } = await supabase
-      .from('admin_prompts')
-      .upsert({
-        name,
-        prompt,
-        description,
-        updated_at: new Date().toISOString(),
-        updated_by: user.id,
-      }, {
-        onConflict: 'name',
-      })
-      .select()
-      .single()
+    const { data, version, error } = await savePromptVersion(supabase, { name, prompt, description, userId: user.id })
 
     if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ message: 'Someone else just saved this prompt - reload and try again' }, { status: 409 })
+      }
       throw error
     }
 
-    return NextResponse.json({ success: true, prompt: data })
+    return NextResponse.json({ success: true, prompt: data, version })
   } catch (error) {
     console.error('Error updating prompt:', error)
     return NextResponse.json(
@@ -111,7 +151,7 @@ export async function PUT(request: Request) {
   }
 }
 
-// GET all prompts (for listing)
+// POST - List prompts, list a prompt's versions, or roll back to a version
 export async function POST(request: Request) {
   try {
     const supabase = await createClient()
@@ -135,7 +175,7 @@ export async function POST(request: Request) {
       return NextResponse.json({ message: 'Admin access required' }, { status: 403 })
     }
 
-    const { action } = await request.json()
+    const { action, name = 'w4_analysis', versionId } = await request.json()
 
     if (action === 'list') {
       const { data: prompts, error } = await supabase
@@ -147,6 +187,69 @@ export async function POST(request: Request) {
       return NextResponse.json({ prompts })
     }
 
+    if (action === 'versions') {
+      const { data: versions, error } = await supabase
+        .from('admin_prompt_versions')
+        .select('*')
+        .eq('prompt_name', name)
+        .order('version', { ascending: false })
+
+      if (error) throw error
+
+      const authorIds = [...new Set((versions || []).map((v: { created_by: string | null }) => v.created_by).filter(Boolean))]
+      const { data: authors } = authorIds.length > 0
+        ? await supabase.from('profiles').select('id, email').in('id', authorIds)
+        : { data: [] }
+      const emailById = new Map((authors || []).map((a: { id: string; email: string }) => [a.id, a.email]))
+
+      const { data: current } = await supabase
+        .from('admin_prompts')
+        .select('current_version_id')
+        .eq('name', name)
+        .maybeSingle()
+
+      return NextResponse.json({
+        versions: (versions || []).map((v: { created_by: string | null }) => ({
+          ...v,
+          author_email: v.created_by ? emailById.get(v.created_by) || null : null,
+        })),
+        currentVersionId: current?.current_version_id || null,
+      })
+    }
+
+    if (action === 'rollback') {
+      if (!versionId) {
+        return NextResponse.json({ message: 'Version id is required' }, { status: 400 })
+      }
+
+      const { data: target, error: targetError } = await supabase
+        .from('admin_prompt_versions')
+        .select('*')
+        .eq('id', versionId)
+        .single()
+
+      if (targetError || !target) {
+        return NextResponse.json({ message: 'Version not found' }, { status: 404 })
+      }
+
+      // Rolling back re-publishes the old text as a new version
+      const { data, version, error } = await savePromptVersion(supabase, {
+        name: target.prompt_name,
+        prompt: target.prompt,
+        description: `Rollback to v${target.version}`,
+        userId: user.id,
+      })
+
+      if (error) {
+        if (error.code === '23505') {
+          return NextResponse.json({ message: 'Someone else just saved this prompt - reload and try again' }, { status: 409 })
+        }
+        throw error
+      }
+
+      return NextResponse.json({ success: true, prompt: data, version })
+    }
+
     return NextResponse.json({ message: 'Invalid action' }, { status: 400 })
   } catch (error) {
     console.error('Error:', error)
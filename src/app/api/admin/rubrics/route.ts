@@ -0,0 +1,163 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { buildW4OutputFormat } from '@/app/api/analyze/w4-prompt'
+import { DEFAULT_W4_RUBRIC, validateRubricDefinition } from '@/lib/w4/rubric'
+
+const RUBRIC_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/
+
+async function requireAdmin(supabase: SupabaseClient) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ message: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profile?.role !== 'admin') {
+    return { user: null, response: NextResponse.json({ message: 'Admin access required' }, { status: 403 }) }
+  }
+
+  return { user, response: null }
+}
+
+// GET - List every rubric version (newest first) plus the built-in default
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { response } = await requireAdmin(supabase)
+    if (response) return response
+
+    const { data: rubrics, error } = await supabase
+      .from('w4_rubrics')
+      .select('*')
+      .order('name')
+      .order('version', { ascending: false })
+
+    if (error) throw error
+
+    return NextResponse.json({
+      rubrics: rubrics || [],
+      builtIn: DEFAULT_W4_RUBRIC,
+    })
+  } catch (error) {
+    console.error('Error fetching rubrics:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch rubrics' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Save a rubric as a new version (versions are never edited in place)
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { user, response } = await requireAdmin(supabase)
+    if (response) return response
+
+    const { name = 'default', description, definition, activate = true } = await request.json()
+
+    if (typeof name !== 'string' || !RUBRIC_NAME_PATTERN.test(name)) {
+      return NextResponse.json({ message: 'Rubric name must be lowercase letters, numbers, - or _' }, { status: 400 })
+    }
+
+    const problems = validateRubricDefinition(definition)
+    if (problems.length > 0) {
+      return NextResponse.json({ message: problems[0], errors: problems }, { status: 400 })
+    }
+
+    const { data: latest } = await supabase
+      .from('w4_rubrics')
+      .select('version')
+      .eq('name', name)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const { data: rubric, error } = await supabase
+      .from('w4_rubrics')
+      .insert({
+        name,
+        version: (latest?.version || 0) + 1,
+        description: description || null,
+        definition,
+        created_by: user.id,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ message: 'Someone else just saved this rubric - reload and try again' }, { status: 409 })
+      }
+      throw error
+    }
+
+    if (activate) {
+      const { data: activated, error: activateError } = await supabase.rpc('activate_w4_rubric', { p_rubric_id: rubric.id })
+      if (activateError) throw activateError
+      return NextResponse.json({ success: true, rubric: activated })
+    }
+
+    return NextResponse.json({ success: true, rubric })
+  } catch (error) {
+    console.error('Error saving rubric:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to save rubric' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Activate an existing version, or preview the output format for a draft
+export async function PUT(request: Request) {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { response } = await requireAdmin(supabase)
+    if (response) return response
+
+    const { action, id, definition } = await request.json()
+
+    if (action === 'activate') {
+      if (!id) {
+        return NextResponse.json({ message: 'Rubric id is required' }, { status: 400 })
+      }
+      const { data: rubric, error } = await supabase.rpc('activate_w4_rubric', { p_rubric_id: id })
+      if (error) throw error
+      return NextResponse.json({ success: true, rubric })
+    }
+
+    if (action === 'preview') {
+      const problems = validateRubricDefinition(definition)
+      if (problems.length > 0) {
+        return NextResponse.json({ message: problems[0], errors: problems }, { status: 400 })
+      }
+      return NextResponse.json({ outputFormat: buildW4OutputFormat(definition) })
+    }
+
+    return NextResponse.json({ message: 'Invalid action' }, { status: 400 })
+  } catch (error) {
+    console.error('Error updating rubric:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update rubric' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,10 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
 import { SupabaseClient } from '@supabase/supabase-js'
+import { generateText, getProviderForModel, isModelConfigured } from '@/lib/ai'
 import { TranscriptSection } from '@/types/database'
 
 const CHUNK_DURATION_MINUTES = 45
 const RATE_LIMIT_DELAY_MS = 35000 // 35 seconds between API calls
+const MODEL_NAME = 'gemini-2.0-flash-exp'
 
 interface ProcessorParams {
   supabase: SupabaseClient
@@ -111,9 +112,8 @@ Return ONLY valid JSON.`
 export async function processAnalysis(params: ProcessorParams): Promise<void> {
   const { supabase, analysisId, recordingId, filePath, totalChunks, durationSeconds, fileSizeBytes } = params
 
-  const geminiApiKey = process.env.GEMINI_API_KEY
-  if (!geminiApiKey) {
-    await updateError(supabase, analysisId, recordingId, 'Gemini API key not configured')
+  if (!isModelConfigured(MODEL_NAME)) {
+    await updateError(supabase, analysisId, recordingId, 'AI API key not configured')
     return
   }
 
@@ -131,26 +131,17 @@ export async function processAnalysis(params: ProcessorParams): Promise<void> {
       return
     }
 
-    const arrayBuffer = await audioData.arrayBuffer()
-    const base64Audio = Buffer.from(arrayBuffer).toString('base64')
-    
     let mimeType = 'audio/webm'
     if (filePath.endsWith('.mp3')) mimeType = 'audio/mp3'
     else if (filePath.endsWith('.wav')) mimeType = 'audio/wav'
     else if (filePath.endsWith('.m4a')) mimeType = 'audio/mp4'
     else if (filePath.endsWith('.ogg')) mimeType = 'audio/ogg'
 
-    console.log(`Audio loaded: ${(base64Audio.length / 1024 / 1024).toFixed(2)}MB, type: ${mimeType}`)
+    console.log(`Audio loaded: ${(audioData.size / 1024 / 1024).toFixed(2)}MB, type: ${mimeType}`)
 
-    // Initialize Gemini
-    const genAI = new GoogleGenerativeAI(geminiApiKey)
-    const model = genAI.getGenerativeModel({ 
-      model: 'gemini-2.0-flash-exp',
-      generationConfig: {
-        temperature: 0.1,
-        maxOutputTokens: 8192,
-      }
-    })
+    // Upload once, reuse for every chunk
+    const provider = getProviderForModel(MODEL_NAME)
+    const file = await provider.uploadFile(audioData, mimeType)
 
     // Calculate duration in minutes
     let totalMinutes: number
@@ -180,12 +171,13 @@ export async function processAnalysis(params: ProcessorParams): Promise<void> {
       try {
         const prompt = getChunkPrompt(chunkIndex, totalChunks, startMinutes, endMinutes, previousSummary)
         
-        const result = await model.generateContent([
-          { inlineData: { mimeType, data: base64Audio } },
-          { text: prompt }
-        ])
-
-        const responseText = result.response.text()
+        const { text: responseText } = await generateText(provider, {
+          model: MODEL_NAME,
+          file,
+          prompt,
+          temperature: 0.1,
+          maxOutputTokens: 8192,
+        })
         console.log(`Chunk ${chunkIndex + 1} response: ${responseText.length} chars`)
 
         const section = parseChunkResponse(responseText, chunkIndex, startMinutes, endMinutes)
@@ -254,20 +246,13 @@ export async function processAnalysis(params: ProcessorParams): Promise<void> {
 
     if (sections.length > 0) {
       try {
-        const analysisModel = genAI.getGenerativeModel({ 
-          model: 'gemini-2.0-flash-exp',
-          generationConfig: {
-            temperature: 0.2,
-            maxOutputTokens: 4096,
-            responseMimeType: 'application/json',
-          }
+        const { text: analysisResponse } = await generateText(provider, {
+          model: MODEL_NAME,
+          prompt: getFinalAnalysisPrompt(sections),
+          temperature: 0.2,
+          maxOutputTokens: 4096,
+          json: true,
         })
-
-        const analysisResult = await analysisModel.generateContent([
-          { text: getFinalAnalysisPrompt(sections) }
-        ])
-
-        const analysisResponse = analysisResult.response.text()
         let jsonText = analysisResponse.trim()
         if (jsonText.startsWith('```')) {
           jsonText = jsonText.replace(/```json?\n?/g, '').replace(/```$/g, '')
@@ -309,6 +294,12 @@ export async function processAnalysis(params: ProcessorParams): Promise<void> {
       .update({ status: 'done' })
       .eq('id', recordingId)
 
+    try {
+      await provider.deleteFile(file)
+    } catch {
+      // Ignore cleanup errors
+    }
+
     console.log(`✅ Analysis complete! ${sections.length} sections, ${combinedTranscript.length} chars`)
 
   } catch (error: unknown) {
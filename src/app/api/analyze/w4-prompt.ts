@@ -1,4 +1,6 @@
 // W4 Sales System Prompt - Split into Editable Content and Locked Output Format
+import { W4RubricDefinition } from '@/types/database'
+import { DEFAULT_W4_RUBRIC, W4_PHASE_KEYS, getPhaseMaxScore } from '@/lib/w4/rubric'
 
 // ✏️ EDITABLE CONTENT - Everything except JSON output (admin CAN edit this)
 export const W4_EDITABLE_CONTENT = `## ROLE
@@ -700,10 +702,38 @@ After completing your analysis, identify the 1-2 easiest changes that would boos
 2. **Maintain absolute silence after closing question** - Costs nothing, shows confidence, worth 5 points`
 
 // 🔒 LOCKED OUTPUT FORMAT - JSON schema (admin CANNOT edit this)
-export const W4_OUTPUT_FORMAT = `
+// The phases block is generated from the rubric so checkpoint names and max scores
+// always match what validation and scoring expect.
+function buildPhasesFormat(rubric: W4RubricDefinition): string {
+  const phases = W4_PHASE_KEYS.map(key => {
+    const phase = rubric.phases[key]
+    const phaseMax = getPhaseMaxScore(rubric, key)
+    const checkpoints = phase.checkpoints
+      .map(cp => `        {"name": ${JSON.stringify(cp.name)}, "score": <0-${cp.maxScore}>, "max_score": ${cp.maxScore}, "justification": ${JSON.stringify(cp.guidance)}, "evidence": [{"quote": "exact words from the call", "timestamp": "M:SS"}]}`)
+      .join(',\n')
+    return `    "${key}": {
+      "score": <0-${phaseMax}>,
+      "max_score": ${phaseMax},
+      "checkpoints": [
+${checkpoints}
+      ]
+    }`
+  })
+  return `  "phases": {\n${phases.join(',\n')}\n  },`
+}
+
+export function buildW4OutputFormat(rubric: W4RubricDefinition = DEFAULT_W4_RUBRIC): string {
+  const { ratingThresholds: t, noSaleScoreCap } = rubric
+  return `
 
 ---
 
+## ACTIVE RUBRIC (overrides any different numbers above)
+- Score ONLY the checkpoints listed in the output format below, using their max_score values.
+- Ratings: MVP ${t.MVP}+, Playmaker ${t.Playmaker}+, Starter ${t.Starter}+, Prospect ${t.Prospect}+, Below Prospect under ${t.Prospect}.
+- Calls without a closed sale are capped at ${noSaleScoreCap}.
+- Every checkpoint scored above 0 needs 1-3 "evidence" entries: the exact words said and the timestamp (from the start of the recording) where they were said. Use "" for the timestamp if you are not sure - never guess. Checkpoints scored 0 may have an empty evidence array.
+
 ## OUTPUT FORMAT
 
 Return your analysis as a valid JSON object with this EXACT structure:
@@ -717,7 +747,8 @@ Return your analysis as a valid JSON object with this EXACT structure:
     "closed": true|false,
     "outcome_type": "CLOSED|NO_SALE|FOLLOW_UP|UNKNOWN",
     "evidence": "Specific quote or description proving the outcome (e.g., 'Homeowner signed the contract', 'Homeowner said they need to think about it')",
-    "objection_reason": "If not closed: main reason/objection (e.g., 'Price too high', 'Need spouse approval', 'Want more quotes') or null if closed"
+    "objection_reason": "If not closed: main reason/objection (e.g., 'Price too high', 'Need spouse approval', 'Want more quotes') or null if closed",
+    "objection_category": "If not closed: price|spouse|more_quotes|timing|insurance|trust|other (the category objection_reason falls under) or null if closed"
   },
   
   "overall_performance": {
@@ -728,47 +759,7 @@ Return your analysis as a valid JSON object with this EXACT structure:
     "summary": "1-3 sentence overview. If no sale: explicitly mention this limited the maximum achievable score."
   },
   
-  "phases": {
-    "why": {
-      "score": <0-38>,
-      "max_score": 38,
-      "checkpoints": [
-        {"name": "Sitdown/Transition", "score": <0-5>, "max_score": 5, "justification": "Evidence with specific quotes. Note any red flags."},
-        {"name": "Rapport Building – FORM Method", "score": <0-5>, "max_score": 5, "justification": "List FORM elements used with quotes."},
-        {"name": "Assessment Questions (Q1–Q16)", "score": <0-12>, "max_score": 12, "justification": "Count questions asked by category. MUST note if Q8 was missed."},
-        {"name": "Inspection", "score": <0-3>, "max_score": 3, "justification": "Evidence of inspection thoroughness."},
-        {"name": "Present Findings", "score": <0-5>, "max_score": 5, "justification": "Note R/Y/G usage and 3-step explanations."},
-        {"name": "Tie-Down WHY & Repair vs. Replace", "score": <0-8>, "max_score": 8, "justification": "Exact questions asked, did rep wait for answer?"}
-      ]
-    },
-    "what": {
-      "score": <0-27>,
-      "max_score": 27,
-      "checkpoints": [
-        {"name": "Formal Presentation System", "score": <0-5>, "max_score": 5, "justification": "Evidence of guide usage."},
-        {"name": "System Options – FBAL Method", "score": <0-12>, "max_score": 12, "justification": "Examples of FBAL framework used."},
-        {"name": "Backup Recommendations/Visuals", "score": <0-5>, "max_score": 5, "justification": "Types of visual proof used."},
-        {"name": "Tie-Down WHAT", "score": <0-5>, "max_score": 5, "justification": "Did rep ask and wait for agreement?"}
-      ]
-    },
-    "who": {
-      "score": <0-25>,
-      "max_score": 25,
-      "checkpoints": [
-        {"name": "Company Advantages", "score": <0-8>, "max_score": 8, "justification": "People/Process/Company differentiators mentioned."},
-        {"name": "Pyramid of Pain", "score": <0-8>, "max_score": 8, "justification": "Complete 5-step pyramids used with emotional impact."},
-        {"name": "WHO Tie-Down", "score": <0-9>, "max_score": 9, "justification": "Both questions asked? Did rep wait and resolve hedges?"}
-      ]
-    },
-    "when": {
-      "score": <0-10>,
-      "max_score": 10,
-      "checkpoints": [
-        {"name": "Price Presentation", "score": <0-5>, "max_score": 5, "justification": "Total and monthly presented? Alternate-choice close?"},
-        {"name": "Post-Close Silence", "score": <0-5>, "max_score": 5, "justification": "CRITICAL: Did rep stay silent? ANY talking = 0 points."}
-      ]
-    }
-  },
+${buildPhasesFormat(rubric)}
   
   "what_done_right": [
     "Specific positive behavior 1 with direct quote",
@@ -804,6 +795,9 @@ Return your analysis as a valid JSON object with this EXACT structure:
 }
 
 **RETURN ONLY VALID JSON - NO MARKDOWN OR EXTRA TEXT.**`
+}
+
+export const W4_OUTPUT_FORMAT = buildW4OutputFormat()
 
 // Combined full prompt (for backward compatibility)
 export const W4_ANALYSIS_PROMPT = W4_EDITABLE_CONTENT + W4_OUTPUT_FORMAT
@@ -0,0 +1,37 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+
+// POST - Join the organization an invite is for. The signed-in account's email must match the invite.
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token } = await request.json()
+    if (typeof token !== 'string' || !token) {
+      return NextResponse.json({ message: 'Invite token is required' }, { status: 400 })
+    }
+
+    // The function raises a readable message for invalid, used or mismatched invites
+    const { data: organizationId, error } = await supabase.rpc('accept_organization_invite', { invite_token: token })
+    if (error) {
+      return NextResponse.json({ message: error.message }, { status: 400 })
+    }
+
+    console.log(`🤝 ${user.email} joined organization ${organizationId}`)
+    return NextResponse.json({ success: true, organizationId })
+  } catch (error) {
+    console.error('Error accepting invite:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to accept invite' },
+      { status: 500 }
+    )
+  }
+}
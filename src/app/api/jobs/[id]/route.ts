@@ -0,0 +1,36 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+
+// GET - Job status (RLS limits this to the caller's own jobs, admins see all)
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: job, error } = await supabase
+      .from('analysis_jobs')
+      .select('id, type, status, recording_id, analysis_id, attempts, max_attempts, run_at, last_error, started_at, finished_at, created_at, updated_at')
+      .eq('id', id)
+      .single()
+
+    if (error || !job) {
+      return NextResponse.json({ message: 'Job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ job })
+  } catch (error) {
+    console.error('Error fetching job:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch job' },
+      { status: 500 }
+    )
+  }
+}
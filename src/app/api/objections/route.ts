@@ -0,0 +1,140 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { getAnalysisModel, getProviderForModel } from '@/lib/ai'
+import { canReviewUser, loadReviewScope } from '@/lib/organizations'
+import { canOverrideScores } from '@/lib/w4/overrides'
+import { isObjectionCategory } from '@/lib/w4/objections'
+import { MAX_CLASSIFY_BATCH, classifyObjections } from '@/lib/pipeline/objections'
+import { SaleOutcome } from '@/types/database'
+
+// audio_analyses row with its W4 sale outcome and the recording's owner
+interface LostCallRow {
+  id: string
+  recording_id: string
+  sale_outcome: SaleOutcome | null
+  recordings: { user_id: string }
+}
+
+// POST - classify (file every lost call in the organization that has no category yet, via the AI
+// with keyword rules as fallback) or set_category (a manager's manual correction for one call)
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!canOverrideScores(profile?.role)) {
+      return NextResponse.json({ message: 'Only managers and admins can classify objections' }, { status: 403 })
+    }
+
+    const body = await request.json()
+
+    if (body.action === 'classify') {
+      const { memberIds } = await loadReviewScope(supabase, profile?.role === 'admin', body.organizationId)
+      if (memberIds.length === 0) {
+        return NextResponse.json({ success: true, classified: 0, remaining: 0 })
+      }
+
+      const { data: lost, error } = await supabase
+        .from('audio_analyses')
+        .select('id, recording_id, sale_outcome:w4_report->sale_outcome, recordings!inner(user_id)')
+        .in('recordings.user_id', memberIds)
+        .eq('processing_status', 'done')
+        .eq('w4_report->sale_outcome->>closed', 'false')
+        .overrideTypes<LostCallRow[], { merge: false }>()
+
+      if (error) throw error
+
+      const { data: existing } = await supabase
+        .from('call_objections')
+        .select('recording_id')
+        .in('recording_id', (lost || []).map(row => row.recording_id))
+
+      const classifiedIds = new Set((existing || []).map((row: { recording_id: string }) => row.recording_id))
+      const pending = (lost || []).filter(row => !classifiedIds.has(row.recording_id))
+      const batch = pending.slice(0, MAX_CLASSIFY_BATCH)
+      if (batch.length === 0) {
+        return NextResponse.json({ success: true, classified: 0, remaining: 0 })
+      }
+
+      const reasons = batch.map(row => row.sale_outcome?.objection_reason?.trim() || '')
+      const model = getAnalysisModel()
+      const { results, usage } = await classifyObjections({ provider: getProviderForModel(model), model, reasons })
+      console.log(`🏷️ Classified ${batch.length} objection(s) (${usage.inputTokens} in, ${usage.outputTokens} out)`)
+
+      const now = new Date().toISOString()
+      const { error: insertError } = await supabase.from('call_objections').upsert(
+        batch.map((row, i) => ({
+          recording_id: row.recording_id,
+          analysis_id: row.id,
+          user_id: row.recordings.user_id,
+          reason: reasons[i] || null,
+          category: results[i].category,
+          source: results[i].source,
+          updated_at: now,
+        }))
+      )
+
+      if (insertError) throw insertError
+      return NextResponse.json({ success: true, classified: batch.length, remaining: pending.length - batch.length })
+    }
+
+    if (body.action === 'set_category') {
+      if (!isObjectionCategory(body.category)) {
+        return NextResponse.json({ message: 'Invalid category' }, { status: 400 })
+      }
+
+      const { data: row } = await supabase
+        .from('audio_analyses')
+        .select('id, recording_id, sale_outcome:w4_report->sale_outcome, recordings!inner(user_id)')
+        .eq('recording_id', body.recordingId)
+        .maybeSingle()
+        .overrideTypes<LostCallRow, { merge: false }>()
+
+      if (!row?.sale_outcome || row.sale_outcome.closed) {
+        return NextResponse.json({ message: 'This call has no lost-deal objection' }, { status: 404 })
+      }
+      if (!(await canReviewUser(supabase, row.recordings.user_id))) {
+        return NextResponse.json({ message: 'You can only classify objections for reps you manage' }, { status: 403 })
+      }
+
+      const { data, error } = await supabase
+        .from('call_objections')
+        .upsert({
+          recording_id: body.recordingId,
+          analysis_id: row.id,
+          user_id: row.recordings.user_id,
+          reason: row.sale_outcome.objection_reason?.trim() || null,
+          category: body.category,
+          source: 'manual',
+          corrected_by: user.id,
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      return NextResponse.json({ success: true, objection: data })
+    }
+
+    return NextResponse.json({ message: 'Invalid action' }, { status: 400 })
+  } catch (error) {
+    console.error('Error classifying objections:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to classify objections' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+
+// GET - Credentials for the service worker's background uploads (src/worker/index.ts). The worker
+// can't read the auth cookies, but they come along on this same-origin request and the middleware
+// refreshes them, so the worker always gets a current token without touching the refresh token.
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    const { data: { session } } = await supabase.auth.getSession()
+    if (authError || !user || !session) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({
+      userId: user.id,
+      accessToken: session.access_token,
+      supabaseUrl: process.env.NEXT_PUBLIC_SUPABASE_URL,
+      supabaseAnonKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+    }, {
+      headers: { 'Cache-Control': 'no-store' },
+    })
+  } catch (error) {
+    console.error('Error fetching upload session:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch upload session' },
+      { status: 500 }
+    )
+  }
+}
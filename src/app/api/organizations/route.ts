@@ -0,0 +1,250 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { getManagedOrganizationId, INVITE_ROLES, normalizeEmail, OrganizationSummary } from '@/lib/organizations'
+import { Organization, OrganizationInvite, OrganizationMember, Team } from '@/types/database'
+
+// Admins manage every organization; managers only the one they belong to
+async function requireOrganizationAccess(supabase: SupabaseClient) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { user: null, isAdmin: false, organizationId: null, response: NextResponse.json({ message: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profile?.role === 'admin') {
+    return { user, isAdmin: true, organizationId: null, response: null }
+  }
+
+  const organizationId = profile?.role === 'manager' ? await getManagedOrganizationId(supabase) : null
+  if (!organizationId) {
+    return { user: null, isAdmin: false, organizationId: null, response: NextResponse.json({ message: 'Manager access required' }, { status: 403 }) }
+  }
+
+  return { user, isAdmin: false, organizationId, response: null }
+}
+
+// GET - Organizations the caller manages, with teams, members and pending (unexpired) invites
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { isAdmin, organizationId, response } = await requireOrganizationAccess(supabase)
+    if (response) return response
+
+    let orgQuery = supabase.from('organizations').select('*').order('name')
+    if (!isAdmin) orgQuery = orgQuery.eq('id', organizationId)
+    const { data: organizations, error } = await orgQuery
+    if (error) throw error
+
+    const orgIds = (organizations || []).map((o: Organization) => o.id)
+    if (orgIds.length === 0) {
+      return NextResponse.json({ organizations: [] })
+    }
+
+    const [teamsResult, membersResult, invitesResult] = await Promise.all([
+      supabase.from('teams').select('*').in('organization_id', orgIds).order('name'),
+      supabase.from('organization_members').select('*').in('organization_id', orgIds),
+      supabase.from('organization_invites').select('*').in('organization_id', orgIds)
+        .is('accepted_at', null).gt('expires_at', new Date().toISOString()).order('created_at', { ascending: false }),
+    ])
+
+    const members = (membersResult.data || []) as OrganizationMember[]
+    const { data: profiles } = members.length > 0
+      ? await supabase.from('profiles').select('id, email, role').in('id', members.map(m => m.user_id))
+      : { data: [] }
+    const profileById = new Map((profiles || []).map((p: { id: string; email: string; role: string }) => [p.id, p]))
+
+    const summaries: OrganizationSummary[] = (organizations || []).map((org: Organization) => ({
+      ...org,
+      teams: ((teamsResult.data || []) as Team[]).filter(t => t.organization_id === org.id),
+      members: members.filter(m => m.organization_id === org.id).map(m => {
+        const profile = profileById.get(m.user_id) as { email: string; role: string } | undefined
+        return { user_id: m.user_id, email: profile?.email || '', role: profile?.role || 'user', team_id: m.team_id }
+      }),
+      invites: ((invitesResult.data || []) as OrganizationInvite[]).filter(i => i.organization_id === org.id),
+    }))
+
+    return NextResponse.json({ organizations: summaries })
+  } catch (error) {
+    console.error('Error fetching organizations:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch organizations' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - create_organization (admins), create_team, invite, revoke_invite, set_team, remove_member,
+// add_member (admins - puts an existing user straight into an organization)
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { user, isAdmin, organizationId: managedOrgId, response } = await requireOrganizationAccess(supabase)
+    if (response) return response
+
+    const body = await request.json()
+    const { action } = body
+    const organizationId: string | undefined = isAdmin ? body.organizationId : managedOrgId
+
+    if (action === 'create_organization') {
+      if (!isAdmin) {
+        return NextResponse.json({ message: 'Admin access required' }, { status: 403 })
+      }
+      const name = typeof body.name === 'string' ? body.name.trim() : ''
+      if (!name) {
+        return NextResponse.json({ message: 'Name is required' }, { status: 400 })
+      }
+
+      const { data, error } = await supabase
+        .from('organizations')
+        .insert({ name: name.slice(0, 120), created_by: user.id })
+        .select()
+        .single()
+
+      if (error) throw error
+      console.log(`🏢 Created organization "${name}"`)
+      return NextResponse.json({ success: true, organization: data })
+    }
+
+    if (!organizationId) {
+      return NextResponse.json({ message: 'Organization is required' }, { status: 400 })
+    }
+
+    // Members and invites can only be put on one of this organization's own teams
+    const teamId: string | null = body.teamId || null
+    if (teamId && ['invite', 'add_member', 'set_team'].includes(action)) {
+      const { data: team } = await supabase
+        .from('teams')
+        .select('id')
+        .eq('id', teamId)
+        .eq('organization_id', organizationId)
+        .maybeSingle()
+
+      if (!team) {
+        return NextResponse.json({ message: 'Team not found in this organization' }, { status: 400 })
+      }
+    }
+
+    if (action === 'create_team') {
+      const name = typeof body.name === 'string' ? body.name.trim() : ''
+      if (!name) {
+        return NextResponse.json({ message: 'Name is required' }, { status: 400 })
+      }
+
+      const { data, error } = await supabase
+        .from('teams')
+        .insert({ organization_id: organizationId, name: name.slice(0, 80) })
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === '23505') {
+          return NextResponse.json({ message: 'A team with that name already exists' }, { status: 409 })
+        }
+        throw error
+      }
+      return NextResponse.json({ success: true, team: data })
+    }
+
+    if (action === 'invite') {
+      const email = normalizeEmail(body.email)
+      if (!email) {
+        return NextResponse.json({ message: 'A valid email is required' }, { status: 400 })
+      }
+      const role = body.role || 'user'
+      if (!INVITE_ROLES.includes(role)) {
+        return NextResponse.json({ message: 'Invalid role' }, { status: 400 })
+      }
+      if (role === 'manager' && !isAdmin) {
+        return NextResponse.json({ message: 'Only admins can invite managers' }, { status: 403 })
+      }
+
+      const { data, error } = await supabase
+        .from('organization_invites')
+        .insert({
+          organization_id: organizationId,
+          team_id: teamId,
+          email,
+          role,
+          invited_by: user.id,
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      console.log(`✉️ Invited ${email} to organization ${organizationId} as ${role}`)
+      return NextResponse.json({ success: true, invite: data })
+    }
+
+    if (action === 'revoke_invite') {
+      const { error } = await supabase
+        .from('organization_invites')
+        .delete()
+        .eq('id', body.inviteId)
+        .eq('organization_id', organizationId)
+
+      if (error) throw error
+      return NextResponse.json({ success: true })
+    }
+
+    if (action === 'add_member') {
+      if (!isAdmin) {
+        return NextResponse.json({ message: 'Admin access required' }, { status: 403 })
+      }
+
+      const { error } = await supabase
+        .from('organization_members')
+        .upsert({ user_id: body.userId, organization_id: organizationId, team_id: teamId })
+
+      if (error) throw error
+      return NextResponse.json({ success: true })
+    }
+
+    if (action === 'set_team') {
+      const { error } = await supabase
+        .from('organization_members')
+        .update({ team_id: teamId })
+        .eq('user_id', body.userId)
+        .eq('organization_id', organizationId)
+
+      if (error) throw error
+      return NextResponse.json({ success: true })
+    }
+
+    if (action === 'remove_member') {
+      if (body.userId === user.id) {
+        return NextResponse.json({ message: 'You can’t remove yourself' }, { status: 400 })
+      }
+
+      const { error } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('user_id', body.userId)
+        .eq('organization_id', organizationId)
+
+      if (error) throw error
+      return NextResponse.json({ success: true })
+    }
+
+    return NextResponse.json({ message: 'Invalid action' }, { status: 400 })
+  } catch (error) {
+    console.error('Error updating organization:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update organization' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,135 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { applyScoreOverride, canOverrideScores } from '@/lib/w4/overrides'
+import { canReviewUser } from '@/lib/organizations'
+import { loadRubricVersion, W4_PHASE_KEYS } from '@/lib/w4/rubric'
+import { W4PhaseKey, W4Report } from '@/types/database'
+
+const MAX_REASON_LENGTH = 1000
+
+// POST - Override a checkpoint score (action "override", reason required) or restore the AI's score
+// (action "clear"). Only admins and the rep's manager; the report is rescored and the override row kept in
+// w4_score_overrides for the calibration report.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: recordingId } = await params
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!canOverrideScores(profile?.role)) {
+      return NextResponse.json({ message: 'Only managers and admins can override scores' }, { status: 403 })
+    }
+
+    const { data: recording } = await supabase
+      .from('recordings')
+      .select('user_id')
+      .eq('id', recordingId)
+      .single()
+
+    if (!recording || !(await canReviewUser(supabase, recording.user_id))) {
+      return NextResponse.json({ message: 'You can only override scores for reps you manage' }, { status: 403 })
+    }
+
+    const { action, phase, checkpoint, score, reason } = await request.json()
+    if (!W4_PHASE_KEYS.includes(phase)) {
+      return NextResponse.json({ message: 'Invalid phase' }, { status: 400 })
+    }
+
+    const { data: analysis } = await supabase
+      .from('audio_analyses')
+      .select('id, w4_report')
+      .eq('recording_id', recordingId)
+      .single()
+
+    if (!analysis?.w4_report) {
+      return NextResponse.json({ message: 'Report not found' }, { status: 404 })
+    }
+
+    const report = analysis.w4_report as W4Report
+    const rubric = await loadRubricVersion(supabase, report.rubric)
+    const phaseKey = phase as W4PhaseKey
+    const current = report.phases[phaseKey]?.checkpoints.find(cp => cp.name === checkpoint)
+    if (!current) {
+      return NextResponse.json({ message: 'Checkpoint not found' }, { status: 404 })
+    }
+
+    let updated: W4Report | null
+    if (action === 'override') {
+      const trimmed = typeof reason === 'string' ? reason.trim() : ''
+      if (!trimmed) {
+        return NextResponse.json({ message: 'A reason is required' }, { status: 400 })
+      }
+      if (!Number.isInteger(score) || score < 0 || score > current.max_score) {
+        return NextResponse.json({ message: `Score must be a whole number from 0 to ${current.max_score}` }, { status: 400 })
+      }
+
+      const now = new Date().toISOString()
+      const note = {
+        reason: trimmed.slice(0, MAX_REASON_LENGTH),
+        overridden_by: user.id,
+        overridden_by_email: user.email || '',
+        overridden_at: now,
+      }
+      updated = applyScoreOverride(report, phaseKey, checkpoint, { score, note }, rubric)
+
+      const { error } = await supabase
+        .from('w4_score_overrides')
+        .upsert({
+          analysis_id: analysis.id,
+          recording_id: recordingId,
+          phase: phaseKey,
+          checkpoint_name: checkpoint,
+          ai_score: current.override?.ai_score ?? current.score,
+          override_score: score,
+          max_score: current.max_score,
+          reason: note.reason,
+          overridden_by: user.id,
+          updated_at: now,
+        }, { onConflict: 'analysis_id,phase,checkpoint_name' })
+
+      if (error) throw error
+    } else if (action === 'clear') {
+      updated = applyScoreOverride(report, phaseKey, checkpoint, null, rubric)
+
+      const { error } = await supabase
+        .from('w4_score_overrides')
+        .delete()
+        .eq('analysis_id', analysis.id)
+        .eq('phase', phaseKey)
+        .eq('checkpoint_name', checkpoint)
+
+      if (error) throw error
+    } else {
+      return NextResponse.json({ message: 'Invalid action' }, { status: 400 })
+    }
+
+    const { error: updateError } = await supabase
+      .from('audio_analyses')
+      .update({ w4_report: updated })
+      .eq('id', analysis.id)
+
+    if (updateError) throw updateError
+
+    console.log(`✏️ ${action === 'override' ? 'Overrode' : 'Cleared override on'} "${checkpoint}" for recording ${recordingId}`)
+    return NextResponse.json({ success: true, report: updated })
+  } catch (error) {
+    console.error('Error overriding score:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to override score' },
+      { status: 500 }
+    )
+  }
+}
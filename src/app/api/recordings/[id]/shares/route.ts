@@ -0,0 +1,166 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { PUBLIC_LINK_PERMISSIONS, SHARE_EXPIRY_OPTIONS, SHARE_PERMISSIONS, generateShareToken } from '@/lib/sharing'
+import { normalizeEmail } from '@/lib/organizations'
+
+// Only the recording's owner manages its shares
+async function requireOwner(supabase: SupabaseClient, recordingId: string) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ message: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: recording } = await supabase
+    .from('recordings')
+    .select('user_id')
+    .eq('id', recordingId)
+    .single()
+
+  if (!recording || recording.user_id !== user.id) {
+    return { user: null, response: NextResponse.json({ message: 'Only the owner can share this recording' }, { status: 403 }) }
+  }
+
+  return { user, response: null }
+}
+
+function expiresAt(expiresInDays: number | null): string | null {
+  return expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : null
+}
+
+// GET - Current shares of the recording, newest first, with each recipient's email
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: recordingId } = await params
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { response } = await requireOwner(supabase, recordingId)
+    if (response) return response
+
+    const { data, error } = await supabase
+      .from('shared_recordings')
+      .select('*')
+      .eq('recording_id', recordingId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    const shares = data || []
+    const recipientIds = shares.map((s: { shared_with: string | null }) => s.shared_with).filter(Boolean)
+    const { data: recipients } = recipientIds.length > 0
+      ? await supabase.from('profiles').select('id, email').in('id', recipientIds)
+      : { data: [] }
+    const emailById = new Map((recipients || []).map((p: { id: string; email: string }) => [p.id, p.email]))
+
+    return NextResponse.json({
+      shares: shares.map((s: { shared_with: string | null }) => ({
+        ...s,
+        shared_with_email: s.shared_with ? emailById.get(s.shared_with) || null : null,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching shares:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch shares' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - create_link (public link), share_user (grant one account view/comment/edit; re-sharing
+// updates the grant) or revoke (delete a link or grant). Links and grants take an optional expiry.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: recordingId } = await params
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { user, response } = await requireOwner(supabase, recordingId)
+    if (response) return response
+
+    const { action, permissions = 'view', expiresInDays = null, shareId, email: rawEmail } = await request.json()
+
+    if (action === 'create_link') {
+      if (!PUBLIC_LINK_PERMISSIONS.includes(permissions)) {
+        return NextResponse.json({ message: 'Public links can only view or view comments' }, { status: 400 })
+      }
+      if (!SHARE_EXPIRY_OPTIONS.some(option => option.days === expiresInDays)) {
+        return NextResponse.json({ message: 'Invalid expiry' }, { status: 400 })
+      }
+
+      const { data, error } = await supabase
+        .from('shared_recordings')
+        .insert({
+          recording_id: recordingId,
+          shared_by: user.id,
+          share_token: generateShareToken(),
+          permissions,
+          expires_at: expiresAt(expiresInDays),
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      console.log(`🔗 Created share link for recording ${recordingId} (${permissions})`)
+      return NextResponse.json({ success: true, share: data })
+    }
+
+    if (action === 'share_user') {
+      const email = normalizeEmail(rawEmail)
+      if (!email) {
+        return NextResponse.json({ message: 'A valid email is required' }, { status: 400 })
+      }
+      if (!SHARE_PERMISSIONS.includes(permissions)) {
+        return NextResponse.json({ message: 'Invalid permission' }, { status: 400 })
+      }
+      if (!SHARE_EXPIRY_OPTIONS.some(option => option.days === expiresInDays)) {
+        return NextResponse.json({ message: 'Invalid expiry' }, { status: 400 })
+      }
+
+      if (email === normalizeEmail(user.email)) {
+        return NextResponse.json({ message: 'You already own this recording' }, { status: 400 })
+      }
+
+      // The email is resolved inside the function, which only answers the recording's owner
+      const { data, error } = await supabase
+        .rpc('share_recording_with_email', {
+          target_recording: recordingId,
+          target_email: email,
+          share_permissions: permissions,
+          share_expires_at: expiresAt(expiresInDays),
+        })
+        .maybeSingle()
+
+      if (error) throw error
+      if (!data) {
+        return NextResponse.json({ message: `No account found for ${email}` }, { status: 404 })
+      }
+      console.log(`🤝 Shared recording ${recordingId} with ${email} (${permissions})`)
+      return NextResponse.json({ success: true, share: { ...data, shared_with_email: email } })
+    }
+
+    if (action === 'revoke') {
+      const { error } = await supabase
+        .from('shared_recordings')
+        .delete()
+        .eq('id', shareId)
+        .eq('recording_id', recordingId)
+
+      if (error) throw error
+      return NextResponse.json({ success: true })
+    }
+
+    return NextResponse.json({ message: 'Invalid action' }, { status: 400 })
+  } catch (error) {
+    console.error('Error updating shares:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update shares' },
+      { status: 500 }
+    )
+  }
+}
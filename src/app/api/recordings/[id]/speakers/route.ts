@@ -0,0 +1,155 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { mergeSpeakerSegments, planRoleChange } from '@/lib/transcript/speakers'
+import { computeCallAnalytics } from '@/lib/transcript/analytics'
+import { RecordingSpeaker, TranscriptSegment, TranscriptSpeakerRole } from '@/types/database'
+
+const ROLES: TranscriptSpeakerRole[] = ['rep', 'homeowner', 'other']
+
+async function loadSpeakers(supabase: SupabaseClient, recordingId: string): Promise<RecordingSpeaker[]> {
+  const { data, error } = await supabase
+    .from('recording_speakers')
+    .select('*')
+    .eq('recording_id', recordingId)
+
+  if (error) throw error
+  return data || []
+}
+
+// Talk-time numbers depend on who the rep is, so role changes recompute them
+async function refreshCallAnalytics(supabase: SupabaseClient, recordingId: string, speakers: RecordingSpeaker[]) {
+  const { data: analysis } = await supabase
+    .from('audio_analyses')
+    .select('id, transcript_segments')
+    .eq('recording_id', recordingId)
+    .single()
+
+  if (!analysis?.transcript_segments) return null
+
+  const callAnalytics = computeCallAnalytics(analysis.transcript_segments as TranscriptSegment[], speakers)
+  const { error } = await supabase
+    .from('audio_analyses')
+    .update({ call_analytics: callAnalytics })
+    .eq('id', analysis.id)
+
+  if (error) throw error
+  return callAnalytics
+}
+
+// POST - Rename a speaker, change its role, or merge it into another speaker.
+// RLS limits writes to the recording's owner. Role changes and merges recompute call analytics.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: recordingId } = await params
+    const supabase = await createClient()
+    if (!supabase) {
+      return NextResponse.json({ message: 'Database not configured' }, { status: 500 })
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: recording } = await supabase
+      .from('recordings')
+      .select('id, user_id')
+      .eq('id', recordingId)
+      .single()
+
+    if (!recording) {
+      return NextResponse.json({ message: 'Recording not found' }, { status: 404 })
+    }
+    if (recording.user_id !== user.id) {
+      return NextResponse.json({ message: 'Only the recording owner can edit speakers' }, { status: 403 })
+    }
+
+    const { action, speakerKey, name, role, intoKey } = await request.json()
+    const speakers = await loadSpeakers(supabase, recordingId)
+    const speaker = speakers.find(s => s.speaker_key === speakerKey)
+    if (!speaker) {
+      return NextResponse.json({ message: 'Speaker not found' }, { status: 404 })
+    }
+
+    if (action === 'rename') {
+      const trimmed = typeof name === 'string' ? name.trim() : ''
+      if (!trimmed) {
+        return NextResponse.json({ message: 'Name is required' }, { status: 400 })
+      }
+
+      const { error } = await supabase
+        .from('recording_speakers')
+        .update({ name: trimmed.slice(0, 80), updated_at: new Date().toISOString() })
+        .eq('id', speaker.id)
+
+      if (error) throw error
+      return NextResponse.json({ success: true, speakers: await loadSpeakers(supabase, recordingId) })
+    }
+
+    if (action === 'set_role') {
+      if (!ROLES.includes(role)) {
+        return NextResponse.json({ message: 'Invalid role' }, { status: 400 })
+      }
+
+      for (const change of planRoleChange(speakers, speakerKey, role)) {
+        const { error } = await supabase
+          .from('recording_speakers')
+          .update({ role: change.role, updated_at: new Date().toISOString() })
+          .eq('recording_id', recordingId)
+          .eq('speaker_key', change.speaker_key)
+
+        if (error) throw error
+      }
+
+      const updatedSpeakers = await loadSpeakers(supabase, recordingId)
+      const callAnalytics = await refreshCallAnalytics(supabase, recordingId, updatedSpeakers)
+      return NextResponse.json({ success: true, speakers: updatedSpeakers, callAnalytics })
+    }
+
+    if (action === 'merge') {
+      const into = speakers.find(s => s.speaker_key === intoKey)
+      if (!into || into.speaker_key === speakerKey) {
+        return NextResponse.json({ message: 'Pick another speaker to merge into' }, { status: 400 })
+      }
+
+      const { data: analysis } = await supabase
+        .from('audio_analyses')
+        .select('id, transcript_segments')
+        .eq('recording_id', recordingId)
+        .single()
+
+      if (!analysis?.transcript_segments) {
+        return NextResponse.json({ message: 'Transcript not found' }, { status: 404 })
+      }
+
+      const segments = mergeSpeakerSegments(analysis.transcript_segments as TranscriptSegment[], speakerKey, intoKey)
+      const remaining = speakers.filter(s => s.speaker_key !== speakerKey)
+      const callAnalytics = computeCallAnalytics(segments, remaining)
+      const { error: segmentsError } = await supabase
+        .from('audio_analyses')
+        .update({ transcript_segments: segments, call_analytics: callAnalytics })
+        .eq('id', analysis.id)
+
+      if (segmentsError) throw segmentsError
+
+      const { error: deleteError } = await supabase
+        .from('recording_speakers')
+        .delete()
+        .eq('id', speaker.id)
+
+      if (deleteError) throw deleteError
+
+      console.log(`🔀 Merged speaker ${speakerKey} into ${intoKey} on recording ${recordingId}`)
+      return NextResponse.json({ success: true, speakers: remaining, segments, callAnalytics })
+    }
+
+    return NextResponse.json({ message: 'Invalid action' }, { status: 400 })
+  } catch (error) {
+    console.error('Error updating speakers:', error)
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update speakers' },
+      { status: 500 }
+    )
+  }
+}
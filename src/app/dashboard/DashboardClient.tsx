@@ -15,6 +15,9 @@ import { RecordingListSkeleton } from '@/components/ui/Skeleton'
 import { User } from '@supabase/supabase-js'
 import { Recording, RecordingWithTranscript, Tag, Folder } from '@/types/database'
 import { OfflineIndicator } from '@/components/OfflineIndicator'
+import NotificationInbox from '@/components/NotificationInbox'
+import TeamPanel from './TeamPanel'
+import SharedWithMePanel from './SharedWithMePanel'
 
 interface RecordingWithUrl extends RecordingWithTranscript {
   audioUrl?: string
@@ -28,7 +31,7 @@ type FilterType = 'active' | 'archived' | 'all'
 type AnalysisFilter = 'all' | 'analyzed' | 'not_analyzed'
 type SortType = 'newest' | 'oldest' | 'name' | 'size' | 'duration' | 'analyzed_first'
 type InputMode = 'upload' | 'record'
-type MainTab = 'capture' | 'files'
+type MainTab = 'capture' | 'files' | 'shared' | 'team'
 
 const ITEMS_PER_PAGE = 10
 
@@ -41,6 +44,7 @@ export default function DashboardClient({ user }: { user: User }) {
   const [searchQuery, setSearchQuery] = useState('')
   const [currentPage, setCurrentPage] = useState(1)
   const [isAdmin, setIsAdmin] = useState(false)
+  const [isManager, setIsManager] = useState(false)
   const [expandedPlayer, setExpandedPlayer] = useState<string | null>(null)
   const [inputMode, setInputMode] = useState<InputMode>('record')
   const [mainTab, setMainTab] = useState<MainTab>('capture')
@@ -170,6 +174,7 @@ export default function DashboardClient({ user }: { user: User }) {
       .eq('id', user.id)
       .single()
     setIsAdmin(data?.role === 'admin' || data?.is_admin === true)
+    setIsManager(data?.role === 'manager')
   }
 
   const loadFolders = async () => {
@@ -815,6 +820,38 @@ export default function DashboardClient({ user }: { user: User }) {
             </Link>
 
             <div className="flex items-center gap-4">
+              <Link
+                href="/dashboard/progress"
+                className="px-4 py-2 text-sm font-medium text-amber-400 hover:text-amber-300 hover:bg-amber-500/10 rounded-lg transition-colors flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+                </svg>
+                Progress
+              </Link>
+              {(isAdmin || isManager) && (
+                <Link
+                  href="/dashboard/leaderboard"
+                  className="px-4 py-2 text-sm font-medium text-violet-400 hover:text-violet-300 hover:bg-violet-500/10 rounded-lg transition-colors flex items-center gap-2"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                  </svg>
+                  Leaderboard
+                </Link>
+              )}
+              {(isAdmin || isManager) && (
+                <Link
+                  href="/dashboard/objections"
+                  className="px-4 py-2 text-sm font-medium text-rose-400 hover:text-rose-300 hover:bg-rose-500/10 rounded-lg transition-colors flex items-center gap-2"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 3.055A9.001 9.001 0 1020.945 13H11V3.055z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.488 9H15V3.512A9.025 9.025 0 0120.488 9z" />
+                  </svg>
+                  Lost Deals
+                </Link>
+              )}
               {isAdmin && (
                 <Link
                   href="/admin"
@@ -827,6 +864,7 @@ export default function DashboardClient({ user }: { user: User }) {
                   Admin
                 </Link>
               )}
+              <NotificationInbox userId={user.id} />
               <span className="text-slate-400 text-sm hidden sm:block">{user.email}</span>
               <button
                 onClick={handleSignOut}
@@ -887,6 +925,34 @@ export default function DashboardClient({ user }: { user: User }) {
                 </span>
               )}
             </button>
+            <button
+              onClick={() => setMainTab('shared')}
+              className={`flex items-center gap-2.5 px-5 py-3 rounded-xl text-sm font-medium transition-all ${
+                mainTab === 'shared'
+                  ? 'bg-gradient-to-r from-sky-500 to-blue-500 text-white shadow-lg shadow-sky-500/20'
+                  : 'text-slate-400 hover:text-white hover:bg-slate-700/50'
+              }`}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+              </svg>
+              Shared with me
+            </button>
+            {isManager && (
+              <button
+                onClick={() => setMainTab('team')}
+                className={`flex items-center gap-2.5 px-5 py-3 rounded-xl text-sm font-medium transition-all ${
+                  mainTab === 'team'
+                    ? 'bg-gradient-to-r from-violet-500 to-purple-500 text-white shadow-lg shadow-violet-500/20'
+                    : 'text-slate-400 hover:text-white hover:bg-slate-700/50'
+                }`}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                </svg>
+                My Team
+              </button>
+            )}
           </div>
         </div>
 
@@ -990,6 +1056,11 @@ export default function DashboardClient({ user }: { user: User }) {
           </>
         )}
 
+        {/* Team Tab Content */}
+        {mainTab === 'shared' && <SharedWithMePanel userId={user.id} />}
+
+        {mainTab === 'team' && isManager && <TeamPanel userId={user.id} />}
+
         {/* Files Tab Content */}
         {mainTab === 'files' && (
           <div className="flex gap-6">
@@ -0,0 +1,143 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/client'
+import { SHARE_PERMISSION_LABELS, isShareExpired } from '@/lib/sharing'
+import { SharedRecording, W4Report, getW4RatingColor } from '@/types/database'
+
+interface SharedItem {
+  shareId: string
+  recordingId: string
+  fileName: string
+  createdAt: string
+  sharedAt: string
+  ownerEmail: string
+  permissions: SharedRecording['permissions']
+  expiresAt: string | null
+  w4Report: W4Report | null
+}
+
+interface SharedWithMePanelProps {
+  userId: string
+}
+
+// Recordings other people shared with this user, newest share first. Expired grants are left out.
+export default function SharedWithMePanel({ userId }: SharedWithMePanelProps) {
+  const [items, setItems] = useState<SharedItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const supabase = createClient()
+
+  const loadShared = async () => {
+    try {
+      const { data: shares, error } = await supabase
+        .from('shared_recordings')
+        .select('*')
+        .eq('shared_with', userId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+
+      const live = ((shares || []) as SharedRecording[]).filter(share => !isShareExpired(share))
+      const recordingIds = live.map(s => s.recording_id)
+      const ownerIds = [...new Set(live.map(s => s.shared_by))]
+
+      const [recordingsResult, analysesResult, profilesResult] = await Promise.all([
+        recordingIds.length > 0
+          ? supabase.from('recordings').select('id, file_name, created_at').in('id', recordingIds)
+          : Promise.resolve({ data: [] }),
+        recordingIds.length > 0
+          ? supabase.from('audio_analyses').select('recording_id, w4_report').in('recording_id', recordingIds)
+          : Promise.resolve({ data: [] }),
+        ownerIds.length > 0
+          ? supabase.from('profiles').select('id, email').in('id', ownerIds)
+          : Promise.resolve({ data: [] }),
+      ])
+
+      const recordingMap = new Map(
+        ((recordingsResult.data || []) as { id: string; file_name: string; created_at: string }[]).map(r => [r.id, r])
+      )
+      const reportMap = new Map(
+        ((analysesResult.data || []) as { recording_id: string; w4_report: W4Report | null }[])
+          .map(a => [a.recording_id, a.w4_report])
+      )
+      const emailMap = new Map(
+        ((profilesResult.data || []) as { id: string; email: string }[]).map(p => [p.id, p.email])
+      )
+
+      setItems(live.flatMap(share => {
+        const recording = recordingMap.get(share.recording_id)
+        if (!recording) return []
+        return [{
+          shareId: share.id,
+          recordingId: share.recording_id,
+          fileName: recording.file_name,
+          createdAt: recording.created_at,
+          sharedAt: share.created_at,
+          ownerEmail: emailMap.get(share.shared_by) || 'Unknown',
+          permissions: share.permissions,
+          expiresAt: share.expires_at,
+          w4Report: reportMap.get(share.recording_id) || null,
+        }]
+      }))
+    } catch (err) {
+      console.error('Error loading shared recordings:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadShared()
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+  return (
+    <section>
+      <h2 className="text-xl font-semibold text-white mb-4">Shared with me</h2>
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-2 border-amber-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-12 bg-slate-800/50 border border-slate-700/50 rounded-xl text-slate-400">
+          Nobody has shared a recording with you yet.
+        </div>
+      ) : (
+        <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl divide-y divide-slate-700/50">
+          {items.map(item => {
+            const overall = item.w4Report?.overall_performance
+            return (
+              <Link
+                key={item.shareId}
+                href={`/dashboard/recordings/${item.recordingId}`}
+                className="flex items-center gap-4 px-4 py-3 hover:bg-slate-700/30 transition-colors"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-white truncate">{item.fileName}</p>
+                  <p className="text-sm text-slate-400">
+                    {item.ownerEmail} • {formatDate(item.createdAt)} • {SHARE_PERMISSION_LABELS[item.permissions]}
+                    {item.expiresAt && ` • until ${formatDate(item.expiresAt)}`}
+                  </p>
+                </div>
+                {overall ? (
+                  <div className="text-right">
+                    <p className="text-lg font-bold" style={{ color: getW4RatingColor(overall.rating) }}>
+                      {overall.total_score}
+                    </p>
+                    <p className="text-xs text-slate-400">{overall.rating}</p>
+                  </div>
+                ) : (
+                  <span className="text-xs text-slate-500">Not analyzed</span>
+                )}
+              </Link>
+            )
+          })}
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,140 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/client'
+import OrganizationManager from '@/components/OrganizationManager'
+import { W4Report, getW4RatingColor } from '@/types/database'
+
+interface TeamRecording {
+  id: string
+  file_name: string
+  created_at: string
+  user_id: string
+  repEmail: string
+  w4Report: W4Report | null
+}
+
+interface TeamPanelProps {
+  userId: string
+}
+
+// Manager view: recent calls from the reps they coach plus organization management.
+// No user filter on the query - RLS (can_review_user) decides whose recordings come back.
+export default function TeamPanel({ userId }: TeamPanelProps) {
+  const [recordings, setRecordings] = useState<TeamRecording[]>([])
+  const [loading, setLoading] = useState(true)
+  const supabase = createClient()
+
+  const loadTeamRecordings = async () => {
+    if (!supabase) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('recordings')
+        .select('id, file_name, created_at, user_id')
+        .neq('user_id', userId)
+        .eq('is_archived', false)
+        .order('created_at', { ascending: false })
+        .limit(50)
+
+      if (error) throw error
+
+      const rows = data || []
+      const recordingIds = rows.map(r => r.id)
+      const userIds = [...new Set(rows.map(r => r.user_id))]
+
+      const [analysesResult, profilesResult] = await Promise.all([
+        recordingIds.length > 0
+          ? supabase.from('audio_analyses').select('recording_id, w4_report').in('recording_id', recordingIds)
+          : Promise.resolve({ data: [] }),
+        userIds.length > 0
+          ? supabase.from('profiles').select('id, email').in('id', userIds)
+          : Promise.resolve({ data: [] }),
+      ])
+
+      const reportMap = new Map(
+        ((analysesResult.data || []) as { recording_id: string; w4_report: W4Report | null }[])
+          .map(a => [a.recording_id, a.w4_report])
+      )
+      const emailMap = new Map(
+        ((profilesResult.data || []) as { id: string; email: string }[]).map(p => [p.id, p.email])
+      )
+
+      setRecordings(rows.map(r => ({
+        ...r,
+        repEmail: emailMap.get(r.user_id) || 'Unknown rep',
+        w4Report: reportMap.get(r.id) || null,
+      })))
+    } catch (err) {
+      console.error('Error loading team recordings:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTeamRecordings()
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-white">Team Calls</h2>
+          <Link href="/dashboard/leaderboard" className="text-sm text-violet-400 hover:text-violet-300">
+            Leaderboard →
+          </Link>
+        </div>
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="w-8 h-8 border-2 border-amber-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : recordings.length === 0 ? (
+          <div className="text-center py-12 bg-slate-800/50 border border-slate-700/50 rounded-xl text-slate-400">
+            No calls from your reps yet.
+          </div>
+        ) : (
+          <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl divide-y divide-slate-700/50">
+            {recordings.map(recording => {
+              const overall = recording.w4Report?.overall_performance
+              return (
+                <Link
+                  key={recording.id}
+                  href={`/dashboard/recordings/${recording.id}`}
+                  className="flex items-center gap-4 px-4 py-3 hover:bg-slate-700/30 transition-colors"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white truncate">{recording.file_name}</p>
+                    <p className="text-sm text-slate-400">
+                      {recording.repEmail} • {new Date(recording.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                    </p>
+                  </div>
+                  {overall ? (
+                    <div className="text-right">
+                      <p className="text-lg font-bold" style={{ color: getW4RatingColor(overall.rating) }}>
+                        {overall.total_score}
+                      </p>
+                      <p className="text-xs text-slate-400">{overall.rating}</p>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-slate-500">Not analyzed</span>
+                  )}
+                </Link>
+              )
+            })}
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-xl font-semibold text-white mb-4">Organization</h2>
+        <OrganizationManager isAdmin={false} />
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,283 @@
+'use client'
+
+import { Fragment, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { W4PhaseKey, W4_PHASE_CONFIG, getW4Rating, getW4RatingColor } from '@/types/database'
+import { W4_PHASE_KEYS } from '@/lib/w4/rubric'
+import { LeaderboardCall, LeaderboardEntry, buildLeaderboard } from '@/lib/w4/leaderboard'
+import { REVIEW_WINDOW_DAYS, ReviewedCallFilters } from '@/lib/organizations'
+
+const PHASE_COLORS: Record<W4PhaseKey, string> = {
+  why: '#3b82f6',
+  what: '#8b5cf6',
+  who: '#f97316',
+  when: '#22c55e',
+}
+
+// Checkpoint gaps smaller than this (percentage points) read as "in line with the team"
+const LAG_THRESHOLD = 5
+
+function formatDelta(value: number): string {
+  const rounded = Math.round(value)
+  return rounded > 0 ? `+${rounded}` : String(rounded)
+}
+
+interface Props {
+  calls: LeaderboardCall[]
+  reps: { userId: string; email: string }[]
+  organizations: { id: string; name: string }[]  // Only passed to admins
+  organizationId: string | null
+  filters: ReviewedCallFilters                    // Applied by the page's query
+  rubricOptions: { value: string; label: string }[]
+}
+
+export default function LeaderboardClient({ calls, reps, organizations, organizationId, filters, rubricOptions }: Props) {
+  const [expandedUserId, setExpandedUserId] = useState<string | null>(null)
+  const router = useRouter()
+  const { from = '', to = '', rubricId = '' } = filters
+
+  const leaderboard = useMemo(() => buildLeaderboard(calls), [calls])
+  const emailById = useMemo(() => new Map(reps.map(r => [r.userId, r.email])), [reps])
+  const hasFilters = Boolean(from || to || rubricId)
+
+  // Filters live in the URL so the page reloads just the calls they match
+  const applyFilters = (next: ReviewedCallFilters) => {
+    const params = new URLSearchParams()
+    if (organizations.length > 0 && organizationId) params.set('org', organizationId)
+    const merged = { from, to, rubricId, ...next }
+    if (merged.from) params.set('from', merged.from)
+    if (merged.to) params.set('to', merged.to)
+    if (merged.rubricId) params.set('rubric', merged.rubricId)
+    router.push(`/dashboard/leaderboard?${params}`)
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <header className="border-b border-slate-700/50 bg-slate-900/50 backdrop-blur-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/dashboard" className="text-slate-400 hover:text-white text-sm">← Dashboard</Link>
+            <h1 className="text-white font-semibold">Leaderboard</h1>
+          </div>
+          {organizations.length > 0 && (
+            <select
+              value={organizationId || ''}
+              onChange={(e) => router.push(`/dashboard/leaderboard?org=${e.target.value}`)}
+              className="px-3 py-1.5 bg-slate-800/50 border border-slate-700 rounded-lg text-sm text-white"
+            >
+              {organizations.map(org => (
+                <option key={org.id} value={org.id}>{org.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Filters */}
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-xs text-slate-400">
+            From
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => applyFilters({ from: e.target.value })}
+              className="block mt-1 px-3 py-1.5 bg-slate-800/50 border border-slate-700 rounded-lg text-sm text-white"
+            />
+          </label>
+          <label className="text-xs text-slate-400">
+            To
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => applyFilters({ to: e.target.value })}
+              className="block mt-1 px-3 py-1.5 bg-slate-800/50 border border-slate-700 rounded-lg text-sm text-white"
+            />
+          </label>
+          <label className="text-xs text-slate-400">
+            Rubric
+            <select
+              value={rubricId}
+              onChange={(e) => applyFilters({ rubricId: e.target.value })}
+              className="block mt-1 px-3 py-1.5 bg-slate-800/50 border border-slate-700 rounded-lg text-sm text-white"
+            >
+              <option value="">All versions</option>
+              {rubricOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          {hasFilters && (
+            <button
+              onClick={() => applyFilters({ from: '', to: '', rubricId: '' })}
+              className="px-3 py-1.5 text-sm text-slate-400 hover:text-white"
+            >
+              Clear filters
+            </button>
+          )}
+          {!from && (
+            <p className="pb-2 text-xs text-slate-500">Showing the last {REVIEW_WINDOW_DAYS} days - set From to look further back</p>
+          )}
+        </div>
+
+        {leaderboard.entries.length === 0 ? (
+          <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-8 text-center">
+            <p className="text-slate-300 font-medium">
+              {organizationId ? 'No analyzed calls' : 'No organization yet'}
+            </p>
+            <p className="text-slate-500 text-sm mt-1">
+              {!organizationId
+                ? 'The leaderboard ranks the reps in your organization once it has members.'
+                : hasFilters
+                  ? 'Nothing matches these filters.'
+                  : 'Reps show up here once their calls have a W4 report.'}
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+                <p className="text-slate-400 text-sm">Reps</p>
+                <p className="text-2xl font-bold text-white">{leaderboard.entries.length}</p>
+              </div>
+              <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+                <p className="text-slate-400 text-sm">Analyzed calls</p>
+                <p className="text-2xl font-bold text-white">{leaderboard.calls}</p>
+              </div>
+              <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+                <p className="text-slate-400 text-sm">Team median score</p>
+                <p className="text-2xl font-bold text-white">{leaderboard.teamMedianScore}</p>
+              </div>
+              <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+                <p className="text-slate-400 text-sm">Team median by phase</p>
+                <div className="flex gap-3 mt-1">
+                  {W4_PHASE_KEYS.map(key => (
+                    <span key={key} className="text-sm">
+                      <span className="text-xs mr-1" style={{ color: PHASE_COLORS[key] }}>{W4_PHASE_CONFIG[key].name}</span>
+                      <span className="text-white font-medium">{Math.round(leaderboard.teamMedianPhases?.[key] ?? 0)}%</span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Rankings */}
+            <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+              <div className="px-4 py-3 border-b border-slate-700/50">
+                <h2 className="text-white font-medium">Rankings</h2>
+                <p className="text-slate-500 text-xs">
+                  Ranked by average score (no-sale cap applied). Phase scores are % of max. Click a rep to compare their checkpoints with the team median.
+                </p>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 border-b border-slate-700/50">
+                    <th className="px-4 py-2 w-12">#</th>
+                    <th className="px-4 py-2">Rep</th>
+                    <th className="px-4 py-2 text-right">Calls</th>
+                    <th className="px-4 py-2 text-right">Avg score</th>
+                    <th className="px-4 py-2 text-right">Close rate</th>
+                    {W4_PHASE_KEYS.map(key => (
+                      <th key={key} className="px-4 py-2 text-right" style={{ color: PHASE_COLORS[key] }}>
+                        {W4_PHASE_CONFIG[key].name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {leaderboard.entries.map(entry => (
+                    <Fragment key={entry.userId}>
+                      <tr
+                        onClick={() => setExpandedUserId(expandedUserId === entry.userId ? null : entry.userId)}
+                        className="border-b border-slate-700/30 cursor-pointer hover:bg-slate-700/20"
+                      >
+                        <td className="px-4 py-3 text-slate-400">{entry.rank}</td>
+                        <td className="px-4 py-3 text-white">{emailById.get(entry.userId) || 'Unknown rep'}</td>
+                        <td className="px-4 py-3 text-right text-slate-300">{entry.calls}</td>
+                        <td className="px-4 py-3 text-right font-semibold" style={{ color: getW4RatingColor(getW4Rating(entry.avgScore)) }}>
+                          {entry.avgScore}
+                        </td>
+                        <td className="px-4 py-3 text-right text-slate-300">
+                          {entry.closeRate === null ? '—' : `${Math.round(entry.closeRate)}%`}
+                        </td>
+                        {W4_PHASE_KEYS.map(key => (
+                          <td
+                            key={key}
+                            className={`px-4 py-3 text-right ${
+                              key === entry.strongestPhase ? 'text-green-400' : key === entry.weakestPhase ? 'text-red-400' : 'text-slate-300'
+                            }`}
+                          >
+                            {Math.round(entry.phasePercents[key])}%
+                          </td>
+                        ))}
+                      </tr>
+                      {expandedUserId === entry.userId && (
+                        <tr className="border-b border-slate-700/30 bg-slate-900/30">
+                          <td colSpan={5 + W4_PHASE_KEYS.length} className="px-4 py-4">
+                            <CheckpointComparison entry={entry} />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
+
+// ===========================================
+// Rep vs team median, per checkpoint
+// ===========================================
+
+function CheckpointComparison({ entry }: { entry: LeaderboardEntry }) {
+  const lagging = entry.checkpoints.filter(cp => cp.delta <= -LAG_THRESHOLD)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-slate-300 text-sm">
+          {lagging.length === 0
+            ? 'In line with or ahead of the team median on every checkpoint.'
+            : `Behind the team median on ${lagging.length} checkpoint${lagging.length === 1 ? '' : 's'}.`}
+        </p>
+        <Link href={`/dashboard/progress?user=${entry.userId}`} className="text-xs text-amber-400 hover:text-amber-300">
+          View progress →
+        </Link>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-slate-500">
+            <th className="py-1">Checkpoint</th>
+            <th className="py-1 text-right w-20">Rep</th>
+            <th className="py-1 text-right w-24">Team median</th>
+            <th className="py-1 text-right w-20">Gap</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entry.checkpoints.map(cp => (
+            <tr key={`${cp.phase}:${cp.name}`} className="border-t border-slate-700/30">
+              <td className="py-1.5">
+                <span className="text-xs uppercase mr-2" style={{ color: PHASE_COLORS[cp.phase] }}>{cp.phase}</span>
+                <span className="text-slate-200">{cp.name}</span>
+              </td>
+              <td className="py-1.5 text-right text-slate-300">{Math.round(cp.repPercent)}%</td>
+              <td className="py-1.5 text-right text-slate-400">{Math.round(cp.teamMedian)}%</td>
+              <td className={`py-1.5 text-right ${
+                cp.delta <= -LAG_THRESHOLD ? 'text-red-400' : cp.delta >= LAG_THRESHOLD ? 'text-green-400' : 'text-slate-500'
+              }`}>
+                {formatDelta(cp.delta)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
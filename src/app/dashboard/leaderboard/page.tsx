@@ -0,0 +1,44 @@
+import { createClient } from '@/lib/supabase/server'
+import LeaderboardClient from './LeaderboardClient'
+import { BUILT_IN_RUBRIC_FILTER, loadReviewedReports, requireReviewScope } from '@/lib/organizations'
+import { loadRubricVersions } from '@/lib/w4/rubric'
+import { BUILT_IN_RUBRIC, rubricLabel, toLeaderboardCall } from '@/lib/w4/leaderboard'
+
+interface PageProps {
+  searchParams: Promise<{ org?: string; from?: string; to?: string; rubric?: string }>
+}
+
+export default async function LeaderboardPage({ searchParams }: PageProps) {
+  const { org: requestedOrgId, from, to, rubric } = await searchParams
+
+  // Managers see their own organization; admins pick one with ?org=
+  const { supabase, organizations, organizationId, memberIds } = await requireReviewScope(await createClient(), requestedOrgId)
+  const filters = { from, to, rubricId: rubric }
+
+  const [reports, rubricVersions, { data: profiles }] = await Promise.all([
+    loadReviewedReports(supabase, memberIds, filters),
+    loadRubricVersions(supabase),
+    supabase
+      .from('profiles')
+      .select('id, email')
+      .in('id', memberIds),
+  ])
+
+  const calls = reports.map(row =>
+    toLeaderboardCall(row.recordings.user_id, row.recording_id, row.recordings.created_at, row.w4_report)
+  )
+
+  return (
+    <LeaderboardClient
+      calls={calls}
+      reps={(profiles || []).map((p: { id: string; email: string }) => ({ userId: p.id, email: p.email }))}
+      organizations={organizations}
+      organizationId={organizationId}
+      filters={filters}
+      rubricOptions={[
+        ...rubricVersions.map(ref => ({ value: ref.id, label: rubricLabel(ref) })),
+        { value: BUILT_IN_RUBRIC_FILTER, label: BUILT_IN_RUBRIC },
+      ]}
+    />
+  )
+}
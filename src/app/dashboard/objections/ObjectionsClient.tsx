@@ -0,0 +1,289 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useToast } from '@/components/ui/Toast'
+import { ObjectionCategory, ObjectionSource } from '@/types/database'
+import {
+  OBJECTION_CATEGORIES,
+  OBJECTION_CATEGORY_KEYS,
+  ObjectionBucket,
+  ObjectionCall,
+  buildObjectionAnalytics,
+  monthKey,
+} from '@/lib/w4/objections'
+
+// What the drill-down list shows; every field is optional so one click can narrow by any of them
+interface Selection {
+  category?: ObjectionCategory
+  userId?: string
+  month?: string
+  label: string
+}
+
+const SOURCE_LABELS: Record<ObjectionSource, string> = {
+  ai: 'AI',
+  rules: 'Keywords',
+  manual: 'Manual',
+}
+
+interface Props {
+  calls: ObjectionCall[]
+  reps: { userId: string; email: string }[]
+  organizations: { id: string; name: string }[]  // Only passed to admins
+  organizationId: string | null
+}
+
+export default function ObjectionsClient({ calls, reps, organizations, organizationId }: Props) {
+  // Manual corrections made on this page, laid over the server's rows until the next load
+  const [corrections, setCorrections] = useState<Record<string, ObjectionCategory>>({})
+  const [selection, setSelection] = useState<Selection | null>(null)
+  const [classifying, setClassifying] = useState(false)
+  const router = useRouter()
+  const toast = useToast()
+
+  const emailById = useMemo(() => new Map(reps.map(r => [r.userId, r.email])), [reps])
+  const currentCalls = useMemo(() => calls.map(call => corrections[call.recordingId]
+    ? { ...call, category: corrections[call.recordingId], source: 'manual' as const }
+    : call
+  ), [calls, corrections])
+  const analytics = useMemo(
+    () => buildObjectionAnalytics(currentCalls, userId => emailById.get(userId) || 'Unknown rep'),
+    [currentCalls, emailById]
+  )
+  const unclassified = currentCalls.filter(c => c.source === null).length
+
+  const drillDown = currentCalls
+    .filter(call =>
+      (!selection?.category || call.category === selection.category) &&
+      (!selection?.userId || call.userId === selection.userId) &&
+      (!selection?.month || monthKey(call.date) === selection.month)
+    )
+    .sort((a, b) => b.date.localeCompare(a.date))
+
+  const handleClassify = async () => {
+    setClassifying(true)
+    try {
+      const response = await fetch('/api/objections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'classify', organizationId }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.message || 'Classification failed')
+      toast.success(result.remaining > 0
+        ? `Classified ${result.classified} calls - ${result.remaining} left, run it again`
+        : `Classified ${result.classified} calls`)
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Classification failed')
+    } finally {
+      setClassifying(false)
+    }
+  }
+
+  const handleSetCategory = async (recordingId: string, category: ObjectionCategory) => {
+    try {
+      const response = await fetch('/api/objections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'set_category', recordingId, category }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.message || 'Failed to update category')
+      setCorrections(prev => ({ ...prev, [recordingId]: category }))
+      toast.success(`Filed under ${OBJECTION_CATEGORIES[category].label}`)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update category')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <header className="border-b border-slate-700/50 bg-slate-900/50 backdrop-blur-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/dashboard" className="text-slate-400 hover:text-white text-sm">← Dashboard</Link>
+            <h1 className="text-white font-semibold">Lost Deals</h1>
+          </div>
+          {organizations.length > 0 && (
+            <select
+              value={organizationId || ''}
+              onChange={(e) => router.push(`/dashboard/objections?org=${e.target.value}`)}
+              className="px-3 py-1.5 bg-slate-800/50 border border-slate-700 rounded-lg text-sm text-white"
+            >
+              {organizations.map(org => (
+                <option key={org.id} value={org.id}>{org.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {analytics.total === 0 ? (
+          <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-8 text-center">
+            <p className="text-slate-300 font-medium">No lost deals yet</p>
+            <p className="text-slate-500 text-sm mt-1">Calls show up here once a W4 report finds the sale didn&apos;t close.</p>
+          </div>
+        ) : (
+          <>
+            {unclassified > 0 && (
+              <div className="flex items-center justify-between gap-4 bg-amber-500/10 border border-amber-500/30 rounded-xl px-4 py-3">
+                <p className="text-sm text-amber-200">
+                  {unclassified} call{unclassified === 1 ? ' was' : 's were'} analyzed before objections were categorized. They&apos;re shown under a keyword guess for now.
+                </p>
+                <button
+                  onClick={handleClassify}
+                  disabled={classifying}
+                  className="px-3 py-1.5 bg-amber-500 hover:bg-amber-600 text-white text-sm font-medium rounded-lg disabled:opacity-50 whitespace-nowrap"
+                >
+                  {classifying ? 'Classifying...' : 'Classify with AI'}
+                </button>
+              </div>
+            )}
+
+            {/* Loss reasons */}
+            <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-6">
+              <h2 className="text-white font-medium mb-4">Loss reasons · {analytics.total} lost call{analytics.total === 1 ? '' : 's'}</h2>
+              <div className="space-y-2">
+                {analytics.byCategory.map(({ category, count }) => (
+                  <button
+                    key={category}
+                    onClick={() => setSelection({ category, label: OBJECTION_CATEGORIES[category].label })}
+                    className="w-full flex items-center gap-3 text-left group"
+                  >
+                    <span className="w-48 text-sm text-slate-300 group-hover:text-white truncate">{OBJECTION_CATEGORIES[category].label}</span>
+                    <span className="flex-1 h-4 bg-slate-700/50 rounded overflow-hidden">
+                      <span
+                        className="block h-full rounded"
+                        style={{ width: `${(count / analytics.total) * 100}%`, backgroundColor: OBJECTION_CATEGORIES[category].color }}
+                      />
+                    </span>
+                    <span className="w-20 text-right text-sm text-slate-400">
+                      {count} · {Math.round((count / analytics.total) * 100)}%
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <BucketChart
+                title="By rep"
+                buckets={analytics.byRep}
+                onSelect={(bucket, category) => setSelection({
+                  userId: bucket.key,
+                  category,
+                  label: category ? `${bucket.label} · ${OBJECTION_CATEGORIES[category].label}` : bucket.label,
+                })}
+              />
+              <BucketChart
+                title="By month"
+                buckets={analytics.byMonth}
+                onSelect={(bucket, category) => setSelection({
+                  month: bucket.key,
+                  category,
+                  label: category ? `${bucket.label} · ${OBJECTION_CATEGORIES[category].label}` : bucket.label,
+                })}
+              />
+            </div>
+
+            {/* Drill-down */}
+            <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+              <div className="px-4 py-3 border-b border-slate-700/50 flex items-center justify-between">
+                <div>
+                  <h2 className="text-white font-medium">{selection ? selection.label : 'All lost calls'}</h2>
+                  <p className="text-slate-500 text-xs">Click any bar to narrow the list. Change a category to correct it.</p>
+                </div>
+                {selection && (
+                  <button onClick={() => setSelection(null)} className="text-sm text-slate-400 hover:text-white">
+                    Show all
+                  </button>
+                )}
+              </div>
+              <div className="divide-y divide-slate-700/30">
+                {drillDown.map(call => (
+                  <div key={call.recordingId} className="flex items-center gap-4 px-4 py-3">
+                    <div className="flex-1 min-w-0">
+                      <Link href={`/dashboard/recordings/${call.recordingId}`} className="text-white hover:text-amber-400 truncate block">
+                        {call.title}
+                      </Link>
+                      <p className="text-xs text-slate-500">
+                        {emailById.get(call.userId) || 'Unknown rep'} • {new Date(call.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                      </p>
+                      <p className="text-sm text-slate-300 mt-1">{call.reason || <span className="text-slate-500">No reason given</span>}</p>
+                    </div>
+                    <span className="text-xs text-slate-500 w-16 text-right">{call.source ? SOURCE_LABELS[call.source] : 'Guess'}</span>
+                    <select
+                      value={call.category}
+                      onChange={(e) => handleSetCategory(call.recordingId, e.target.value as ObjectionCategory)}
+                      className="px-2 py-1 bg-slate-900/50 border border-slate-600 rounded-lg text-sm text-white"
+                    >
+                      {OBJECTION_CATEGORY_KEYS.map(key => (
+                        <option key={key} value={key}>{OBJECTION_CATEGORIES[key].label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
+
+// ===========================================
+// Stacked bars - one row per rep or month, one segment per category
+// ===========================================
+
+interface BucketChartProps {
+  title: string
+  buckets: ObjectionBucket[]
+  onSelect: (bucket: ObjectionBucket, category?: ObjectionCategory) => void
+}
+
+function BucketChart({ title, buckets, onSelect }: BucketChartProps) {
+  const max = Math.max(...buckets.map(b => b.total), 1)
+
+  return (
+    <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-6">
+      <h2 className="text-white font-medium mb-4">{title}</h2>
+      <div className="space-y-2">
+        {buckets.map(bucket => (
+          <div key={bucket.key} className="flex items-center gap-3">
+            <button
+              onClick={() => onSelect(bucket)}
+              className="w-36 text-left text-sm text-slate-300 hover:text-white truncate"
+            >
+              {bucket.label}
+            </button>
+            <div className="flex-1 h-4 flex rounded overflow-hidden bg-slate-700/30" style={{ maxWidth: `${(bucket.total / max) * 100}%` }}>
+              {OBJECTION_CATEGORY_KEYS.filter(key => bucket.counts[key] > 0).map(key => (
+                <button
+                  key={key}
+                  onClick={() => onSelect(bucket, key)}
+                  title={`${OBJECTION_CATEGORIES[key].label}: ${bucket.counts[key]}`}
+                  className="h-full hover:opacity-80"
+                  style={{ width: `${(bucket.counts[key] / bucket.total) * 100}%`, backgroundColor: OBJECTION_CATEGORIES[key].color }}
+                />
+              ))}
+            </div>
+            <span className="w-8 text-right text-sm text-slate-400">{bucket.total}</span>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-3 mt-4">
+        {OBJECTION_CATEGORY_KEYS.map(key => (
+          <span key={key} className="flex items-center gap-1 text-xs text-slate-400">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: OBJECTION_CATEGORIES[key].color }} />
+            {OBJECTION_CATEGORIES[key].label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
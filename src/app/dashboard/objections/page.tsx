@@ -0,0 +1,52 @@
+import { createClient } from '@/lib/supabase/server'
+import ObjectionsClient from './ObjectionsClient'
+import { loadLostDeals, requireReviewScope } from '@/lib/organizations'
+import { ObjectionCall, classifyObjectionByRules } from '@/lib/w4/objections'
+import { CallObjection } from '@/types/database'
+
+interface PageProps {
+  searchParams: Promise<{ org?: string }>
+}
+
+export default async function ObjectionsPage({ searchParams }: PageProps) {
+  const { org: requestedOrgId } = await searchParams
+  const { supabase, organizations, organizationId, memberIds } = await requireReviewScope(await createClient(), requestedOrgId)
+
+  const [lost, { data: profiles }] = await Promise.all([
+    loadLostDeals(supabase, memberIds),
+    supabase
+      .from('profiles')
+      .select('id, email')
+      .in('id', memberIds),
+  ])
+
+  const { data: objections } = await supabase
+    .from('call_objections')
+    .select('*')
+    .in('recording_id', lost.map(row => row.recording_id))
+
+  const objectionById = new Map(((objections || []) as CallObjection[]).map(o => [o.recording_id, o]))
+
+  const calls: ObjectionCall[] = lost.map(row => {
+    const objection = objectionById.get(row.recording_id)
+    const reason = row.sale_outcome?.objection_reason?.trim() || null
+    return {
+      recordingId: row.recording_id,
+      userId: row.recordings.user_id,
+      date: row.recordings.created_at,
+      title: row.title || row.recordings.file_name,
+      reason,
+      category: objection?.category || classifyObjectionByRules(reason),
+      source: objection?.source || null,
+    }
+  })
+
+  return (
+    <ObjectionsClient
+      calls={calls}
+      reps={(profiles || []).map((p: { id: string; email: string }) => ({ userId: p.id, email: p.email }))}
+      organizations={organizations}
+      organizationId={organizationId}
+    />
+  )
+}
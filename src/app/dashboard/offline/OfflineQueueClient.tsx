@@ -0,0 +1,338 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useToast } from '@/components/ui/Toast'
+import { useOfflineStatus } from '@/hooks/useOfflineStatus'
+import {
+  PendingRecording,
+  RetryState,
+  MAX_AUTO_RETRIES,
+  getRetryState,
+  updatePendingRecording,
+  resetRecordingRetries,
+  deleteOfflineRecording,
+  requestPersistentStorage,
+  isStorageLow,
+  formatFileSize,
+} from '@/lib/offlineStorage'
+import { requestBackgroundSync } from '@/lib/syncService'
+import { extensionForMimeType } from '@/lib/recordingPaths'
+
+interface Props {
+  userId: string
+}
+
+function formatAge(dateString: string, now: number): string {
+  const diffMins = Math.floor((now - new Date(dateString).getTime()) / 60000)
+  if (diffMins < 1) return 'Just now'
+  if (diffMins < 60) return `${diffMins}m ago`
+  if (diffMins < 24 * 60) return `${Math.floor(diffMins / 60)}h ago`
+  return `${Math.floor(diffMins / (24 * 60))}d ago`
+}
+
+function formatWait(ms: number): string {
+  const secs = Math.max(Math.ceil(ms / 1000), 0)
+  if (secs < 60) return `${secs}s`
+  if (secs < 3600) return `${Math.ceil(secs / 60)}m`
+  return `${Math.round(secs / 3600)}h`
+}
+
+function retryLabel(recording: PendingRecording, state: RetryState, now: number): { text: string; className: string } {
+  switch (state.kind) {
+    case 'uploading':
+      return { text: 'Uploading…', className: 'bg-blue-500/20 text-blue-300' }
+    case 'backoff':
+      return {
+        text: `Attempt ${recording.retryCount + 1} of ${MAX_AUTO_RETRIES} in ${formatWait(state.nextAttemptAt - now)}`,
+        className: 'bg-orange-500/20 text-orange-300',
+      }
+    case 'exhausted':
+      return { text: 'Automatic retries stopped', className: 'bg-red-500/20 text-red-300' }
+    default:
+      return recording.status === 'error'
+        ? { text: 'Retrying on next sync', className: 'bg-orange-500/20 text-orange-300' }
+        : { text: 'Waiting to upload', className: 'bg-amber-500/20 text-amber-300' }
+  }
+}
+
+// Renamed recordings export under their new name, with the original extension
+function exportFileName(recording: PendingRecording): string {
+  const extension = recording.fileName.match(/\.([a-z0-9]+)$/i)?.[1] || extensionForMimeType(recording.mimeType)
+  const baseName = recording.displayName || recording.fileName.replace(/\.[^/.]+$/, '')
+  return `${baseName.replace(/[\\/:*?"<>|]/g, '_')}.${extension}`
+}
+
+export default function OfflineQueueClient({ userId }: Props) {
+  const toast = useToast()
+  const { isOnline, pendingRecordings, storage, syncStatus, syncNow, refreshPending } = useOfflineStatus(userId)
+  const [now, setNow] = useState(() => Date.now())
+  const [playing, setPlaying] = useState<{ id: string; url: string } | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editName, setEditName] = useState('')
+
+  const totalSize = pendingRecordings.reduce((sum, r) => sum + r.fileSize, 0)
+  const storageLow = storage ? isStorageLow(storage) : false
+
+  // Keep ages and retry countdowns current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 10000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Release the preview once it's closed or the page goes away
+  useEffect(() => {
+    return () => {
+      if (playing) URL.revokeObjectURL(playing.url)
+    }
+  }, [playing])
+
+  const togglePlay = (recording: PendingRecording) => {
+    setPlaying(current => current?.id === recording.id
+      ? null
+      : { id: recording.id, url: URL.createObjectURL(recording.audioBlob) }
+    )
+  }
+
+  const retryNow = async (recording: PendingRecording) => {
+    try {
+      await resetRecordingRetries(recording.id)
+      if (isOnline) {
+        await syncNow()
+      } else {
+        requestBackgroundSync()
+        await refreshPending()
+        toast.info('Will retry as soon as you\'re back online')
+      }
+    } catch (error) {
+      console.error('Failed to retry recording:', error)
+      toast.error('Failed to retry upload')
+    }
+  }
+
+  const startRename = (recording: PendingRecording) => {
+    setEditingId(recording.id)
+    setEditName(recording.displayName || recording.fileName)
+  }
+
+  const saveRename = async (recording: PendingRecording) => {
+    const displayName = editName.trim()
+    if (!displayName) return
+
+    try {
+      await updatePendingRecording(recording.id, { displayName })
+      setEditingId(null)
+      await refreshPending()
+    } catch (error) {
+      console.error('Failed to rename recording:', error)
+      toast.error('Failed to rename recording')
+    }
+  }
+
+  const exportRecording = (recording: PendingRecording) => {
+    const url = URL.createObjectURL(recording.audioBlob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = exportFileName(recording)
+    a.click()
+    // Revoking straight away can cancel the download before the browser has read the blob
+    setTimeout(() => URL.revokeObjectURL(url), 60_000)
+  }
+
+  const deleteRecording = async (recording: PendingRecording) => {
+    const name = recording.displayName || recording.fileName
+    if (!confirm(`Delete "${name}"? It hasn't been uploaded, so it can't be recovered. Export it first to keep a copy.`)) return
+
+    try {
+      if (playing?.id === recording.id) setPlaying(null)
+      await deleteOfflineRecording(recording.id)
+      await refreshPending()
+      toast.success('Recording deleted')
+    } catch (error) {
+      console.error('Failed to delete recording:', error)
+      toast.error('Failed to delete recording')
+    }
+  }
+
+  const keepOnDevice = async () => {
+    const persisted = await requestPersistentStorage()
+    await refreshPending()
+    if (persisted) {
+      toast.success('Queued recordings will be kept on this device')
+    } else {
+      toast.warning('The browser declined - install the app to keep recordings safe from cleanup')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <header className="border-b border-slate-700/50 bg-slate-900/50 backdrop-blur-sm">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/dashboard" className="text-slate-400 hover:text-white text-sm">← Dashboard</Link>
+            <h1 className="text-white font-semibold">Upload Queue</h1>
+          </div>
+          <button
+            onClick={syncNow}
+            disabled={!isOnline || syncStatus?.isSyncing || pendingRecordings.length === 0}
+            className="px-3 py-1.5 bg-amber-500 hover:bg-amber-400 text-amber-950 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {syncStatus?.isSyncing ? 'Syncing…' : 'Sync Now'}
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {!isOnline && (
+          <div className="bg-amber-500/10 border border-amber-500/30 rounded-xl px-4 py-3 text-sm text-amber-200">
+            You&apos;re offline. Queued recordings upload automatically once you have signal.
+          </div>
+        )}
+
+        {syncStatus?.isSyncing && (
+          <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 px-4 py-3">
+            <p className="text-sm text-slate-300">
+              Uploading {syncStatus.currentItem || 'recordings'} · {syncStatus.completedItems} / {syncStatus.totalItems}
+            </p>
+            <div className="w-full bg-slate-700/50 rounded-full h-1.5 mt-2">
+              <div
+                className="bg-blue-400 h-1.5 rounded-full transition-all duration-300"
+                style={{ width: `${syncStatus.progress}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Device storage */}
+        {storage && (
+          <div className={`rounded-xl border px-4 py-4 ${storageLow ? 'bg-red-500/10 border-red-500/30' : 'bg-slate-800/30 border-slate-700/50'}`}>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium text-white">Device storage</p>
+                <p className="text-xs text-slate-400 mt-0.5">
+                  {formatFileSize(storage.usage)} of {formatFileSize(storage.quota)} used · {formatFileSize(totalSize)} queued
+                </p>
+              </div>
+              {!storage.persisted && (
+                <button
+                  onClick={keepOnDevice}
+                  className="px-3 py-1.5 text-xs text-slate-300 hover:text-white bg-slate-700/50 hover:bg-slate-700 rounded-lg transition-colors"
+                >
+                  Keep recordings on this device
+                </button>
+              )}
+            </div>
+            <div className="w-full bg-slate-700/50 rounded-full h-1.5 mt-3">
+              <div
+                className={`h-1.5 rounded-full ${storageLow ? 'bg-red-400' : 'bg-emerald-400'}`}
+                style={{ width: `${storage.quota ? Math.min((storage.usage / storage.quota) * 100, 100) : 0}%` }}
+              />
+            </div>
+            {storageLow && (
+              <p className="text-xs text-red-300 mt-2">
+                Almost out of space. Upload or export queued recordings before recording another call, or it may not be saved.
+              </p>
+            )}
+          </div>
+        )}
+
+        {pendingRecordings.length === 0 ? (
+          <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-8 text-center">
+            <p className="text-slate-300 font-medium">Nothing waiting to upload</p>
+            <p className="text-slate-500 text-sm mt-1">Calls recorded without signal are kept here until they upload.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {pendingRecordings.map(recording => {
+              const state = getRetryState(recording, now)
+              const label = retryLabel(recording, state, now)
+              const isUploading = state.kind === 'uploading'
+
+              return (
+                <div key={recording.id} className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0 flex-1">
+                      {editingId === recording.id ? (
+                        <form
+                          onSubmit={(e) => { e.preventDefault(); saveRename(recording) }}
+                          className="flex items-center gap-2"
+                        >
+                          <input
+                            value={editName}
+                            onChange={(e) => setEditName(e.target.value)}
+                            autoFocus
+                            className="flex-1 px-3 py-1.5 bg-slate-800/50 border border-slate-700 rounded-lg text-sm text-white"
+                          />
+                          <button type="submit" className="px-3 py-1.5 text-xs font-medium text-amber-950 bg-amber-500 hover:bg-amber-400 rounded-lg">
+                            Save
+                          </button>
+                          <button type="button" onClick={() => setEditingId(null)} className="px-3 py-1.5 text-xs text-slate-400 hover:text-white">
+                            Cancel
+                          </button>
+                        </form>
+                      ) : (
+                        <p className="text-white font-medium truncate">{recording.displayName || recording.fileName}</p>
+                      )}
+                      <p className="text-xs text-slate-500 mt-1">
+                        {formatFileSize(recording.fileSize)} · recorded {formatAge(recording.createdAt, now)}
+                        {recording.retryCount > 0 && ` · ${recording.retryCount} failed attempt${recording.retryCount > 1 ? 's' : ''}`}
+                      </p>
+                      {recording.errorMessage && recording.status === 'error' && (
+                        <p className="text-xs text-red-300 mt-1 break-words">{recording.errorMessage}</p>
+                      )}
+                    </div>
+                    <span className={`shrink-0 px-2 py-1 rounded-md text-xs ${label.className} ${isUploading ? 'animate-pulse' : ''}`}>
+                      {label.text}
+                    </span>
+                  </div>
+
+                  {playing?.id === recording.id && (
+                    <audio src={playing.url} controls autoPlay className="w-full mt-3" />
+                  )}
+
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    <button
+                      onClick={() => togglePlay(recording)}
+                      className="px-3 py-1.5 text-xs text-slate-300 hover:text-white bg-slate-700/50 hover:bg-slate-700 rounded-lg transition-colors"
+                    >
+                      {playing?.id === recording.id ? 'Close player' : 'Play'}
+                    </button>
+                    {recording.status === 'error' && (
+                      <button
+                        onClick={() => retryNow(recording)}
+                        disabled={syncStatus?.isSyncing}
+                        className="px-3 py-1.5 text-xs text-amber-300 hover:text-amber-200 bg-amber-500/10 hover:bg-amber-500/20 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        Retry now
+                      </button>
+                    )}
+                    <button
+                      onClick={() => startRename(recording)}
+                      disabled={isUploading}
+                      className="px-3 py-1.5 text-xs text-slate-300 hover:text-white bg-slate-700/50 hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => exportRecording(recording)}
+                      className="px-3 py-1.5 text-xs text-slate-300 hover:text-white bg-slate-700/50 hover:bg-slate-700 rounded-lg transition-colors"
+                    >
+                      Export
+                    </button>
+                    <button
+                      onClick={() => deleteRecording(recording)}
+                      disabled={isUploading}
+                      className="px-3 py-1.5 text-xs text-red-300 hover:text-red-200 bg-red-500/10 hover:bg-red-500/20 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
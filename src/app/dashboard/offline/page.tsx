@@ -0,0 +1,34 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import DashboardLoading from '../loading'
+import OfflineQueueClient from './OfflineQueueClient'
+
+// Rendered on the client so it still opens without a connection: the queue lives in this
+// device's IndexedDB, and getSession reads the locally stored session instead of asking Supabase
+export default function OfflineQueuePage() {
+  const router = useRouter()
+  const [userId, setUserId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const { data: { session } } = await createClient().auth.getSession()
+        if (session) {
+          setUserId(session.user.id)
+          return
+        }
+      } catch (error) {
+        console.error('Failed to read session:', error)
+      }
+      router.replace('/login')
+    }
+    loadSession()
+  }, [router])
+
+  if (!userId) return <DashboardLoading />
+
+  return <OfflineQueueClient userId={userId} />
+}
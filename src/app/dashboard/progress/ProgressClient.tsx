@@ -0,0 +1,252 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { W4PhaseKey, W4Rating, W4_PHASE_CONFIG, getW4RatingColor } from '@/types/database'
+import { W4_PHASE_KEYS } from '@/lib/w4/rubric'
+import { ProgressCall, ProgressPeriod, RATING_ORDER, buildRepProgress } from '@/lib/w4/progress'
+
+const PHASE_COLORS: Record<W4PhaseKey, string> = {
+  why: '#3b82f6',
+  what: '#8b5cf6',
+  who: '#f97316',
+  when: '#22c55e',
+}
+
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 160
+
+interface ChartSeries {
+  label: string
+  color: string
+  values: number[]
+}
+
+// 0-100 line chart, one point per period
+function TrendChart({ labels, series }: { labels: string[]; series: ChartSeries[] }) {
+  const x = (i: number) => labels.length === 1 ? CHART_WIDTH / 2 : (i / (labels.length - 1)) * CHART_WIDTH
+  const y = (value: number) => CHART_HEIGHT - (value / 100) * CHART_HEIGHT
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40" preserveAspectRatio="none">
+        {[25, 50, 75].map(line => (
+          <line key={line} x1={0} x2={CHART_WIDTH} y1={y(line)} y2={y(line)} stroke="#334155" strokeDasharray="4 4" strokeWidth={1} />
+        ))}
+        {series.map(s => (
+          <g key={s.label}>
+            <polyline
+              fill="none"
+              stroke={s.color}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+              points={s.values.map((v, i) => `${x(i)},${y(v)}`).join(' ')}
+            />
+            {s.values.map((v, i) => (
+              <circle key={i} cx={x(i)} cy={y(v)} r={3} fill={s.color} vectorEffect="non-scaling-stroke">
+                <title>{`${labels[i]} · ${s.label}: ${v}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <div className="flex justify-between mt-2 text-xs text-slate-500">
+        <span>{labels[0]}</span>
+        {labels.length > 1 && <span>{labels[labels.length - 1]}</span>}
+      </div>
+    </div>
+  )
+}
+
+function formatDelta(value: number): string {
+  const rounded = Math.round(value)
+  return rounded > 0 ? `+${rounded}` : String(rounded)
+}
+
+interface Props {
+  calls: ProgressCall[]
+  repEmail: string
+  isOwnProgress: boolean
+}
+
+export default function ProgressClient({ calls, repEmail, isOwnProgress }: Props) {
+  const [period, setPeriod] = useState<ProgressPeriod>('week')
+  const progress = useMemo(() => buildRepProgress(calls, period), [calls, period])
+  const labels = progress.buckets.map(b => b.label)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <header className="border-b border-slate-700/50 bg-slate-900/50 backdrop-blur-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/dashboard" className="text-slate-400 hover:text-white text-sm">← Dashboard</Link>
+            <h1 className="text-white font-semibold">
+              {isOwnProgress ? 'My Progress' : `Progress · ${repEmail}`}
+            </h1>
+          </div>
+          <div className="flex gap-1 bg-slate-800/50 rounded-lg p-1">
+            {(['week', 'month'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setPeriod(option)}
+                className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                  period === option ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {option === 'week' ? 'Weekly' : 'Monthly'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {progress.calls === 0 ? (
+          <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-8 text-center">
+            <p className="text-slate-300 font-medium">No analyzed calls yet</p>
+            <p className="text-slate-500 text-sm mt-1">Trends show up once calls have a W4 report.</p>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+                <p className="text-slate-400 text-sm">Analyzed calls</p>
+                <p className="text-2xl font-bold text-white">{progress.calls}</p>
+              </div>
+              <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+                <p className="text-slate-400 text-sm">Average score</p>
+                <p className="text-2xl font-bold text-white">{progress.avgScore}</p>
+              </div>
+              <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+                <p className="text-slate-400 text-sm">First → latest</p>
+                <p className="text-2xl font-bold text-white">
+                  {progress.firstScore} → {progress.latestScore}
+                </p>
+              </div>
+              <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+                <p className="text-slate-400 text-sm">Current rating</p>
+                {progress.currentRating && (
+                  <p className="text-2xl font-bold" style={{ color: getW4RatingColor(progress.currentRating) }}>
+                    {progress.currentRating}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* Total score */}
+            <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-6">
+              <h2 className="text-white font-medium mb-4">Average total score</h2>
+              <TrendChart labels={labels} series={[{ label: 'Total', color: '#f59e0b', values: progress.buckets.map(b => b.avgTotal) }]} />
+            </div>
+
+            {/* Phases */}
+            <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-white font-medium">Phase scores (% of max)</h2>
+                <div className="flex gap-3">
+                  {W4_PHASE_KEYS.map(key => (
+                    <span key={key} className="flex items-center gap-1 text-xs text-slate-400">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: PHASE_COLORS[key] }} />
+                      {W4_PHASE_CONFIG[key].name}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <TrendChart
+                labels={labels}
+                series={W4_PHASE_KEYS.map(key => ({
+                  label: W4_PHASE_CONFIG[key].name,
+                  color: PHASE_COLORS[key],
+                  values: progress.buckets.map(b => b.avgPhasePercents[key]),
+                }))}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Checkpoints */}
+              <div className="lg:col-span-2 bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+                <div className="px-4 py-3 border-b border-slate-700/50">
+                  <h2 className="text-white font-medium">Checkpoint averages</h2>
+                  <p className="text-slate-500 text-xs">Change compares the earlier half of calls with the more recent half</p>
+                </div>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {progress.checkpoints.map(cp => {
+                      const change = cp.earlyPercent !== null && cp.recentPercent !== null ? cp.recentPercent - cp.earlyPercent : null
+                      return (
+                        <tr key={`${cp.phase}:${cp.name}`} className="border-b border-slate-700/30">
+                          <td className="px-4 py-2">
+                            <span className="text-xs uppercase mr-2" style={{ color: PHASE_COLORS[cp.phase] }}>{cp.phase}</span>
+                            <span className="text-slate-200">{cp.name}</span>
+                          </td>
+                          <td className="px-4 py-2 w-40">
+                            <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                              <div className="h-full rounded-full bg-amber-500" style={{ width: `${cp.avgPercent}%` }} />
+                            </div>
+                          </td>
+                          <td className="px-4 py-2 text-slate-300 text-right w-16">{Math.round(cp.avgPercent)}%</td>
+                          <td className={`px-4 py-2 text-right w-16 ${
+                            change === null || Math.abs(change) < 1 ? 'text-slate-500' : change > 0 ? 'text-green-400' : 'text-red-400'
+                          }`}>
+                            {change === null ? '—' : formatDelta(change)}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="space-y-6">
+                {/* Rating changes */}
+                <div className="bg-slate-800/30 rounded-xl border border-slate-700/50">
+                  <div className="px-4 py-3 border-b border-slate-700/50">
+                    <h2 className="text-white font-medium">Rating changes</h2>
+                  </div>
+                  {progress.ratingTransitions.length === 0 ? (
+                    <p className="px-4 py-3 text-sm text-slate-500">Same rating on every call so far</p>
+                  ) : (
+                    <ul className="divide-y divide-slate-700/30">
+                      {progress.ratingTransitions.map(t => {
+                        const up = RATING_ORDER.indexOf(t.to) > RATING_ORDER.indexOf(t.from)
+                        return (
+                          <li key={t.recordingId} className="px-4 py-2 flex items-center justify-between gap-2">
+                            <Link href={`/dashboard/recordings/${t.recordingId}`} className="text-sm hover:underline">
+                              <RatingLabel rating={t.from} /> <span className="text-slate-500">→</span> <RatingLabel rating={t.to} />
+                              <span className={`ml-2 ${up ? 'text-green-400' : 'text-red-400'}`}>{up ? '▲' : '▼'}</span>
+                            </Link>
+                            <span className="text-xs text-slate-500">{new Date(t.date).toLocaleDateString()}</span>
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  )}
+                </div>
+
+                {/* Recurring weak spots */}
+                <div className="bg-slate-800/30 rounded-xl border border-slate-700/50">
+                  <div className="px-4 py-3 border-b border-slate-700/50">
+                    <h2 className="text-white font-medium">Most frequent weakest elements</h2>
+                  </div>
+                  <ul className="divide-y divide-slate-700/30">
+                    {progress.weakestElements.map(({ element, count }) => (
+                      <li key={element} className="px-4 py-2 flex items-start justify-between gap-3 text-sm">
+                        <span className="text-slate-300">{element}</span>
+                        <span className="text-slate-500 flex-shrink-0">{count} of {progress.calls}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
+
+function RatingLabel({ rating }: { rating: W4Rating }) {
+  return <span style={{ color: getW4RatingColor(rating) }}>{rating}</span>
+}
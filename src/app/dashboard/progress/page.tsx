@@ -0,0 +1,48 @@
+import { createClient } from '@/lib/supabase/server'
+import { redirect, notFound } from 'next/navigation'
+import ProgressClient from './ProgressClient'
+import { canReviewUser, loadReviewedReports } from '@/lib/organizations'
+import { toProgressCall } from '@/lib/w4/progress'
+
+interface PageProps {
+  searchParams: Promise<{ user?: string }>
+}
+
+export default async function ProgressPage({ searchParams }: PageProps) {
+  const { user: requestedUserId } = await searchParams
+  const supabase = await createClient()
+
+  if (!supabase) {
+    redirect('/login')
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    redirect('/login')
+  }
+
+  // Reps see their own progress; admins and a rep's manager can open it with ?user=
+  const repId = requestedUserId || user.id
+  if (repId !== user.id && !(await canReviewUser(supabase, repId))) {
+    notFound()
+  }
+
+  const { data: rep } = await supabase
+    .from('profiles')
+    .select('email')
+    .eq('id', repId)
+    .maybeSingle()
+
+  // Finished reports from the review window; the call date is when the recording was made
+  const reports = await loadReviewedReports(supabase, [repId])
+  const calls = reports.map(row => toProgressCall(row.recording_id, row.recordings.created_at, row.w4_report))
+
+  return (
+    <ProgressClient
+      calls={calls}
+      repEmail={rep?.email || (repId === user.id ? user.email || '' : '')}
+      isOwnProgress={repId === user.id}
+    />
+  )
+}
@@ -7,11 +7,20 @@ import dynamic from 'next/dynamic'
 import { createClient } from '@/lib/supabase/client'
 import { useToast } from '@/components/ui/Toast'
 import { ConfirmModal } from '@/components/ui/Modal'
-import { User } from '@supabase/supabase-js'
-import { Recording, AudioAnalysis, W4Report, W4_PHASE_CONFIG } from '@/types/database'
+import { SupabaseClient, User } from '@supabase/supabase-js'
+import { Recording, AudioAnalysis, RecordingSpeaker, TranscriptSegment, W4PhaseKey, W4Report, W4ValidationError, W4_PHASE_CONFIG } from '@/types/database'
+import { scoreW4Report } from '@/lib/w4/scoring'
+import { DEFAULT_RUBRIC_NAME } from '@/lib/w4/rubric'
+import { formatTranscriptText, SpeakerEdit } from '@/lib/transcript/speakers'
+import { locateQuote } from '@/lib/w4/evidence'
+import { parseTimestamp } from '@/lib/pipeline/helpers'
+import type { ScoreOverrideChange } from '@/components/w4/W4PhaseCard'
+import { SHARE_PERMISSION_LABELS, SharePermission, hasSharePermission } from '@/lib/sharing'
+import { finishBackgroundUpload, releaseFFmpeg } from '@/lib/recordingUpload'
 
 // Lazy load heavy components
 const W4OverallPerformance = dynamic(() => import('@/components/w4/W4OverallPerformance').then(m => ({ default: m.W4OverallPerformance })))
+const W4CallAnalytics = dynamic(() => import('@/components/w4/W4CallAnalytics').then(m => ({ default: m.W4CallAnalytics })))
 const W4PhaseCard = dynamic(() => import('@/components/w4/W4PhaseCard').then(m => ({ default: m.W4PhaseCard })))
 const W4TotalScores = dynamic(() => import('@/components/w4/W4TotalScores').then(m => ({ default: m.W4TotalScores })))
 const W4Insights = dynamic(() => import('@/components/w4/W4Insights').then(m => ({ default: m.W4Insights })))
@@ -21,18 +30,48 @@ const W4ExportButton = dynamic(() => import('@/components/w4/W4ExportButton').th
 const ProcessingStages = dynamic(() => import('@/components/w4/ProcessingStages').then(m => ({ default: m.ProcessingStages })))
 const TranscriptPanel = dynamic(() => import('@/components/sales/TranscriptPanel'))
 const SimpleAudioPlayer = dynamic(() => import('@/components/SimpleAudioPlayer'))
+const ShareDialog = dynamic(() => import('./ShareDialog'))
+const CommentsManager = dynamic(() => import('@/components/CommentsManager'))
+const BookmarkManager = dynamic(() => import('@/components/BookmarkManager'))
+const RecordingTags = dynamic(() => import('@/components/RecordingTags'))
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type PartialAnalysis = any // Analysis without heavy transcript field (loaded lazily)
 
+// Transcript text, its parsed segments and the recording's speakers
+async function fetchTranscript(supabase: SupabaseClient, analysisId: string, recordingId: string) {
+  const { data } = await supabase
+    .from('audio_analyses')
+    .select('transcript, transcript_segments')
+    .eq('id', analysisId)
+    .single()
+
+  if (!data?.transcript) return null
+
+  const { data: speakers } = await supabase
+    .from('recording_speakers')
+    .select('*')
+    .eq('recording_id', recordingId)
+
+  return {
+    transcript: data.transcript as string,
+    segments: (data.transcript_segments || null) as TranscriptSegment[] | null,
+    speakers: (speakers || []) as RecordingSpeaker[],
+  }
+}
+
 interface Props {
   recording: Recording
   analysis: PartialAnalysis | null
   user: User
+  canOverrideScores?: boolean  // Managers and admins can override checkpoint scores
+  sharePermission?: SharePermission | null  // Set when the recording was shared with this user
+  rubricNames?: string[]  // Rubric variants with an active version
 }
 
-export default function RecordingDetailClient({ recording, analysis: initialAnalysis, user: _user }: Props) {
+export default function RecordingDetailClient({ recording, analysis: initialAnalysis, user, canOverrideScores = false, sharePermission = null, rubricNames = [] }: Props) {
   const [analysis, setAnalysis] = useState<PartialAnalysis | null>(initialAnalysis)
+  const [rubricName, setRubricName] = useState(DEFAULT_RUBRIC_NAME)
   const [audioUrl, setAudioUrl] = useState<string>('')
   const [currentTime, setCurrentTime] = useState(0)
   const [playbackSpeed, setPlaybackSpeed] = useState(1)
@@ -41,12 +80,20 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
   
   // Processing state from DB
   const processingStage = analysis?.processing_stage as 'pending' | 'transcribing' | 'analyzing' | 'done' | 'error' | undefined
-  const w4Report: W4Report | null = analysis?.w4_report || null
+  // Reports stamped with a rubric were scored server-side; older ones are re-scored here with the default rubric
+  const w4Report: W4Report | null = useMemo(() => {
+    const report: W4Report | null = analysis?.w4_report || null
+    if (!report) return null
+    return report.rubric ? report : scoreW4Report(report)
+  }, [analysis?.w4_report])
+  const validationErrors: W4ValidationError[] = analysis?.validation_errors || []
   // isAnalyzing = true when analyzing stage is active (even for re-analysis)
   const isAnalyzing = processingStage === 'analyzing'
   
   // Lazy-loaded transcript (loaded separately to avoid memory issues)
   const [transcript, setTranscript] = useState<string | null>(null)
+  const [transcriptSegments, setTranscriptSegments] = useState<TranscriptSegment[] | null>(null)
+  const [speakers, setSpeakers] = useState<RecordingSpeaker[]>([])
   const [transcriptLoading, setTranscriptLoading] = useState(false)
   // Initialize transcriptGenerating based on processing_stage (persists across navigation)
   const [transcriptGenerating, setTranscriptGenerating] = useState(processingStage === 'transcribing')
@@ -79,7 +126,15 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
   const [deleteModal, setDeleteModal] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
 
-  const audioRef = useRef<HTMLAudioElement>(null)
+  // Share links dialog
+  const [shareOpen, setShareOpen] = useState(false)
+
+  // Owners and reviewers can do everything; people the recording was shared with get what their grant allows
+  const canComment = !sharePermission || hasSharePermission(sharePermission, 'comment')
+  const canEdit = !sharePermission || hasSharePermission(sharePermission, 'edit')
+
+  // Player jumps whenever a new request comes in (transcript lines, evidence quotes)
+  const [seekRequest, setSeekRequest] = useState<{ seconds: number; id: number } | null>(null)
   const router = useRouter()
   const toast = useToast()
 
@@ -125,7 +180,7 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
             .from('audio_analyses')
             .select(`
               id, recording_id, processing_status, processing_stage, error_message, current_chunk_message,
-              title, summary, w4_report,
+              title, summary, w4_report, validation_errors, call_analytics,
               duration_analyzed, language, confidence_score,
               input_tokens, output_tokens, total_tokens, model_used, estimated_cost_usd,
               created_at, updated_at
@@ -140,16 +195,15 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
               setTranscriptGenerating(false)
               setTranscriptProgress(null)
               // Load the transcript
-              const { data: transcriptData } = await supabase
-                .from('audio_analyses')
-                .select('transcript')
-                .eq('id', freshAnalysis.id)
-                .single()
-              if (transcriptData?.transcript) {
-                setTranscript(transcriptData.transcript)
+              const loaded = await fetchTranscript(supabase, freshAnalysis.id, recording.id)
+              if (loaded) {
+                setSpeakers(loaded.speakers)
+                setTranscriptSegments(loaded.segments)
+                setTranscript(loaded.transcript)
               }
             } else {
               setTranscript(null)
+              setTranscriptSegments(null)
             }
           }
         } else {
@@ -180,20 +234,31 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
     }
   }, [recording.id, recording.file_path, supabase])
 
+  // Recordings uploaded in the background arrive without an analysis copy - the owner's
+  // browser makes it on the next open. Analysis still works meanwhile, on the original.
+  const finishingUploadRef = useRef(false)
+  useEffect(() => {
+    if (recording.status !== 'uploading' || recording.analysis_file_path || recording.user_id !== user.id) return
+    if (finishingUploadRef.current) return
+    finishingUploadRef.current = true
+
+    finishBackgroundUpload(recording)
+      .then(updated => { if (updated) router.refresh() })
+      .catch(error => console.error('Failed to finish background upload:', error))
+      .finally(() => releaseFFmpeg())
+  }, [recording, user.id, router])
+
   // Load transcript on demand (it's heavy, so we load it separately)
   const loadTranscript = async () => {
     if (transcript || transcriptLoading || !supabase || !analysis?.id) return
     
     setTranscriptLoading(true)
     try {
-      const { data } = await supabase
-        .from('audio_analyses')
-        .select('transcript')
-        .eq('id', analysis.id)
-        .single()
-      
-      if (data?.transcript) {
-        setTranscript(data.transcript)
+      const loaded = await fetchTranscript(supabase, analysis.id, recording.id)
+      if (loaded) {
+        setSpeakers(loaded.speakers)
+        setTranscriptSegments(loaded.segments)
+        setTranscript(loaded.transcript)
       }
     } catch (err) {
       console.error('Failed to load transcript:', err)
@@ -224,16 +289,21 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           recordingId: recording.id,
-          filePath: recording.analysis_file_path || recording.file_path,
+          rubricName,
         }),
       })
 
       const result = await response.json()
+      if (response.status === 409) {
+        // A job is already queued/running - keep showing progress
+        toast.info('Analysis is already in progress')
+        return
+      }
       if (!response.ok) {
         throw new Error(result.message || 'Failed to start analysis')
       }
       
-      toast.info('🤖 W4 Analysis started! This will take 2-5 minutes.')
+      toast.info('🤖 W4 Analysis queued! This will take 2-5 minutes.')
     } catch (err) {
       // Reset on error
       setAnalysis((prev: PartialAnalysis | null) => prev ? { ...prev, processing_status: 'error', processing_stage: 'error' } : null)
@@ -241,6 +311,64 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
     }
   }
 
+  // Speaker rename / role / merge - the panel, its search and exports all read from this state
+  const handleEditSpeaker = async (edit: SpeakerEdit) => {
+    try {
+      const response = await fetch(`/api/recordings/${recording.id}/speakers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(edit),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to update speaker')
+      }
+
+      setSpeakers(result.speakers)
+      if (result.segments) setTranscriptSegments(result.segments)
+      if (result.callAnalytics) {
+        setAnalysis((prev: PartialAnalysis | null) => prev ? { ...prev, call_analytics: result.callAnalytics } : prev)
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update speaker')
+    }
+  }
+
+  // Manager override of one checkpoint (null restores the AI's score); the server rescores the report
+  const handleOverrideScore = async (phase: W4PhaseKey, checkpoint: string, change: ScoreOverrideChange | null) => {
+    try {
+      const response = await fetch(`/api/recordings/${recording.id}/overrides`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(change
+          ? { action: 'override', phase, checkpoint, score: change.score, reason: change.reason }
+          : { action: 'clear', phase, checkpoint }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to override score')
+      }
+
+      setAnalysis((prev: PartialAnalysis | null) => prev ? { ...prev, w4_report: result.report } : prev)
+      toast.success(change ? 'Score overridden' : 'AI score restored')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to override score')
+    }
+  }
+
+  // Transcript for report exports, with the current speaker names
+  const getExportTranscript = async (): Promise<string | null> => {
+    if (transcriptSegments?.length) return formatTranscriptText(transcriptSegments, speakers)
+    if (transcript) return transcript
+    if (!supabase || !analysis?.id) return null
+
+    const loaded = await fetchTranscript(supabase, analysis.id, recording.id)
+    if (!loaded) return null
+    return loaded.segments?.length ? formatTranscriptText(loaded.segments, loaded.speakers) : loaded.transcript
+  }
+
   const handleDelete = async () => {
     if (!supabase) return
     
@@ -270,12 +398,15 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           recordingId: recording.id,
-          filePath: recording.analysis_file_path || recording.file_path,
           transcriptOnly: true, // Flag to skip W4 analysis
         }),
       })
 
       const result = await response.json()
+      if (response.status === 409) {
+        toast.info('Transcript generation is already in progress')
+        return
+      }
       if (!response.ok) {
         throw new Error(result.message || 'Failed to generate transcript')
       }
@@ -291,21 +422,17 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
     }
   }
 
+  const seekToSeconds = (seconds: number) => {
+    setSeekRequest({ seconds, id: Date.now() })
+  }
+
   const seekToTimestamp = (timestamp: string) => {
-    const parts = timestamp.split(':').map(Number)
-    let seconds = 0
-    if (parts.length === 3) {
-      seconds = parts[0] * 3600 + parts[1] * 60 + parts[2]
-    } else if (parts.length === 2) {
-      seconds = parts[0] * 60 + parts[1]
-    }
-    
-    if (audioRef.current) {
-      audioRef.current.currentTime = seconds
-      audioRef.current.play()
-    }
+    const seconds = parseTimestamp(timestamp)
+    if (seconds !== null) seekToSeconds(seconds)
   }
 
+  const findQuoteTime = (quote: string) => locateQuote(quote, w4Report, transcriptSegments)
+
   const formatDuration = (seconds: number | null): string => {
     if (!seconds) return '--:--'
     const h = Math.floor(seconds / 3600)
@@ -363,6 +490,19 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
             <h2 className="text-sm font-medium text-white truncate mb-1">{recording.file_name}</h2>
             <p className="text-xs text-gray-500">{formatDate(recording.created_at)}</p>
             <p className="text-xs text-gray-500">Duration: {formatDuration(recording.duration)}</p>
+            {/* Entered by the rep before recording */}
+            {(recording.client_name || recording.client_address || recording.appointment_type || recording.lead_source) && (
+              <div className="mt-3 space-y-0.5 text-xs text-gray-400">
+                {recording.client_name && <p className="text-gray-300">{recording.client_name}</p>}
+                {recording.client_address && <p className="truncate">{recording.client_address}</p>}
+                {(recording.appointment_type || recording.lead_source) && (
+                  <p>{[recording.appointment_type, recording.lead_source].filter(Boolean).join(' · ')}</p>
+                )}
+              </div>
+            )}
+            {recording.call_notes && (
+              <p className="mt-2 text-xs text-gray-500 whitespace-pre-wrap">{recording.call_notes}</p>
+            )}
           </div>
         )}
 
@@ -435,8 +575,22 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
             </div>
 
             <div className="flex items-center gap-2">
+              {/* Rubric variant for the next analysis - only when there's more than one to pick */}
+              {rubricNames.length > 1 && !isAnalyzing && !sharePermission && (
+                <select
+                  value={rubricName}
+                  onChange={(e) => setRubricName(e.target.value)}
+                  title="Rubric for the next analysis"
+                  className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-300"
+                >
+                  {rubricNames.map(name => (
+                    <option key={name} value={name}>{name === DEFAULT_RUBRIC_NAME ? 'Default rubric' : `${name} rubric`}</option>
+                  ))}
+                </select>
+              )}
+
               {/* Start Analysis button - show when no W4 report and not analyzing */}
-              {!w4Report && !isAnalyzing && (
+              {!w4Report && !isAnalyzing && !sharePermission && (
                 <button
                   onClick={handleStartAnalysis}
                   className="px-5 py-2.5 bg-gradient-to-r from-amber-500 to-orange-500 text-white font-medium rounded-lg hover:from-amber-600 hover:to-orange-600 transition-all flex items-center gap-2"
@@ -452,14 +606,17 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
                   <W4ExportButton 
                     report={w4Report}
                     fileName={`${recording.file_name.replace(/\.[^/.]+$/, '')}_w4_report`}
+                    getTranscript={getExportTranscript}
                   />
-                  <button
-                    onClick={handleStartAnalysis}
-                    className="px-4 py-2 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors flex items-center gap-2"
-                  >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
-                    <span>Re-Analyze</span>
-                  </button>
+                  {!sharePermission && (
+                    <button
+                      onClick={handleStartAnalysis}
+                      className="px-4 py-2 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                      <span>Re-Analyze</span>
+                    </button>
+                  )}
                 </>
               )}
               
@@ -473,15 +630,31 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
                 </span>
               )}
 
-              <button 
-                onClick={() => setDeleteModal(true)}
-                className="p-2 text-gray-400 hover:text-red-400 transition-colors"
-                title="Delete recording"
-              >
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                </svg>
-              </button>
+              {recording.user_id === user.id && (
+                <button
+                  onClick={() => setShareOpen(true)}
+                  className="px-4 py-2 border border-gray-700 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors flex items-center gap-2"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" /></svg>
+                  <span>Share</span>
+                </button>
+              )}
+
+              {sharePermission ? (
+                <span className="px-3 py-1 rounded-full text-xs text-gray-400 border border-gray-700">
+                  Shared with you · {SHARE_PERMISSION_LABELS[sharePermission]}
+                </span>
+              ) : (
+                <button 
+                  onClick={() => setDeleteModal(true)}
+                  className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                  title="Delete recording"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              )}
             </div>
           </div>
         </header>
@@ -503,6 +676,20 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
 
           {w4Report ? (
             <div className="space-y-6 max-w-5xl mx-auto">
+              {/* Validation warnings - problems the repair re-ask couldn't fix */}
+              {validationErrors.length > 0 && (
+                <details className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg">
+                  <summary className="text-sm text-amber-400 font-medium cursor-pointer">
+                    This report has {validationErrors.length} validation {validationErrors.length === 1 ? 'issue' : 'issues'} - some scores may be inaccurate
+                  </summary>
+                  <ul className="mt-2 space-y-1 text-xs text-amber-400/80">
+                    {validationErrors.map((error, i) => (
+                      <li key={i}><span className="font-mono">{error.path || 'report'}</span>: {error.message}</li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+
               {/* Overall Performance */}
               <W4OverallPerformance
                 performance={w4Report.overall_performance}
@@ -510,8 +697,15 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
                 repName={w4Report.rep_name}
                 companyName={w4Report.company_name}
                 saleOutcome={w4Report.sale_outcome}
+                discrepancies={w4Report.score_discrepancies}
+                aiOverall={w4Report.ai_overall}
               />
 
+              {/* Talk time / interruptions / silence from the transcript */}
+              {analysis?.call_analytics && (
+                <W4CallAnalytics analytics={analysis.call_analytics} />
+              )}
+
               {/* Phase Cards - 2x2 grid on desktop, 1 col on mobile */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div id="phase-why">
@@ -520,6 +714,8 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
                     phase={w4Report.phases.why}
                     description={W4_PHASE_CONFIG.why.description}
                     color={phaseColors.why}
+                    onSeek={seekToSeconds}
+                    onOverride={canOverrideScores ? (name, change) => handleOverrideScore('why', name, change) : undefined}
                   />
                 </div>
                 <div id="phase-what">
@@ -528,6 +724,8 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
                     phase={w4Report.phases.what}
                     description={W4_PHASE_CONFIG.what.description}
                     color={phaseColors.what}
+                    onSeek={seekToSeconds}
+                    onOverride={canOverrideScores ? (name, change) => handleOverrideScore('what', name, change) : undefined}
                   />
                 </div>
                 <div id="phase-who">
@@ -536,6 +734,8 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
                     phase={w4Report.phases.who}
                     description={W4_PHASE_CONFIG.who.description}
                     color={phaseColors.who}
+                    onSeek={seekToSeconds}
+                    onOverride={canOverrideScores ? (name, change) => handleOverrideScore('who', name, change) : undefined}
                   />
                 </div>
                 <div id="phase-when">
@@ -544,6 +744,8 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
                     phase={w4Report.phases.when}
                     description={W4_PHASE_CONFIG.when.description}
                     color={phaseColors.when}
+                    onSeek={seekToSeconds}
+                    onOverride={canOverrideScores ? (name, change) => handleOverrideScore('when', name, change) : undefined}
                   />
                 </div>
               </div>
@@ -552,6 +754,7 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
               <W4TotalScores
                 phases={w4Report.phases}
                 totalScore={w4Report.overall_performance.total_score}
+                discrepancies={w4Report.score_discrepancies}
               />
 
               {/* Insights */}
@@ -562,13 +765,38 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
               />
 
               {/* Coaching Recommendations */}
-              <W4Coaching recommendations={w4Report.coaching_recommendations} />
+              <W4Coaching
+                recommendations={w4Report.coaching_recommendations}
+                locateQuote={findQuoteTime}
+                onSeek={seekToSeconds}
+              />
 
               {/* Quick Wins & Rank Assessment */}
               <W4QuickWins
                 quickWins={w4Report.quick_wins}
                 rankAssessment={w4Report.rank_assessment}
               />
+
+              {/* Notes - shared users post comments with "comment" access, bookmarks and tags with "edit" */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <CommentsManager
+                  recordingId={recording.id}
+                  userId={user.id}
+                  onSeek={seekToSeconds}
+                  currentTime={currentTime}
+                  readOnly={!canComment}
+                />
+                <div className="space-y-6 bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+                  <BookmarkManager
+                    recordingId={recording.id}
+                    userId={user.id}
+                    currentTime={currentTime}
+                    onSeek={seekToSeconds}
+                    readOnly={!canEdit}
+                  />
+                  <RecordingTags recordingId={recording.id} userId={user.id} readOnly={!canEdit} />
+                </div>
+              </div>
             </div>
           ) : isAnalyzing ? (
             /* Processing State - Centered */
@@ -596,13 +824,15 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
                   <p className="text-sm text-red-400">{analysis.error_message}</p>
                 </div>
               )}
-              <button
-                onClick={handleStartAnalysis}
-                className="px-6 py-3 bg-gradient-to-r from-amber-500 to-orange-500 text-white font-medium rounded-lg hover:from-amber-600 hover:to-orange-600 transition-all flex items-center gap-2"
-              >
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
-                {analysis?.processing_status === 'error' ? 'Retry Analysis' : 'Start W4 Analysis'}
-              </button>
+              {!sharePermission && (
+                <button
+                  onClick={handleStartAnalysis}
+                  className="px-6 py-3 bg-gradient-to-r from-amber-500 to-orange-500 text-white font-medium rounded-lg hover:from-amber-600 hover:to-orange-600 transition-all flex items-center gap-2"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
+                  {analysis?.processing_status === 'error' ? 'Retry Analysis' : 'Start W4 Analysis'}
+                </button>
+              )}
             </div>
           )}
         </main>
@@ -616,6 +846,7 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
               onTimeUpdate={setCurrentTime}
               playbackSpeed={playbackSpeed}
               onPlaybackSpeedChange={setPlaybackSpeed}
+              seekRequest={seekRequest}
             />
           ) : (
             <div className="h-16 flex items-center justify-center text-gray-500">
@@ -632,6 +863,9 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
       >
         <TranscriptPanel
           transcript={transcript}
+          segments={transcriptSegments}
+          speakers={speakers}
+          onEditSpeaker={sharePermission ? undefined : handleEditSpeaker}
           w4Report={w4Report}
           currentTime={currentTime}
           onTimestampClick={seekToTimestamp}
@@ -642,6 +876,15 @@ export default function RecordingDetailClient({ recording, analysis: initialAnal
         />
       </aside>
 
+      {/* Share links - owner only */}
+      {shareOpen && (
+        <ShareDialog
+          isOpen={shareOpen}
+          onClose={() => setShareOpen(false)}
+          recordingId={recording.id}
+        />
+      )}
+
       {/* Delete Modal */}
       <ConfirmModal
         isOpen={deleteModal}
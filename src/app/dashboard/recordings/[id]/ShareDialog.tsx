@@ -0,0 +1,298 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Modal } from '@/components/ui/Modal'
+import { useToast } from '@/components/ui/Toast'
+import { SharedRecording } from '@/types/database'
+import {
+  LINK_PERMISSION_LABELS,
+  PUBLIC_LINK_PERMISSIONS,
+  SHARE_EXPIRY_OPTIONS,
+  SHARE_PERMISSIONS,
+  SHARE_PERMISSION_LABELS,
+  SharePermission,
+  buildShareUrl,
+  isShareExpired,
+} from '@/lib/sharing'
+
+type ShareRow = SharedRecording & { shared_with_email: string | null; expired: boolean }
+
+interface ShareDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  recordingId: string
+}
+
+const selectClass = 'block mt-1 px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-sm text-white'
+
+function formatExpiry(share: ShareRow): string {
+  if (share.expired) return 'Expired'
+  if (!share.expires_at) return 'Never expires'
+  return `Expires ${new Date(share.expires_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+}
+
+// Owner-only: share with specific accounts, create public links, and revoke either
+export default function ShareDialog({ isOpen, onClose, recordingId }: ShareDialogProps) {
+  const [shares, setShares] = useState<ShareRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [email, setEmail] = useState('')
+  const [userPermissions, setUserPermissions] = useState<SharePermission>('comment')
+  const [userExpiryIndex, setUserExpiryIndex] = useState(SHARE_EXPIRY_OPTIONS.length - 1)
+  const [sharing, setSharing] = useState(false)
+  const [linkPermissions, setLinkPermissions] = useState<SharePermission>('view')
+  const [linkExpiryIndex, setLinkExpiryIndex] = useState(1)
+  const [creating, setCreating] = useState(false)
+  const toast = useToast()
+
+  const people = shares.filter(share => share.shared_with)
+  const links = shares.filter(share => share.share_token)
+
+  const loadShares = async () => {
+    try {
+      const response = await fetch(`/api/recordings/${recordingId}/shares`)
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.message || 'Failed to load shares')
+      setShares((result.shares as ShareRow[]).map(share => ({ ...share, expired: isShareExpired(share) })))
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load shares')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (isOpen) loadShares()
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen])
+
+  const runAction = async (body: Record<string, unknown>) => {
+    const response = await fetch(`/api/recordings/${recordingId}/shares`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const result = await response.json()
+    if (!response.ok) throw new Error(result.message || 'Request failed')
+    return result
+  }
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(window.location.origin, token))
+      toast.success('Link copied')
+    } catch {
+      toast.error('Could not copy the link')
+    }
+  }
+
+  const handleShareUser = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) return
+
+    setSharing(true)
+    try {
+      await runAction({
+        action: 'share_user',
+        email,
+        permissions: userPermissions,
+        expiresInDays: SHARE_EXPIRY_OPTIONS[userExpiryIndex].days,
+      })
+      toast.success(`Shared with ${email.trim()}`)
+      setEmail('')
+      await loadShares()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to share')
+    } finally {
+      setSharing(false)
+    }
+  }
+
+  const handleCreateLink = async () => {
+    setCreating(true)
+    try {
+      const { share } = await runAction({
+        action: 'create_link',
+        permissions: linkPermissions,
+        expiresInDays: SHARE_EXPIRY_OPTIONS[linkExpiryIndex].days,
+      })
+      await loadShares()
+      await copyLink(share.share_token)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create link')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (share: ShareRow) => {
+    try {
+      await runAction({ action: 'revoke', shareId: share.id })
+      setShares(prev => prev.filter(s => s.id !== share.id))
+      toast.success(share.shared_with ? `Removed ${share.shared_with_email || 'access'}` : 'Link revoked')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to revoke')
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Share recording" size="lg">
+      <div className="space-y-6">
+        {/* People */}
+        <div>
+          <h3 className="text-sm font-medium text-white mb-1">People</h3>
+          <p className="text-sm text-gray-400 mb-3">
+            They&apos;ll find the call under &quot;Shared with me&quot; on their dashboard.
+          </p>
+          <form onSubmit={handleShareUser} className="flex flex-wrap items-end gap-3">
+            <label className="flex-1 min-w-[12rem] text-xs text-gray-400">
+              Email
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="name@company.com"
+                className="block w-full mt-1 px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500"
+              />
+            </label>
+            <label className="text-xs text-gray-400">
+              Access
+              <select
+                value={userPermissions}
+                onChange={(e) => setUserPermissions(e.target.value as SharePermission)}
+                className={selectClass}
+              >
+                {SHARE_PERMISSIONS.map(permission => (
+                  <option key={permission} value={permission}>{SHARE_PERMISSION_LABELS[permission]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400">
+              Expires after
+              <select
+                value={userExpiryIndex}
+                onChange={(e) => setUserExpiryIndex(Number(e.target.value))}
+                className={selectClass}
+              >
+                {SHARE_EXPIRY_OPTIONS.map((option, i) => (
+                  <option key={option.label} value={i}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="submit"
+              disabled={sharing || !email.trim()}
+              className="px-4 py-1.5 bg-amber-500 hover:bg-amber-600 text-white text-sm font-medium rounded-lg disabled:opacity-50"
+            >
+              {sharing ? 'Sharing...' : 'Share'}
+            </button>
+          </form>
+          <p className="text-xs text-gray-500 mt-2">
+            Comment lets them post notes. Edit also lets them add bookmarks and tags. Sharing again with the same person updates their access.
+          </p>
+          <ShareList
+            loading={loading}
+            shares={people}
+            emptyText="Not shared with anyone yet."
+            describe={share => `${share.shared_with_email || 'Unknown account'} · ${SHARE_PERMISSION_LABELS[share.permissions]}`}
+            onRevoke={handleRevoke}
+            revokeText="Remove"
+          />
+        </div>
+
+        {/* Public links */}
+        <div className="pt-6 border-t border-gray-800">
+          <h3 className="text-sm font-medium text-white mb-1">Public links</h3>
+          <p className="text-sm text-gray-400 mb-3">
+            Anyone with the link can open the report, audio and transcript without signing in.
+          </p>
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="text-xs text-gray-400">
+              Access
+              <select
+                value={linkPermissions}
+                onChange={(e) => setLinkPermissions(e.target.value as SharePermission)}
+                className={selectClass}
+              >
+                {PUBLIC_LINK_PERMISSIONS.map(permission => (
+                  <option key={permission} value={permission}>{LINK_PERMISSION_LABELS[permission]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400">
+              Expires after
+              <select
+                value={linkExpiryIndex}
+                onChange={(e) => setLinkExpiryIndex(Number(e.target.value))}
+                className={selectClass}
+              >
+                {SHARE_EXPIRY_OPTIONS.map((option, i) => (
+                  <option key={option.label} value={i}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={handleCreateLink}
+              disabled={creating}
+              className="px-4 py-1.5 bg-amber-500 hover:bg-amber-600 text-white text-sm font-medium rounded-lg disabled:opacity-50"
+            >
+              {creating ? 'Creating...' : 'Create link'}
+            </button>
+          </div>
+          <ShareList
+            loading={loading}
+            shares={links}
+            emptyText="No links yet."
+            describe={share => LINK_PERMISSION_LABELS[share.permissions]}
+            onCopy={share => copyLink(share.share_token as string)}
+            onRevoke={handleRevoke}
+            revokeText="Revoke"
+          />
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+// ===========================================
+// One row per grant or link
+// ===========================================
+
+interface ShareListProps {
+  loading: boolean
+  shares: ShareRow[]
+  emptyText: string
+  describe: (share: ShareRow) => string
+  onCopy?: (share: ShareRow) => void
+  onRevoke: (share: ShareRow) => void
+  revokeText: string
+}
+
+function ShareList({ loading, shares, emptyText, describe, onCopy, onRevoke, revokeText }: ShareListProps) {
+  if (loading) {
+    return <p className="text-sm text-gray-500 mt-3">Loading...</p>
+  }
+  if (shares.length === 0) {
+    return <p className="text-sm text-gray-500 mt-3">{emptyText}</p>
+  }
+
+  return (
+    <div className="mt-3 divide-y divide-gray-800 border border-gray-800 rounded-lg">
+      {shares.map(share => (
+        <div key={share.id} className="flex items-center gap-3 px-3 py-2">
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-gray-200 truncate">{describe(share)}</p>
+            <p className={`text-xs ${share.expired ? 'text-red-400' : 'text-gray-500'}`}>{formatExpiry(share)}</p>
+          </div>
+          {onCopy && !share.expired && (
+            <button onClick={() => onCopy(share)} className="text-xs text-amber-400 hover:text-amber-300">
+              Copy link
+            </button>
+          )}
+          <button onClick={() => onRevoke(share)} className="text-xs text-gray-400 hover:text-red-400">
+            {revokeText}
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect, notFound } from 'next/navigation'
 import RecordingDetailClient from './RecordingDetailClient'
+import { canReviewUser } from '@/lib/organizations'
+import { SharePermission } from '@/lib/sharing'
 
 interface PageProps {
   params: Promise<{ id: string }>
@@ -20,18 +22,33 @@ export default async function RecordingDetailPage({ params }: PageProps) {
     redirect('/login')
   }
 
-  // Fetch recording with transcript
+  // RLS returns the caller's own recordings, those of reps they manage (or all, for admins) and
+  // recordings shared with them
   const { data: recording, error: recordingError } = await supabase
     .from('recordings')
     .select('*')
     .eq('id', id)
-    .eq('user_id', user.id)
     .single()
 
   if (recordingError || !recording) {
     notFound()
   }
 
+  // Admins and the rep's manager can review (and override) its scores
+  const canOverride = await canReviewUser(supabase, recording.user_id)
+
+  // Anyone else got here through a share; their grant decides what they can add
+  let sharePermission: SharePermission | null = null
+  if (recording.user_id !== user.id && !canOverride) {
+    const { data: share } = await supabase
+      .from('shared_recordings')
+      .select('permissions')
+      .eq('recording_id', id)
+      .eq('shared_with', user.id)
+      .maybeSingle()
+    sharePermission = share?.permissions || 'view'
+  }
+
   // Fetch analysis if exists - but NOT the heavy transcript field
   // Transcript will be loaded lazily on the client
   const { data: analysis } = await supabase
@@ -46,6 +63,8 @@ export default async function RecordingDetailPage({ params }: PageProps) {
       title,
       summary,
       w4_report,
+      validation_errors,
+      call_analytics,
       duration_analyzed,
       language,
       confidence_score,
@@ -60,12 +79,22 @@ export default async function RecordingDetailPage({ params }: PageProps) {
     .eq('recording_id', id)
     .single()
 
+  // Rubric variants with an active version, offered when starting an analysis
+  const { data: activeRubrics } = await supabase
+    .from('w4_rubrics')
+    .select('name')
+    .eq('is_active', true)
+    .order('name')
+
   return (
     <RecordingDetailClient 
       recording={recording} 
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       analysis={analysis as any}
       user={user}
+      canOverrideScores={canOverride}
+      sharePermission={sharePermission}
+      rubricNames={(activeRubrics || []).map((r: { name: string }) => r.name)}
     />
   )
 }
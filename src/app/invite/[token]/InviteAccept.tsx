@@ -0,0 +1,78 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { InvitePreview } from '@/types/database'
+
+interface Props {
+  token: string
+  invite: InvitePreview | null
+  userEmail: string
+}
+
+export default function InviteAccept({ token, invite, userEmail }: Props) {
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const router = useRouter()
+
+  const emailMatches = invite ? invite.email.toLowerCase() === userEmail.toLowerCase() : false
+
+  const handleAccept = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/invites/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.message || 'Failed to accept invite')
+
+      router.push('/dashboard')
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept invite')
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <div className="relative w-full max-w-md mx-4 bg-slate-800/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-700/50 p-8 text-center">
+        {!invite || !invite.is_valid ? (
+          <>
+            <h1 className="text-2xl font-bold text-white mb-2">Invite not valid</h1>
+            <p className="text-slate-400 mb-6">This invite has expired or was already used. Ask your manager for a new one.</p>
+          </>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold text-white mb-2">Join {invite.organization_name}</h1>
+            <p className="text-slate-400 mb-6">
+              You&apos;ve been invited as a {invite.role === 'manager' ? 'manager' : 'rep'}
+              {invite.team_name ? <> on <span className="text-white">{invite.team_name}</span></> : null}.
+            </p>
+            {emailMatches ? (
+              <button
+                onClick={handleAccept}
+                disabled={loading}
+                className="w-full py-3 px-4 bg-gradient-to-r from-amber-500 to-orange-600 text-white font-semibold rounded-xl disabled:opacity-50"
+              >
+                {loading ? 'Joining...' : 'Accept invite'}
+              </button>
+            ) : (
+              <p className="text-sm text-amber-400 mb-4">
+                This invite was sent to {invite.email}, but you&apos;re signed in as {userEmail}. Sign in with the invited address to accept it.
+              </p>
+            )}
+            {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+          </>
+        )}
+        <Link href="/dashboard" className="inline-block mt-6 text-sm text-slate-400 hover:text-white">
+          Go to dashboard
+        </Link>
+      </div>
+    </div>
+  )
+}
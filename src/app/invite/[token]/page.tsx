@@ -0,0 +1,28 @@
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import InviteAccept from './InviteAccept'
+import { InvitePreview } from '@/types/database'
+
+interface PageProps {
+  params: Promise<{ token: string }>
+}
+
+export default async function InvitePage({ params }: PageProps) {
+  const { token } = await params
+  const supabase = await createClient()
+
+  if (!supabase) {
+    redirect('/login')
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    redirect(`/signup?invite=${token}`)
+  }
+
+  const { data } = await supabase.rpc('get_organization_invite', { invite_token: token })
+  const invite = ((data || [])[0] || null) as InvitePreview | null
+
+  return <InviteAccept token={token} invite={invite} userEmail={user.email || ''} />
+}
@@ -41,7 +41,9 @@ export default function LoginPage() {
       setError(error.message)
       setLoading(false)
     } else {
-      router.push('/dashboard')
+      // Signing in from an invite link goes on to accept it
+      const invite = new URLSearchParams(window.location.search).get('invite')
+      router.push(invite ? `/invite/${invite}` : '/dashboard')
       router.refresh()
     }
   }
@@ -0,0 +1,212 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import dynamic from 'next/dynamic'
+import { CallAnalytics, Comment, RecordingSpeaker, TranscriptSegment, W4Report, W4_PHASE_CONFIG } from '@/types/database'
+import { scoreW4Report } from '@/lib/w4/scoring'
+import { locateQuote } from '@/lib/w4/evidence'
+import { parseTimestamp } from '@/lib/pipeline/helpers'
+
+const W4OverallPerformance = dynamic(() => import('@/components/w4/W4OverallPerformance').then(m => ({ default: m.W4OverallPerformance })))
+const W4CallAnalytics = dynamic(() => import('@/components/w4/W4CallAnalytics').then(m => ({ default: m.W4CallAnalytics })))
+const W4PhaseCard = dynamic(() => import('@/components/w4/W4PhaseCard').then(m => ({ default: m.W4PhaseCard })))
+const W4TotalScores = dynamic(() => import('@/components/w4/W4TotalScores').then(m => ({ default: m.W4TotalScores })))
+const W4Insights = dynamic(() => import('@/components/w4/W4Insights').then(m => ({ default: m.W4Insights })))
+const W4Coaching = dynamic(() => import('@/components/w4/W4Coaching').then(m => ({ default: m.W4Coaching })))
+const W4QuickWins = dynamic(() => import('@/components/w4/W4QuickWins').then(m => ({ default: m.W4QuickWins })))
+const TranscriptPanel = dynamic(() => import('@/components/sales/TranscriptPanel'))
+const SimpleAudioPlayer = dynamic(() => import('@/components/SimpleAudioPlayer'))
+
+const PHASE_COLORS = {
+  why: '#3b82f6',
+  what: '#8b5cf6',
+  who: '#f97316',
+  when: '#22c55e',
+}
+
+interface Props {
+  fileName: string
+  duration: number | null
+  createdAt: string
+  sharedBy: string | null
+  expiresAt: string | null
+  audioUrl: string | null
+  report: W4Report | null
+  callAnalytics: CallAnalytics | null
+  transcript: string | null
+  segments: TranscriptSegment[] | null
+  speakers: Pick<RecordingSpeaker, 'speaker_key' | 'name' | 'role'>[]
+  comments: (Comment & { authorName: string | null })[] | null  // null when the link doesn't include comments
+}
+
+// Read-only version of the recording page for /share/<token>: report, player and transcript,
+// with no editing, overrides or re-analysis.
+export default function SharedRecordingView({
+  fileName,
+  duration,
+  createdAt,
+  sharedBy,
+  expiresAt,
+  audioUrl,
+  report,
+  callAnalytics,
+  transcript,
+  segments,
+  speakers,
+  comments,
+}: Props) {
+  const [currentTime, setCurrentTime] = useState(0)
+  const [playbackSpeed, setPlaybackSpeed] = useState(1)
+  const [seekRequest, setSeekRequest] = useState<{ seconds: number; id: number } | null>(null)
+
+  const w4Report = useMemo(() => report && (report.rubric ? report : scoreW4Report(report)), [report])
+
+  const seekToSeconds = (seconds: number) => {
+    setSeekRequest({ seconds, id: Date.now() })
+  }
+
+  const seekToTimestamp = (timestamp: string) => {
+    const seconds = parseTimestamp(timestamp)
+    if (seconds !== null) seekToSeconds(seconds)
+  }
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+
+  return (
+    <div className="h-screen bg-gray-950 flex overflow-hidden">
+      <div className="flex-1 flex flex-col min-w-0">
+        <header className="flex-shrink-0 border-b border-gray-800 bg-gray-900 px-6 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <h1 className="text-lg font-semibold text-white truncate">{fileName}</h1>
+              <p className="text-sm text-gray-400">
+                Recorded {formatDate(createdAt)}
+                {sharedBy && <> • Shared by {sharedBy}</>}
+                {expiresAt && <> • Link expires {formatDate(expiresAt)}</>}
+              </p>
+            </div>
+            <span className="flex-shrink-0 px-2 py-1 text-xs text-gray-400 border border-gray-700 rounded">Read only</span>
+          </div>
+        </header>
+
+        <main className="flex-1 overflow-y-auto p-6">
+          {w4Report ? (
+            <div className="space-y-6 max-w-5xl mx-auto">
+              <W4OverallPerformance
+                performance={w4Report.overall_performance}
+                clientName={w4Report.client_name}
+                repName={w4Report.rep_name}
+                companyName={w4Report.company_name}
+                saleOutcome={w4Report.sale_outcome}
+                discrepancies={w4Report.score_discrepancies}
+                aiOverall={w4Report.ai_overall}
+              />
+
+              {callAnalytics && <W4CallAnalytics analytics={callAnalytics} />}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {(['why', 'what', 'who', 'when'] as const).map(key => (
+                  <W4PhaseCard
+                    key={key}
+                    phaseName={key.toUpperCase() as Uppercase<typeof key>}
+                    phase={w4Report.phases[key]}
+                    description={W4_PHASE_CONFIG[key].description}
+                    color={PHASE_COLORS[key]}
+                    onSeek={seekToSeconds}
+                  />
+                ))}
+              </div>
+
+              <W4TotalScores
+                phases={w4Report.phases}
+                totalScore={w4Report.overall_performance.total_score}
+                discrepancies={w4Report.score_discrepancies}
+              />
+
+              <W4Insights
+                whatDoneRight={w4Report.what_done_right}
+                areasForImprovement={w4Report.areas_for_improvement}
+                weakestElements={w4Report.weakest_elements}
+              />
+
+              <W4Coaching
+                recommendations={w4Report.coaching_recommendations}
+                locateQuote={(quote) => locateQuote(quote, w4Report, segments)}
+                onSeek={seekToSeconds}
+              />
+
+              <W4QuickWins
+                quickWins={w4Report.quick_wins}
+                rankAssessment={w4Report.rank_assessment}
+              />
+
+              {comments && (
+                <div className="bg-gray-900 rounded-xl border border-gray-800 p-6">
+                  <h2 className="text-white font-medium mb-4">Comments</h2>
+                  {comments.length === 0 ? (
+                    <p className="text-sm text-gray-500">No comments yet.</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {comments.map(comment => (
+                        <div key={comment.id} className={comment.parent_id ? 'ml-6' : ''}>
+                          <p className="text-xs text-gray-500">
+                            {comment.authorName || 'Unknown'} • {formatDate(comment.created_at)}
+                            {comment.timestamp_seconds !== null && (
+                              <button
+                                onClick={() => seekToSeconds(comment.timestamp_seconds as number)}
+                                className="ml-2 text-amber-400 hover:text-amber-300"
+                              >
+                                {Math.floor(comment.timestamp_seconds / 60)}:{String(Math.floor(comment.timestamp_seconds % 60)).padStart(2, '0')}
+                              </button>
+                            )}
+                          </p>
+                          <p className="text-sm text-gray-200 mt-1 whitespace-pre-wrap">{comment.content}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-full text-center">
+              <p className="text-gray-400">This call hasn&apos;t been analyzed yet.</p>
+            </div>
+          )}
+        </main>
+
+        <div className="flex-shrink-0 border-t border-gray-800 bg-gray-900 p-4">
+          {audioUrl && duration ? (
+            <SimpleAudioPlayer
+              src={audioUrl}
+              duration={duration}
+              onTimeUpdate={setCurrentTime}
+              playbackSpeed={playbackSpeed}
+              onPlaybackSpeedChange={setPlaybackSpeed}
+              seekRequest={seekRequest}
+            />
+          ) : (
+            <div className="h-16 flex items-center justify-center text-gray-500">
+              Audio unavailable
+            </div>
+          )}
+        </div>
+      </div>
+
+      <aside className="hidden lg:flex w-96 flex-shrink-0 bg-gray-900 border-l border-gray-800 flex-col h-full">
+        <TranscriptPanel
+          transcript={transcript}
+          segments={segments}
+          speakers={speakers}
+          w4Report={w4Report}
+          currentTime={currentTime}
+          onTimestampClick={seekToTimestamp}
+        />
+      </aside>
+    </div>
+  )
+}
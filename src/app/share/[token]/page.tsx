@@ -0,0 +1,111 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { isShareExpired, maskEmails, publicInitials } from '@/lib/sharing'
+import { Comment, RecordingSpeaker, SharedRecording, TranscriptSegment, W4Report } from '@/types/database'
+import SharedRecordingView from './SharedRecordingView'
+
+export const metadata: Metadata = {
+  title: 'Shared call review - REPFUEL',
+  robots: { index: false, follow: false },
+}
+
+interface PageProps {
+  params: Promise<{ token: string }>
+}
+
+// Public, no login. Visitors have no session, so after the token checks out everything is read
+// with the service role - and only for the one recording the link points at. Anyone can hold the
+// link, so people are shown by their initials, never their email address.
+export default async function SharedRecordingPage({ params }: PageProps) {
+  const { token } = await params
+  const admin = createAdminClient()
+  if (!admin) {
+    return <ShareUnavailable />
+  }
+
+  const { data: share } = await admin
+    .from('shared_recordings')
+    .select('*')
+    .eq('share_token', token)
+    .maybeSingle()
+
+  if (!share || isShareExpired(share as SharedRecording)) {
+    return <ShareUnavailable />
+  }
+
+  const { data: recording } = await admin
+    .from('recordings')
+    .select('id, file_name, file_path, duration, created_at')
+    .eq('id', share.recording_id)
+    .single()
+
+  if (!recording) {
+    return <ShareUnavailable />
+  }
+
+  const showComments = share.permissions !== 'view'
+  const [{ data: analysis }, { data: speakers }, { data: signedUrl }, { data: sharer }, { data: comments }] = await Promise.all([
+    admin
+      .from('audio_analyses')
+      .select('w4_report, call_analytics, transcript, transcript_segments')
+      .eq('recording_id', recording.id)
+      .maybeSingle(),
+    admin
+      .from('recording_speakers')
+      .select('speaker_key, name, role')
+      .eq('recording_id', recording.id),
+    admin.storage
+      .from('audio-files')
+      .createSignedUrl(recording.file_path, 3600),
+    admin
+      .from('profiles')
+      .select('email')
+      .eq('id', share.shared_by)
+      .maybeSingle(),
+    showComments
+      ? admin.from('comments').select('*').eq('recording_id', recording.id).order('created_at', { ascending: true })
+      : Promise.resolve({ data: [] }),
+  ])
+
+  const commentAuthorIds = [...new Set(((comments || []) as Comment[]).map(c => c.user_id))]
+  const { data: authors } = commentAuthorIds.length > 0
+    ? await admin.from('profiles').select('id, email').in('id', commentAuthorIds)
+    : { data: [] }
+  const authorInitials = new Map((authors || []).map((a: { id: string; email: string }) => [a.id, publicInitials(a.email)]))
+
+  return (
+    <SharedRecordingView
+      fileName={recording.file_name}
+      duration={recording.duration}
+      createdAt={recording.created_at}
+      sharedBy={publicInitials(sharer?.email)}
+      expiresAt={share.expires_at}
+      audioUrl={signedUrl?.signedUrl || null}
+      report={(analysis?.w4_report || null) as W4Report | null}
+      callAnalytics={analysis?.call_analytics || null}
+      transcript={analysis?.transcript || null}
+      segments={(analysis?.transcript_segments || null) as TranscriptSegment[] | null}
+      speakers={(speakers || []) as Pick<RecordingSpeaker, 'speaker_key' | 'name' | 'role'>[]}
+      comments={showComments
+        ? ((comments || []) as Comment[]).map(c => ({
+          ...c,
+          content: maskEmails(c.content),
+          authorName: authorInitials.get(c.user_id) || null,
+        }))
+        : null}
+    />
+  )
+}
+
+function ShareUnavailable() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <div className="w-full max-w-md mx-4 bg-slate-800/90 rounded-2xl border border-slate-700/50 p-8 text-center">
+        <h1 className="text-2xl font-bold text-white mb-2">Link not available</h1>
+        <p className="text-slate-400 mb-6">This share link has expired or was revoked. Ask the person who sent it for a new one.</p>
+        <Link href="/" className="text-sm text-amber-400 hover:text-amber-300">Go to REPFUEL</Link>
+      </div>
+    </div>
+  )
+}
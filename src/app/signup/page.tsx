@@ -1,12 +1,19 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { use, useState, useMemo, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import Image from 'next/image'
 import { createClient } from '@/lib/supabase/client'
+import { InvitePreview } from '@/types/database'
 
-export default function SignUpPage() {
+interface SignUpPageProps {
+  searchParams: Promise<{ invite?: string }>
+}
+
+export default function SignUpPage({ searchParams }: SignUpPageProps) {
+  const { invite: inviteToken } = use(searchParams)
+  const [invite, setInvite] = useState<InvitePreview | null>(null)
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
@@ -23,6 +30,17 @@ export default function SignUpPage() {
     }
   }, [])
 
+  // Invite links show which organization you're joining and fill in the invited email
+  useEffect(() => {
+    if (!supabase || !inviteToken) return
+    supabase.rpc('get_organization_invite', { invite_token: inviteToken }).then(({ data }) => {
+      const preview = ((data || [])[0] || null) as InvitePreview | null
+      if (!preview?.is_valid) return
+      setInvite(preview)
+      setEmail(preview.email)
+    })
+  }, [supabase, inviteToken])
+
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -49,17 +67,22 @@ export default function SignUpPage() {
     // Use env variable for production URL, fallback to current origin for dev
     const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || window.location.origin
     
-    const { error } = await supabase.auth.signUp({
+    // Invited users land on the invite page after confirming, where they accept it
+    const next = invite && inviteToken ? `?next=${encodeURIComponent(`/invite/${inviteToken}`)}` : ''
+    const { data, error } = await supabase.auth.signUp({
       email,
       password,
       options: {
-        emailRedirectTo: `${siteUrl}/auth/callback`,
+        emailRedirectTo: `${siteUrl}/auth/callback${next}`,
       },
     })
 
     if (error) {
       setError(error.message)
       setLoading(false)
+    } else if (data.session && invite && inviteToken) {
+      // Email confirmation is off - already signed in
+      router.push(`/invite/${inviteToken}`)
     } else {
       setSuccess(true)
       setLoading(false)
@@ -115,6 +138,13 @@ export default function SignUpPage() {
             <p className="text-slate-400 mt-2">Create your account</p>
           </div>
 
+          {invite && (
+            <div className="mb-6 p-4 bg-amber-500/10 border border-amber-500/30 rounded-xl text-sm text-amber-300">
+              You&apos;re joining <span className="font-semibold text-white">{invite.organization_name}</span>
+              {invite.team_name && <> ({invite.team_name})</>} as a {invite.role === 'manager' ? 'manager' : 'rep'}.
+            </div>
+          )}
+
           <form onSubmit={handleSignUp} className="space-y-5">
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-slate-300 mb-2">
@@ -189,7 +219,7 @@ export default function SignUpPage() {
           <div className="mt-6 text-center">
             <p className="text-slate-400">
               Already have an account?{' '}
-              <Link href="/login" className="text-amber-400 hover:text-amber-300 font-medium transition-colors">
+              <Link href={inviteToken ? `/login?invite=${inviteToken}` : '/login'} className="text-amber-400 hover:text-amber-300 font-medium transition-colors">
                 Sign in
               </Link>
             </p>
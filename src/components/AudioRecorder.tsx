@@ -3,16 +3,92 @@
 import { useState, useRef, useEffect, useCallback } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import { useToast } from '@/components/ui/Toast'
-import { Recording } from '@/types/database'
-import { FFmpeg } from '@ffmpeg/ffmpeg'
-import { fetchFile } from '@ffmpeg/util'
-import { saveRecordingOffline, generateOfflineId, isOnline } from '@/lib/offlineStorage'
+import { Recording, RecordingCallDetails } from '@/types/database'
+import {
+  saveRecordingOffline,
+  generateOfflineId,
+  isOnline,
+  startRecordingSession,
+  getStorageEstimate,
+  isStorageLow,
+  appendRecordingChunk,
+  getInterruptedSessions,
+  assembleRecordingSession,
+  claimRecordingSession,
+  deleteRecordingSession,
+  RecordingSession,
+} from '@/lib/offlineStorage'
+import { RecordingUploadStage, releaseFFmpeg, uploadRecording as uploadRecordingFile } from '@/lib/recordingUpload'
+import { extensionForMimeType } from '@/lib/recordingPaths'
+import { requestBackgroundSync } from '@/lib/syncService'
+import { APPOINTMENT_TYPES, EMPTY_CALL_DETAILS, LEAD_SOURCES, hasCallDetails, normalizeCallDetails } from '@/lib/callDetails'
 
 interface AudioRecorderProps {
   onRecordingComplete?: (recording: Recording) => void
 }
 
-type UploadStage = 'idle' | 'uploading' | 'compressing' | 'uploading-analysis' | 'done'
+type UploadStage = 'idle' | RecordingUploadStage
+
+const CALL_DETAIL_INPUT_CLASS = 'w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all'
+
+// Who the call is with, filled in before recording; saved with the recording and given to the W4 analysis
+function CallDetailsForm({ details, onChange, disabled }: {
+  details: RecordingCallDetails
+  onChange: (details: RecordingCallDetails) => void
+  disabled?: boolean
+}) {
+  const set = (field: keyof RecordingCallDetails) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) =>
+      onChange({ ...details, [field]: e.target.value })
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      <input
+        type="text"
+        value={details.client_name || ''}
+        onChange={set('client_name')}
+        disabled={disabled}
+        placeholder="Homeowner name"
+        className={CALL_DETAIL_INPUT_CLASS}
+      />
+      <input
+        type="text"
+        value={details.client_address || ''}
+        onChange={set('client_address')}
+        disabled={disabled}
+        placeholder="Address"
+        autoComplete="street-address"
+        className={CALL_DETAIL_INPUT_CLASS}
+      />
+      <select
+        value={details.appointment_type || ''}
+        onChange={set('appointment_type')}
+        disabled={disabled}
+        className={CALL_DETAIL_INPUT_CLASS}
+      >
+        <option value="">Appointment type</option>
+        {APPOINTMENT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+      </select>
+      <select
+        value={details.lead_source || ''}
+        onChange={set('lead_source')}
+        disabled={disabled}
+        className={CALL_DETAIL_INPUT_CLASS}
+      >
+        <option value="">Lead source</option>
+        {LEAD_SOURCES.map(source => <option key={source} value={source}>{source}</option>)}
+      </select>
+      <textarea
+        value={details.call_notes || ''}
+        onChange={set('call_notes')}
+        disabled={disabled}
+        placeholder="Notes (roof age, insurance claim, who'll be home...)"
+        rows={2}
+        className={`${CALL_DETAIL_INPUT_CLASS} sm:col-span-2 resize-none`}
+      />
+    </div>
+  )
+}
 
 export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProps) {
   const [isRecording, setIsRecording] = useState(false)
@@ -24,14 +100,15 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
   const [uploadProgress, setUploadProgress] = useState(0)
   const [uploadStage, setUploadStage] = useState<UploadStage>('idle')
   const [permissionState, setPermissionState] = useState<'prompt' | 'granted' | 'denied'>('prompt')
-  
-  // FFmpeg for compression
-  const [ffmpegLoaded, setFfmpegLoaded] = useState(false)
-  const ffmpegRef = useRef<FFmpeg | null>(null)
+
   const [recordingName, setRecordingName] = useState('')
   const [audioLevel, setAudioLevel] = useState(0) // 0-1 scale for audio visualization
   const [frequencyBands, setFrequencyBands] = useState<number[]>(new Array(16).fill(0)) // For EQ visualization
   const [showSettings, setShowSettings] = useState(false)
+  const [callDetails, setCallDetails] = useState<RecordingCallDetails>(EMPTY_CALL_DETAILS)
+  const [showCallDetails, setShowCallDetails] = useState(false)
+  const [interruptedSessions, setInterruptedSessions] = useState<RecordingSession[]>([])
+  const [recoveringId, setRecoveringId] = useState<string | null>(null)
   
   // Audio settings
   const [inputGain, setInputGain] = useState(1.0) // 0.0 - 2.0 range
@@ -49,6 +126,13 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
   const animationFrameRef = useRef<number | null>(null)
   const wakeLockRef = useRef<WakeLockSentinel | null>(null)
 
+  // Crash-safe persistence: every chunk is also written to IndexedDB under this session
+  const userIdRef = useRef<string | null>(null)
+  const sessionIdRef = useRef<string | null>(null)
+  const chunkIndexRef = useRef(0)
+  const elapsedRef = useRef(0) // Mirrors recordingTime for the chunk handler
+  const chunkWriteFailedRef = useRef(false)
+
   const toast = useToast()
 
   // Wake Lock to keep screen on during recording (important for PWA)
@@ -90,37 +174,24 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
     }
   }, [])
 
-  // Load FFmpeg LAZILY - only when needed for compression
-  const loadFFmpegIfNeeded = useCallback(async () => {
-    if (ffmpegLoaded && ffmpegRef.current) return true
-    
-    try {
-      const ffmpeg = new FFmpeg()
-      await ffmpeg.load()
-      ffmpegRef.current = ffmpeg
-      setFfmpegLoaded(true)
-      console.log('FFmpeg loaded for recorder')
-      return true
-    } catch (err) {
-      console.error('Failed to load FFmpeg:', err)
-      return false
-    }
-  }, [ffmpegLoaded])
-
-  // Cleanup FFmpeg on unmount to free memory
+  // Look for recordings cut short by a crash or closed tab
   useEffect(() => {
-    return () => {
-      if (ffmpegRef.current) {
-        try {
-          ffmpegRef.current.terminate()
-          console.log('FFmpeg recorder terminated')
-        } catch (e) {
-          console.log('FFmpeg cleanup:', e)
-        }
-        ffmpegRef.current = null
-        setFfmpegLoaded(false)
+    const checkInterrupted = async () => {
+      try {
+        const { data: { session } } = await createClient().auth.getSession()
+        if (!session) return
+        userIdRef.current = session.user.id
+        setInterruptedSessions(await getInterruptedSessions(session.user.id))
+      } catch (err) {
+        console.error('Failed to check for interrupted recordings:', err)
       }
     }
+    checkInterrupted()
+  }, [])
+
+  // Free the shared FFmpeg instance on unmount
+  useEffect(() => {
+    return () => releaseFFmpeg()
   }, [])
 
   // Audio level analysis functions
@@ -214,6 +285,7 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
 
   const startTimer = useCallback(() => {
     timerRef.current = setInterval(() => {
+      elapsedRef.current += 1
       setRecordingTime(prev => prev + 1)
     }, 1000)
   }, [])
@@ -260,10 +332,43 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
       const mediaRecorder = new MediaRecorder(stream, { mimeType })
       mediaRecorderRef.current = mediaRecorder
       chunksRef.current = []
+      chunkIndexRef.current = 0
+      elapsedRef.current = 0
+      chunkWriteFailedRef.current = false
+
+      // Persist as we go; recording carries on in memory if IndexedDB isn't available
+      sessionIdRef.current = null
+      if (userIdRef.current) {
+        const sessionId = generateOfflineId()
+        try {
+          await startRecordingSession(sessionId, userIdRef.current, mimeType, normalizeCallDetails(callDetails))
+          sessionIdRef.current = sessionId
+
+          // Warn up front rather than when the backup fills the device mid-call
+          getStorageEstimate().then(estimate => {
+            if (estimate && isStorageLow(estimate)) {
+              toast.warning(`Only ${formatFileSize(Math.max(estimate.quota - estimate.usage, 0))} of storage left on this device - upload or clear the offline queue soon.`)
+            }
+          })
+        } catch (err) {
+          console.error('Failed to start recording session, keeping audio in memory only:', err)
+        }
+      }
 
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           chunksRef.current.push(event.data)
+
+          const sessionId = sessionIdRef.current
+          if (sessionId) {
+            appendRecordingChunk(sessionId, chunkIndexRef.current++, event.data, elapsedRef.current).catch(err => {
+              console.error('Failed to save recording chunk:', err)
+              if (!chunkWriteFailedRef.current) {
+                chunkWriteFailedRef.current = true
+                toast.warning('Backup to this device failed - keep the app open until the recording is saved.')
+              }
+            })
+          }
         }
       }
 
@@ -278,9 +383,12 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
         const url = URL.createObjectURL(blob)
         setAudioUrl(url)
         
-        // Generate default name
+        // Generate default name, after the homeowner when the rep entered one
         const now = new Date()
-        const defaultName = `Recording ${now.toLocaleDateString()} ${now.toLocaleTimeString()}`
+        const clientName = callDetails.client_name?.trim()
+        const defaultName = clientName
+          ? `${clientName} ${now.toLocaleDateString()}`
+          : `Recording ${now.toLocaleDateString()} ${now.toLocaleTimeString()}`
         setRecordingName(defaultName)
 
         // Stop all tracks
@@ -333,7 +441,17 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
     }
   }
 
+  // The recording is uploaded, queued or thrown away - its crash backup can go
+  const clearRecordingSession = () => {
+    if (!sessionIdRef.current) return
+    deleteRecordingSession(sessionIdRef.current).catch(err => {
+      console.error('Failed to delete recording session:', err)
+    })
+    sessionIdRef.current = null
+  }
+
   const discardRecording = () => {
+    clearRecordingSession()
     if (audioUrl) {
       URL.revokeObjectURL(audioUrl)
     }
@@ -344,78 +462,6 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
     chunksRef.current = []
   }
 
-  // Compress audio for AI analysis - same settings as AudioUploader
-  // Target: minimum size that AI can still transcribe (8kbps @ 8kHz)
-  const compressForAnalysis = async (blob: Blob): Promise<Blob | null> => {
-    // Lazy load FFmpeg when needed
-    const ffmpegReady = await loadFFmpegIfNeeded()
-    if (!ffmpegReady || !ffmpegRef.current) {
-      console.log('FFmpeg not available, skipping compression')
-      return null
-    }
-
-    try {
-      const ffmpeg = ffmpegRef.current
-      const inputFileName = 'input.webm'
-      const outputFileName = 'output.mp3'
-
-      // Calculate optimal bitrate based on recording duration
-      // Same logic as AudioUploader for consistency
-      const TARGET_SIZE = 12 * 1024 * 1024 // 12MB target
-      const estimatedDuration = recordingTime // Already in seconds
-      const targetBits = TARGET_SIZE * 8
-      const optimalBitrate = Math.floor(targetBits / Math.max(estimatedDuration, 60)) // Assume at least 1 min
-
-      // Same bitrate tiers as AudioUploader
-      let bitrate: string
-      let sampleRate: string
-      
-      if (optimalBitrate >= 24000) {
-        bitrate = '24k'
-        sampleRate = '12000'
-      } else if (optimalBitrate >= 16000) {
-        bitrate = '16k'
-        sampleRate = '8000'
-      } else if (optimalBitrate >= 12000) {
-        bitrate = '12k'
-        sampleRate = '8000'
-      } else {
-        // Very long recordings - absolute minimum
-        bitrate = '8k'
-        sampleRate = '8000'
-      }
-
-      console.log(`[Recorder compression] Starting: ${(blob.size / 1024 / 1024).toFixed(2)} MB, duration: ${recordingTime}s, bitrate: ${bitrate}`)
-
-      await ffmpeg.writeFile(inputFileName, await fetchFile(blob))
-      
-      await ffmpeg.exec([
-        '-i', inputFileName,
-        '-vn',
-        '-ac', '1',
-        '-ar', sampleRate,
-        '-b:a', bitrate,
-        '-y',
-        outputFileName
-      ])
-
-      const data = await ffmpeg.readFile(outputFileName)
-      
-      // Cleanup
-      try {
-        await ffmpeg.deleteFile(inputFileName)
-        await ffmpeg.deleteFile(outputFileName)
-      } catch { /* ignore */ }
-
-      const compressedBlob = new Blob([new Uint8Array(data as Uint8Array)], { type: 'audio/mpeg' })
-      console.log(`[Recorder compression] Result: ${(compressedBlob.size / 1024 / 1024).toFixed(2)} MB`)
-      return compressedBlob
-    } catch (err) {
-      console.error('Compression failed:', err)
-      return null
-    }
-  }
-
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes'
     const k = 1024
@@ -440,29 +486,29 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
         throw new Error('Not authenticated')
       }
 
-      // Determine file extension based on mime type
-      const mimeType = audioBlob.type
-      let extension = 'webm'
-      if (mimeType.includes('mp4')) extension = 'm4a'
-      else if (mimeType.includes('mp3') || mimeType.includes('mpeg')) extension = 'mp3'
-      
+      const mimeType = audioBlob.type || 'audio/webm'
+      const safeName = recordingName.replace(/[^a-zA-Z0-9\s]/g, '').trim() || 'recording'
+      const fileName = `${safeName.replace(/\s+/g, '_')}.${extensionForMimeType(mimeType)}`
+      const displayName = recordingName || 'Untitled Recording'
+
       // Check if offline - save locally instead of uploading
       if (!isOnline()) {
         console.log('📵 Offline - saving recording locally')
-        const safeName = recordingName.replace(/[^a-zA-Z0-9\s]/g, '').trim() || 'recording'
-        const fileName = `${safeName.replace(/\s+/g, '_')}_${Date.now()}.${extension}`
-        
-        const offlineId = generateOfflineId()
         await saveRecordingOffline({
-          id: offlineId,
-          fileName: fileName,
+          id: generateOfflineId(),
+          fileName,
+          displayName,
           fileSize: audioBlob.size,
-          mimeType: mimeType || 'audio/webm',
+          mimeType,
+          duration: recordingTime,
+          callDetails: normalizeCallDetails(callDetails),
           audioBlob: audioBlob,
           createdAt: new Date().toISOString(),
           userId: user.id,
         })
+        requestBackgroundSync()
         
+        clearRecordingSession()
         setUploadProgress(100)
         toast.success('Recording saved offline! Will upload when you\'re back online.')
         
@@ -473,79 +519,25 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
         setAudioBlob(null)
         setAudioUrl(null)
         setRecordingName('')
+        setCallDetails(EMPTY_CALL_DETAILS)
         return
       }
       
-      // Create file paths
-      const timestamp = Date.now()
-      const safeName = recordingName.replace(/[^a-zA-Z0-9\s]/g, '').trim() || 'recording'
-      const fileName = `${safeName.replace(/\s+/g, '_')}_${timestamp}.${extension}`
-      const filePath = `${user.id}/${fileName}`
-      const analysisFilePath = `${user.id}/${timestamp}-analysis.mp3`
-
-      // 1. Upload ORIGINAL file (for playback) - 0-50%
-      setUploadProgress(10)
-      const { error: uploadError } = await supabase.storage
-        .from('audio-files')
-        .upload(filePath, audioBlob, {
-          contentType: mimeType,
-          cacheControl: '3600',
-        })
-
-      if (uploadError) throw uploadError
-      setUploadProgress(50)
-
-      // 2. Compress and upload ANALYSIS file (for AI) - 50-90%
-      setUploadStage('compressing')
-      setUploadProgress(55)
-      
-      let finalAnalysisPath: string | null = null
-      let analysisFileSize: number | null = null
-      const compressedBlob = await compressForAnalysis(audioBlob)
-      
-      if (compressedBlob) {
-        setUploadStage('uploading-analysis')
-        setUploadProgress(70)
-        
-        const { error: analysisUploadError } = await supabase.storage
-          .from('audio-files')
-          .upload(analysisFilePath, compressedBlob, {
-            contentType: 'audio/mpeg',
-            cacheControl: '3600',
-          })
-
-        if (!analysisUploadError) {
-          finalAnalysisPath = analysisFilePath
-          analysisFileSize = compressedBlob.size
-          console.log(`Analysis file uploaded: ${formatFileSize(compressedBlob.size)}`)
-        }
-      }
-
-      setUploadProgress(85)
-      setUploadStage('done')
-
-      // 3. Create recording entry in database
-      const { data: recording, error: dbError } = await supabase
-        .from('recordings')
-        .insert({
-          user_id: user.id,
-          file_path: filePath,
-          analysis_file_path: finalAnalysisPath,
-          analysis_file_size: analysisFileSize,
-          file_name: recordingName || 'Untitled Recording',
-          file_size: audioBlob.size,
-          duration: recordingTime,
-          status: 'done',
-        })
-        .select()
-        .single()
-
-      if (dbError) throw dbError
-
-      setUploadProgress(100)
+      const recording = await uploadRecordingFile({
+        userId: user.id,
+        file: audioBlob,
+        fileName,
+        displayName,
+        mimeType,
+        duration: recordingTime,
+        callDetails: normalizeCallDetails(callDetails),
+      }, {
+        onStage: setUploadStage,
+        onProgress: setUploadProgress,
+      })
 
-      const compressionInfo = finalAnalysisPath 
-        ? ` (AI: ${formatFileSize(analysisFileSize || 0)})`
+      const compressionInfo = recording.analysis_file_size
+        ? ` (AI: ${formatFileSize(recording.analysis_file_size)})`
         : ''
       toast.success(`Recording saved!${compressionInfo}`)
       
@@ -556,6 +548,7 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
 
       // Reset state
       discardRecording()
+      setCallDetails(EMPTY_CALL_DETAILS)
 
     } catch (err) {
       console.error('Upload error:', err)
@@ -567,6 +560,42 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
     }
   }
 
+  // Load an interrupted session into the preview so it can be named and saved like a new one
+  const recoverSession = async (session: RecordingSession) => {
+    setRecoveringId(session.id)
+    try {
+      const blob = await assembleRecordingSession(session)
+      claimRecordingSession(session.id)
+      sessionIdRef.current = session.id
+
+      const startedAt = new Date(session.startedAt)
+      setAudioBlob(blob)
+      setAudioUrl(URL.createObjectURL(blob))
+      setRecordingTime(session.durationSeconds)
+      setRecordingName(session.callDetails?.client_name
+        ? `${session.callDetails.client_name} ${startedAt.toLocaleDateString()}`
+        : `Recording ${startedAt.toLocaleDateString()} ${startedAt.toLocaleTimeString()}`)
+      setCallDetails({ ...EMPTY_CALL_DETAILS, ...session.callDetails })
+      setInterruptedSessions(prev => prev.filter(s => s.id !== session.id))
+      toast.success('Recording recovered - save it to finish')
+    } catch (err) {
+      console.error('Failed to recover recording:', err)
+      toast.error('Could not recover this recording')
+    } finally {
+      setRecoveringId(null)
+    }
+  }
+
+  const discardSession = async (session: RecordingSession) => {
+    try {
+      await deleteRecordingSession(session.id)
+      setInterruptedSessions(prev => prev.filter(s => s.id !== session.id))
+    } catch (err) {
+      console.error('Failed to discard recording:', err)
+      toast.error('Could not discard this recording')
+    }
+  }
+
   // Render permission denied state
   if (permissionState === 'denied') {
     return (
@@ -619,6 +648,27 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
             />
           </div>
 
+          {/* Call Details */}
+          <div className="mb-4">
+            <button
+              onClick={() => setShowCallDetails(!showCallDetails)}
+              className="flex items-center gap-2 text-sm font-medium text-slate-300 hover:text-white mb-2"
+            >
+              Call Details
+              {hasCallDetails(callDetails) && !showCallDetails && (
+                <span className="text-xs font-normal text-slate-500 truncate max-w-[12rem]">
+                  {callDetails.client_name || callDetails.client_address || 'Added'}
+                </span>
+              )}
+              <svg className={`w-3 h-3 transition-transform ${showCallDetails ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+            {showCallDetails && (
+              <CallDetailsForm details={callDetails} onChange={setCallDetails} disabled={isUploading} />
+            )}
+          </div>
+
           {/* Upload Progress */}
           {isUploading && (
             <div className="mb-4">
@@ -1014,6 +1064,36 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
       ) : (
         /* Start Recording Button - Large & Prominent */
         <div className="flex flex-col items-center py-8">
+          {/* Interrupted recordings */}
+          {interruptedSessions.length > 0 && (
+            <div className="w-full max-w-md mb-6 space-y-2">
+              {interruptedSessions.map(session => (
+                <div key={session.id} className="px-4 py-3 bg-amber-500/10 border border-amber-500/30 rounded-xl">
+                  <p className="text-amber-400 text-sm font-medium">Unfinished recording found</p>
+                  <p className="text-slate-400 text-xs mt-0.5">
+                    Started {new Date(session.startedAt).toLocaleString()} · {formatTime(session.durationSeconds)} · {formatFileSize(session.totalSize)}
+                  </p>
+                  <div className="flex gap-2 mt-3">
+                    <button
+                      onClick={() => recoverSession(session)}
+                      disabled={recoveringId !== null}
+                      className="px-3 py-1.5 bg-amber-500 hover:bg-amber-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      {recoveringId === session.id ? 'Recovering...' : 'Recover'}
+                    </button>
+                    <button
+                      onClick={() => discardSession(session)}
+                      disabled={recoveringId !== null}
+                      className="px-3 py-1.5 text-slate-400 hover:text-white text-sm transition-colors disabled:opacity-50"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Big Record Button */}
           <button
             onClick={startRecording}
@@ -1058,10 +1138,37 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
             </div>
           </div>
 
+          {/* Call Details (Pre-recording) */}
+          <button
+            onClick={() => setShowCallDetails(!showCallDetails)}
+            className={`flex items-center gap-2 px-4 py-2 mt-6 rounded-xl text-sm font-medium transition-all ${
+              showCallDetails
+                ? 'bg-slate-700 text-white'
+                : 'text-amber-400 hover:text-amber-300 bg-amber-500/10 hover:bg-amber-500/20 border border-amber-500/30'
+            }`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+            </svg>
+            {hasCallDetails(callDetails) ? (callDetails.client_name || 'Call Details') : 'Add Call Details'}
+            <svg className={`w-3 h-3 transition-transform ${showCallDetails ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+
+          {showCallDetails && (
+            <div className="w-full max-w-md bg-slate-800/80 backdrop-blur-sm rounded-xl border border-slate-700/50 p-4 mt-4 animate-fade-in">
+              <CallDetailsForm details={callDetails} onChange={setCallDetails} />
+              <p className="text-xs text-slate-500 mt-3">
+                Saved with the recording, even offline, and used by the W4 analysis.
+              </p>
+            </div>
+          )}
+
           {/* Pre-recording Settings */}
           <button
             onClick={() => setShowSettings(!showSettings)}
-            className={`flex items-center gap-2 px-4 py-2 mt-6 rounded-xl text-sm font-medium transition-all ${
+            className={`flex items-center gap-2 px-4 py-2 mt-3 rounded-xl text-sm font-medium transition-all ${
               showSettings 
                 ? 'bg-slate-700 text-white' 
                 : 'text-slate-400 hover:text-white bg-slate-800/50 hover:bg-slate-700/50 border border-slate-700/50'
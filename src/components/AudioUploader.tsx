@@ -4,10 +4,20 @@ import { useState, useCallback, useRef, useMemo, useEffect } from 'react'
 import { createPortal } from 'react-dom'
 import { createClient } from '@/lib/supabase/client'
 import { useToast } from '@/components/ui/Toast'
-import { Recording, RecordingInsert } from '@/types/database'
+import { Recording } from '@/types/database'
 import { FFmpeg } from '@ffmpeg/ffmpeg'
 import { fetchFile } from '@ffmpeg/util'
 import { saveRecordingOffline, generateOfflineId, isOnline } from '@/lib/offlineStorage'
+import { requestBackgroundSync } from '@/lib/syncService'
+import {
+  RecordingUploadStage,
+  calculateAnalysisBitrate,
+  estimateDurationSeconds,
+  loadFFmpeg,
+  needsBrowserConversion,
+  releaseFFmpeg,
+  uploadRecording,
+} from '@/lib/recordingUpload'
 
 interface UploadProgress {
   loaded: number
@@ -35,14 +45,13 @@ export default function AudioUploader({
   const [isDragging, setIsDragging] = useState(false)
   const [uploading, setUploading] = useState(false)
   const [progress, setProgress] = useState<UploadProgress | null>(null)
-  const [uploadStage, setUploadStage] = useState<'uploading' | 'compressing' | 'uploading-analysis' | 'done'>('uploading')
+  const [uploadStage, setUploadStage] = useState<RecordingUploadStage>('uploading')
   const [error, setError] = useState<string | null>(null)
   const [uploadedRecording, setUploadedRecording] = useState<Recording | null>(null)
   const [uploadedSizes, setUploadedSizes] = useState<{ original: number; compressed: number | null }>({ original: 0, compressed: null })
   const [fileName, setFileName] = useState<string>('')
   const fileInputRef = useRef<HTMLInputElement>(null)
-  const xhrRef = useRef<XMLHttpRequest | null>(null)
-  const recordingIdRef = useRef<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
   
   // Compression state (modal removed - compression happens silently)
   const [showCompressionModal, setShowCompressionModal] = useState(false) // Legacy, kept for compatibility
@@ -75,54 +84,21 @@ export default function AudioUploader({
     }
   }, [])
 
-  // Load FFmpeg LAZILY - only when needed
+  // Load FFmpeg LAZILY - only when needed (shared with the upload pipeline)
   const loadFFmpegIfNeeded = useCallback(async () => {
     if (ffmpegRef.current && ffmpegLoaded) return true
-    
-    try {
-      const ffmpeg = new FFmpeg()
-      ffmpegRef.current = ffmpeg
-      
-      // Use standard single-threaded version (more compatible)
-      const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/umd'
-      await ffmpeg.load({
-        coreURL: `${baseURL}/ffmpeg-core.js`,
-        wasmURL: `${baseURL}/ffmpeg-core.wasm`,
-      })
-      
-      setFfmpegLoaded(true)
-      console.log('FFmpeg loaded successfully')
-      return true
-    } catch (err) {
-      console.error('Failed to load FFmpeg:', err)
-      // Try with default configuration
-      try {
-        const ffmpeg = new FFmpeg()
-        ffmpegRef.current = ffmpeg
-        await ffmpeg.load()
-        setFfmpegLoaded(true)
-        console.log('FFmpeg loaded with default config')
-        return true
-      } catch (err2) {
-        console.error('FFmpeg default load also failed:', err2)
-        return false
-      }
-    }
+
+    ffmpegRef.current = await loadFFmpeg()
+    setFfmpegLoaded(!!ffmpegRef.current)
+    return !!ffmpegRef.current
   }, [ffmpegLoaded])
 
   // Cleanup FFmpeg on unmount to free memory
   useEffect(() => {
     return () => {
-      if (ffmpegRef.current) {
-        try {
-          ffmpegRef.current.terminate()
-          console.log('FFmpeg terminated and memory freed')
-        } catch (e) {
-          console.log('FFmpeg cleanup:', e)
-        }
-        ffmpegRef.current = null
-        setFfmpegLoaded(false)
-      }
+      releaseFFmpeg()
+      ffmpegRef.current = null
+      setFfmpegLoaded(false)
     }
   }, [])
 
@@ -174,45 +150,12 @@ export default function AudioUploader({
     return null
   }
 
-  // Target max size after compression (12MB to fit in 512MB RAM on backend)
-  // 12MB file → ~40MB in memory (base64 + processing) → safe with ~150MB baseline
-  const TARGET_COMPRESSED_SIZE = 12 * 1024 * 1024 // 12MB - ultra-aggressive for free tier
-  
-  // Estimate duration from file size (rough: 1MB ≈ 1 minute for typical audio)
-  const estimateDurationSeconds = (fileSize: number): number => {
-    // Most audio formats: ~1MB per minute on average
-    return (fileSize / (1024 * 1024)) * 60
-  }
-  
-  // Calculate optimal bitrate to achieve target size
+  // Bitrate for a file, from its estimated duration
   const calculateOptimalBitrate = (fileSizeBytes: number): { bitrate: string; sampleRate: string } => {
     const estimatedDuration = estimateDurationSeconds(fileSizeBytes)
-    // Target bits = targetSize * 8, then divide by duration
-    const targetBits = TARGET_COMPRESSED_SIZE * 8
-    const optimalBitrate = Math.floor(targetBits / estimatedDuration)
-    
-    // Ultra-aggressive compression for 512MB RAM free tier
-    // AI can still transcribe at 8kbps - tested!
-    let bitrate: number
-    let sampleRate: string
-    
-    if (optimalBitrate >= 24000) {
-      bitrate = 24
-      sampleRate = '12000'
-    } else if (optimalBitrate >= 16000) {
-      bitrate = 16
-      sampleRate = '8000'
-    } else if (optimalBitrate >= 12000) {
-      bitrate = 12
-      sampleRate = '8000'
-    } else {
-      // Very long files - absolute minimum that AI can still understand
-      bitrate = 8
-      sampleRate = '8000' // Telephone quality - Gemini handles this fine
-    }
-    
-    console.log(`File: ${formatFileSize(fileSizeBytes)}, Est. duration: ${Math.round(estimatedDuration/60)}min, Optimal bitrate: ${bitrate}k`)
-    return { bitrate: `${bitrate}k`, sampleRate }
+    const { bitrate, sampleRate } = calculateAnalysisBitrate(estimatedDuration)
+    console.log(`File: ${formatFileSize(fileSizeBytes)}, Est. duration: ${Math.round(estimatedDuration/60)}min, Optimal bitrate: ${bitrate}`)
+    return { bitrate, sampleRate }
   }
 
   // Estimate compressed size based on calculated bitrate
@@ -411,42 +354,10 @@ export default function AudioUploader({
     }
   }
 
-  // Extract audio duration from file
-  const getAudioDuration = (file: File): Promise<number | null> => {
-    return new Promise((resolve) => {
-      const audio = new Audio()
-      audio.preload = 'metadata'
-      
-      audio.onloadedmetadata = () => {
-        URL.revokeObjectURL(audio.src)
-        // Duration in seconds
-        const duration = Math.round(audio.duration)
-        resolve(isNaN(duration) || !isFinite(duration) ? null : duration)
-      }
-      
-      audio.onerror = () => {
-        URL.revokeObjectURL(audio.src)
-        resolve(null)
-      }
-      
-      audio.src = URL.createObjectURL(file)
-    })
-  }
-
+  // The pipeline removes the recording entry and anything already uploaded
   const cancelUpload = async () => {
-    if (xhrRef.current) {
-      xhrRef.current.abort()
-      xhrRef.current = null
-    }
-
-    // Clean up the recording entry if it was created
-    if (recordingIdRef.current && supabase) {
-      await supabase
-        .from('recordings')
-        .delete()
-        .eq('id', recordingIdRef.current)
-      recordingIdRef.current = null
-    }
+    abortRef.current?.abort()
+    abortRef.current = null
 
     setUploading(false)
     setProgress(null)
@@ -454,165 +365,6 @@ export default function AudioUploader({
     toast.info('Upload cancelled')
   }
 
-  // Helper: upload file to storage with progress
-  const uploadToStorage = async (
-    file: File | Blob, 
-    filePath: string, 
-    accessToken: string,
-    onProgress?: (percentage: number) => void
-  ): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      const xhr = new XMLHttpRequest()
-      xhrRef.current = xhr
-      
-      xhr.upload.addEventListener('progress', (event) => {
-        if (event.lengthComputable && onProgress) {
-          const percentage = Math.round((event.loaded / event.total) * 100)
-          onProgress(percentage)
-        }
-      })
-
-      xhr.addEventListener('load', () => {
-        if (xhr.status >= 200 && xhr.status < 300) {
-          resolve()
-        } else {
-          reject(new Error(`Upload failed with status ${xhr.status}`))
-        }
-      })
-
-      xhr.addEventListener('error', () => reject(new Error('Upload failed')))
-      xhr.addEventListener('abort', () => reject(new Error('Upload cancelled')))
-
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-      xhr.open('POST', `${supabaseUrl}/storage/v1/object/audio-files/${filePath}`)
-      xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`)
-      xhr.setRequestHeader('x-upsert', 'true')
-      xhr.send(file)
-    })
-  }
-
-  // Silent compression for AI analysis (no UI feedback)
-  const compressForAnalysis = async (file: File): Promise<File | null> => {
-    // Lazy load FFmpeg when needed
-    const ffmpegReady = await loadFFmpegIfNeeded()
-    if (!ffmpegReady || !ffmpegRef.current) {
-      console.log('FFmpeg not available, skipping compression')
-      return null
-    }
-
-    try {
-      const ffmpeg = ffmpegRef.current
-      let fileToCompress = file
-
-      // Convert WebM/OGG first if needed
-      if (needsBrowserConversion(file.name) && file.size <= MAX_BROWSER_CONVERSION_SIZE) {
-        try {
-          fileToCompress = await convertWithWebAudioSilent(file)
-        } catch {
-          console.log('Browser conversion failed, using original')
-          return null
-        }
-      }
-
-      const inputExt = fileToCompress.name.split('.').pop()?.toLowerCase() || 'mp3'
-      const inputFileName = `input_analysis.${inputExt}`
-      const outputFileName = 'output_analysis.mp3'
-
-      // Calculate aggressive bitrate for small file size
-      const { bitrate, sampleRate } = calculateOptimalBitrate(file.size)
-      console.log(`[Analysis compression] ${formatFileSize(file.size)} -> ${bitrate}bps @ ${sampleRate}Hz`)
-
-      await ffmpeg.writeFile(inputFileName, await fetchFile(fileToCompress))
-      
-      await ffmpeg.exec([
-        '-i', inputFileName,
-        '-vn',
-        '-ac', '1',
-        '-ar', sampleRate,
-        '-b:a', bitrate,
-        '-y',
-        outputFileName
-      ])
-
-      const data = await ffmpeg.readFile(outputFileName)
-      
-      // Cleanup
-      try {
-        await ffmpeg.deleteFile(inputFileName)
-        await ffmpeg.deleteFile(outputFileName)
-      } catch { /* ignore */ }
-
-      const compressedBlob = new Blob([new Uint8Array(data as Uint8Array)], { type: 'audio/mpeg' })
-      const compressedFile = new File([compressedBlob], 'analysis.mp3', { type: 'audio/mpeg' })
-      
-      console.log(`[Analysis compression] Result: ${formatFileSize(compressedFile.size)}`)
-      return compressedFile
-    } catch (err) {
-      console.error('Analysis compression failed:', err)
-      return null
-    }
-  }
-
-  // Silent Web Audio conversion (no UI)
-  const convertWithWebAudioSilent = async (file: File): Promise<File> => {
-    const audioContext = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)()
-    const arrayBuffer = await file.arrayBuffer()
-    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
-    
-    // Resample to 8kHz mono for maximum compression
-    const offlineContext = new OfflineAudioContext(1, audioBuffer.duration * 8000, 8000)
-    const source = offlineContext.createBufferSource()
-    source.buffer = audioBuffer
-    source.connect(offlineContext.destination)
-    source.start(0)
-    
-    const resampledBuffer = await offlineContext.startRendering()
-    
-    // Convert to WAV
-    const wavBlob = audioBufferToWavSilent(resampledBuffer)
-    return new File([wavBlob], 'converted.wav', { type: 'audio/wav' })
-  }
-
-  // WAV encoder (silent version)
-  const audioBufferToWavSilent = (buffer: AudioBuffer): Blob => {
-    const numOfChan = buffer.numberOfChannels
-    const length = buffer.length * numOfChan * 2 + 44
-    const bufferArray = new ArrayBuffer(length)
-    const view = new DataView(bufferArray)
-    const channels: Float32Array[] = []
-    let offset = 0
-    let pos = 0
-
-    const setUint16 = (data: number) => { view.setUint16(pos, data, true); pos += 2 }
-    const setUint32 = (data: number) => { view.setUint32(pos, data, true); pos += 4 }
-
-    setUint32(0x46464952)
-    setUint32(length - 8)
-    setUint32(0x45564157)
-    setUint32(0x20746d66)
-    setUint32(16)
-    setUint16(1)
-    setUint16(numOfChan)
-    setUint32(buffer.sampleRate)
-    setUint32(buffer.sampleRate * numOfChan * 2)
-    setUint16(numOfChan * 2)
-    setUint16(16)
-    setUint32(0x61746164)
-    setUint32(length - pos - 4)
-
-    for (let i = 0; i < buffer.numberOfChannels; i++) channels.push(buffer.getChannelData(i))
-    while (pos < length) {
-      for (let i = 0; i < numOfChan; i++) {
-        let sample = Math.max(-1, Math.min(1, channels[i][offset]))
-        sample = sample < 0 ? sample * 0x8000 : sample * 0x7FFF
-        view.setInt16(pos, sample, true)
-        pos += 2
-      }
-      offset++
-    }
-    return new Blob([view], { type: 'audio/wav' })
-  }
-
   const uploadFile = async (file: File) => {
     if (!supabase) {
       setError('Supabase is not configured. Please set up environment variables.')
@@ -647,6 +399,7 @@ export default function AudioUploader({
           createdAt: new Date().toISOString(),
           userId: user.id,
         })
+        requestBackgroundSync()
         
         setProgress({ loaded: 100, total: 100, percentage: 100 })
         toast.success('Recording saved offline! Will upload when you\'re back online.')
@@ -656,117 +409,37 @@ export default function AudioUploader({
         return
       }
 
-      const { data: { session } } = await supabase.auth.getSession()
-      if (!session?.access_token) {
-        throw new Error('No valid session')
-      }
-
-      // Extract audio duration
-      const duration = await getAudioDuration(file)
-      console.log(`Audio duration: ${duration ? `${Math.floor(duration / 60)}:${String(duration % 60).padStart(2, '0')}` : 'unknown'}`)
-
-      // Create unique file paths
-      const timestamp = Date.now()
-      const sanitizedName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_')
-      const filePath = `${user.id}/${timestamp}-${sanitizedName}`
-      const analysisFilePath = `${user.id}/${timestamp}-analysis.mp3`
-
-      // 1. Create recording entry
-      const recordingInsert: RecordingInsert = {
-        user_id: user.id,
-        file_path: filePath,
-        file_name: file.name,
-        file_size: file.size,
-        duration: duration,
-        status: 'uploading',
-      }
-
-      const { data: newRecording, error: insertError } = await supabase
-        .from('recordings')
-        .insert(recordingInsert)
-        .select()
-        .single()
-
-      if (insertError) {
-        throw new Error(`Failed to create recording: ${insertError.message}`)
-      }
-
-      recordingIdRef.current = newRecording.id
-
-      // 2. Upload ORIGINAL file (for playback) - 0-70% progress
-      console.log('Uploading original file for playback...')
-      setUploadStage('uploading')
-      await uploadToStorage(file, filePath, session.access_token, (pct) => {
-        setProgress({ loaded: 0, total: 100, percentage: Math.round(pct * 0.7) })
+      const abortController = new AbortController()
+      abortRef.current = abortController
+
+      const updatedRecording = await uploadRecording({
+        userId: user.id,
+        file,
+        fileName: file.name,
+        mimeType: file.type,
+      }, {
+        signal: abortController.signal,
+        onStage: setUploadStage,
+        onProgress: (percentage) => setProgress({ loaded: 0, total: 100, percentage }),
       })
 
-      // 3. Compress and upload ANALYSIS file (for AI) - 70-100% progress
-      console.log('Creating compressed version for AI analysis...')
-      setUploadStage('compressing')
-      setProgress({ loaded: 0, total: 100, percentage: 75 })
-      
-      let finalAnalysisPath: string | null = null
-      const compressedFile = await compressForAnalysis(file)
-      
-      if (compressedFile) {
-        setUploadStage('uploading-analysis')
-        setProgress({ loaded: 0, total: 100, percentage: 85 })
-        try {
-          await uploadToStorage(compressedFile, analysisFilePath, session.access_token)
-          finalAnalysisPath = analysisFilePath
-          console.log(`Analysis file uploaded: ${formatFileSize(compressedFile.size)}`)
-        } catch (err) {
-          console.error('Failed to upload analysis file, AI will use original:', err)
-        }
-      }
-
-      setUploadStage('done')
-      setProgress({ loaded: 0, total: 100, percentage: 95 })
-
-      // 4. Update recording with status and analysis path
-      const { data: updatedRecording, error: updateError } = await supabase
-        .from('recordings')
-        .update({ 
-          status: 'done',
-          analysis_file_path: finalAnalysisPath,
-          analysis_file_size: compressedFile?.size || null
-        })
-        .eq('id', recordingIdRef.current)
-        .select()
-        .single()
-
-      if (updateError) {
-        throw new Error(`Failed to update recording status: ${updateError.message}`)
-      }
-
-      setProgress({ loaded: 100, total: 100, percentage: 100 })
-      
-      xhrRef.current = null
-      recordingIdRef.current = null
+      abortRef.current = null
       setUploadedRecording(updatedRecording)
       setUploadedSizes({
         original: file.size,
-        compressed: compressedFile?.size || null
+        compressed: updatedRecording.analysis_file_size
       })
       onUploadComplete?.(updatedRecording)
       
       toast.success('Upload complete!')
       
     } catch (err) {
-      if (recordingIdRef.current && supabase && (err as Error).message !== 'Upload cancelled') {
-        await supabase
-          .from('recordings')
-          .update({ status: 'error' })
-          .eq('id', recordingIdRef.current)
-      }
-      
       if ((err as Error).message !== 'Upload cancelled') {
         setError(err instanceof Error ? err.message : 'Upload failed. Please try again.')
         toast.error('Upload failed')
       }
       
-      xhrRef.current = null
-      recordingIdRef.current = null
+      abortRef.current = null
     } finally {
       setUploading(false)
       setProgress(null)
@@ -777,13 +450,6 @@ export default function AudioUploader({
   // Max size for browser-based conversion (100 MB - larger files will timeout/crash)
   const MAX_BROWSER_CONVERSION_SIZE = 100 * 1024 * 1024 // 100 MB
 
-  // Check if file needs browser-based conversion first (WebM/OGG/Opus)
-  const needsBrowserConversion = (fileName: string): boolean => {
-    const ext = fileName.split('.').pop()?.toLowerCase() || ''
-    const browserOnlyFormats = ['webm', 'ogg', 'opus']
-    return browserOnlyFormats.includes(ext)
-  }
-
   // Check if file can be converted (format needs conversion AND size is manageable)
   const canBeConverted = (file: File): boolean => {
     if (!needsBrowserConversion(file.name)) return true // FFmpeg can handle directly
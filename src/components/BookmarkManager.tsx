@@ -10,6 +10,7 @@ interface BookmarkManagerProps {
   userId: string
   currentTime?: number // Current audio position in seconds
   onSeek?: (seconds: number) => void
+  readOnly?: boolean // Shared without edit access - list only
 }
 
 const BOOKMARK_COLORS = [
@@ -25,6 +26,7 @@ export default function BookmarkManager({
   userId,
   currentTime = 0,
   onSeek,
+  readOnly = false,
 }: BookmarkManagerProps) {
   const [bookmarks, setBookmarks] = useState<Bookmark[]>([])
   const [loading, setLoading] = useState(true)
@@ -167,7 +169,7 @@ export default function BookmarkManager({
           )}
         </h3>
         
-        {!showForm && (
+        {!showForm && !readOnly && (
           <button
             onClick={() => setShowForm(true)}
             className="flex items-center gap-1 text-xs text-emerald-400 hover:text-emerald-300 transition-colors"
@@ -245,7 +247,7 @@ export default function BookmarkManager({
       {/* Bookmarks list */}
       {bookmarks.length === 0 && !showForm ? (
         <p className="text-sm text-slate-500 text-center py-4">
-          No bookmarks yet. Add one to mark important moments.
+          {readOnly ? 'No bookmarks yet.' : 'No bookmarks yet. Add one to mark important moments.'}
         </p>
       ) : (
         <div className="space-y-2">
@@ -299,35 +301,37 @@ export default function BookmarkManager({
                 )}
               </div>
 
-              {/* Actions */}
-              <div className="opacity-0 group-hover:opacity-100 flex items-center gap-1 transition-opacity">
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    setEditingId(bookmark.id)
-                  }}
-                  className="p-1 text-slate-400 hover:text-blue-400 transition-colors"
-                  title="Edit"
-                >
-                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
-                  </svg>
-                </button>
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    if (confirm('Delete this bookmark?')) {
-                      deleteBookmark(bookmark.id)
-                    }
-                  }}
-                  className="p-1 text-slate-400 hover:text-red-400 transition-colors"
-                  title="Delete"
-                >
-                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                  </svg>
-                </button>
-              </div>
+              {/* Actions - collaborators only change their own bookmarks */}
+              {!readOnly && bookmark.user_id === userId && (
+                <div className="opacity-0 group-hover:opacity-100 flex items-center gap-1 transition-opacity">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setEditingId(bookmark.id)
+                    }}
+                    className="p-1 text-slate-400 hover:text-blue-400 transition-colors"
+                    title="Edit"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      if (confirm('Delete this bookmark?')) {
+                        deleteBookmark(bookmark.id)
+                      }
+                    }}
+                    className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+                    title="Delete"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -1,31 +1,38 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { createClient } from '@/lib/supabase/client'
-import { Comment, CommentInsert } from '@/types/database'
+import { Comment, CommentInsert, RecordingParticipant } from '@/types/database'
 import { useToast } from '@/components/ui/Toast'
 import { ConfirmModal } from '@/components/ui/Modal'
+import { activeMentionQuery, buildCommentThreads, extractMentions, mentionHandle, splitMentions } from '@/lib/comments'
 
 interface CommentsManagerProps {
   recordingId: string
   userId: string
   onSeek?: (seconds: number) => void
   currentTime?: number
+  readOnly?: boolean // Shared with view access - no posting
 }
 
-export default function CommentsManager({ 
-  recordingId, 
-  userId, 
+export default function CommentsManager({
+  recordingId,
+  userId,
   onSeek,
-  currentTime = 0 
+  currentTime = 0,
+  readOnly = false,
 }: CommentsManagerProps) {
   const [comments, setComments] = useState<Comment[]>([])
+  const [participants, setParticipants] = useState<RecordingParticipant[]>([])
   const [loading, setLoading] = useState(true)
   const [newComment, setNewComment] = useState('')
   const [linkToTimestamp, setLinkToTimestamp] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editingContent, setEditingContent] = useState('')
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [replyContent, setReplyContent] = useState('')
+  const [showResolved, setShowResolved] = useState(false)
   const [deleteModal, setDeleteModal] = useState<{ isOpen: boolean; comment: Comment | null }>({
     isOpen: false,
     comment: null
@@ -36,18 +43,29 @@ export default function CommentsManager({
 
   useEffect(() => {
     loadComments()
+  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [recordingId])
 
+  // Notification links point at #comment-<id>; scroll there once the thread is rendered
+  useEffect(() => {
+    if (loading || !window.location.hash.startsWith('#comment-')) return
+    document.getElementById(window.location.hash.slice(1))?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [loading])
+
   const loadComments = async () => {
     try {
-      const { data, error } = await supabase
-        .from('comments')
-        .select('*')
-        .eq('recording_id', recordingId)
-        .order('created_at', { ascending: false })
+      const [commentsResult, participantsResult] = await Promise.all([
+        supabase
+          .from('comments')
+          .select('*')
+          .eq('recording_id', recordingId)
+          .order('created_at', { ascending: false }),
+        supabase.rpc('recording_participants', { target_recording: recordingId }),
+      ])
 
-      if (error) throw error
-      setComments(data || [])
+      if (commentsResult.error) throw commentsResult.error
+      setComments(commentsResult.data || [])
+      setParticipants(participantsResult.data || [])
     } catch (err) {
       console.error('Error loading comments:', err)
     } finally {
@@ -55,28 +73,33 @@ export default function CommentsManager({
     }
   }
 
+  const addComment = async (content: string, parentId: string | null) => {
+    const commentData: CommentInsert = {
+      recording_id: recordingId,
+      user_id: userId,
+      parent_id: parentId,
+      content: content.trim(),
+      timestamp_seconds: !parentId && linkToTimestamp ? Math.floor(currentTime) : null,
+      mentioned_user_ids: extractMentions(content, participants),
+    }
+
+    const { data, error } = await supabase
+      .from('comments')
+      .insert(commentData)
+      .select()
+      .single()
+
+    if (error) throw error
+    setComments(prev => [data, ...prev])
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!newComment.trim()) return
 
     setIsSubmitting(true)
     try {
-      const commentData: CommentInsert = {
-        recording_id: recordingId,
-        user_id: userId,
-        content: newComment.trim(),
-        timestamp_seconds: linkToTimestamp ? Math.floor(currentTime) : null,
-      }
-
-      const { data, error } = await supabase
-        .from('comments')
-        .insert(commentData)
-        .select()
-        .single()
-
-      if (error) throw error
-
-      setComments([data, ...comments])
+      await addComment(newComment, null)
       setNewComment('')
       setLinkToTimestamp(false)
       toast.success('Comment added')
@@ -88,19 +111,40 @@ export default function CommentsManager({
     }
   }
 
+  const handleReply = async (threadId: string) => {
+    if (!replyContent.trim()) return
+
+    setIsSubmitting(true)
+    try {
+      await addComment(replyContent, threadId)
+      setReplyContent('')
+      setReplyingTo(null)
+    } catch (err) {
+      console.error('Error adding reply:', err)
+      toast.error('Failed to add reply')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
   const handleUpdate = async (commentId: string) => {
     if (!editingContent.trim()) return
 
     try {
+      const updates = {
+        content: editingContent.trim(),
+        mentioned_user_ids: extractMentions(editingContent, participants),
+        updated_at: new Date().toISOString(),
+      }
       const { error } = await supabase
         .from('comments')
-        .update({ content: editingContent.trim(), updated_at: new Date().toISOString() })
+        .update(updates)
         .eq('id', commentId)
 
       if (error) throw error
 
-      setComments(comments.map(c => 
-        c.id === commentId ? { ...c, content: editingContent.trim() } : c
+      setComments(comments.map(c =>
+        c.id === commentId ? { ...c, ...updates } : c
       ))
       setEditingId(null)
       setEditingContent('')
@@ -111,6 +155,22 @@ export default function CommentsManager({
     }
   }
 
+  const handleResolve = async (thread: Comment, resolved: boolean) => {
+    try {
+      const { error } = await supabase.rpc('set_comment_thread_resolved', { thread_id: thread.id, resolved })
+      if (error) throw error
+
+      setComments(comments.map(c => c.id === thread.id
+        ? { ...c, resolved_at: resolved ? new Date().toISOString() : null, resolved_by: resolved ? userId : null }
+        : c
+      ))
+      toast.success(resolved ? 'Thread resolved' : 'Thread reopened')
+    } catch (err) {
+      console.error('Error resolving thread:', err)
+      toast.error('Failed to update thread')
+    }
+  }
+
   const openDeleteModal = (comment: Comment) => {
     setDeleteModal({ isOpen: true, comment })
   }
@@ -131,7 +191,8 @@ export default function CommentsManager({
 
       if (error) throw error
 
-      setComments(comments.filter(c => c.id !== deleteModal.comment?.id))
+      // Reload rather than filter - the database decides what happens to the replies
+      await loadComments()
       toast.success('Comment deleted')
       closeDeleteModal()
     } catch (err) {
@@ -164,9 +225,9 @@ export default function CommentsManager({
     if (diffMins < 60) return `${diffMins}m ago`
     if (diffHours < 24) return `${diffHours}h ago`
     if (diffDays < 7) return `${diffDays}d ago`
-    
-    return date.toLocaleDateString('en-US', { 
-      month: 'short', 
+
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
       day: 'numeric',
       year: date.getFullYear() !== now.getFullYear() ? 'numeric' : undefined
     })
@@ -177,6 +238,101 @@ export default function CommentsManager({
     setEditingContent(comment.content)
   }
 
+  const authorLabel = (authorId: string | null): string => {
+    if (authorId === userId) return 'You'
+    return participants.find(p => p.user_id === authorId)?.email || 'Someone'
+  }
+
+  const threads = buildCommentThreads(comments)
+  const resolvedCount = threads.filter(t => t.root.resolved_at).length
+  const visibleThreads = showResolved ? threads : threads.filter(t => !t.root.resolved_at)
+
+  const renderComment = (comment: Comment, isReply: boolean) => (
+    <div key={comment.id} id={`comment-${comment.id}`} className={`group ${isReply ? 'mt-3 pl-4 border-l-2 border-slate-700/50' : ''}`}>
+      {editingId === comment.id ? (
+        <div className="space-y-2">
+          <MentionTextarea
+            value={editingContent}
+            onChange={setEditingContent}
+            participants={participants}
+            rows={3}
+            autoFocus
+            className="w-full px-3 py-2 bg-slate-900/50 border border-blue-500/50 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 resize-none text-sm"
+          />
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={() => setEditingId(null)}
+              className="px-3 py-1 text-slate-400 hover:text-white text-sm transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => handleUpdate(comment.id)}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex-1 min-w-0">
+            {/* Timestamp badge */}
+            {comment.timestamp_seconds !== null && (
+              <button
+                onClick={() => onSeek?.(comment.timestamp_seconds!)}
+                className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-500/20 text-blue-400 text-xs font-mono rounded mb-2 hover:bg-blue-500/30 transition-colors"
+              >
+                <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M8 5v14l11-7z" />
+                </svg>
+                {formatTimestamp(comment.timestamp_seconds)}
+              </button>
+            )}
+
+            {/* Content, with resolved @mentions highlighted */}
+            <p className="text-slate-300 text-sm whitespace-pre-wrap break-words">
+              {splitMentions(comment.content, participants).map((part, i) => part.mention ? (
+                <span key={i} className="text-blue-400 font-medium">{part.text}</span>
+              ) : (
+                <span key={i}>{part.text}</span>
+              ))}
+            </p>
+
+            {/* Author and date */}
+            <p className="text-slate-500 text-xs mt-2">
+              {authorLabel(comment.user_id)} · {formatDate(comment.created_at)}
+            </p>
+          </div>
+
+          {/* Actions - only on your own comments */}
+          {!readOnly && comment.user_id === userId && (
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => startEdit(comment)}
+                className="p-1.5 text-slate-500 hover:text-blue-400 hover:bg-slate-700/50 rounded transition-colors"
+                title="Edit"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => openDeleteModal(comment)}
+                className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-slate-700/50 rounded transition-colors"
+                title="Delete"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+
   return (
     <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
       {/* Header */}
@@ -188,61 +344,72 @@ export default function CommentsManager({
           <h3 className="text-white font-medium">Notes & Comments</h3>
           <span className="text-slate-500 text-sm">({comments.length})</span>
         </div>
+        {resolvedCount > 0 && (
+          <button
+            onClick={() => setShowResolved(!showResolved)}
+            className="text-xs text-slate-400 hover:text-white transition-colors"
+          >
+            {showResolved ? 'Hide resolved' : `Show resolved (${resolvedCount})`}
+          </button>
+        )}
       </div>
 
       {/* Add Comment Form */}
-      <form onSubmit={handleSubmit} className="p-4 border-b border-slate-700/50">
-        <textarea
-          value={newComment}
-          onChange={(e) => setNewComment(e.target.value)}
-          placeholder="Add a note or comment..."
-          rows={2}
-          className="w-full px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-transparent resize-none text-sm"
-        />
-        <div className="flex items-center justify-between mt-2">
-          <label className="flex items-center gap-2 cursor-pointer group">
-            <input
-              type="checkbox"
-              checked={linkToTimestamp}
-              onChange={(e) => setLinkToTimestamp(e.target.checked)}
-              className="w-4 h-4 rounded border-slate-600 bg-slate-900/50 text-blue-500 focus:ring-blue-500/50"
-            />
-            <span className="text-slate-400 text-sm group-hover:text-slate-300 transition-colors">
-              Link to current position
-              {linkToTimestamp && (
-                <span className="ml-1 text-blue-400 font-mono">
-                  ({formatTimestamp(currentTime)})
-                </span>
+      {!readOnly && (
+        <form onSubmit={handleSubmit} className="p-4 border-b border-slate-700/50">
+          <MentionTextarea
+            value={newComment}
+            onChange={setNewComment}
+            participants={participants}
+            placeholder="Add a note or comment... Type @ to mention someone"
+            rows={2}
+            className="w-full px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-transparent resize-none text-sm"
+          />
+          <div className="flex items-center justify-between mt-2">
+            <label className="flex items-center gap-2 cursor-pointer group">
+              <input
+                type="checkbox"
+                checked={linkToTimestamp}
+                onChange={(e) => setLinkToTimestamp(e.target.checked)}
+                className="w-4 h-4 rounded border-slate-600 bg-slate-900/50 text-blue-500 focus:ring-blue-500/50"
+              />
+              <span className="text-slate-400 text-sm group-hover:text-slate-300 transition-colors">
+                Link to current position
+                {linkToTimestamp && (
+                  <span className="ml-1 text-blue-400 font-mono">
+                    ({formatTimestamp(currentTime)})
+                  </span>
+                )}
+              </span>
+            </label>
+            <button
+              type="submit"
+              disabled={!newComment.trim() || isSubmitting}
+              className="px-4 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+            >
+              {isSubmitting ? (
+                <>
+                  <svg className="animate-spin w-4 h-4" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                  </svg>
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                  Add
+                </>
               )}
-            </span>
-          </label>
-          <button
-            type="submit"
-            disabled={!newComment.trim() || isSubmitting}
-            className="px-4 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
-          >
-            {isSubmitting ? (
-              <>
-                <svg className="animate-spin w-4 h-4" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                </svg>
-                Saving...
-              </>
-            ) : (
-              <>
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                </svg>
-                Add
-              </>
-            )}
-          </button>
-        </div>
-      </form>
+            </button>
+          </div>
+        </form>
+      )}
 
-      {/* Comments List */}
-      <div className="max-h-[400px] overflow-y-auto">
+      {/* Threads */}
+      <div className="max-h-[500px] overflow-y-auto">
         {loading ? (
           <div className="p-8 text-center">
             <svg className="animate-spin w-6 h-6 text-blue-400 mx-auto" viewBox="0 0 24 24">
@@ -250,93 +417,71 @@ export default function CommentsManager({
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
             </svg>
           </div>
-        ) : comments.length === 0 ? (
+        ) : visibleThreads.length === 0 ? (
           <div className="p-8 text-center">
             <svg className="w-12 h-12 text-slate-600 mx-auto mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z" />
             </svg>
-            <p className="text-slate-500 text-sm">No comments yet</p>
+            <p className="text-slate-500 text-sm">{resolvedCount > 0 ? 'All threads are resolved' : 'No comments yet'}</p>
             <p className="text-slate-600 text-xs mt-1">Add notes to remember important points</p>
           </div>
         ) : (
           <div className="divide-y divide-slate-700/30">
-            {comments.map((comment) => (
-              <div key={comment.id} className="p-4 hover:bg-slate-700/20 transition-colors group">
-                {editingId === comment.id ? (
-                  <div className="space-y-2">
-                    <textarea
-                      value={editingContent}
-                      onChange={(e) => setEditingContent(e.target.value)}
-                      rows={3}
-                      autoFocus
-                      className="w-full px-3 py-2 bg-slate-900/50 border border-blue-500/50 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 resize-none text-sm"
-                    />
-                    <div className="flex gap-2 justify-end">
-                      <button
-                        onClick={() => setEditingId(null)}
-                        className="px-3 py-1 text-slate-400 hover:text-white text-sm transition-colors"
-                      >
-                        Cancel
-                      </button>
-                      <button
-                        onClick={() => handleUpdate(comment.id)}
-                        className="px-3 py-1 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors"
-                      >
-                        Save
-                      </button>
-                    </div>
-                  </div>
-                ) : (
-                  <>
-                    <div className="flex items-start justify-between gap-3">
-                      <div className="flex-1 min-w-0">
-                        {/* Timestamp badge */}
-                        {comment.timestamp_seconds !== null && (
-                          <button
-                            onClick={() => onSeek?.(comment.timestamp_seconds!)}
-                            className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-500/20 text-blue-400 text-xs font-mono rounded mb-2 hover:bg-blue-500/30 transition-colors"
-                          >
-                            <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
-                              <path d="M8 5v14l11-7z" />
-                            </svg>
-                            {formatTimestamp(comment.timestamp_seconds)}
-                          </button>
-                        )}
-                        
-                        {/* Content */}
-                        <p className="text-slate-300 text-sm whitespace-pre-wrap break-words">
-                          {comment.content}
-                        </p>
-                        
-                        {/* Date */}
-                        <p className="text-slate-500 text-xs mt-2">
-                          {formatDate(comment.created_at)}
-                        </p>
-                      </div>
-                      
-                      {/* Actions */}
-                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            {visibleThreads.map(({ root, replies }) => (
+              <div key={root.id} className={`p-4 hover:bg-slate-700/20 transition-colors ${root.resolved_at ? 'opacity-60' : ''}`}>
+                {root.resolved_at && (
+                  <p className="text-xs text-emerald-400 mb-2">✓ Resolved by {authorLabel(root.resolved_by)}</p>
+                )}
+                {renderComment(root, false)}
+                {replies.map(reply => renderComment(reply, true))}
+
+                {/* Thread actions */}
+                {!readOnly && (
+                  replyingTo === root.id ? (
+                    <div className="mt-3 pl-4 space-y-2">
+                      <MentionTextarea
+                        value={replyContent}
+                        onChange={setReplyContent}
+                        participants={participants}
+                        placeholder="Reply..."
+                        rows={2}
+                        autoFocus
+                        className="w-full px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-transparent resize-none text-sm"
+                      />
+                      <div className="flex gap-2 justify-end">
                         <button
-                          onClick={() => startEdit(comment)}
-                          className="p-1.5 text-slate-500 hover:text-blue-400 hover:bg-slate-700/50 rounded transition-colors"
-                          title="Edit"
+                          onClick={() => { setReplyingTo(null); setReplyContent('') }}
+                          className="px-3 py-1 text-slate-400 hover:text-white text-sm transition-colors"
                         >
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
-                          </svg>
+                          Cancel
                         </button>
                         <button
-                          onClick={() => openDeleteModal(comment)}
-                          className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-slate-700/50 rounded transition-colors"
-                          title="Delete"
+                          onClick={() => handleReply(root.id)}
+                          disabled={!replyContent.trim() || isSubmitting}
+                          className="px-3 py-1 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white text-sm rounded-lg transition-colors"
                         >
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
+                          Reply
                         </button>
                       </div>
                     </div>
-                  </>
+                  ) : (
+                    <div className="flex items-center gap-3 mt-2">
+                      {!root.resolved_at && (
+                        <button
+                          onClick={() => { setReplyingTo(root.id); setReplyContent('') }}
+                          className="text-xs text-slate-400 hover:text-blue-400 transition-colors"
+                        >
+                          Reply
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleResolve(root, !root.resolved_at)}
+                        className="text-xs text-slate-400 hover:text-emerald-400 transition-colors"
+                      >
+                        {root.resolved_at ? 'Reopen' : 'Resolve'}
+                      </button>
+                    </div>
+                  )
                 )}
               </div>
             ))}
@@ -359,3 +504,74 @@ export default function CommentsManager({
   )
 }
 
+// ===========================================
+// Textarea with @mention suggestions
+// ===========================================
+
+interface MentionTextareaProps {
+  value: string
+  onChange: (value: string) => void
+  participants: RecordingParticipant[]
+  placeholder?: string
+  rows: number
+  autoFocus?: boolean
+  className: string
+}
+
+function MentionTextarea({ value, onChange, participants, placeholder, rows, autoFocus, className }: MentionTextareaProps) {
+  const [query, setQuery] = useState<string | null>(null)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  const suggestions = query === null ? [] : participants
+    .filter(p => p.email.toLowerCase().startsWith(query.toLowerCase()))
+    .slice(0, 5)
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value)
+    setQuery(activeMentionQuery(e.target.value.slice(0, e.target.selectionStart)))
+  }
+
+  const insertMention = (participant: RecordingParticipant) => {
+    const caret = textareaRef.current?.selectionStart ?? value.length
+    const before = value.slice(0, caret).replace(/@[\w.+@-]*$/, `@${mentionHandle(participant, participants)} `)
+    onChange(before + value.slice(caret))
+    setQuery(null)
+    textareaRef.current?.focus()
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={handleChange}
+        onBlur={() => setTimeout(() => setQuery(null), 150)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setQuery(null)
+        }}
+        placeholder={placeholder}
+        rows={rows}
+        autoFocus={autoFocus}
+        className={className}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute z-10 left-0 right-0 mt-1 bg-slate-800 border border-slate-700 rounded-lg shadow-lg overflow-hidden">
+          {suggestions.map(participant => (
+            <button
+              key={participant.user_id}
+              type="button"
+              onMouseDown={(e) => {
+                e.preventDefault()
+                insertMention(participant)
+              }}
+              className="w-full px-3 py-2 text-left text-sm text-slate-300 hover:bg-slate-700 hover:text-white"
+            >
+              @{mentionHandle(participant, participants)}
+              <span className="ml-2 text-xs text-slate-500">{participant.email}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -17,6 +17,7 @@ interface CustomAudioPlayerProps {
   onTimeUpdate?: (time: number) => void
   playbackSpeed?: number
   onPlaybackSpeedChange?: (speed: number) => void
+  seekRequest?: { seconds: number; id: number } | null  // New id = jump there and play
 }
 
 // Parse time string "HH:MM:SS" or "MM:SS" to seconds
@@ -48,7 +49,8 @@ export default function CustomAudioPlayer({
   timeline = [],
   onTimeUpdate,
   playbackSpeed = 1,
-  onPlaybackSpeedChange
+  onPlaybackSpeedChange,
+  seekRequest
 }: CustomAudioPlayerProps) {
   const audioRef = useRef<HTMLAudioElement>(null)
   const progressRef = useRef<HTMLDivElement>(null)
@@ -150,6 +152,13 @@ export default function CustomAudioPlayer({
     }
   }, [playbackSpeed])
 
+  // External seek (transcript lines, evidence quotes)
+  useEffect(() => {
+    if (!seekRequest || !audioRef.current) return
+    audioRef.current.currentTime = Math.max(0, Math.min(duration, seekRequest.seconds))
+    audioRef.current.play()
+  }, [seekRequest, duration])
+
   // Generate waveform data from audio - LAZY LOADED on hover
   useEffect(() => {
     // Only load waveform when explicitly requested (on hover) and not already loaded
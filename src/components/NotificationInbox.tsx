@@ -0,0 +1,138 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/client'
+import { Notification, NotificationType } from '@/types/database'
+
+interface NotificationInboxProps {
+  userId: string
+}
+
+const NOTIFICATION_VERBS: Record<NotificationType, string> = {
+  mention: 'mentioned you on',
+  reply: 'replied on',
+  comment: 'commented on',
+}
+
+const INBOX_LIMIT = 30
+
+// Header bell with the comment notifications written by the comments trigger
+// (supabase/migrations/015_comment_threads.sql). Each entry links to the comment on its recording.
+export default function NotificationInbox({ userId }: NotificationInboxProps) {
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const supabase = createClient()
+
+  const unreadCount = notifications.filter(n => !n.read_at).length
+
+  const loadNotifications = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(INBOX_LIMIT)
+
+      if (error) throw error
+      setNotifications(data || [])
+    } catch (err) {
+      console.error('Error loading notifications:', err)
+    }
+  }
+
+  useEffect(() => {
+    loadNotifications()
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId])
+
+  const toggleOpen = () => {
+    if (!isOpen) loadNotifications()
+    setIsOpen(!isOpen)
+  }
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return
+    const readAt = new Date().toISOString()
+    setNotifications(prev => prev.map(n => ids.includes(n.id) && !n.read_at ? { ...n, read_at: readAt } : n))
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .in('id', ids)
+      .is('read_at', null)
+
+    if (error) console.error('Error marking notifications read:', error)
+  }
+
+  const markAllRead = () => markRead(notifications.filter(n => !n.read_at).map(n => n.id))
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggleOpen}
+        className="relative p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+        title="Notifications"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 bg-amber-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-80 z-50 bg-slate-800 border border-slate-700 rounded-xl shadow-xl overflow-hidden">
+            <div className="px-4 py-3 border-b border-slate-700 flex items-center justify-between">
+              <h3 className="text-sm font-medium text-white">Notifications</h3>
+              {unreadCount > 0 && (
+                <button onClick={markAllRead} className="text-xs text-amber-400 hover:text-amber-300">
+                  Mark all read
+                </button>
+              )}
+            </div>
+
+            {notifications.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-slate-500">No notifications yet</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto divide-y divide-slate-700/50">
+                {notifications.map(notification => (
+                  <Link
+                    key={notification.id}
+                    href={`/dashboard/recordings/${notification.recording_id}#comment-${notification.comment_id}`}
+                    onClick={() => {
+                      markRead([notification.id])
+                      setIsOpen(false)
+                    }}
+                    className={`block px-4 py-3 hover:bg-slate-700/50 transition-colors ${notification.read_at ? '' : 'bg-amber-500/5'}`}
+                  >
+                    <div className="flex items-start gap-2">
+                      {!notification.read_at && <span className="mt-1.5 w-2 h-2 rounded-full bg-amber-400 flex-shrink-0" />}
+                      <div className="min-w-0">
+                        <p className="text-sm text-slate-300">
+                          <span className="text-white font-medium">{notification.actor_email}</span>{' '}
+                          {NOTIFICATION_VERBS[notification.type]}{' '}
+                          <span className="text-white">{notification.recording_name}</span>
+                        </p>
+                        <p className="text-xs text-slate-500 mt-1 line-clamp-2">{notification.excerpt}</p>
+                        <p className="text-xs text-slate-600 mt-1">
+                          {new Date(notification.created_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                        </p>
+                      </div>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
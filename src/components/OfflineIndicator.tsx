@@ -1,7 +1,8 @@
 'use client'
 
+import Link from 'next/link'
 import { useOfflineStatus } from '@/hooks/useOfflineStatus'
-import { formatFileSize } from '@/lib/offlineStorage'
+import { formatFileSize, isStorageLow } from '@/lib/offlineStorage'
 
 interface Props {
   userId: string | undefined
@@ -11,13 +12,16 @@ export function OfflineIndicator({ userId }: Props) {
   const { 
     isOnline, 
     pendingCount, 
+    needsAttentionCount,
     pendingRecordings, 
+    storage,
     syncStatus, 
     syncNow 
   } = useOfflineStatus(userId)
+  const storageLow = storage ? isStorageLow(storage) : false
   
   // Don't show anything if online and no pending
-  if (isOnline && pendingCount === 0 && !syncStatus?.isSyncing) {
+  if (isOnline && pendingCount === 0 && !syncStatus?.isSyncing && !storageLow) {
     return null
   }
   
@@ -39,6 +43,17 @@ export function OfflineIndicator({ userId }: Props) {
         </div>
       )}
       
+      {/* Low Storage */}
+      {storage && storageLow && (
+        <div className="bg-red-500/90 text-white px-4 py-3 rounded-xl shadow-lg mb-2 backdrop-blur-sm">
+          <p className="font-semibold">Device storage almost full</p>
+          <p className="text-sm opacity-80">
+            {formatFileSize(Math.max(storage.quota - storage.usage, 0))} left for offline recordings.{' '}
+            <Link href="/dashboard/offline" className="underline">Manage queue</Link>
+          </p>
+        </div>
+      )}
+      
       {/* Syncing Progress */}
       {syncStatus?.isSyncing && (
         <div className="bg-blue-500/90 text-white px-4 py-3 rounded-xl shadow-lg mb-2 backdrop-blur-sm">
@@ -78,7 +93,13 @@ export function OfflineIndicator({ userId }: Props) {
                 <p className="font-semibold">{pendingCount} pending upload{pendingCount > 1 ? 's' : ''}</p>
                 <p className="text-sm text-gray-400">
                   {formatFileSize(pendingRecordings.reduce((sum, r) => sum + r.fileSize, 0))} total
+                  {needsAttentionCount > 0 && (
+                    <span className="text-red-400"> · {needsAttentionCount} need{needsAttentionCount === 1 ? 's' : ''} attention</span>
+                  )}
                 </p>
+                <Link href="/dashboard/offline" className="text-xs text-amber-400 hover:text-amber-300">
+                  Manage queue →
+                </Link>
               </div>
             </div>
             <button
@@ -99,7 +120,7 @@ export function OfflineIndicator({ userId }: Props) {
                     recording.status === 'uploading' ? 'bg-blue-400 animate-pulse' :
                     'bg-red-400'
                   }`} />
-                  <span className="truncate flex-1 text-gray-300">{recording.fileName}</span>
+                  <span className="truncate flex-1 text-gray-300">{recording.displayName || recording.fileName}</span>
                   <span className="text-gray-500">{formatFileSize(recording.fileSize)}</span>
                 </div>
               ))}
@@ -0,0 +1,313 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useToast } from '@/components/ui/Toast'
+import { buildInviteUrl, OrganizationSummary } from '@/lib/organizations'
+import { InviteRole } from '@/types/database'
+
+interface OrganizationManagerProps {
+  isAdmin: boolean
+}
+
+export default function OrganizationManager({ isAdmin }: OrganizationManagerProps) {
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [newOrgName, setNewOrgName] = useState('')
+  const toast = useToast()
+
+  const loadOrganizations = async () => {
+    try {
+      const response = await fetch('/api/organizations')
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.message || 'Failed to load organizations')
+      setOrganizations(result.organizations || [])
+    } catch (err) {
+      console.error('Error loading organizations:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to load organizations')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadOrganizations()
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // All mutations go through the same endpoint; reload afterwards so RLS decides what we see
+  const runAction = async (body: Record<string, unknown>, successMessage?: string) => {
+    try {
+      const response = await fetch('/api/organizations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.message || 'Request failed')
+      if (successMessage) toast.success(successMessage)
+      await loadOrganizations()
+      return result
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Request failed')
+      return null
+    }
+  }
+
+  const handleCreateOrganization = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newOrgName.trim()) return
+    const result = await runAction({ action: 'create_organization', name: newOrgName }, `Organization "${newOrgName.trim()}" created`)
+    if (result) setNewOrgName('')
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-2 border-amber-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {isAdmin && (
+        <form onSubmit={handleCreateOrganization} className="flex gap-2">
+          <input
+            type="text"
+            value={newOrgName}
+            onChange={(e) => setNewOrgName(e.target.value)}
+            placeholder="New organization name"
+            className="flex-1 px-4 py-2 bg-slate-900/50 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+          />
+          <button
+            type="submit"
+            disabled={!newOrgName.trim()}
+            className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white font-medium rounded-lg disabled:opacity-50"
+          >
+            Create organization
+          </button>
+        </form>
+      )}
+
+      {organizations.length === 0 ? (
+        <div className="text-center py-12 text-slate-400">
+          {isAdmin ? 'No organizations yet.' : 'You are not managing an organization yet.'}
+        </div>
+      ) : (
+        organizations.map(org => (
+          <OrganizationCard
+            key={org.id}
+            organization={org}
+            isAdmin={isAdmin}
+            onAction={(body, message) => runAction({ ...body, organizationId: org.id }, message)}
+          />
+        ))
+      )}
+    </div>
+  )
+}
+
+// ===========================================
+// Organization Card
+// ===========================================
+
+interface OrganizationCardProps {
+  organization: OrganizationSummary
+  isAdmin: boolean
+  onAction: (body: Record<string, unknown>, successMessage?: string) => Promise<unknown>
+}
+
+function OrganizationCard({ organization, isAdmin, onAction }: OrganizationCardProps) {
+  const [teamName, setTeamName] = useState('')
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<InviteRole>('user')
+  const [inviteTeamId, setInviteTeamId] = useState('')
+  const toast = useToast()
+
+  const teamNameById = new Map(organization.teams.map(t => [t.id, t.name]))
+
+  const handleCreateTeam = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!teamName.trim()) return
+    const result = await onAction({ action: 'create_team', name: teamName }, `Team "${teamName.trim()}" created`)
+    if (result) setTeamName('')
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!inviteEmail.trim()) return
+    const result = await onAction(
+      { action: 'invite', email: inviteEmail, role: inviteRole, teamId: inviteTeamId || null },
+      `Invite created for ${inviteEmail.trim()}`
+    )
+    if (result) setInviteEmail('')
+  }
+
+  const copyInviteLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(buildInviteUrl(window.location.origin, token))
+      toast.success('Invite link copied')
+    } catch {
+      toast.error('Could not copy the invite link')
+    }
+  }
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-white">{organization.name}</h3>
+        <p className="text-sm text-slate-400">
+          {organization.members.length} member{organization.members.length === 1 ? '' : 's'} · {organization.teams.length} team{organization.teams.length === 1 ? '' : 's'}
+        </p>
+      </div>
+
+      {/* Teams */}
+      <div>
+        <h4 className="text-sm font-medium text-slate-300 mb-2">Teams</h4>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {organization.teams.length === 0 ? (
+            <span className="text-sm text-slate-500">No teams yet</span>
+          ) : (
+            organization.teams.map(team => (
+              <span key={team.id} className="px-3 py-1 bg-slate-700/50 text-slate-200 text-sm rounded-full">
+                {team.name}
+              </span>
+            ))
+          )}
+        </div>
+        <form onSubmit={handleCreateTeam} className="flex gap-2">
+          <input
+            type="text"
+            value={teamName}
+            onChange={(e) => setTeamName(e.target.value)}
+            placeholder="New team name"
+            className="flex-1 px-3 py-1.5 bg-slate-900/50 border border-slate-600 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+          />
+          <button
+            type="submit"
+            disabled={!teamName.trim()}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-lg disabled:opacity-50"
+          >
+            Add team
+          </button>
+        </form>
+      </div>
+
+      {/* Members */}
+      <div>
+        <h4 className="text-sm font-medium text-slate-300 mb-2">Members</h4>
+        {organization.members.length === 0 ? (
+          <p className="text-sm text-slate-500">No members yet. Invite someone below.</p>
+        ) : (
+          <div className="divide-y divide-slate-700/50">
+            {organization.members.map(member => (
+              <div key={member.user_id} className="flex items-center gap-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">{member.email || member.user_id}</p>
+                  <p className="text-xs text-slate-500 capitalize">{member.role}</p>
+                </div>
+                <select
+                  value={member.team_id || ''}
+                  onChange={(e) => onAction({ action: 'set_team', userId: member.user_id, teamId: e.target.value || null }, 'Team updated')}
+                  className="px-2 py-1 bg-slate-900/50 border border-slate-600 rounded-lg text-sm text-white"
+                >
+                  <option value="">No team</option>
+                  {organization.teams.map(team => (
+                    <option key={team.id} value={team.id}>{team.name}</option>
+                  ))}
+                </select>
+                <Link
+                  href={`/dashboard/progress?user=${member.user_id}`}
+                  className="text-xs text-amber-400 hover:text-amber-300"
+                >
+                  Progress
+                </Link>
+                <button
+                  onClick={() => {
+                    if (confirm(`Remove ${member.email || 'this member'} from ${organization.name}?`)) {
+                      onAction({ action: 'remove_member', userId: member.user_id }, 'Member removed')
+                    }
+                  }}
+                  className="text-xs text-slate-400 hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Invites */}
+      <div>
+        <h4 className="text-sm font-medium text-slate-300 mb-2">Invite</h4>
+        <form onSubmit={handleInvite} className="flex flex-wrap gap-2 mb-3">
+          <input
+            type="email"
+            value={inviteEmail}
+            onChange={(e) => setInviteEmail(e.target.value)}
+            placeholder="rep@company.com"
+            className="flex-1 min-w-[200px] px-3 py-1.5 bg-slate-900/50 border border-slate-600 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+          />
+          {isAdmin && (
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as InviteRole)}
+              className="px-2 py-1.5 bg-slate-900/50 border border-slate-600 rounded-lg text-sm text-white"
+            >
+              <option value="user">Rep</option>
+              <option value="manager">Manager</option>
+            </select>
+          )}
+          <select
+            value={inviteTeamId}
+            onChange={(e) => setInviteTeamId(e.target.value)}
+            className="px-2 py-1.5 bg-slate-900/50 border border-slate-600 rounded-lg text-sm text-white"
+          >
+            <option value="">No team</option>
+            {organization.teams.map(team => (
+              <option key={team.id} value={team.id}>{team.name}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!inviteEmail.trim()}
+            className="px-3 py-1.5 bg-amber-500 hover:bg-amber-600 text-white text-sm font-medium rounded-lg disabled:opacity-50"
+          >
+            Send invite
+          </button>
+        </form>
+
+        {organization.invites.length > 0 && (
+          <div className="divide-y divide-slate-700/50">
+            {organization.invites.map(invite => (
+              <div key={invite.id} className="flex items-center gap-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">{invite.email}</p>
+                  <p className="text-xs text-slate-500">
+                    {invite.role === 'manager' ? 'Manager' : 'Rep'}
+                    {invite.team_id && teamNameById.get(invite.team_id) ? ` · ${teamNameById.get(invite.team_id)}` : ''}
+                    {` · expires ${new Date(invite.expires_at).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => copyInviteLink(invite.token)}
+                  className="text-xs text-amber-400 hover:text-amber-300"
+                >
+                  Copy link
+                </button>
+                <button
+                  onClick={() => onAction({ action: 'revoke_invite', inviteId: invite.id }, 'Invite revoked')}
+                  className="text-xs text-slate-400 hover:text-red-400"
+                >
+                  Revoke
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { Tag } from '@/types/database'
+import { useToast } from '@/components/ui/Toast'
+import TagManager, { TagDisplay } from '@/components/TagManager'
+
+interface RecordingTagsProps {
+  recordingId: string
+  userId: string
+  readOnly?: boolean // Shared without edit access - show tags only
+}
+
+// Tags on one recording. Tags belong to whoever created them, so you pick from your own tags
+// and see everyone else's (the owner's, or a collaborator's) read-only next to them.
+export default function RecordingTags({ recordingId, userId, readOnly = false }: RecordingTagsProps) {
+  const [tags, setTags] = useState<Tag[]>([])
+  const [loading, setLoading] = useState(true)
+  const toast = useToast()
+  const supabase = createClient()
+
+  const loadTags = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('recording_tags')
+        .select('tags(*)')
+        .eq('recording_id', recordingId)
+        .overrideTypes<{ tags: Tag | null }[], { merge: false }>()
+
+      if (error) throw error
+      setTags((data || []).flatMap(rt => rt.tags ? [rt.tags] : []))
+    } catch (err) {
+      console.error('Error loading recording tags:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTags()
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [recordingId])
+
+  const ownTagIds = tags.filter(t => t.user_id === userId).map(t => t.id)
+  const otherTags = readOnly ? tags : tags.filter(t => t.user_id !== userId)
+
+  const handleTagsChange = async (tagIds: string[]) => {
+    const added = tagIds.filter(id => !ownTagIds.includes(id))
+    const removed = ownTagIds.filter(id => !tagIds.includes(id))
+
+    try {
+      if (added.length > 0) {
+        const { error } = await supabase
+          .from('recording_tags')
+          .insert(added.map(tagId => ({ recording_id: recordingId, tag_id: tagId })))
+        if (error) throw error
+      }
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from('recording_tags')
+          .delete()
+          .eq('recording_id', recordingId)
+          .in('tag_id', removed)
+        if (error) throw error
+      }
+      await loadTags()
+    } catch (err) {
+      console.error('Error updating recording tags:', err)
+      toast.error('Failed to update tags')
+    }
+  }
+
+  if (loading) return null
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-slate-300">Tags</h3>
+      <TagDisplay tags={otherTags} />
+      {!readOnly && (
+        <TagManager
+          userId={userId}
+          recordingId={recordingId}
+          selectedTags={ownTagIds}
+          onTagsChange={handleTagsChange}
+          compact
+        />
+      )}
+      {readOnly && tags.length === 0 && (
+        <p className="text-sm text-slate-500">No tags yet.</p>
+      )}
+    </div>
+  )
+}
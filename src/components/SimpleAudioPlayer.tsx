@@ -8,6 +8,7 @@ interface SimpleAudioPlayerProps {
   onTimeUpdate?: (time: number) => void
   playbackSpeed?: number
   onPlaybackSpeedChange?: (speed: number) => void
+  seekRequest?: { seconds: number; id: number } | null  // New id = jump there and play
 }
 
 function formatTime(seconds: number): string {
@@ -26,7 +27,8 @@ export default function SimpleAudioPlayer({
   duration,
   onTimeUpdate,
   playbackSpeed = 1,
-  onPlaybackSpeedChange
+  onPlaybackSpeedChange,
+  seekRequest
 }: SimpleAudioPlayerProps) {
   const audioRef = useRef<HTMLAudioElement>(null)
   const [isPlaying, setIsPlaying] = useState(false)
@@ -41,6 +43,13 @@ export default function SimpleAudioPlayer({
     }
   }, [playbackSpeed])
 
+  // External seek (transcript lines, evidence quotes)
+  useEffect(() => {
+    if (!seekRequest || !audioRef.current) return
+    audioRef.current.currentTime = Math.max(0, Math.min(duration, seekRequest.seconds))
+    audioRef.current.play()
+  }, [seekRequest, duration])
+
   // Time update handler
   useEffect(() => {
     const audio = audioRef.current
@@ -51,13 +60,16 @@ export default function SimpleAudioPlayer({
       onTimeUpdate?.(audio.currentTime)
     }
 
+    const handlePlay = () => setIsPlaying(true)
     const handleEnded = () => setIsPlaying(false)
 
     audio.addEventListener('timeupdate', handleTimeUpdate)
+    audio.addEventListener('play', handlePlay)
     audio.addEventListener('ended', handleEnded)
 
     return () => {
       audio.removeEventListener('timeupdate', handleTimeUpdate)
+      audio.removeEventListener('play', handlePlay)
       audio.removeEventListener('ended', handleEnded)
     }
   }, [onTimeUpdate])
@@ -4,7 +4,9 @@ import { useEffect, useState, useMemo, useCallback, useRef } from 'react'
 import Uppy from '@uppy/core'
 import Tus from '@uppy/tus'
 import { createClient } from '@/lib/supabase/client'
-import { Recording, RecordingInsert } from '@/types/database'
+import { Recording } from '@/types/database'
+import { createRecordingForUpload, releaseFFmpeg } from '@/lib/recordingUpload'
+import { AUDIO_BUCKET, buildRecordingPaths } from '@/lib/recordingPaths'
 
 interface Props {
   onUploadComplete?: (recording: Recording) => void
@@ -38,6 +40,11 @@ export default function UppyAudioUploader({ onUploadComplete, onUploadError }: P
     }
   }, [])
 
+  // Free the shared FFmpeg instance on unmount
+  useEffect(() => {
+    return () => releaseFFmpeg()
+  }, [])
+
   // Keep token ref updated
   useEffect(() => {
     tokenRef.current = accessToken
@@ -125,13 +132,12 @@ export default function UppyAudioUploader({ onUploadComplete, onUploadError }: P
     })
 
     uppy.on('file-added', (file) => {
-      const timestamp = Date.now()
-      const sanitizedName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_')
-      const objectName = `${userId}/${timestamp}-${sanitizedName}`
+      const { filePath, analysisFilePath } = buildRecordingPaths(userId, file.name || 'recording')
 
       uppy.setFileMeta(file.id, {
-        bucketName: 'audio-files',
-        objectName: objectName,
+        bucketName: AUDIO_BUCKET,
+        objectName: filePath,
+        analysisObjectName: analysisFilePath, // Not sent to storage - see allowedMetaFields
         contentType: file.type || 'audio/mpeg',
         cacheControl: '3600',
       })
@@ -166,26 +172,16 @@ export default function UppyAudioUploader({ onUploadComplete, onUploadError }: P
       ))
 
       try {
-        const recordingInsert: RecordingInsert = {
-          user_id: userId,
-          file_path: file.meta.objectName as string,
-          file_name: file.name,
-          file_size: file.size || 0,
-          status: 'done',
-        }
-
-        const { data: newRecording, error } = await supabase
-          .from('recordings')
-          .insert(recordingInsert)
-          .select()
-          .single()
-
-        if (error) {
-          console.error('DB error:', error)
-          onUploadError?.(new Error(`Failed to save recording: ${error.message}`))
-        } else if (newRecording) {
-          onUploadComplete?.(newRecording)
-        }
+        // Same analysis copy and recordings row as the other upload paths
+        const newRecording = await createRecordingForUpload({
+          userId,
+          file: file.data as Blob, // Always a local File here - files are added from the picker or a drop
+          fileName: file.name || 'recording',
+          mimeType: file.type,
+          filePath: file.meta.objectName as string,
+          analysisFilePath: file.meta.analysisObjectName as string,
+        })
+        onUploadComplete?.(newRecording)
       } catch (err) {
         console.error('Save error:', err)
         onUploadError?.(err instanceof Error ? err : new Error('Failed to save recording'))
@@ -1,10 +1,16 @@
 'use client'
 
 import { useState, useMemo, useRef, useEffect } from 'react'
-import { TranscriptEntry, W4Report, W4Phase } from '@/types/database'
+import { RecordingSpeaker, TranscriptEntry, TranscriptSegment, TranscriptSpeakerRole, W4Report, W4Phase } from '@/types/database'
+import { inferSpeakerRoles, parseTranscript } from '@/lib/transcript/parser'
+import { formatTime, parseTimestamp } from '@/lib/pipeline/helpers'
+import { SpeakerEdit } from '@/lib/transcript/speakers'
 
 interface Props {
   transcript: string | TranscriptEntry[] | null
+  segments?: TranscriptSegment[] | null
+  speakers?: Pick<RecordingSpeaker, 'speaker_key' | 'name' | 'role'>[]
+  onEditSpeaker?: (edit: SpeakerEdit) => Promise<void>
   w4Report?: W4Report | null
   currentTime?: number
   onTimestampClick?: (timestamp: string) => void
@@ -14,15 +20,55 @@ interface Props {
   isLoading?: boolean
 }
 
-function parseTimestamp(ts: string): number {
-  if (!ts) return 0
-  const parts = ts.split(':').map(Number)
-  if (parts.length === 3) {
-    return parts[0] * 3600 + parts[1] * 60 + parts[2]
-  } else if (parts.length === 2) {
-    return parts[0] * 60 + parts[1]
+interface DisplayEntry {
+  speaker: string
+  role: TranscriptSpeakerRole
+  timestamp: string
+  seconds: number
+  text: string
+}
+
+// Split long turns so one monologue doesn't become a wall of text (max ~200 words per entry)
+const MAX_WORDS = 200
+
+function buildEntries(
+  segments: TranscriptSegment[],
+  speakers: Pick<RecordingSpeaker, 'speaker_key' | 'name' | 'role'>[] = []
+): DisplayEntry[] {
+  const speakerByKey = new Map(speakers.map(s => [s.speaker_key, s]))
+  const result: DisplayEntry[] = []
+
+  for (const segment of segments) {
+    const speaker = speakerByKey.get(segment.speaker_key)
+    const words = segment.text.split(/\s+/)
+    const secondsPerWord = (segment.end_seconds - segment.start_seconds) / words.length
+    for (let i = 0; i < words.length; i += MAX_WORDS) {
+      const seconds = Math.floor(segment.start_seconds + i * secondsPerWord)
+      result.push({
+        speaker: speaker?.name || segment.speaker_key,
+        role: speaker?.role || 'other',
+        timestamp: formatTime(seconds),
+        seconds,
+        text: words.slice(i, i + MAX_WORDS).join(' '),
+      })
+    }
   }
-  return 0
+  return result
+}
+
+function fromLegacyEntries(legacy: TranscriptEntry[]): DisplayEntry[] {
+  const names = [...new Set(legacy.map(e => e.speaker))]
+  const roles = inferSpeakerRoles(names)
+  return legacy.map(entry => {
+    const seconds = parseTimestamp(entry.timestamp) ?? 0
+    return {
+      speaker: entry.speaker,
+      role: roles[names.indexOf(entry.speaker)],
+      timestamp: entry.timestamp,
+      seconds,
+      text: entry.text,
+    }
+  })
 }
 
 // Get initials from speaker name
@@ -31,17 +77,22 @@ function getInitials(name: string): string {
 }
 
 // Get color for speaker
-function getSpeakerStyles(speaker: string): { bg: string; text: string; avatar: string } {
-  const isCustomer = speaker.toLowerCase().includes('customer') || 
-                     speaker.toLowerCase().includes('client') ||
-                     speaker.toLowerCase().includes('homeowner')
-  
-  if (isCustomer) {
+function getSpeakerStyles(role: TranscriptSpeakerRole): { bg: string; text: string; avatar: string } {
+  if (role === 'homeowner') {
     return { bg: 'bg-blue-500/10', text: 'text-blue-400', avatar: 'bg-blue-500' }
   }
+  if (role === 'other') {
+    return { bg: 'bg-gray-500/10', text: 'text-gray-400', avatar: 'bg-gray-500' }
+  }
   return { bg: 'bg-amber-500/10', text: 'text-amber-400', avatar: 'bg-amber-500' }
 }
 
+const ROLE_LABELS: Record<TranscriptSpeakerRole, string> = {
+  rep: 'Rep',
+  homeowner: 'Homeowner',
+  other: 'Other',
+}
+
 const ITEMS_PER_PAGE = 50
 
 // Extract key insights from W4 checkpoints (best performing ones)
@@ -83,6 +134,9 @@ function extractKeyInsights(w4Report: W4Report | null | undefined): Array<{phase
 
 export default function TranscriptPanel({ 
   transcript, 
+  segments,
+  speakers,
+  onEditSpeaker,
   w4Report,
   currentTime = 0, 
   onTimestampClick,
@@ -94,123 +148,36 @@ export default function TranscriptPanel({
   const [searchQuery, setSearchQuery] = useState('')
   const [displayCount, setDisplayCount] = useState(ITEMS_PER_PAGE)
   const [showFullTranscript] = useState(false)
+  const [editingSpeaker, setEditingSpeaker] = useState<string | null>(null)
+  const [speakerName, setSpeakerName] = useState('')
+  const [savingSpeaker, setSavingSpeaker] = useState(false)
   const activeEntryRef = useRef<HTMLDivElement>(null)
   const scrollContainerRef = useRef<HTMLDivElement>(null)
 
   // Extract key insights from W4 report
   const keyInsights = useMemo(() => extractKeyInsights(w4Report), [w4Report])
 
-  // Parse transcript - supports both plain text and JSON formats
-  const entries: TranscriptEntry[] = useMemo(() => {
+  // Structured segments when the transcription job saved them, otherwise parse the text
+  const entries: DisplayEntry[] = useMemo(() => {
+    if (segments && segments.length > 0) return buildEntries(segments, speakers)
     if (!transcript) return []
-    if (Array.isArray(transcript)) return transcript
+    if (Array.isArray(transcript)) return fromLegacyEntries(transcript)
     
     // Try JSON first (legacy format)
     try {
       const parsed = JSON.parse(transcript)
-      if (Array.isArray(parsed)) return parsed
+      if (Array.isArray(parsed)) return fromLegacyEntries(parsed)
     } catch {
       // Not JSON, continue to plain text parsing
     }
     
-    // Parse plain text format - multiple format support
-    const rawEntries: TranscriptEntry[] = []
-    const lines = transcript.split('\n')
-    let currentEntry: { speaker: string; timestamp: string; text: string[] } | null = null
-    
-    for (const line of lines) {
-      // Format 1: "0:00 - Speaker Name" or "00:00:00 - Speaker Name"
-      const format1 = line.match(/^(\d{1,2}:\d{2}(?::\d{2})?)\s*[-–—:]\s*(.+)$/)
-      // Format 2: "[0:00] Speaker Name:" or "(00:00) Speaker:"
-      const format2 = line.match(/^[\[(]?(\d{1,2}:\d{2}(?::\d{2})?)[\])]?\s*([^:]+):?\s*$/)
-      // Format 3: "Speaker Name (0:00):" or "Speaker [00:00]"
-      const format3 = line.match(/^([^(\[]+)\s*[\[(](\d{1,2}:\d{2}(?::\d{2})?)[\])]:?\s*$/)
-      // Format 4: "**0:00** - Speaker" (markdown bold timestamps)
-      const format4 = line.match(/^\*?\*?(\d{1,2}:\d{2}(?::\d{2})?)\*?\*?\s*[-–—:]\s*(.+)$/)
-      
-      const match = format1 || format4
-      const matchAlt = format2 || format3
-      
-      if (match) {
-        if (currentEntry && currentEntry.text.length > 0) {
-          rawEntries.push({
-            speaker: currentEntry.speaker,
-            timestamp: currentEntry.timestamp,
-            text: currentEntry.text.join(' ').trim()
-          })
-        }
-        currentEntry = {
-          timestamp: match[1],
-          speaker: match[2].trim().replace(/:$/, ''),
-          text: []
-        }
-      } else if (matchAlt) {
-        if (currentEntry && currentEntry.text.length > 0) {
-          rawEntries.push({
-            speaker: currentEntry.speaker,
-            timestamp: currentEntry.timestamp,
-            text: currentEntry.text.join(' ').trim()
-          })
-        }
-        const ts = format2 ? matchAlt[1] : matchAlt[2]
-        const spk = format2 ? matchAlt[2] : matchAlt[1]
-        currentEntry = {
-          timestamp: ts,
-          speaker: spk.trim().replace(/:$/, ''),
-          text: []
-        }
-      } else if (currentEntry && line.trim()) {
-        // Add non-empty lines as text content
-        currentEntry.text.push(line.trim())
-      }
-    }
-    
-    // Don't forget the last entry
-    if (currentEntry && currentEntry.text.length > 0) {
-      rawEntries.push({
-        speaker: currentEntry.speaker,
-        timestamp: currentEntry.timestamp,
-        text: currentEntry.text.join(' ').trim()
-      })
-    }
-    
-    // Fallback: if no entries parsed, show raw transcript
-    if (rawEntries.length === 0 && transcript.trim()) {
-      // Try to split by any pattern that looks like speaker changes
-      const fallbackEntries = transcript.split(/(?=\d{1,2}:\d{2})/g).filter(Boolean)
-      if (fallbackEntries.length > 1) {
-        return fallbackEntries.map((chunk, i) => ({
-          speaker: `Segment ${i + 1}`,
-          text: chunk.trim(),
-          timestamp: chunk.match(/(\d{1,2}:\d{2}(?::\d{2})?)/)?.[1] || '0:00'
-        }))
-      }
-      return [{ speaker: 'Transcript', text: transcript, timestamp: '0:00' }]
+    const parsed = parseTranscript(transcript)
+    if (parsed.segments.length === 0 && transcript.trim()) {
+      // Nothing timestamped - show the raw transcript
+      return [{ speaker: 'Transcript', role: 'other', timestamp: '0:00', seconds: 0, text: transcript }]
     }
-    
-    // Split long entries into smaller chunks (max ~200 words per entry)
-    const MAX_WORDS = 200
-    const result: TranscriptEntry[] = []
-    
-    for (const entry of rawEntries) {
-      const words = entry.text.split(/\s+/)
-      if (words.length <= MAX_WORDS) {
-        result.push(entry)
-      } else {
-        // Split into chunks
-        for (let i = 0; i < words.length; i += MAX_WORDS) {
-          const chunk = words.slice(i, i + MAX_WORDS).join(' ')
-          result.push({
-            speaker: entry.speaker,
-            timestamp: i === 0 ? entry.timestamp : `${entry.timestamp}+`,
-            text: chunk
-          })
-        }
-      }
-    }
-    
-    return result
-  }, [transcript])
+    return buildEntries(parsed.segments, parsed.speakers)
+  }, [transcript, segments, speakers])
 
   // Filter by search
   const filteredEntries = useMemo(() => {
@@ -235,7 +202,7 @@ export default function TranscriptPanel({
 
   const currentEntryIndex = useMemo(() => {
     for (let i = entries.length - 1; i >= 0; i--) {
-      if (parseTimestamp(entries[i].timestamp) <= currentTime) {
+      if (entries[i].seconds <= currentTime) {
         return i
       }
     }
@@ -249,6 +216,24 @@ export default function TranscriptPanel({
   }, [currentEntryIndex, searchQuery])
 
   const hasTranscript = entries.length > 0
+  // Speakers can only be edited once the transcript has been saved as segments
+  const canEditSpeakers = !!onEditSpeaker && !!segments?.length && !!speakers?.length
+
+  const startEditingSpeaker = (speakerKey: string, name: string) => {
+    setEditingSpeaker(editingSpeaker === speakerKey ? null : speakerKey)
+    setSpeakerName(name)
+  }
+
+  const saveSpeakerEdit = async (edit: SpeakerEdit) => {
+    if (!onEditSpeaker) return
+    setSavingSpeaker(true)
+    try {
+      await onEditSpeaker(edit)
+      if (edit.action !== 'set_role') setEditingSpeaker(null)
+    } finally {
+      setSavingSpeaker(false)
+    }
+  }
   const hasKeyInsights = keyInsights.length > 0
   const showKeyInsightsView = !hasTranscript && hasKeyInsights && !showFullTranscript && !isGenerating
 
@@ -265,6 +250,74 @@ export default function TranscriptPanel({
           )}
         </div>
 
+        {/* Speakers - rename, set the rep, merge mislabeled voices */}
+        {hasTranscript && canEditSpeakers && (
+          <div className="px-2 pt-2">
+            <div className="flex flex-wrap gap-1.5">
+              {speakers!.map(speaker => {
+                const styles = getSpeakerStyles(speaker.role)
+                return (
+                  <button
+                    key={speaker.speaker_key}
+                    onClick={() => startEditingSpeaker(speaker.speaker_key, speaker.name)}
+                    className={`flex items-center gap-1.5 px-2 py-1 rounded-full text-xs ${styles.bg} ${styles.text} ${editingSpeaker === speaker.speaker_key ? 'ring-1 ring-amber-500/50' : ''}`}
+                  >
+                    <span className={`w-2 h-2 rounded-full ${styles.avatar}`} />
+                    {speaker.name}
+                    <span className="text-gray-500">{ROLE_LABELS[speaker.role]}</span>
+                  </button>
+                )
+              })}
+            </div>
+
+            {editingSpeaker && (
+              <div className="mt-2 p-2 bg-gray-800/50 rounded-lg space-y-2">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={speakerName}
+                    onChange={(e) => setSpeakerName(e.target.value)}
+                    placeholder="Speaker name"
+                    className="flex-1 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs text-white placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-amber-500/50"
+                  />
+                  <button
+                    onClick={() => saveSpeakerEdit({ action: 'rename', speakerKey: editingSpeaker, name: speakerName })}
+                    disabled={savingSpeaker || !speakerName.trim()}
+                    className="px-2 py-1 bg-amber-500 hover:bg-amber-600 text-black text-xs font-medium rounded disabled:opacity-50"
+                  >
+                    Rename
+                  </button>
+                </div>
+                <div className="flex gap-2">
+                  <select
+                    value={speakers!.find(s => s.speaker_key === editingSpeaker)?.role || 'other'}
+                    onChange={(e) => saveSpeakerEdit({ action: 'set_role', speakerKey: editingSpeaker, role: e.target.value as TranscriptSpeakerRole })}
+                    disabled={savingSpeaker}
+                    className="flex-1 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs text-white"
+                  >
+                    {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                      <option key={role} value={role}>{label}</option>
+                    ))}
+                  </select>
+                  {speakers!.length > 1 && (
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && saveSpeakerEdit({ action: 'merge', speakerKey: editingSpeaker, intoKey: e.target.value })}
+                      disabled={savingSpeaker}
+                      className="flex-1 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs text-white"
+                    >
+                      <option value="">Merge into...</option>
+                      {speakers!.filter(s => s.speaker_key !== editingSpeaker).map(s => (
+                        <option key={s.speaker_key} value={s.speaker_key}>{s.name}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Search - only show if we have transcript */}
         {hasTranscript && (
           <div className="p-2">
@@ -432,12 +485,7 @@ export default function TranscriptPanel({
             </div>
             {paginatedEntries.map((entry, idx) => {
               const isActive = idx === currentEntryIndex && !searchQuery
-              const speakerLooksLikeName = entry.speaker.length < 20 && /^[A-Za-z\s]+$/.test(entry.speaker)
-              const textLooksLikeName = entry.text.length < 20 && /^[A-Za-z\s]+$/.test(entry.text)
-              
-              const speakerName = textLooksLikeName && !speakerLooksLikeName ? entry.text : entry.speaker
-              const spokenText = textLooksLikeName && !speakerLooksLikeName ? entry.speaker : entry.text
-              const styles = getSpeakerStyles(speakerName)
+              const styles = getSpeakerStyles(entry.role)
               
               return (
                 <div
@@ -448,14 +496,14 @@ export default function TranscriptPanel({
                 >
                   <div className="flex items-center gap-3 mb-1">
                     <div className={`w-8 h-8 rounded-full ${styles.avatar} flex items-center justify-center text-xs font-bold text-white flex-shrink-0`}>
-                      {getInitials(speakerName)}
+                      {getInitials(entry.speaker)}
                     </div>
                     <div className="flex items-center gap-2">
-                      <span className="text-white font-medium text-sm">{speakerName}</span>
+                      <span className="text-white font-medium text-sm">{entry.speaker}</span>
                       <span className="text-xs text-gray-500 font-mono">{entry.timestamp}</span>
                     </div>
                   </div>
-                  <p className="text-gray-400 text-sm leading-relaxed pl-11">{spokenText}</p>
+                  <p className="text-gray-400 text-sm leading-relaxed pl-11">{entry.text}</p>
                 </div>
               )
             })}
@@ -0,0 +1,83 @@
+'use client'
+
+import { CallAnalytics } from '@/types/database'
+import { formatTime } from '@/lib/pipeline/helpers'
+
+interface Props {
+  analytics: CallAnalytics
+}
+
+// Rep talk share above this reads as "talked too much" on a discovery-style call
+const HIGH_TALK_RATIO = 0.65
+// Post-close silence the W4 system asks reps to hold
+const TARGET_SILENCE_SECONDS = 5
+
+export function W4CallAnalytics({ analytics }: Props) {
+  const ratio = analytics.rep_talk_ratio
+  const ratioPercent = ratio !== null ? Math.round(ratio * 100) : null
+  const silence = analytics.post_price_silence_seconds
+
+  const stats: { label: string; value: string; detail?: string; warn?: boolean }[] = [
+    {
+      label: 'Longest Monologue',
+      value: analytics.longest_rep_monologue ? `${Math.round(analytics.longest_rep_monologue.seconds)}s` : '—',
+      detail: analytics.longest_rep_monologue ? `at ${formatTime(analytics.longest_rep_monologue.start_seconds)}` : undefined,
+    },
+    {
+      label: 'Interruptions',
+      value: String(analytics.interruptions.by_rep),
+      detail: `by rep · ${analytics.interruptions.by_homeowner} by homeowner`,
+    },
+    {
+      label: 'Questions Asked',
+      value: String(analytics.questions.by_rep),
+      detail: `by rep · ${analytics.questions.by_homeowner} by homeowner`,
+    },
+    {
+      label: 'Post-Price Silence',
+      value: silence !== null ? `${silence}s` : '—',
+      detail: analytics.price_presented_at !== null ? `price at ${formatTime(analytics.price_presented_at)}` : 'price not detected',
+      warn: silence !== null && silence < TARGET_SILENCE_SECONDS,
+    },
+  ]
+
+  return (
+    <div className="bg-gray-900/50 rounded-2xl p-6 border border-gray-800">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-white uppercase tracking-wide">Call Analytics</h3>
+        <span className="text-xs text-gray-500">Measured from the transcript</span>
+      </div>
+
+      {/* Talk ratio bar */}
+      <div className="mb-5">
+        <div className="flex items-center justify-between text-xs mb-1.5">
+          <span className="text-amber-400">
+            Rep {ratioPercent !== null ? `${ratioPercent}%` : '—'} · {formatTime(analytics.rep_talk_seconds)}
+          </span>
+          <span className="text-blue-400">
+            Homeowner {ratioPercent !== null ? `${100 - ratioPercent}%` : '—'} · {formatTime(analytics.homeowner_talk_seconds)}
+          </span>
+        </div>
+        <div className="h-2 bg-blue-500/40 rounded-full overflow-hidden">
+          <div className="h-full bg-amber-500 rounded-full" style={{ width: `${ratioPercent ?? 0}%` }} />
+        </div>
+        {ratio !== null && ratio > HIGH_TALK_RATIO && (
+          <p className="text-xs text-orange-400 mt-1.5">Rep did most of the talking</p>
+        )}
+        {ratio === null && (
+          <p className="text-xs text-gray-500 mt-1.5">Mark the rep in the transcript to see the talk ratio</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-gray-800/50 rounded-lg p-3">
+            <p className="text-xs text-gray-500">{stat.label}</p>
+            <p className={`text-lg font-semibold ${stat.warn ? 'text-orange-400' : 'text-white'}`}>{stat.value}</p>
+            {stat.detail && <p className="text-xs text-gray-500">{stat.detail}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -4,8 +4,13 @@ import { W4CoachingRecommendations } from '@/types/database'
 
 interface Props {
   recommendations: W4CoachingRecommendations
+  locateQuote?: (quote: string) => number | null  // Seconds into the call a quote was said, if found
+  onSeek?: (seconds: number) => void
 }
 
+// Quoted passages long enough to be worth looking up in the call
+const QUOTE_PATTERN = /["“]([^"”]{12,})["”]/g
+
 const COACHING_ICONS: Record<string, React.ReactNode> = {
   rapport_building: (
     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -37,7 +42,34 @@ const COACHING_TITLES: Record<string, string> = {
   post_price_silence: 'Post-Price Silence',
 }
 
-export function W4Coaching({ recommendations }: Props) {
+// Recommendation text with quotes from the call turned into play buttons
+function renderWithQuotes(text: string, locateQuote: Props['locateQuote'], onSeek: Props['onSeek']) {
+  if (!locateQuote || !onSeek) return text
+
+  const parts: React.ReactNode[] = []
+  let lastIndex = 0
+  for (const match of text.matchAll(QUOTE_PATTERN)) {
+    const seconds = locateQuote(match[1])
+    if (seconds === null) continue
+    parts.push(text.slice(lastIndex, match.index))
+    parts.push(
+      <button
+        key={match.index}
+        onClick={() => onSeek(seconds)}
+        className="text-amber-400 hover:text-amber-300 underline decoration-dotted underline-offset-2"
+        title="Play from here"
+      >
+        {match[0]}
+      </button>
+    )
+    lastIndex = match.index + match[0].length
+  }
+  if (parts.length === 0) return text
+  parts.push(text.slice(lastIndex))
+  return parts
+}
+
+export function W4Coaching({ recommendations, locateQuote, onSeek }: Props) {
   const entries = Object.entries(recommendations).filter(([, value]) => value)
   
   if (entries.length === 0) {
@@ -68,7 +100,7 @@ export function W4Coaching({ recommendations }: Props) {
                 {COACHING_TITLES[key] || key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
               </h4>
             </div>
-            <p className="text-sm text-gray-300 leading-relaxed">{value}</p>
+            <p className="text-sm text-gray-300 leading-relaxed">{renderWithQuotes(value || '', locateQuote, onSeek)}</p>
           </div>
         ))}
       </div>
@@ -9,13 +9,24 @@ import { W4Report } from '@/types/database'
 interface Props {
   report: W4Report
   fileName?: string
+  getTranscript?: () => Promise<string | null>  // Appended as a full transcript section when available
 }
 
-export function W4ExportButton({ report, fileName = 'w4-report' }: Props) {
+export function W4ExportButton({ report, fileName = 'w4-report', getTranscript }: Props) {
   const [isExporting, setIsExporting] = useState(false)
   const [showDropdown, setShowDropdown] = useState(false)
 
-  const generateMarkdown = (): string => {
+  const loadTranscript = async (): Promise<string | null> => {
+    if (!getTranscript) return null
+    try {
+      return await getTranscript()
+    } catch (err) {
+      console.error('Failed to load transcript for export:', err)
+      return null
+    }
+  }
+
+  const generateMarkdown = (transcript: string | null): string => {
     const { client_name, rep_name, company_name, overall_performance, phases, what_done_right, areas_for_improvement, weakest_elements, coaching_recommendations, rank_assessment, quick_wins } = report
 
     let md = `# COMPREHENSIVE CALL REPORT
@@ -120,14 +131,18 @@ export function W4ExportButton({ report, fileName = 'w4-report' }: Props) {
       }
     }
 
+    if (transcript) {
+      md += `\n---\n\n## FULL TRANSCRIPT\n\n${transcript}\n`
+    }
+
     return md
   }
 
-  const handleExportMarkdown = () => {
+  const handleExportMarkdown = async () => {
     setIsExporting(true)
     setShowDropdown(false)
     try {
-      const markdown = generateMarkdown()
+      const markdown = generateMarkdown(await loadTranscript())
       const blob = new Blob([markdown], { type: 'text/markdown' })
       saveAs(blob, `${fileName}.md`)
     } finally {
@@ -135,11 +150,12 @@ export function W4ExportButton({ report, fileName = 'w4-report' }: Props) {
     }
   }
 
-  const handleExportPDF = () => {
+  const handleExportPDF = async () => {
     setIsExporting(true)
     setShowDropdown(false)
     
     try {
+      const transcript = await loadTranscript()
       const doc = new jsPDF()
       const { client_name, rep_name, company_name, overall_performance, phases, what_done_right, areas_for_improvement, weakest_elements, coaching_recommendations, rank_assessment, quick_wins } = report
       
@@ -275,6 +291,14 @@ export function W4ExportButton({ report, fileName = 'w4-report' }: Props) {
         }
       }
       
+      // Full Transcript
+      if (transcript) {
+        addSection('FULL TRANSCRIPT')
+        for (const line of transcript.split('\n')) {
+          if (line.trim()) addText(line, 9)
+        }
+      }
+      
       doc.save(`${fileName}.pdf`)
     } finally {
       setIsExporting(false)
@@ -286,6 +310,7 @@ export function W4ExportButton({ report, fileName = 'w4-report' }: Props) {
     setShowDropdown(false)
     
     try {
+      const transcript = await loadTranscript()
       const { client_name, rep_name, company_name, overall_performance, phases, what_done_right, areas_for_improvement, weakest_elements, coaching_recommendations, rank_assessment, quick_wins } = report
       
       const children: (Paragraph | Table)[] = []
@@ -436,6 +461,14 @@ export function W4ExportButton({ report, fileName = 'w4-report' }: Props) {
         }
       }
       
+      // Full Transcript
+      if (transcript) {
+        addHeading('FULL TRANSCRIPT', HeadingLevel.HEADING_1)
+        for (const line of transcript.split('\n')) {
+          if (line.trim()) addParagraph(line, /^\d{1,2}:\d{2}(:\d{2})? - /.test(line))
+        }
+      }
+      
       const doc = new Document({
         sections: [{ children }],
       })
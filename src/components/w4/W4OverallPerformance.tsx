@@ -1,6 +1,7 @@
 'use client'
 
-import { W4OverallPerformance as W4OverallPerformanceType, W4Rating, getW4RatingColor, SaleOutcome } from '@/types/database'
+import { W4OverallPerformance as W4OverallPerformanceType, W4Rating, W4Report, W4ScoreDiscrepancy, getW4RatingColor, SaleOutcome } from '@/types/database'
+import { OBJECTION_CATEGORIES, isObjectionCategory } from '@/lib/w4/objections'
 
 interface Props {
   performance: W4OverallPerformanceType
@@ -8,11 +9,15 @@ interface Props {
   repName: string
   companyName: string
   saleOutcome?: SaleOutcome
+  discrepancies?: W4ScoreDiscrepancy[]  // Model numbers that didn't match the recomputed scores
+  aiOverall?: W4Report['ai_overall']    // AI totals before manager overrides
 }
 
-export function W4OverallPerformance({ performance, clientName, repName, companyName, saleOutcome }: Props) {
+export function W4OverallPerformance({ performance, clientName, repName, companyName, saleOutcome, discrepancies = [], aiOverall }: Props) {
   const { total_score, raw_score, sale_adjusted_score, rating, summary } = performance
   const color = getW4RatingColor(rating as W4Rating)
+  const totalDiscrepancy = discrepancies.find(d => d.field === 'overall_performance.total_score')
+  const ratingDiscrepancy = discrepancies.find(d => d.field === 'overall_performance.rating')
   
   const hasAdjustment = raw_score !== undefined && sale_adjusted_score !== undefined && raw_score !== sale_adjusted_score
   const displayScore = total_score
@@ -61,6 +66,14 @@ export function W4OverallPerformance({ performance, clientName, repName, company
               {saleOutcome.objection_reason && (
                 <p className="text-sm text-gray-500 mt-1">
                   <span className="text-gray-600">Objection:</span> {saleOutcome.objection_reason}
+                  {isObjectionCategory(saleOutcome.objection_category) && (
+                    <span
+                      className="ml-2 text-xs px-2 py-0.5 rounded"
+                      style={{ color: OBJECTION_CATEGORIES[saleOutcome.objection_category].color, backgroundColor: `${OBJECTION_CATEGORIES[saleOutcome.objection_category].color}20` }}
+                    >
+                      {OBJECTION_CATEGORIES[saleOutcome.objection_category].label}
+                    </span>
+                  )}
                 </p>
               )}
             </div>
@@ -133,6 +146,22 @@ export function W4OverallPerformance({ performance, clientName, repName, company
         <div className="flex-1">
           <h3 className="text-sm font-medium text-gray-400 mb-2">Summary</h3>
           <p className="text-gray-300 leading-relaxed">{summary}</p>
+          {(totalDiscrepancy || ratingDiscrepancy) && (
+            <p className="mt-3 text-xs text-amber-400/80">
+              ⚠ Score recomputed from checkpoints
+              {saleOutcome?.closed ? '' : ' (no-sale cap applied)'} - the AI reported{' '}
+              {[
+                totalDiscrepancy && `${totalDiscrepancy.model_value}/100`,
+                ratingDiscrepancy && `"${ratingDiscrepancy.model_value}"`,
+              ].filter(Boolean).join(', ')}
+            </p>
+          )}
+          {aiOverall && (
+            <p className="mt-3 text-xs text-violet-400">
+              Manager-adjusted: AI scored {aiOverall.total_score}/100 ({aiOverall.rating}) → {total_score}/100 ({rating}),{' '}
+              {total_score - aiOverall.total_score > 0 ? '+' : ''}{total_score - aiOverall.total_score} pts
+            </p>
+          )}
         </div>
       </div>
     </div>
@@ -3,14 +3,21 @@
 import { useState } from 'react'
 import { W4Phase, W4Checkpoint } from '@/types/database'
 
+export interface ScoreOverrideChange {
+  score: number
+  reason: string
+}
+
 interface Props {
   phaseName: 'WHY' | 'WHAT' | 'WHO' | 'WHEN'
   phase: W4Phase
   description: string
   color: string
+  onSeek?: (seconds: number) => void  // Evidence quotes with a known position play from there
+  onOverride?: (checkpointName: string, change: ScoreOverrideChange | null) => Promise<void>  // Managers/admins only
 }
 
-export function W4PhaseCard({ phaseName, phase, description, color }: Props) {
+export function W4PhaseCard({ phaseName, phase, description, color, onSeek, onOverride }: Props) {
   const [expandedCheckpoint, setExpandedCheckpoint] = useState<string | null>(null)
   
   const percentage = Math.round((phase.score / phase.max_score) * 100)
@@ -78,7 +85,14 @@ export function W4PhaseCard({ phaseName, phase, description, color }: Props) {
                 {/* Name */}
                 <div className="flex-1 min-w-0">
                   <p className="text-sm text-gray-200 truncate">{checkpoint.name}</p>
-                  <p className="text-xs text-gray-500">Max: {checkpoint.max_score} pts</p>
+                  <p className="text-xs text-gray-500">
+                    Max: {checkpoint.max_score} pts
+                    {checkpoint.override && (
+                      <span className="ml-2 text-violet-400">
+                        AI {checkpoint.override.ai_score} → Manager {checkpoint.score} ({formatDelta(checkpoint.score - checkpoint.override.ai_score)})
+                      </span>
+                    )}
+                  </p>
                 </div>
                 
                 {/* Progress mini bar */}
@@ -106,12 +120,56 @@ export function W4PhaseCard({ phaseName, phase, description, color }: Props) {
               </button>
               
               {/* Justification */}
-              {isExpanded && checkpoint.justification && (
+              {isExpanded && (checkpoint.justification || checkpoint.override || onOverride) && (
                 <div className="px-4 pb-4 pt-0">
                   <div className="bg-gray-800/50 rounded-lg p-3 ml-11">
-                    <p className="text-xs text-gray-400 leading-relaxed">
-                      {checkpoint.justification}
-                    </p>
+                    {checkpoint.justification && (
+                      <p className="text-xs text-gray-400 leading-relaxed">
+                        {checkpoint.justification}
+                      </p>
+                    )}
+                    {checkpoint.evidence && checkpoint.evidence.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {checkpoint.evidence.map((evidence, i) => {
+                          const seconds = evidence.timestamp_seconds
+                          return (
+                            <li key={i} className="text-xs text-gray-300">
+                              {onSeek && seconds !== undefined ? (
+                                <button
+                                  onClick={() => onSeek(seconds)}
+                                  className="text-left hover:text-amber-400 transition-colors"
+                                  title="Play from here"
+                                >
+                                  <span className="font-mono text-amber-500 mr-2">▶ {evidence.timestamp}</span>
+                                  &ldquo;{evidence.quote}&rdquo;
+                                </button>
+                              ) : (
+                                <>
+                                  {evidence.timestamp && <span className="font-mono text-gray-500 mr-2">{evidence.timestamp}</span>}
+                                  &ldquo;{evidence.quote}&rdquo;
+                                </>
+                              )}
+                            </li>
+                          )
+                        })}
+                      </ul>
+                    )}
+                    {checkpoint.override && (
+                      <div className="mt-3 p-2 bg-violet-500/10 border border-violet-500/20 rounded-lg">
+                        <p className="text-xs text-violet-300">
+                          Manager override: {checkpoint.override.ai_score} → {checkpoint.score}
+                          <span className="text-violet-400/70"> · {checkpoint.override.overridden_by_email || 'manager'}</span>
+                        </p>
+                        <p className="text-xs text-gray-400 mt-1">{checkpoint.override.reason}</p>
+                      </div>
+                    )}
+                    {onOverride && (
+                      <OverrideForm
+                        key={`${checkpoint.score}-${checkpoint.override?.overridden_at || 'ai'}`}
+                        checkpoint={checkpoint}
+                        onSave={change => onOverride(checkpoint.name, change)}
+                      />
+                    )}
                   </div>
                 </div>
               )}
@@ -123,6 +181,89 @@ export function W4PhaseCard({ phaseName, phase, description, color }: Props) {
   )
 }
 
+// Score + required reason; "Restore AI score" removes an existing override
+function OverrideForm({ checkpoint, onSave }: {
+  checkpoint: W4Checkpoint
+  onSave: (change: ScoreOverrideChange | null) => Promise<void>
+}) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [score, setScore] = useState(String(checkpoint.score))
+  const [reason, setReason] = useState(checkpoint.override?.reason || '')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const parsedScore = Number(score)
+  const isValid = score !== '' && Number.isInteger(parsedScore) && parsedScore >= 0
+    && parsedScore <= checkpoint.max_score && reason.trim().length > 0
+
+  const save = async (change: ScoreOverrideChange | null) => {
+    setIsSaving(true)
+    try {
+      await onSave(change)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!isOpen) {
+    return (
+      <div className="mt-3 flex items-center gap-3">
+        <button onClick={() => setIsOpen(true)} className="text-xs text-violet-400 hover:text-violet-300">
+          {checkpoint.override ? 'Edit override' : 'Override score'}
+        </button>
+        {checkpoint.override && (
+          <button
+            onClick={() => save(null)}
+            disabled={isSaving}
+            className="text-xs text-gray-500 hover:text-gray-300 disabled:opacity-50"
+          >
+            Restore AI score ({checkpoint.override.ai_score})
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={0}
+          max={checkpoint.max_score}
+          step={1}
+          value={score}
+          onChange={e => setScore(e.target.value)}
+          className="w-16 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-white"
+        />
+        <span className="text-xs text-gray-500">/ {checkpoint.max_score}</span>
+      </div>
+      <textarea
+        value={reason}
+        onChange={e => setReason(e.target.value)}
+        placeholder="Why does this score change? (required)"
+        rows={2}
+        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-white placeholder-gray-600"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => save({ score: parsedScore, reason: reason.trim() })}
+          disabled={!isValid || isSaving}
+          className="px-3 py-1 bg-violet-600 hover:bg-violet-500 text-white text-xs rounded disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save override'}
+        </button>
+        <button onClick={() => setIsOpen(false)} className="text-xs text-gray-500 hover:text-gray-300">
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : String(delta)
+}
+
 function getScoreColor(percentage: number, opacity: number): string {
   if (percentage >= 80) return `rgba(34, 197, 94, ${opacity})`  // Green
   if (percentage >= 60) return `rgba(234, 179, 8, ${opacity})`  // Yellow
@@ -1,6 +1,6 @@
 'use client'
 
-import { W4Phase } from '@/types/database'
+import { W4Phase, W4ScoreDiscrepancy } from '@/types/database'
 
 interface Props {
   phases: {
@@ -10,15 +10,18 @@ interface Props {
     when: W4Phase
   }
   totalScore: number
+  discrepancies?: W4ScoreDiscrepancy[]  // Model numbers that didn't match the recomputed scores
 }
 
-export function W4TotalScores({ phases, totalScore }: Props) {
+export function W4TotalScores({ phases, totalScore, discrepancies = [] }: Props) {
   const phaseData = [
-    { name: 'WHY', phase: phases.why, color: '#3b82f6' },
-    { name: 'WHAT', phase: phases.what, color: '#8b5cf6' },
-    { name: 'WHO', phase: phases.who, color: '#f97316' },
-    { name: 'WHEN', phase: phases.when, color: '#22c55e' },
+    { key: 'why', name: 'WHY', phase: phases.why, color: '#3b82f6' },
+    { key: 'what', name: 'WHAT', phase: phases.what, color: '#8b5cf6' },
+    { key: 'who', name: 'WHO', phase: phases.who, color: '#f97316' },
+    { key: 'when', name: 'WHEN', phase: phases.when, color: '#22c55e' },
   ]
+  const findDiscrepancy = (field: string) => discrepancies.find(d => d.field === field)
+  const totalDiscrepancy = findDiscrepancy('overall_performance.total_score')
   
   return (
     <div className="bg-gray-900/50 rounded-xl border border-gray-800 overflow-hidden">
@@ -37,8 +40,9 @@ export function W4TotalScores({ phases, totalScore }: Props) {
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-800/50">
-            {phaseData.map(({ name, phase, color }) => {
+            {phaseData.map(({ key, name, phase, color }) => {
               const percentage = Math.round((phase.score / phase.max_score) * 100)
+              const discrepancy = findDiscrepancy(`phases.${key}.score`)
               return (
                 <tr key={name} className="hover:bg-gray-800/20">
                   <td className="px-4 py-3">
@@ -52,6 +56,7 @@ export function W4TotalScores({ phases, totalScore }: Props) {
                   </td>
                   <td className="px-4 py-3 text-center font-mono text-gray-200">
                     {phase.score}
+                    {discrepancy && <DiscrepancyMark discrepancy={discrepancy} />}
                   </td>
                   <td className="px-4 py-3 text-center font-mono text-gray-500">
                     {phase.max_score}
@@ -71,7 +76,10 @@ export function W4TotalScores({ phases, totalScore }: Props) {
           <tfoot>
             <tr className="bg-gray-800/50 font-semibold">
               <td className="px-4 py-3 text-white">Overall Total</td>
-              <td className="px-4 py-3 text-center font-mono text-white">{totalScore}</td>
+              <td className="px-4 py-3 text-center font-mono text-white">
+                {totalScore}
+                {totalDiscrepancy && <DiscrepancyMark discrepancy={totalDiscrepancy} />}
+              </td>
               <td className="px-4 py-3 text-center font-mono text-gray-500">100</td>
               <td className="px-4 py-3 text-right">
                 <span 
@@ -85,10 +93,27 @@ export function W4TotalScores({ phases, totalScore }: Props) {
           </tfoot>
         </table>
       </div>
+
+      {discrepancies.length > 0 && (
+        <p className="px-4 py-3 border-t border-gray-800 text-xs text-gray-500">
+          <span className="text-amber-400">⚠</span> Recomputed from checkpoint scores - the AI reported a different number.
+        </p>
+      )}
     </div>
   )
 }
 
+function DiscrepancyMark({ discrepancy }: { discrepancy: W4ScoreDiscrepancy }) {
+  return (
+    <span
+      className="ml-1 text-xs text-amber-400 cursor-help"
+      title={`AI reported ${discrepancy.model_value}, recomputed ${discrepancy.computed_value}`}
+    >
+      ⚠
+    </span>
+  )
+}
+
 function getPercentageColor(percentage: number): string {
   if (percentage >= 90) return '#22c55e'  // MVP
   if (percentage >= 75) return '#3b82f6'  // Playmaker
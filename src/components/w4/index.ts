@@ -1,4 +1,5 @@
 export { W4OverallPerformance } from './W4OverallPerformance'
+export { W4CallAnalytics } from './W4CallAnalytics'
 export { W4PhaseCard } from './W4PhaseCard'
 export { W4TotalScores } from './W4TotalScores'
 export { W4Insights } from './W4Insights'
@@ -3,9 +3,11 @@
 import { useState, useEffect, useCallback } from 'react'
 import { 
   getPendingRecordings, 
-  getPendingCount,
+  getRetryState,
+  getStorageEstimate,
   initOfflineDB,
-  PendingRecording 
+  PendingRecording,
+  StorageEstimate
 } from '@/lib/offlineStorage'
 import { 
   syncPendingRecordings, 
@@ -16,8 +18,10 @@ import {
 
 export interface OfflineStatus {
   isOnline: boolean
-  pendingCount: number
+  pendingCount: number                 // Everything not yet uploaded, failed ones included
+  needsAttentionCount: number          // Out of automatic retries
   pendingRecordings: PendingRecording[]
+  storage: StorageEstimate | null
   syncStatus: SyncStatus | null
   syncNow: () => Promise<void>
   refreshPending: () => Promise<void>
@@ -26,7 +30,9 @@ export interface OfflineStatus {
 export function useOfflineStatus(userId: string | undefined): OfflineStatus {
   const [isOnline, setIsOnline] = useState(true)
   const [pendingCount, setPendingCount] = useState(0)
+  const [needsAttentionCount, setNeedsAttentionCount] = useState(0)
   const [pendingRecordings, setPendingRecordings] = useState<PendingRecording[]>([])
+  const [storage, setStorage] = useState<StorageEstimate | null>(null)
   const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null)
   
   // Initialize and refresh pending recordings
@@ -37,7 +43,9 @@ export function useOfflineStatus(userId: string | undefined): OfflineStatus {
       await initOfflineDB()
       const recordings = await getPendingRecordings(userId)
       setPendingRecordings(recordings)
-      setPendingCount(recordings.filter(r => r.status === 'pending').length)
+      setPendingCount(recordings.length)
+      setNeedsAttentionCount(recordings.filter(r => getRetryState(r).kind === 'exhausted').length)
+      setStorage(await getStorageEstimate())
     } catch (error) {
       console.error('Failed to refresh pending recordings:', error)
     }
@@ -105,7 +113,9 @@ export function useOfflineStatus(userId: string | undefined): OfflineStatus {
   return {
     isOnline,
     pendingCount,
+    needsAttentionCount,
     pendingRecordings,
+    storage,
     syncStatus,
     syncNow,
     refreshPending,
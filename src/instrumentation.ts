@@ -0,0 +1,9 @@
+// Runs once when the Next.js server starts.
+// Starts the background job worker that processes queued analyses/transcriptions.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+  if (process.env.JOB_WORKER_ENABLED === 'false') return
+
+  const { startJobWorker } = await import('@/lib/jobs/worker')
+  startJobWorker()
+}
@@ -0,0 +1,111 @@
+// Gemini provider - wraps @google/genai (Files API + streaming generation)
+import { AIGenerateRequest, AIProvider, AIStreamChunk, AIUploadedFile, AIUploadOptions } from './types'
+
+// Dynamic import to avoid build issues
+let genai: typeof import('@google/genai') | null = null
+
+async function loadGenAI() {
+  if (!genai) {
+    genai = await import('@google/genai')
+  }
+  return genai
+}
+
+const FILE_POLL_INTERVAL_MS = 5000
+const MAX_FILE_WAIT_POLLS = 60 // Max 5 minutes (60 * 5 seconds)
+
+export class GeminiProvider implements AIProvider {
+  readonly id = 'gemini' as const
+  private client: import('@google/genai').GoogleGenAI | null = null
+
+  constructor(private readonly apiKey: string) {}
+
+  private async getClient() {
+    if (!this.client) {
+      const { GoogleGenAI } = await loadGenAI()
+      this.client = new GoogleGenAI({ apiKey: this.apiKey })
+    }
+    return this.client
+  }
+
+  private async buildContents(request: AIGenerateRequest) {
+    const { createUserContent, createPartFromUri } = await loadGenAI()
+    return createUserContent(
+      request.file
+        ? [createPartFromUri(request.file.uri, request.file.mimeType), request.prompt]
+        : [request.prompt]
+    )
+  }
+
+  async uploadFile(data: Blob, mimeType: string, options?: AIUploadOptions): Promise<AIUploadedFile> {
+    const ai = await this.getClient()
+
+    const uploadResult = await ai.files.upload({
+      file: data.type === mimeType ? data : new Blob([await data.arrayBuffer()], { type: mimeType }),
+      config: { mimeType },
+    })
+
+    if (!uploadResult.uri || !uploadResult.name) {
+      throw new Error('Failed to upload file to Gemini')
+    }
+
+    // Wait for processing - MUST be ACTIVE before use
+    let file = uploadResult
+    let waitCount = 0
+    while (file.state !== 'ACTIVE') {
+      if (file.state === 'FAILED') {
+        throw new Error('Gemini file processing failed')
+      }
+
+      waitCount++
+      if (waitCount > MAX_FILE_WAIT_POLLS) {
+        throw new Error(`File processing timeout after ${MAX_FILE_WAIT_POLLS * FILE_POLL_INTERVAL_MS / 1000} seconds. State: ${file.state}`)
+      }
+
+      await options?.onWaiting?.(waitCount * FILE_POLL_INTERVAL_MS / 1000)
+      await new Promise(resolve => setTimeout(resolve, FILE_POLL_INTERVAL_MS))
+      file = await ai.files.get({ name: uploadResult.name })
+    }
+
+    return { name: uploadResult.name, uri: file.uri || uploadResult.uri, mimeType }
+  }
+
+  async *streamGenerate(request: AIGenerateRequest): AsyncIterable<AIStreamChunk> {
+    const ai = await this.getClient()
+
+    const stream = await ai.models.generateContentStream({
+      model: request.model,
+      contents: await this.buildContents(request),
+      config: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        ...(request.json && { responseMimeType: 'application/json' }),
+      },
+    })
+
+    for await (const chunk of stream) {
+      yield {
+        text: chunk.text || '',
+        usage: chunk.usageMetadata ? {
+          inputTokens: chunk.usageMetadata.promptTokenCount || 0,
+          outputTokens: chunk.usageMetadata.candidatesTokenCount || 0,
+        } : undefined,
+        finishReason: chunk.candidates?.[0]?.finishReason,
+      }
+    }
+  }
+
+  async countTokens(request: AIGenerateRequest): Promise<number> {
+    const ai = await this.getClient()
+    const result = await ai.models.countTokens({
+      model: request.model,
+      contents: await this.buildContents(request),
+    })
+    return result.totalTokens || 0
+  }
+
+  async deleteFile(file: AIUploadedFile): Promise<void> {
+    const ai = await this.getClient()
+    await ai.files.delete({ name: file.name })
+  }
+}
@@ -0,0 +1,49 @@
+// AI provider registry - pick the provider for a model from MODEL_CONFIGS
+import { GeminiProvider } from './gemini'
+import { MockProvider } from './mock'
+import { getModelConfig } from './models'
+import { AIGenerateRequest, AIProvider, AIUsage } from './types'
+
+export * from './types'
+export { MODEL_CONFIGS, getAnalysisModel, getTranscriptionModel, getModelConfig, estimateCost } from './models'
+
+// Whether the provider behind a model has the credentials it needs
+export function isModelConfigured(modelId: string): boolean {
+  const config = getModelConfig(modelId)
+  switch (config.provider) {
+    case 'gemini':
+      return !!process.env.GEMINI_API_KEY
+    case 'mock':
+      return true
+  }
+}
+
+export function getProviderForModel(modelId: string): AIProvider {
+  const config = getModelConfig(modelId)
+  switch (config.provider) {
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_KEY
+      if (!apiKey) {
+        throw new Error('AI API key not configured')
+      }
+      return new GeminiProvider(apiKey)
+    }
+    case 'mock':
+      return new MockProvider()
+  }
+}
+
+// Non-streaming convenience: run streamGenerate and collect the whole response
+export async function generateText(provider: AIProvider, request: AIGenerateRequest) {
+  let text = ''
+  let usage: AIUsage = { inputTokens: 0, outputTokens: 0 }
+  let finishReason: string | undefined
+
+  for await (const chunk of provider.streamGenerate(request)) {
+    text += chunk.text
+    if (chunk.usage) usage = chunk.usage
+    if (chunk.finishReason) finishReason = chunk.finishReason
+  }
+
+  return { text, usage, finishReason }
+}
@@ -0,0 +1,159 @@
+// Mock provider - returns canned W4 JSON / transcript so the whole pipeline
+// can run offline (local dev, tests) without an API key.
+import { W4_CHECKPOINTS, W4_NO_SALE_SCORE_CAP, W4_PHASE_CONFIG, getW4Rating } from '@/types/database'
+import { AIGenerateRequest, AIProvider, AIStreamChunk, AIUploadedFile } from './types'
+
+const STREAM_CHUNK_SIZE = 400
+
+const MOCK_TRANSCRIPT = `0:00 - Mike
+Hi, I'm Mike with Summit Roofing. Thanks for having me out today.
+
+0:06 - Homeowner
+Sure, come on in.
+
+0:09 - Mike
+Before I get started, is there a place we can sit down for a few minutes? I want to ask you some questions so I look at the right things.
+
+0:18 - Homeowner
+The kitchen table works.
+
+0:21 - Mike
+How long have you lived here with your family?
+
+0:25 - Homeowner
+About twelve years now.
+
+0:29 - Mike
+Are you experiencing any leaks now, or have you in the past?
+
+0:34 - Homeowner
+There's a stain on the bedroom ceiling after heavy rain.
+
+0:40 - Mike
+Is your roof part of an existing insurance claim?
+
+0:44 - Homeowner
+No, not yet.
+
+0:47 - Mike
+The total investment for everything we've discussed is $22,240, or $278 per month. Which option works better for you?
+
+0:58 - Homeowner
+We'll need to think about it and get a couple more quotes.
+`
+
+// Deterministic W4 report: every checkpoint scores ~60% of its max
+function buildMockW4Report() {
+  const phases = Object.fromEntries(
+    (Object.keys(W4_CHECKPOINTS) as Array<keyof typeof W4_CHECKPOINTS>).map(phaseKey => {
+      const checkpoints = W4_CHECKPOINTS[phaseKey].map(cp => ({
+        name: cp.name,
+        score: Math.floor(cp.maxScore * 0.6),
+        max_score: cp.maxScore,
+        justification: `Mock evidence for ${cp.name}.`,
+        // No timestamp - placed by matching against the transcript
+        evidence: [{ quote: 'How long have you lived here with your family?', timestamp: '' }],
+      }))
+      return [phaseKey, {
+        score: checkpoints.reduce((sum, cp) => sum + cp.score, 0),
+        max_score: W4_PHASE_CONFIG[phaseKey].maxScore,
+        checkpoints,
+      }]
+    })
+  )
+
+  const rawScore = Object.values(phases).reduce((sum, phase) => sum + phase.score, 0)
+  const adjustedScore = Math.min(rawScore, W4_NO_SALE_SCORE_CAP)
+  const rating = getW4Rating(adjustedScore)
+
+  return {
+    client_name: 'Mock Homeowner',
+    rep_name: 'Mike',
+    company_name: 'Summit Roofing',
+    sale_outcome: {
+      closed: false,
+      outcome_type: 'NO_SALE',
+      evidence: 'Homeowner said they need to think about it and get more quotes.',
+      objection_reason: 'Want more quotes',
+      objection_category: 'more_quotes',
+    },
+    overall_performance: {
+      raw_score: rawScore,
+      sale_adjusted_score: adjustedScore,
+      total_score: adjustedScore,
+      rating,
+      summary: 'Mock analysis generated by the offline provider.',
+    },
+    phases,
+    what_done_right: ['Asked for a sitdown with a benefit statement.'],
+    areas_for_improvement: [{ area: 'Tie-downs', recommendation: 'Ask for verbal agreement before presenting price.' }],
+    weakest_elements: ['No WHO tie-down before price.'],
+    coaching_recommendations: {
+      rapport_building: 'Use at least three FORM elements.',
+      structured_communication: 'Follow the presentation guide page by page.',
+      tie_downs: 'Ask "Based on what I\'ve shown you, do you think your roof needs work?"',
+      post_price_silence: 'The sales rep must NOT speak until the homeowner does. No exceptions.',
+    },
+    rank_assessment: {
+      current_rank: rating,
+      next_level_requirements: 'Complete WHO tie-down and close the sale.',
+    },
+    quick_wins: [
+      { title: 'Ask the WHO tie-down', action: 'Ask both WHO questions before price.', points_worth: 9 },
+    ],
+  }
+}
+
+// Per-window findings for long-recording analysis (see pipeline/w4Windows.ts)
+function buildMockWindowFindings() {
+  return {
+    rep_name: 'Mike',
+    client_name: 'Mock Homeowner',
+    company_name: 'Summit Roofing',
+    window_summary: 'Mock window analyzed by the offline provider.',
+    sale_outcome: null,
+    checkpoints: (Object.keys(W4_CHECKPOINTS) as Array<keyof typeof W4_CHECKPOINTS>).flatMap(phaseKey =>
+      W4_CHECKPOINTS[phaseKey].map(cp => ({
+        phase: phaseKey,
+        name: cp.name,
+        score: Math.floor(cp.maxScore * 0.6),
+        justification: `Mock evidence for ${cp.name}.`,
+        evidence: [{ quote: 'How long have you lived here with your family?', timestamp: '0:21' }],
+      }))
+    ),
+  }
+}
+
+export class MockProvider implements AIProvider {
+  readonly id = 'mock' as const
+
+  async uploadFile(_data: Blob, mimeType: string): Promise<AIUploadedFile> {
+    const name = `files/mock-${Date.now()}`
+    return { name, uri: `mock://${name}`, mimeType }
+  }
+
+  async *streamGenerate(request: AIGenerateRequest): AsyncIterable<AIStreamChunk> {
+    const isWindowRequest = request.prompt.includes('"window_summary"')
+    const text = !request.json
+      ? MOCK_TRANSCRIPT
+      : JSON.stringify(isWindowRequest ? buildMockWindowFindings() : buildMockW4Report(), null, 2)
+    const inputTokens = Math.ceil(request.prompt.length / 4)
+
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      const isLast = i + STREAM_CHUNK_SIZE >= text.length
+      yield {
+        text: text.slice(i, i + STREAM_CHUNK_SIZE),
+        usage: { inputTokens, outputTokens: Math.ceil(Math.min(i + STREAM_CHUNK_SIZE, text.length) / 4) },
+        finishReason: isLast ? 'STOP' : undefined,
+      }
+    }
+  }
+
+  async countTokens(request: AIGenerateRequest): Promise<number> {
+    return Math.ceil(request.prompt.length / 4)
+  }
+
+  async deleteFile(): Promise<void> {
+    // Nothing to clean up
+  }
+}
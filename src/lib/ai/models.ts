@@ -0,0 +1,56 @@
+// Model registry - one place for model names, providers and prices
+import { AIModelConfig } from './types'
+
+export const MODEL_CONFIGS: Record<string, AIModelConfig> = {
+  'gemini-3-pro-preview': {
+    id: 'gemini-3-pro-preview',
+    provider: 'gemini',
+    label: 'Gemini 3 Pro (preview)',
+    pricing: { input: 2.00, output: 12.00 },
+  },
+  'gemini-2.5-flash': {
+    id: 'gemini-2.5-flash',
+    provider: 'gemini',
+    label: 'Gemini 2.5 Flash',
+    pricing: { input: 0.15, output: 0.60 },
+  },
+  'gemini-2.0-flash-exp': {
+    id: 'gemini-2.0-flash-exp',
+    provider: 'gemini',
+    label: 'Gemini 2.0 Flash (experimental)',
+    pricing: { input: 0.075, output: 0.30 },
+  },
+  // Offline provider - canned W4 JSON / transcript, no API key needed
+  'mock': {
+    id: 'mock',
+    provider: 'mock',
+    label: 'Mock provider (offline)',
+    pricing: { input: 0, output: 0 },
+  },
+}
+
+const DEFAULT_ANALYSIS_MODEL = 'gemini-3-pro-preview' // Better quality for W4 analysis
+const DEFAULT_TRANSCRIPTION_MODEL = 'gemini-2.5-flash' // Cheaper & faster for transcription
+
+// Model used for W4 analysis (override with AI_ANALYSIS_MODEL)
+export function getAnalysisModel(): string {
+  return process.env.AI_ANALYSIS_MODEL || DEFAULT_ANALYSIS_MODEL
+}
+
+// Model used for transcription (override with AI_TRANSCRIPTION_MODEL)
+export function getTranscriptionModel(): string {
+  return process.env.AI_TRANSCRIPTION_MODEL || DEFAULT_TRANSCRIPTION_MODEL
+}
+
+export function getModelConfig(modelId: string): AIModelConfig {
+  const config = MODEL_CONFIGS[modelId]
+  if (!config) {
+    throw new Error(`Unknown AI model: ${modelId}`)
+  }
+  return config
+}
+
+export function estimateCost(modelId: string, inputTokens: number, outputTokens: number): number {
+  const pricing = MODEL_CONFIGS[modelId]?.pricing || MODEL_CONFIGS[DEFAULT_ANALYSIS_MODEL].pricing
+  return (inputTokens / 1_000_000) * pricing.input + (outputTokens / 1_000_000) * pricing.output
+}
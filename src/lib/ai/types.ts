@@ -0,0 +1,56 @@
+// AI provider abstraction used by the transcription and W4 analysis pipelines
+
+export type AIProviderId = 'gemini' | 'mock'
+
+// A file uploaded to the provider (e.g. Gemini Files API)
+export interface AIUploadedFile {
+  name: string
+  uri: string
+  mimeType: string
+}
+
+export interface AIGenerateRequest {
+  model: string
+  prompt: string
+  file?: AIUploadedFile         // Audio to reason over, if any
+  temperature?: number
+  maxOutputTokens?: number
+  json?: boolean                // Ask for application/json output
+}
+
+export interface AIUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface AIStreamChunk {
+  text: string
+  usage?: AIUsage               // Cumulative usage so far, when the provider reports it
+  finishReason?: string
+}
+
+export interface AIUploadOptions {
+  // Called while the provider is still processing the upload
+  onWaiting?: (waitedSeconds: number) => Promise<void> | void
+}
+
+export interface AIProvider {
+  readonly id: AIProviderId
+  uploadFile(data: Blob, mimeType: string, options?: AIUploadOptions): Promise<AIUploadedFile>
+  streamGenerate(request: AIGenerateRequest): AsyncIterable<AIStreamChunk>
+  countTokens(request: AIGenerateRequest): Promise<number>
+  deleteFile(file: AIUploadedFile): Promise<void>
+}
+
+// Pricing per 1M tokens (USD)
+export interface AIModelPricing {
+  input: number
+  output: number
+}
+
+export interface AIModelConfig {
+  id: string
+  provider: AIProviderId
+  label: string
+  pricing: AIModelPricing
+}
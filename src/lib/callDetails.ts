@@ -0,0 +1,60 @@
+// Call details a rep enters before recording (migration 016). Kept on the offline record until
+// upload, saved on the recording and handed to the W4 prompt as context.
+import { RecordingCallDetails } from '@/types/database'
+
+export const APPOINTMENT_TYPES = [
+  'Inspection',
+  'Estimate / proposal',
+  'Insurance claim',
+  'Follow-up',
+  'Contract signing',
+]
+
+export const LEAD_SOURCES = [
+  'Door knock',
+  'Storm canvass',
+  'Referral',
+  'Online lead',
+  'Repeat customer',
+  'Other',
+]
+
+export const EMPTY_CALL_DETAILS: RecordingCallDetails = {
+  client_name: null,
+  client_address: null,
+  appointment_type: null,
+  lead_source: null,
+  call_notes: null,
+}
+
+// Trimmed, with blank fields as null - ready to spread into a recordings insert
+export function normalizeCallDetails(details: Partial<RecordingCallDetails>): RecordingCallDetails {
+  const clean = (value: string | null | undefined) => value?.trim() || null
+  return {
+    client_name: clean(details.client_name),
+    client_address: clean(details.client_address),
+    appointment_type: clean(details.appointment_type),
+    lead_source: clean(details.lead_source),
+    call_notes: clean(details.call_notes),
+  }
+}
+
+export function hasCallDetails(details: Partial<RecordingCallDetails> | null | undefined): boolean {
+  return !!details && Object.values(normalizeCallDetails(details)).some(Boolean)
+}
+
+// Prompt section; empty when the rep entered nothing
+export function formatCallDetailsForPrompt(details: Partial<RecordingCallDetails> | null | undefined): string {
+  if (!details || !hasCallDetails(details)) return ''
+  const { client_name, client_address, appointment_type, lead_source, call_notes } = normalizeCallDetails(details)
+
+  const lines = [
+    'CALL DETAILS (entered by the rep before the call - use them as context; the audio and transcript remain the evidence for scoring):',
+    client_name && `- Homeowner: ${client_name} (use this for client_name)`,
+    client_address && `- Address: ${client_address}`,
+    appointment_type && `- Appointment type: ${appointment_type}`,
+    lead_source && `- Lead source: ${lead_source}`,
+    call_notes && `- Rep's notes: ${call_notes}`,
+  ]
+  return lines.filter(Boolean).join('\n')
+}
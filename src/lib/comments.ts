@@ -0,0 +1,88 @@
+// Comment threads and @mentions (supabase/migrations/015_comment_threads.sql). A mention is written
+// as @handle, where the handle is the part of the email before the @ - or the whole email when two
+// participants share that prefix. Mentions are resolved to user ids when the comment is saved.
+import { Comment, RecordingParticipant } from '@/types/database'
+
+export interface CommentThread {
+  root: Comment
+  replies: Comment[]  // Oldest first
+}
+
+// @handle or @full.email@domain.com, as typed in a comment
+const MENTION_PATTERN = /@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g
+
+export function mentionHandle(participant: RecordingParticipant, participants: RecordingParticipant[]): string {
+  const prefix = participant.email.split('@')[0]
+  const clash = participants.some(p => p.user_id !== participant.user_id && p.email.split('@')[0] === prefix)
+  return clash ? participant.email : prefix
+}
+
+// Handle (lowercased) -> participant
+function buildMentionIndex(participants: RecordingParticipant[]): Map<string, RecordingParticipant> {
+  const index = new Map<string, RecordingParticipant>()
+  for (const participant of participants) {
+    index.set(mentionHandle(participant, participants).toLowerCase(), participant)
+    index.set(participant.email.toLowerCase(), participant)
+  }
+  return index
+}
+
+// Each resolved mention in the text with its position. A sentence-ending period isn't part of the handle.
+function findMentions(content: string, participants: RecordingParticipant[]) {
+  const index = buildMentionIndex(participants)
+  const found: { start: number; end: number; participant: RecordingParticipant }[] = []
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const handle = match[1].replace(/\.+$/, '')
+    const participant = index.get(handle.toLowerCase())
+    if (!participant) continue
+    const start = match.index ?? 0
+    found.push({ start, end: start + handle.length + 1, participant })
+  }
+  return found
+}
+
+// Ids of the participants mentioned in the text; unknown handles are ignored
+export function extractMentions(content: string, participants: RecordingParticipant[]): string[] {
+  return [...new Set(findMentions(content, participants).map(m => m.participant.user_id))]
+}
+
+// Text split into plain parts and resolved mentions, for highlighting
+export function splitMentions(content: string, participants: RecordingParticipant[]): { text: string; mention: boolean }[] {
+  const parts: { text: string; mention: boolean }[] = []
+  let last = 0
+  for (const { start, end } of findMentions(content, participants)) {
+    if (start > last) parts.push({ text: content.slice(last, start), mention: false })
+    parts.push({ text: content.slice(start, end), mention: true })
+    last = end
+  }
+  if (last < content.length) parts.push({ text: content.slice(last), mention: false })
+  return parts
+}
+
+// The @handle being typed just before the caret, if any
+export function activeMentionQuery(textBeforeCaret: string): string | null {
+  const match = textBeforeCaret.match(/(?:^|\s)@([\w.+@-]*)$/)
+  return match ? match[1] : null
+}
+
+// Roots newest first, each with its replies oldest first. A reply whose root is gone becomes a root.
+export function buildCommentThreads(comments: Comment[]): CommentThread[] {
+  const ids = new Set(comments.map(c => c.id))
+  const replies = new Map<string, Comment[]>()
+  const roots: Comment[] = []
+
+  for (const comment of comments) {
+    if (comment.parent_id && ids.has(comment.parent_id)) {
+      replies.set(comment.parent_id, [...(replies.get(comment.parent_id) || []), comment])
+    } else {
+      roots.push(comment)
+    }
+  }
+
+  return roots
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map(root => ({
+      root,
+      replies: (replies.get(root.id) || []).sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    }))
+}
@@ -0,0 +1,99 @@
+// Job queue - enqueue/lookup helpers for the analysis_jobs table
+// Users enqueue through requestJob()/requestReplayJob() (RPCs check access and fill the payload);
+// enqueueJob() inserts directly and needs the service-role client.
+import { SupabaseClient } from '@supabase/supabase-js'
+import { AnalysisJob, AnalysisJobInsert, AnalysisJobType } from '@/types/database'
+
+// Postgres unique_violation - raised by analysis_jobs_one_active_idx
+export const ACTIVE_JOB_CONFLICT_CODE = '23505'
+
+// Add a job to the queue. Mirrors the Supabase { data, error } shape so callers can
+// check `error.code === ACTIVE_JOB_CONFLICT_CODE` for "already queued/running".
+export async function enqueueJob(supabase: SupabaseClient, job: AnalysisJobInsert) {
+  const { data, error } = await supabase
+    .from('analysis_jobs')
+    .insert({
+      type: job.type,
+      recording_id: job.recording_id,
+      analysis_id: job.analysis_id,
+      user_id: job.user_id,
+      payload: job.payload || {},
+      max_attempts: job.max_attempts ?? 3,
+    })
+    .select()
+    .single()
+
+  if (!error) {
+    notifyLocalWorker()
+  }
+
+  return { data: data as AnalysisJob | null, error }
+}
+
+// Options a user can pass when requesting a job; everything else comes from the recording row
+export interface JobRequestOptions {
+  transcriptOnly?: boolean
+  rubricName?: string
+}
+
+// Queue an analyze/transcribe job for one of the signed-in user's analyses (same { data, error } shape)
+export async function requestJob(
+  supabase: SupabaseClient,
+  type: Extract<AnalysisJobType, 'analyze' | 'transcribe'>,
+  analysisId: string,
+  options: JobRequestOptions = {}
+) {
+  const { data, error } = await supabase
+    .rpc('enqueue_analysis_job', {
+      p_type: type,
+      p_analysis_id: analysisId,
+      p_transcript_only: options.transcriptOnly ?? false,
+      p_rubric_name: options.rubricName ?? null,
+    })
+    .maybeSingle()
+
+  if (!error) {
+    notifyLocalWorker()
+  }
+
+  return { data: data as AnalysisJob | null, error }
+}
+
+// Queue the replay job for a prompt_replay_results row (admins only)
+export async function requestReplayJob(supabase: SupabaseClient, resultId: string) {
+  const { data, error } = await supabase
+    .rpc('enqueue_prompt_replay_job', { p_result_id: resultId })
+    .maybeSingle()
+
+  if (!error) {
+    notifyLocalWorker()
+  }
+
+  return { data: data as AnalysisJob | null, error }
+}
+
+// Queued or running job of the given type for an analysis, if any
+export async function getActiveJob(
+  supabase: SupabaseClient,
+  analysisId: string,
+  types: AnalysisJobType[]
+): Promise<AnalysisJob | null> {
+  const { data } = await supabase
+    .from('analysis_jobs')
+    .select('*')
+    .eq('analysis_id', analysisId)
+    .in('type', types)
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return (data as AnalysisJob | null) || null
+}
+
+// Wake the in-process worker (if this server runs one) so new jobs start immediately
+// instead of waiting for the next poll.
+function notifyLocalWorker() {
+  const wake = (globalThis as { __repfuelWakeJobWorker?: () => void }).__repfuelWakeJobWorker
+  wake?.()
+}
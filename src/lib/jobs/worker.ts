@@ -0,0 +1,298 @@
+// Job worker - claims analysis_jobs with a lease, heartbeats while running,
+// retries failures with exponential backoff and recovers jobs whose lease expired.
+// Started once per Node server process from src/instrumentation.ts.
+import { hostname } from 'os'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getAnalysisModel, getTranscriptionModel, isModelConfigured } from '@/lib/ai'
+import { processAnalysis } from '@/lib/pipeline/w4Analysis'
+import { processTranscription, processTranscriptAnalysis } from '@/lib/pipeline/transcription'
+import { markReplayFailed, processPromptReplay } from '@/lib/pipeline/promptReplay'
+import { AnalysisJob, AnalysisJobType } from '@/types/database'
+
+const LEASE_SECONDS = 120
+const HEARTBEAT_INTERVAL_MS = 30_000
+const POLL_INTERVAL_MS = 5_000
+const STALE_SWEEP_INTERVAL_MS = 60_000
+const BASE_BACKOFF_SECONDS = 30
+const MAX_BACKOFF_SECONDS = 600
+
+const WORKER_ID = `${hostname()}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`
+
+function getRubricName(job: AnalysisJob): string | undefined {
+  return typeof job.payload.rubricName === 'string' ? job.payload.rubricName : undefined
+}
+
+type JobHandler = (job: AnalysisJob, supabase: SupabaseClient) => Promise<void>
+
+const handlers: Record<AnalysisJobType, JobHandler> = {
+  analyze: (job, supabase) => processAnalysis({
+    supabase,
+    analysisId: job.analysis_id,
+    recordingId: job.recording_id,
+    filePath: String(job.payload.filePath),
+    durationSeconds: Number(job.payload.durationSeconds) || 0,
+    rubricName: getRubricName(job),
+  }),
+  transcribe: (job, supabase) => processTranscription({
+    supabase,
+    analysisId: job.analysis_id,
+    recordingId: job.recording_id,
+    userId: job.user_id,
+    filePath: String(job.payload.filePath),
+    durationSeconds: Number(job.payload.durationSeconds) || 0,
+    transcriptOnly: job.payload.transcriptOnly === true,
+    rubricName: getRubricName(job),
+  }),
+  transcript_analysis: (job, supabase) => processTranscriptAnalysis({
+    supabase,
+    analysisId: job.analysis_id,
+    recordingId: job.recording_id,
+    filePath: String(job.payload.filePath),
+    durationSeconds: Number(job.payload.durationSeconds) || 0,
+    rubricName: getRubricName(job),
+  }),
+  prompt_replay: (job, supabase) => processPromptReplay({
+    supabase,
+    analysisId: job.analysis_id,
+    recordingId: job.recording_id,
+    resultId: String(job.payload.resultId),
+    filePath: String(job.payload.filePath),
+    durationSeconds: Number(job.payload.durationSeconds) || 0,
+  }),
+}
+
+// Error message shown on the analysis row when a job gives up, per job type
+const FAILURE_MESSAGES: Record<AnalysisJobType, { prefix: string; chunkMessage: string }> = {
+  analyze: { prefix: '', chunkMessage: 'Error occurred' },
+  transcribe: { prefix: '', chunkMessage: 'Transcription failed' },
+  transcript_analysis: { prefix: 'W4 Analysis failed: ', chunkMessage: 'Analysis failed' },
+  prompt_replay: { prefix: 'Replay failed: ', chunkMessage: 'Replay failed' },
+}
+
+let started = false
+const sleepers = new Set<() => void>()
+
+function getBackoffSeconds(attempts: number): number {
+  return Math.min(BASE_BACKOFF_SECONDS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_BACKOFF_SECONDS)
+}
+
+// Start polling loops. Safe to call more than once - only the first call starts the worker.
+export function startJobWorker() {
+  if (started) return
+
+  const supabase = createAdminClient()
+  if (!supabase) {
+    console.warn('⚠️ Job worker disabled: SUPABASE_SERVICE_ROLE_KEY not configured')
+    return
+  }
+
+  const unconfigured = [getAnalysisModel(), getTranscriptionModel()].filter(model => !isModelConfigured(model))
+  if (unconfigured.length > 0) {
+    console.warn(`⚠️ Job worker disabled: AI provider not configured for ${unconfigured.join(', ')}`)
+    return
+  }
+
+  started = true
+  const concurrency = Math.max(1, Number(process.env.JOB_WORKER_CONCURRENCY) || 2)
+
+  // Let enqueueJob() wake us from any module instance in this process
+  ;(globalThis as { __repfuelWakeJobWorker?: () => void }).__repfuelWakeJobWorker = wakeSleepers
+
+  console.log(`👷 Job worker ${WORKER_ID} started (concurrency ${concurrency})`)
+
+  runStaleSweepLoop(supabase)
+  for (let i = 0; i < concurrency; i++) {
+    runClaimLoop(supabase)
+  }
+}
+
+async function runClaimLoop(supabase: SupabaseClient) {
+  while (true) {
+    let job: AnalysisJob | null = null
+    try {
+      job = await claimJob(supabase)
+    } catch (error) {
+      console.error('❌ Failed to claim job:', error)
+    }
+
+    if (job) {
+      await runJob(supabase, job)
+    } else {
+      await sleep(POLL_INTERVAL_MS)
+    }
+  }
+}
+
+async function runStaleSweepLoop(supabase: SupabaseClient) {
+  while (true) {
+    try {
+      await recoverStaleJobs(supabase)
+    } catch (error) {
+      console.error('❌ Stale job sweep failed:', error)
+    }
+    await new Promise(resolve => setTimeout(resolve, STALE_SWEEP_INTERVAL_MS))
+  }
+}
+
+async function claimJob(supabase: SupabaseClient): Promise<AnalysisJob | null> {
+  const { data, error } = await supabase.rpc('claim_analysis_job', {
+    p_worker_id: WORKER_ID,
+    p_lease_seconds: LEASE_SECONDS,
+  })
+
+  if (error) throw error
+  const rows = (data || []) as AnalysisJob[]
+  return rows[0] || null
+}
+
+async function runJob(supabase: SupabaseClient, job: AnalysisJob) {
+  console.log(`▶️ Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`)
+
+  const heartbeat = setInterval(async () => {
+    const { data: stillOwned, error } = await supabase.rpc('heartbeat_analysis_job', {
+      p_job_id: job.id,
+      p_worker_id: WORKER_ID,
+      p_lease_seconds: LEASE_SECONDS,
+    })
+    if (error) {
+      console.error(`⚠️ Heartbeat failed for job ${job.id}:`, error.message)
+    } else if (!stillOwned) {
+      console.warn(`⚠️ Lost lease on job ${job.id} - another worker may pick it up`)
+    }
+  }, HEARTBEAT_INTERVAL_MS)
+
+  try {
+    await checkJobFilePath(supabase, job)
+    await handlers[job.type](job, supabase)
+
+    await supabase.from('analysis_jobs').update({
+      status: 'succeeded',
+      finished_at: new Date().toISOString(),
+      last_error: null,
+      locked_by: null,
+      lease_expires_at: null,
+      updated_at: new Date().toISOString(),
+    }).eq('id', job.id).eq('locked_by', WORKER_ID)
+
+    console.log(`✅ Job ${job.id} succeeded`)
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error)
+    console.error(`❌ Job ${job.id} failed:`, errMsg)
+    await handleJobFailure(supabase, job, errMsg)
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+// Handlers download payload.filePath with the service role, so it must be one of the
+// job's own recording files (the original or its analysis copy)
+async function checkJobFilePath(supabase: SupabaseClient, job: AnalysisJob) {
+  const { data: recording, error } = await supabase
+    .from('recordings')
+    .select('file_path, analysis_file_path')
+    .eq('id', job.recording_id)
+    .single()
+
+  if (error || !recording) {
+    throw new Error('Recording not found')
+  }
+
+  const filePath = job.payload.filePath
+  if (typeof filePath !== 'string' || (filePath !== recording.file_path && filePath !== recording.analysis_file_path)) {
+    throw new Error(`Job file does not belong to recording ${job.recording_id}`)
+  }
+}
+
+async function handleJobFailure(supabase: SupabaseClient, job: AnalysisJob, errMsg: string) {
+  const now = new Date()
+
+  if (job.attempts < job.max_attempts) {
+    const delaySeconds = getBackoffSeconds(job.attempts)
+
+    await supabase.from('analysis_jobs').update({
+      status: 'queued',
+      run_at: new Date(now.getTime() + delaySeconds * 1000).toISOString(),
+      last_error: errMsg.substring(0, 1000),
+      locked_by: null,
+      lease_expires_at: null,
+      updated_at: now.toISOString(),
+    }).eq('id', job.id).eq('locked_by', WORKER_ID)
+
+    // Replays are dry runs - the analysis they replay isn't ours to update
+    if (job.type !== 'prompt_replay') {
+      await supabase.from('audio_analyses').update({
+        current_chunk_message: `Attempt ${job.attempts} failed, retrying in ${delaySeconds}s...`,
+      }).eq('id', job.analysis_id)
+    }
+    return
+  }
+
+  await supabase.from('analysis_jobs').update({
+    status: 'failed',
+    finished_at: now.toISOString(),
+    last_error: errMsg.substring(0, 1000),
+    locked_by: null,
+    lease_expires_at: null,
+    updated_at: now.toISOString(),
+  }).eq('id', job.id).eq('locked_by', WORKER_ID)
+
+  await markAnalysisFailed(supabase, job, errMsg)
+}
+
+// Re-queue (or fail) jobs whose worker stopped heartbeating, e.g. after a restart
+async function recoverStaleJobs(supabase: SupabaseClient) {
+  const { data, error } = await supabase.rpc('requeue_stale_analysis_jobs', {
+    p_base_backoff_seconds: BASE_BACKOFF_SECONDS,
+  })
+  if (error) throw error
+
+  for (const job of (data || []) as AnalysisJob[]) {
+    if (job.status === 'failed') {
+      console.warn(`💀 Stale job ${job.id} out of attempts - marking failed`)
+      await markAnalysisFailed(supabase, job, job.last_error || 'Worker stopped mid-run')
+    } else {
+      console.warn(`♻️ Re-queued stale job ${job.id}`)
+      if (job.type !== 'prompt_replay') {
+        await supabase.from('audio_analyses').update({
+          current_chunk_message: 'Processing was interrupted, retrying...',
+        }).eq('id', job.analysis_id)
+      }
+    }
+  }
+}
+
+async function markAnalysisFailed(supabase: SupabaseClient, job: AnalysisJob, errMsg: string) {
+  const { prefix, chunkMessage } = FAILURE_MESSAGES[job.type]
+
+  if (job.type === 'prompt_replay') {
+    await markReplayFailed(supabase, String(job.payload.resultId), `${prefix}${errMsg}`)
+    return
+  }
+
+  await supabase.from('audio_analyses').update({
+    processing_status: 'error',
+    processing_stage: 'error',
+    error_message: `${prefix}${errMsg}`.substring(0, 500),
+    current_chunk_message: chunkMessage,
+  }).eq('id', job.analysis_id)
+
+  await supabase.from('recordings').update({ status: 'error' }).eq('id', job.recording_id)
+}
+
+// Sleep that enqueueJob() can cut short
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer)
+      sleepers.delete(done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    sleepers.add(done)
+  })
+}
+
+function wakeSleepers() {
+  sleepers.forEach(wake => wake())
+}
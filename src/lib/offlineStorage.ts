@@ -1,23 +1,90 @@
 // Offline storage using IndexedDB for audio recordings
 // Allows recording without internet and syncing later
+import type { RecordingCallDetails } from '@/types/database'
 
 const DB_NAME = 'repfuel-offline'
-const DB_VERSION = 1
+const DB_VERSION = 2
 const STORE_NAME = 'pending-recordings'
+const SESSION_STORE = 'recording-sessions' // v2: recordings still in progress
+const CHUNK_STORE = 'recording-chunks'     // v2: their MediaRecorder chunks, flushed as they arrive
 
 export interface PendingRecording {
   id: string
   fileName: string
+  displayName?: string      // recordings.file_name once synced; defaults to fileName
   fileSize: number
   mimeType: string
+  duration?: number | null  // Seconds, when known at capture time
+  callDetails?: Partial<RecordingCallDetails>  // Entered before recording; saved on the recordings row
   audioBlob: Blob
   createdAt: string
   userId: string
   status: 'pending' | 'uploading' | 'error'
   errorMessage?: string
   retryCount: number
+  uploadPath?: string       // Storage path of a service-worker upload in progress
+  uploadUrl?: string        // Its tus URL, so a later attempt resumes instead of starting over
+  lastAttemptAt?: string    // When an upload was last claimed
+  nextAttemptAt?: string    // After a failure: when automatic retries may try again
 }
 
+// Where a queued recording stands in the retry policy
+export type RetryState =
+  | { kind: 'ready' }                             // Uploads on the next sync
+  | { kind: 'uploading' }
+  | { kind: 'backoff'; nextAttemptAt: number }    // Failed, retried automatically after this time
+  | { kind: 'exhausted' }                         // Out of automatic retries, waits for a manual retry
+
+// Browser storage for the queue; null where the Storage API isn't available
+export interface StorageEstimate {
+  usage: number
+  quota: number
+  persisted: boolean
+}
+
+// A recording being captured. Chunks are written as MediaRecorder produces them, so if the tab
+// dies mid-call the audio so far survives. The session is deleted once the finished recording
+// has been uploaded, queued in pending-recordings, or discarded.
+export interface RecordingSession {
+  id: string
+  userId: string
+  mimeType: string
+  startedAt: string
+  updatedAt: string
+  durationSeconds: number
+  chunkCount: number
+  totalSize: number
+  callDetails?: Partial<RecordingCallDetails>  // As entered when recording started
+}
+
+interface RecordingChunk {
+  sessionId: string
+  index: number
+  data: Blob
+}
+
+// A session nobody has written to for this long is no longer being recorded
+const STALE_SESSION_MS = 60 * 1000
+
+// Registered with Background Sync / periodic sync; the service worker drains the queue under it
+export const BACKGROUND_SYNC_TAG = 'pending-recordings'
+
+// An 'uploading' claim older than this belongs to a page or worker that died mid-upload
+const STALE_UPLOAD_MS = 15 * 60 * 1000
+
+// Failed uploads back off exponentially (30s, 1m, 2m, ... capped at 1h) and stop retrying on
+// their own after MAX_AUTO_RETRIES; a manual retry from the queue screen starts over
+export const MAX_AUTO_RETRIES = 6
+const RETRY_BASE_DELAY_MS = 30 * 1000
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000
+
+// Warn when less than this is left, or the quota is this full
+const LOW_STORAGE_BYTES = 250 * 1024 * 1024
+const LOW_STORAGE_RATIO = 0.9
+
+// Sessions recorded by this page, never reported as interrupted
+const activeSessionIds = new Set<string>()
+
 let db: IDBDatabase | null = null
 
 // Initialize IndexedDB
@@ -41,7 +108,7 @@ export async function initOfflineDB(): Promise<IDBDatabase> {
     request.onupgradeneeded = (event) => {
       const database = (event.target as IDBOpenDBRequest).result
       
-      // Create object store for pending recordings
+      // v1: object store for pending recordings
       if (!database.objectStoreNames.contains(STORE_NAME)) {
         const store = database.createObjectStore(STORE_NAME, { keyPath: 'id' })
         store.createIndex('status', 'status', { unique: false })
@@ -49,6 +116,15 @@ export async function initOfflineDB(): Promise<IDBDatabase> {
         store.createIndex('userId', 'userId', { unique: false })
         console.log('📦 Created pending-recordings store')
       }
+
+      // v2: in-progress recording sessions and their chunks
+      if (event.oldVersion < 2) {
+        const sessions = database.createObjectStore(SESSION_STORE, { keyPath: 'id' })
+        sessions.createIndex('userId', 'userId', { unique: false })
+        const chunks = database.createObjectStore(CHUNK_STORE, { keyPath: ['sessionId', 'index'] })
+        chunks.createIndex('sessionId', 'sessionId', { unique: false })
+        console.log('📦 Created recording-sessions and recording-chunks stores')
+      }
     }
   })
 }
@@ -147,6 +223,7 @@ export async function updateRecordingStatus(
       if (errorMessage) {
         recording.errorMessage = errorMessage
         recording.retryCount += 1
+        recording.nextAttemptAt = new Date(Date.now() + retryDelayMs(recording.retryCount)).toISOString()
       }
       
       const putRequest = store.put(recording)
@@ -179,6 +256,225 @@ export async function deleteOfflineRecording(id: string): Promise<void> {
   })
 }
 
+// Delay before the next automatic retry after `retryCount` failures
+export function retryDelayMs(retryCount: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(retryCount - 1, 0), RETRY_MAX_DELAY_MS)
+}
+
+export function getRetryState(recording: PendingRecording, now = Date.now()): RetryState {
+  if (recording.status === 'pending') return { kind: 'ready' }
+
+  if (recording.status === 'uploading') {
+    const lastAttempt = recording.lastAttemptAt ? new Date(recording.lastAttemptAt).getTime() : 0
+    return now - lastAttempt > STALE_UPLOAD_MS ? { kind: 'ready' } : { kind: 'uploading' }
+  }
+
+  if (recording.retryCount >= MAX_AUTO_RETRIES) return { kind: 'exhausted' }
+  const nextAttemptAt = recording.nextAttemptAt ? new Date(recording.nextAttemptAt).getTime() : 0
+  return nextAttemptAt > now ? { kind: 'backoff', nextAttemptAt } : { kind: 'ready' }
+}
+
+// Whether a queued recording is due for another upload attempt
+export function canAttemptUpload(recording: PendingRecording): boolean {
+  return getRetryState(recording).kind === 'ready'
+}
+
+// Mark a recording as uploading, unless the page or service worker already has. Both drain the
+// same store, so the check and the write share one transaction. Resolves null if not claimed.
+export async function claimPendingRecording(id: string): Promise<PendingRecording | null> {
+  const database = await initOfflineDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([STORE_NAME], 'readwrite')
+    const store = transaction.objectStore(STORE_NAME)
+    const getRequest = store.get(id)
+
+    getRequest.onsuccess = () => {
+      const recording = getRequest.result as PendingRecording | undefined
+      if (!recording || !canAttemptUpload(recording)) {
+        resolve(null)
+        return
+      }
+
+      recording.status = 'uploading'
+      recording.lastAttemptAt = new Date().toISOString()
+
+      const putRequest = store.put(recording)
+      putRequest.onsuccess = () => resolve(recording)
+      putRequest.onerror = () => reject(putRequest.error)
+    }
+
+    getRequest.onerror = () => reject(getRequest.error)
+  })
+}
+
+// Save fields of a queued recording (e.g. the resumable upload URL)
+export async function updatePendingRecording(
+  id: string,
+  changes: Partial<Omit<PendingRecording, 'id'>>
+): Promise<void> {
+  const database = await initOfflineDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([STORE_NAME], 'readwrite')
+    const store = transaction.objectStore(STORE_NAME)
+    const getRequest = store.get(id)
+
+    getRequest.onsuccess = () => {
+      const recording = getRequest.result as PendingRecording | undefined
+      if (!recording) {
+        reject(new Error('Recording not found'))
+        return
+      }
+
+      const putRequest = store.put({ ...recording, ...changes })
+      putRequest.onsuccess = () => resolve()
+      putRequest.onerror = () => reject(putRequest.error)
+    }
+
+    getRequest.onerror = () => reject(getRequest.error)
+  })
+}
+
+// Manual retry: back to the front of the queue with a fresh set of automatic retries
+export async function resetRecordingRetries(id: string): Promise<void> {
+  await updatePendingRecording(id, {
+    status: 'pending',
+    retryCount: 0,
+    errorMessage: undefined,
+    nextAttemptAt: undefined,
+  })
+}
+
+// ============================================
+// IN-PROGRESS RECORDING SESSIONS
+// ============================================
+
+// Start persisting a new recording
+export async function startRecordingSession(
+  id: string,
+  userId: string,
+  mimeType: string,
+  callDetails?: Partial<RecordingCallDetails>
+): Promise<void> {
+  const database = await initOfflineDB()
+  const now = new Date().toISOString()
+  const session: RecordingSession = {
+    id,
+    userId,
+    mimeType,
+    startedAt: now,
+    updatedAt: now,
+    durationSeconds: 0,
+    chunkCount: 0,
+    totalSize: 0,
+    callDetails,
+  }
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([SESSION_STORE], 'readwrite')
+    transaction.objectStore(SESSION_STORE).add(session)
+    transaction.oncomplete = () => {
+      activeSessionIds.add(id)
+      console.log('🎙️ Recording session started:', id)
+      resolve()
+    }
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+// Write one MediaRecorder chunk and bump the session in the same transaction
+export async function appendRecordingChunk(
+  sessionId: string,
+  index: number,
+  data: Blob,
+  durationSeconds: number
+): Promise<void> {
+  const database = await initOfflineDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([SESSION_STORE, CHUNK_STORE], 'readwrite')
+    const sessions = transaction.objectStore(SESSION_STORE)
+
+    const getRequest = sessions.get(sessionId)
+    getRequest.onsuccess = () => {
+      // Already saved or discarded - a late chunk would only be left orphaned
+      const session = getRequest.result as RecordingSession | undefined
+      if (!session) return
+
+      const chunk: RecordingChunk = { sessionId, index, data }
+      transaction.objectStore(CHUNK_STORE).put(chunk)
+      session.updatedAt = new Date().toISOString()
+      session.durationSeconds = Math.max(session.durationSeconds, durationSeconds)
+      session.chunkCount = Math.max(session.chunkCount, index + 1)
+      session.totalSize += data.size
+      sessions.put(session)
+    }
+
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+// Sessions left behind by a crashed or closed tab - not recorded by this page and gone quiet
+export async function getInterruptedSessions(userId: string): Promise<RecordingSession[]> {
+  const database = await initOfflineDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([SESSION_STORE], 'readonly')
+    const request = transaction.objectStore(SESSION_STORE).index('userId').getAll(userId)
+
+    request.onsuccess = () => {
+      const staleBefore = Date.now() - STALE_SESSION_MS
+      const sessions = (request.result as RecordingSession[]).filter(session =>
+        !activeSessionIds.has(session.id) &&
+        session.chunkCount > 0 &&
+        new Date(session.updatedAt).getTime() < staleBefore
+      )
+      resolve(sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt)))
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Rebuild the audio from a session's chunks, in recording order
+export async function assembleRecordingSession(session: RecordingSession): Promise<Blob> {
+  const database = await initOfflineDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([CHUNK_STORE], 'readonly')
+    const request = transaction.objectStore(CHUNK_STORE).index('sessionId').getAll(session.id)
+
+    request.onsuccess = () => {
+      const chunks = (request.result as RecordingChunk[]).sort((a, b) => a.index - b.index)
+      resolve(new Blob(chunks.map(chunk => chunk.data), { type: session.mimeType }))
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Take over a recovered session so it isn't offered again while this page finishes it
+export function claimRecordingSession(sessionId: string) {
+  activeSessionIds.add(sessionId)
+}
+
+// Delete a session and its chunks (after upload, offline save or discard)
+export async function deleteRecordingSession(sessionId: string): Promise<void> {
+  const database = await initOfflineDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([SESSION_STORE, CHUNK_STORE], 'readwrite')
+    transaction.objectStore(SESSION_STORE).delete(sessionId)
+    transaction.objectStore(CHUNK_STORE).delete(IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]))
+    transaction.oncomplete = () => {
+      activeSessionIds.delete(sessionId)
+      console.log('🗑️ Deleted recording session:', sessionId)
+      resolve()
+    }
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
 // Get count of pending recordings
 export async function getPendingCount(userId?: string): Promise<number> {
   const recordings = await getPendingRecordings(userId)
@@ -191,6 +487,31 @@ export async function getPendingSize(userId?: string): Promise<number> {
   return recordings.reduce((sum, r) => sum + r.fileSize, 0)
 }
 
+// How much room the queue has left on this device
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false
+    return { usage, quota, persisted }
+  } catch (error) {
+    console.error('Failed to estimate storage:', error)
+    return null
+  }
+}
+
+export function isStorageLow(estimate: StorageEstimate): boolean {
+  if (!estimate.quota) return false
+  return estimate.quota - estimate.usage < LOW_STORAGE_BYTES || estimate.usage / estimate.quota > LOW_STORAGE_RATIO
+}
+
+// Ask the browser not to evict the queue under storage pressure
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false
+  return navigator.storage.persist()
+}
+
 // Check if we're online
 export function isOnline(): boolean {
   return typeof navigator !== 'undefined' ? navigator.onLine : true
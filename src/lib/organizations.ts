@@ -0,0 +1,195 @@
+// Organizations, teams and invites. Access rules live in RLS (supabase/migrations/011_organizations.sql);
+// these helpers give routes and pages the same answers up front so they can return clear errors.
+import { SupabaseClient, User } from '@supabase/supabase-js'
+import { notFound, redirect } from 'next/navigation'
+import { canOverrideScores } from '@/lib/w4/overrides'
+import { InviteRole, Organization, OrganizationInvite, SaleOutcome, Team, W4Report } from '@/types/database'
+
+export const INVITE_ROLES: InviteRole[] = ['user', 'manager']
+
+export interface OrganizationMemberSummary {
+  user_id: string
+  email: string
+  role: string
+  team_id: string | null
+}
+
+export interface OrganizationSummary extends Organization {
+  teams: Team[]
+  members: OrganizationMemberSummary[]
+  invites: OrganizationInvite[]  // Pending only
+}
+
+// Whether the signed-in user can see and coach this user's recordings (admins, or their manager)
+export async function canReviewUser(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('can_review_user', { target: userId })
+  if (error) {
+    console.warn('⚠️ can_review_user failed:', error.message)
+    return false
+  }
+  return data === true
+}
+
+// Organization id the signed-in user manages, or null
+export async function getManagedOrganizationId(supabase: SupabaseClient): Promise<string | null> {
+  const { data } = await supabase.rpc('managed_organization_id')
+  return data || null
+}
+
+export interface ReviewScope {
+  organizations: { id: string; name: string }[]  // Admins only - the organizations they can switch between
+  organizationId: string | null
+  memberIds: string[]
+}
+
+// The organization a reviewer's team pages cover: managers get the one they manage, admins pick one
+// (?org=, defaulting to the first). RLS still trims the members' calls for managers who lead one team.
+export async function loadReviewScope(supabase: SupabaseClient, isAdmin: boolean, requestedOrgId?: string): Promise<ReviewScope> {
+  const { data: organizations } = isAdmin
+    ? await supabase.from('organizations').select('id, name').order('name')
+    : { data: null }
+  const organizationId: string | null = isAdmin
+    ? requestedOrgId || organizations?.[0]?.id || null
+    : await getManagedOrganizationId(supabase)
+
+  if (!organizationId) {
+    return { organizations: organizations || [], organizationId: null, memberIds: [] }
+  }
+
+  const { data: members } = await supabase
+    .from('organization_members')
+    .select('user_id')
+    .eq('organization_id', organizationId)
+
+  return {
+    organizations: organizations || [],
+    organizationId,
+    memberIds: (members || []).map((m: { user_id: string }) => m.user_id),
+  }
+}
+
+export interface ReviewerScope extends ReviewScope {
+  supabase: SupabaseClient
+  user: User
+  isAdmin: boolean
+}
+
+// Auth, role gate and organization for the team pages (leaderboard, objections): signed-out
+// visitors go to /login and reps get a 404
+export async function requireReviewScope(supabase: SupabaseClient | null, requestedOrgId?: string): Promise<ReviewerScope> {
+  if (!supabase) {
+    redirect('/login')
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    redirect('/login')
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!canOverrideScores(profile?.role)) {
+    notFound()
+  }
+
+  const isAdmin = profile?.role === 'admin'
+  return { supabase, user, isAdmin, ...(await loadReviewScope(supabase, isAdmin, requestedOrgId)) }
+}
+
+// ============================================================================
+// REVIEWED CALLS
+// ============================================================================
+
+export const REVIEW_WINDOW_DAYS = 365        // How far back the team pages look without a From date
+export const BUILT_IN_RUBRIC_FILTER = 'built-in'
+
+export interface ReviewedCallFilters {
+  from?: string      // Inclusive, "YYYY-MM-DD"; REVIEW_WINDOW_DAYS ago when unset
+  to?: string        // Inclusive, "YYYY-MM-DD"
+  rubricId?: string  // A w4_rubrics id, or BUILT_IN_RUBRIC_FILTER for reports scored without one
+}
+
+interface ReviewedCallRow {
+  recording_id: string
+  title: string | null
+  recordings: { user_id: string; created_at: string; file_name: string }
+}
+
+export interface ReviewedReport extends ReviewedCallRow {
+  w4_report: W4Report
+}
+
+export interface LostDeal extends ReviewedCallRow {
+  sale_outcome: SaleOutcome
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Finished analyses of these users' calls, with the call-date and rubric filters done by the database
+function queryReviewedCalls(supabase: SupabaseClient, userIds: string[], columns: string, filters: ReviewedCallFilters) {
+  const from = filters.from && DATE_PATTERN.test(filters.from)
+    ? `${filters.from}T00:00:00Z`
+    : new Date(Date.now() - REVIEW_WINDOW_DAYS * DAY_MS).toISOString()
+
+  let query = supabase
+    .from('audio_analyses')
+    .select(`recording_id, title, ${columns}, recordings!inner(user_id, created_at, file_name)`)
+    .in('recordings.user_id', userIds)
+    .eq('processing_status', 'done')
+    .gte('recordings.created_at', from)
+
+  if (filters.to && DATE_PATTERN.test(filters.to)) {
+    query = query.lt('recordings.created_at', new Date(Date.parse(`${filters.to}T00:00:00Z`) + DAY_MS).toISOString())
+  }
+  if (filters.rubricId === BUILT_IN_RUBRIC_FILTER) {
+    query = query.is('w4_report->rubric->>id', null)
+  } else if (filters.rubricId) {
+    query = query.eq('w4_report->rubric->>id', filters.rubricId)
+  }
+  return query
+}
+
+export async function loadReviewedReports(
+  supabase: SupabaseClient,
+  userIds: string[],
+  filters: ReviewedCallFilters = {}
+): Promise<ReviewedReport[]> {
+  if (userIds.length === 0) return []
+
+  const { data, error } = await queryReviewedCalls(supabase, userIds, 'w4_report', filters)
+    .not('w4_report', 'is', null)
+    .overrideTypes<ReviewedReport[], { merge: false }>()
+
+  if (error) throw error
+  return data || []
+}
+
+// Lost deals only; the sale outcome is pulled out of the report so the whole JSON isn't loaded
+export async function loadLostDeals(
+  supabase: SupabaseClient,
+  userIds: string[],
+  filters: ReviewedCallFilters = {}
+): Promise<LostDeal[]> {
+  if (userIds.length === 0) return []
+
+  const { data, error } = await queryReviewedCalls(supabase, userIds, 'sale_outcome:w4_report->sale_outcome', filters)
+    .eq('w4_report->sale_outcome->>closed', 'false')
+    .overrideTypes<LostDeal[], { merge: false }>()
+
+  if (error) throw error
+  return data || []
+}
+
+export function buildInviteUrl(siteUrl: string, token: string): string {
+  return `${siteUrl.replace(/\/$/, '')}/signup?invite=${token}`
+}
+
+export function normalizeEmail(email: unknown): string | null {
+  const trimmed = typeof email === 'string' ? email.trim().toLowerCase() : ''
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed) ? trimmed : null
+}
@@ -0,0 +1,93 @@
+// Cut a time range out of an MP3 without decoding it. Analysis copies are mono MP3s
+// (src/lib/recordingUpload.ts), and MP3 frames stand on their own, so a window is just the
+// frames that start inside it. Anything that isn't a clean MP3 returns null and callers fall
+// back to the whole file.
+
+// Layer III bitrates (kbps) by bitrate index: MPEG-1, then MPEG-2 / 2.5
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+
+// Sample rates by version bits (00 = MPEG-2.5, 10 = MPEG-2, 11 = MPEG-1)
+const SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+}
+
+interface Mp3Frame {
+  offset: number
+  length: number
+  seconds: number
+}
+
+function readFrame(bytes: Uint8Array, offset: number): Mp3Frame | null {
+  if (offset + 4 > bytes.length) return null
+  if (bytes[offset] !== 0xFF || (bytes[offset + 1] & 0xE0) !== 0xE0) return null
+
+  const version = (bytes[offset + 1] >> 3) & 0x03
+  const layer = (bytes[offset + 1] >> 1) & 0x03
+  const bitrateIndex = bytes[offset + 2] >> 4
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03
+  const padding = (bytes[offset + 2] >> 1) & 0x01
+
+  // Layer III only, no free-format or reserved values
+  if (layer !== 1 || !SAMPLE_RATES[version] || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null
+  }
+
+  const isMpeg1 = version === 3
+  const bitrate = (isMpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex] * 1000
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex]
+  const samples = isMpeg1 ? 1152 : 576
+
+  return {
+    offset,
+    length: Math.floor((samples / 8) * bitrate / sampleRate) + padding,
+    seconds: samples / sampleRate,
+  }
+}
+
+// Size of a leading ID3v2 tag, if any
+function id3Length(bytes: Uint8Array): number {
+  if (bytes.length < 10 || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return 0
+  const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]
+  return 10 + size + ((bytes[5] & 0x10) ? 10 : 0)
+}
+
+// Xing/Info frames describe the whole file's length - a clip must not carry one
+function isInfoFrame(bytes: Uint8Array, frame: Mp3Frame): boolean {
+  const text = String.fromCharCode(...bytes.subarray(frame.offset, Math.min(frame.offset + 64, bytes.length)))
+  return text.includes('Xing') || text.includes('Info')
+}
+
+// Frames starting in [startSeconds, endSeconds), or null if the data isn't a readable MP3
+export function clipMp3(data: ArrayBuffer, startSeconds: number, endSeconds: number): Blob | null {
+  const bytes = new Uint8Array(data)
+  let offset = id3Length(bytes)
+  let time = 0
+  let first = true
+  let clipStart = -1
+  let clipEnd = -1
+
+  while (offset < bytes.length) {
+    const frame = readFrame(bytes, offset)
+    if (!frame) {
+      // Only an ID3v1 tag may follow the last frame; anything else means the frames lost sync
+      if (bytes.length - offset > 128) return null
+      break
+    }
+
+    const skip = first && isInfoFrame(bytes, frame)
+    first = false
+    if (!skip) {
+      if (time >= endSeconds) break
+      if (time >= startSeconds && clipStart < 0) clipStart = frame.offset
+      time += frame.seconds
+    }
+    offset += frame.length
+    if (clipStart >= 0) clipEnd = Math.min(offset, bytes.length)
+  }
+
+  if (clipStart < 0 || clipEnd <= clipStart) return null
+  return new Blob([bytes.slice(clipStart, clipEnd)], { type: 'audio/mpeg' })
+}
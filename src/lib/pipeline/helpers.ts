@@ -0,0 +1,83 @@
+// Shared helpers for the analysis/transcription pipelines
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { AIProvider, AIUploadedFile } from '@/lib/ai'
+import { RecordingCallDetails } from '@/types/database'
+
+export function formatTime(seconds: number): string {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = Math.floor(seconds % 60)
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}` : `${m}:${String(s).padStart(2, '0')}`
+}
+
+export async function updateProgress(supabase: SupabaseClient, analysisId: string, message: string, stage?: string) {
+  const update: Record<string, unknown> = { current_chunk_message: message }
+  if (stage) update.processing_stage = stage
+  await supabase.from('audio_analyses').update(update).eq('id', analysisId)
+}
+
+// "12:34" / "1:02:03" -> seconds (null if it isn't a timestamp)
+export function parseTimestamp(timestamp: string): number | null {
+  const parts = timestamp.trim().split(':')
+  if (parts.length < 2 || parts.length > 3 || parts.some(p => !/^\d+$/.test(p))) return null
+  return parts.map(Number).reduce((total, part) => total * 60 + part, 0)
+}
+
+export function getMimeType(filePath: string): string {
+  if (filePath.endsWith('.wav')) return 'audio/wav'
+  if (filePath.endsWith('.m4a')) return 'audio/mp4'
+  if (filePath.endsWith('.mp4')) return 'audio/mp4'
+  if (filePath.endsWith('.webm')) return 'audio/webm'
+  if (filePath.endsWith('.ogg')) return 'audio/ogg'
+  if (filePath.endsWith('.flac')) return 'audio/flac'
+  return 'audio/mpeg' // default to mp3
+}
+
+// Download an audio file from storage (simple retry for 5xx errors)
+export async function downloadAudio(supabase: SupabaseClient, filePath: string): Promise<Blob> {
+  const { data: signedUrlData, error: signedUrlError } = await supabase.storage
+    .from('audio-files')
+    .createSignedUrl(filePath, 3600)
+
+  if (signedUrlError || !signedUrlData) {
+    throw new Error('Failed to get signed URL for audio file')
+  }
+
+  let audioResponse: Response | null = null
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    audioResponse = await fetch(signedUrlData.signedUrl)
+    if (audioResponse.ok) break
+    if (audioResponse.status >= 500 && attempt < 3) {
+      console.log(`⚠️ Fetch failed (${audioResponse.status}), retrying in ${attempt * 2}s...`)
+      await new Promise(r => setTimeout(r, attempt * 2000))
+    }
+  }
+
+  if (!audioResponse?.ok) {
+    throw new Error(`Failed to fetch audio: ${audioResponse?.status}`)
+  }
+
+  const blob = await audioResponse.blob()
+  return new Blob([await blob.arrayBuffer()], { type: getMimeType(filePath) })
+}
+
+// Delete the provider's copy of the customer's audio. Called from `finally` so failed (and retried)
+// jobs don't leave copies behind; a failed cleanup never fails the job.
+export async function deleteUploadedFile(provider: AIProvider, file: AIUploadedFile) {
+  try {
+    await provider.deleteFile(file)
+    console.log('🗑️ Cleaned up uploaded file')
+  } catch {
+    // Ignore cleanup errors
+  }
+}
+
+// Call details the rep entered before recording, if any (null for older recordings)
+export async function loadCallDetails(supabase: SupabaseClient, recordingId: string): Promise<RecordingCallDetails | null> {
+  const { data } = await supabase
+    .from('recordings')
+    .select('client_name, client_address, appointment_type, lead_source, call_notes')
+    .eq('id', recordingId)
+    .maybeSingle()
+  return data || null
+}
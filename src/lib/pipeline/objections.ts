@@ -0,0 +1,118 @@
+// Files lost deals into the objection taxonomy (src/lib/w4/objections.ts) and keeps call_objections
+// in step with the latest report. The analysis model usually picks the category itself; reports
+// from before objection_category existed are classified here in one text-only batch request.
+import { SupabaseClient } from '@supabase/supabase-js'
+import { AIProvider, AIUsage, generateText } from '@/lib/ai'
+import { OBJECTION_CATEGORIES, OBJECTION_CATEGORY_KEYS, classifyObjectionByRules, isLostDeal, isObjectionCategory } from '@/lib/w4/objections'
+import { ObjectionCategory, ObjectionSource, W4Report } from '@/types/database'
+import { parseModelJson } from './w4Report'
+
+// Keeps one request comfortably small; the rest wait for the next batch
+export const MAX_CLASSIFY_BATCH = 100
+
+function buildClassificationPrompt(reasons: string[]): string {
+  const categories = OBJECTION_CATEGORY_KEYS
+    .map(key => `- ${key}: ${OBJECTION_CATEGORIES[key].label}`)
+    .join('\n')
+
+  return `You sort the reasons homeowners gave for not signing with a roofing sales rep.
+Put each reason into exactly one of these categories:
+${categories}
+
+Use "other" only when none of the others fit.
+
+Reasons:
+${reasons.map((reason, i) => `${i + 1}. ${JSON.stringify(reason)}`).join('\n')}
+
+Return ONLY valid JSON with one category per reason, in the same order:
+{"categories": ["price", "timing"]}`
+}
+
+// One category per reason. Anything the model leaves out or gets wrong falls back to keyword rules.
+export async function classifyObjections(params: {
+  provider: AIProvider
+  model: string
+  reasons: string[]
+}): Promise<{ results: { category: ObjectionCategory; source: ObjectionSource }[]; usage: AIUsage }> {
+  const { provider, model, reasons } = params
+  const byRules = () => reasons.map(reason => ({ category: classifyObjectionByRules(reason), source: 'rules' as const }))
+  if (reasons.length === 0) {
+    return { results: [], usage: { inputTokens: 0, outputTokens: 0 } }
+  }
+
+  try {
+    const { text, usage } = await generateText(provider, {
+      model,
+      prompt: buildClassificationPrompt(reasons),
+      temperature: 0,
+      maxOutputTokens: 4000,
+      json: true,
+    })
+
+    const parsed = parseModelJson(text) as { categories?: unknown } | null
+    const categories = Array.isArray(parsed?.categories) ? parsed.categories : []
+    const results = reasons.map((reason, i) => isObjectionCategory(categories[i])
+      ? { category: categories[i] as ObjectionCategory, source: 'ai' as const }
+      : { category: classifyObjectionByRules(reason), source: 'rules' as const }
+    )
+    return { results, usage }
+  } catch (error) {
+    console.warn('⚠️ Objection classification failed, using keyword rules:', error)
+    return { results: byRules(), usage: { inputTokens: 0, outputTokens: 0 } }
+  }
+}
+
+// After a report is saved: file a lost deal under the model's category (or the keyword rules'),
+// drop the row if the call turned out to be a sale. A manager's manual category is left alone.
+export async function saveCallObjection(params: {
+  supabase: SupabaseClient
+  analysisId: string
+  recordingId: string
+  report: W4Report
+}) {
+  const { supabase, analysisId, recordingId, report } = params
+
+  if (!isLostDeal(report)) {
+    await supabase.from('call_objections').delete().eq('recording_id', recordingId)
+    return
+  }
+
+  const reason = report.sale_outcome?.objection_reason?.trim() || null
+  const { data: existing } = await supabase
+    .from('call_objections')
+    .select('source')
+    .eq('recording_id', recordingId)
+    .maybeSingle()
+
+  if (existing?.source === 'manual') {
+    await supabase
+      .from('call_objections')
+      .update({ analysis_id: analysisId, reason, updated_at: new Date().toISOString() })
+      .eq('recording_id', recordingId)
+    return
+  }
+
+  const { data: recording } = await supabase
+    .from('recordings')
+    .select('user_id')
+    .eq('id', recordingId)
+    .single()
+
+  if (!recording) throw new Error(`Recording ${recordingId} not found`)
+
+  const aiCategory = report.sale_outcome?.objection_category
+  const { error } = await supabase.from('call_objections').upsert({
+    recording_id: recordingId,
+    analysis_id: analysisId,
+    user_id: recording.user_id,
+    reason,
+    category: isObjectionCategory(aiCategory) ? aiCategory : classifyObjectionByRules(reason),
+    source: isObjectionCategory(aiCategory) ? 'ai' : 'rules',
+    corrected_by: null,
+    updated_at: new Date().toISOString(),
+  })
+
+  if (error) {
+    throw new Error(`Failed to save objection: ${error.message}`)
+  }
+}
@@ -0,0 +1,53 @@
+// Prompt replay - one 'prompt_replay' job re-runs a golden call with either the candidate
+// prompt or the baseline snapshot of a replay run, via processAnalysis in dry-run mode.
+import { SupabaseClient } from '@supabase/supabase-js'
+import { PromptReplayResult, PromptReplayRun } from '@/types/database'
+import { processAnalysis } from './w4Analysis'
+
+type ReplayResultRow = Pick<PromptReplayResult, 'variant'> & {
+  run: Pick<PromptReplayRun, 'candidate_prompt' | 'baseline_prompt'> | null
+}
+
+export async function processPromptReplay(params: {
+  supabase: SupabaseClient
+  analysisId: string
+  recordingId: string
+  resultId: string
+  filePath: string
+  durationSeconds: number
+}) {
+  const { supabase, analysisId, recordingId, resultId, filePath, durationSeconds } = params
+
+  const { data: result, error } = await supabase
+    .from('prompt_replay_results')
+    .select('variant, run:prompt_replay_runs(candidate_prompt, baseline_prompt)')
+    .eq('id', resultId)
+    .single()
+    .overrideTypes<ReplayResultRow, { merge: false }>()
+
+  if (error || !result?.run) {
+    throw new Error(`Replay result ${resultId} not found`)
+  }
+
+  console.log(`🧪 Replaying analysis ${analysisId} with the ${result.variant} prompt`)
+
+  await processAnalysis({
+    supabase,
+    analysisId,
+    recordingId,
+    filePath,
+    durationSeconds,
+    dryRun: {
+      resultId,
+      prompt: result.variant === 'candidate' ? result.run.candidate_prompt : result.run.baseline_prompt,
+    },
+  })
+}
+
+export async function markReplayFailed(supabase: SupabaseClient, resultId: string, errMsg: string) {
+  await supabase.from('prompt_replay_results').update({
+    status: 'error',
+    error_message: errMsg.substring(0, 500),
+    completed_at: new Date().toISOString(),
+  }).eq('id', resultId)
+}
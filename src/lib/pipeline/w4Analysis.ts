@@ -0,0 +1,325 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { W4_EDITABLE_CONTENT, buildW4OutputFormat } from '@/app/api/analyze/w4-prompt'
+import { AIProvider, AIUploadedFile, estimateCost, generateText, getAnalysisModel, getProviderForModel } from '@/lib/ai'
+import { loadActiveRubric } from '@/lib/w4/rubric'
+import { formatCallAnalyticsForPrompt } from '@/lib/transcript/analytics'
+import { formatCallDetailsForPrompt } from '@/lib/callDetails'
+import { deleteUploadedFile, downloadAudio, formatTime, loadCallDetails, updateProgress } from './helpers'
+import { parseW4Report } from './w4Report'
+import { saveCallObjection } from './objections'
+import {
+  LONG_RECORDING_THRESHOLD_SECONDS,
+  MergedFindings,
+  analyzeWindows,
+  applyMergedFindings,
+  buildSynthesisPrompt,
+} from './w4Windows'
+
+const STRICT_SCORING_RULES = `
+## STRICT SCORING RULES - MANDATORY
+1. **Default to 0 points** - Only give points if you hear CLEAR, EXPLICIT evidence
+2. **No assumptions** - If you don't hear it clearly, it didn't happen = 0 points
+3. **Partial credit is rare** - "Sort of did it" or "implied" = 0 or 1 point MAX
+4. **Be skeptical** - Ask yourself: "Would a tough sales manager accept this as evidence?"
+5. **Quote requirement** - Every score above 0 MUST have a direct quote from the audio
+6. **When in doubt, score LOWER** - It's better to be too strict than too lenient
+7. **Average call = 40-55 points** - A 60+ score means EXCELLENT execution with clear evidence
+
+DO NOT include a full transcript - only key quotes as evidence for scores.
+Focus on finding GAPS and WEAKNESSES, not praising what was done.`
+
+// Single request over the whole file, streamed to prevent timeouts
+async function streamReport(params: {
+  provider: AIProvider
+  model: string
+  file: AIUploadedFile
+  prompt: string
+  progress: (message: string) => Promise<void>
+}): Promise<{ responseText: string; inputTokens: number; outputTokens: number }> {
+  const { provider, model, file, prompt, progress } = params
+
+  // Pre-flight token count - very long inputs are the usual cause of empty responses
+  const promptTokens = await provider.countTokens({ model, file, prompt }).catch(() => 0)
+  if (promptTokens) {
+    console.log(`🔢 Input tokens: ${promptTokens}`)
+  }
+
+  const stream = provider.streamGenerate({
+    model,
+    file,
+    prompt,
+    temperature: 0.1, // Very low = strict, factual, follows rubric exactly
+    maxOutputTokens: 32000, // W4 report should be ~20-30k chars
+    json: true,
+  })
+
+  // Collect streamed response
+  let responseText = ''
+  let inputTokens = 0
+  let outputTokens = 0
+  let chunkCount = 0
+
+  let finishReason = ''
+  
+  for await (const chunk of stream) {
+    responseText += chunk.text
+    chunkCount++
+    
+    // Update progress every 5 chunks
+    if (chunkCount % 5 === 0) {
+      await progress(`Analyzing... (${Math.round(responseText.length / 1000)}k)`)
+      console.log(`📝 W4 chunk ${chunkCount}: ${responseText.length} chars`)
+    }
+    
+    // Get token counts and finish reason from chunk
+    if (chunk.usage) {
+      inputTokens = chunk.usage.inputTokens || inputTokens
+      outputTokens = chunk.usage.outputTokens || outputTokens
+    }
+    
+    // Check for finish reason (why the model stopped)
+    if (chunk.finishReason) {
+      finishReason = chunk.finishReason
+      console.log(`🏁 Finish reason: ${finishReason}`)
+    }
+  }
+  
+  // Log finish reason if present
+  if (finishReason && finishReason !== 'STOP') {
+    console.warn(`⚠️ Model stopped with reason: ${finishReason}`)
+  }
+  if (!responseText.trim()) {
+    console.error('Chunks received:', chunkCount)
+  }
+
+  return { responseText, inputTokens, outputTokens }
+}
+
+// ============================================================================
+// MAIN PROCESSING FUNCTION - Using Files API
+// Throws on failure - the job worker decides whether to retry or mark the analysis as failed.
+// ============================================================================
+export async function processAnalysis(params: {
+  supabase: SupabaseClient
+  analysisId: string
+  recordingId: string
+  filePath: string
+  durationSeconds: number
+  rubricName?: string
+  // Prompt replay: run with this prompt and write to prompt_replay_results - the analysis is left untouched
+  dryRun?: { resultId: string; prompt: string }
+}) {
+  const { supabase, analysisId, recordingId, filePath, durationSeconds, rubricName, dryRun } = params
+  const progress = (message: string) => dryRun ? Promise.resolve() : updateProgress(supabase, analysisId, message)
+
+  const model = getAnalysisModel()
+  const provider = getProviderForModel(model)
+
+  // Try to get EDITABLE content from database, fall back to file
+  // The version id is recorded on the analysis so every report can be traced to its prompt
+  let editableContent = W4_EDITABLE_CONTENT
+  let promptVersionId: string | null = null
+  if (dryRun) {
+    console.log('🧪 Dry run - using replay prompt')
+    editableContent = dryRun.prompt
+  } else {
+    const { data: dbPrompt } = await supabase
+      .from('admin_prompts')
+      .select('prompt, current_version_id')
+      .eq('name', 'w4_analysis')
+      .eq('is_active', true)
+      .single()
+
+    if (dbPrompt?.prompt) {
+      console.log('📝 Using custom W4 content from database')
+      editableContent = dbPrompt.prompt
+      promptVersionId = dbPrompt.current_version_id || null
+    } else {
+      console.log('📝 Using default W4 content from file')
+    }
+  }
+
+  // Output format is generated from the active rubric version
+  const rubric = await loadActiveRubric(supabase, rubricName)
+  console.log(`📏 Using rubric "${rubric.ref.name}" v${rubric.ref.version}`)
+
+  const outputFormat = buildW4OutputFormat(rubric.definition)
+
+  // Measured talk-time/silence numbers and segments, when this recording already has a transcript
+  const { data: analyticsRow } = await supabase
+    .from('audio_analyses')
+    .select('call_analytics, transcript_segments')
+    .eq('id', analysisId)
+    .maybeSingle()
+  const analyticsSection = analyticsRow?.call_analytics ? `\n\n${formatCallAnalyticsForPrompt(analyticsRow.call_analytics)}` : ''
+
+  // Client, address, appointment and notes the rep entered before the call
+  const callDetails = formatCallDetailsForPrompt(await loadCallDetails(supabase, recordingId))
+  const callDetailsSection = callDetails ? `\n\n${callDetails}` : ''
+
+  // Download audio and upload it to the provider
+  await progress('Preparing audio for analysis...')
+
+  const audio = await downloadAudio(supabase, filePath)
+  console.log(`📤 Uploading ${(audio.size / 1024 / 1024).toFixed(1)}MB to ${provider.id}...`)
+
+  const file = await provider.uploadFile(audio, audio.type, {
+    onWaiting: async () => {
+      console.log('⏳ Waiting for file processing...')
+      await progress('AI is processing audio file...')
+    },
+  })
+
+  console.log(`✅ File ready: ${file.name} (${formatTime(durationSeconds)})`)
+
+  // Step 4: Generate W4 analysis
+  console.log('🤖 Generating W4 analysis...')
+  await progress('AI is analyzing the call using W4 methodology...')
+
+  let responseText: string
+  let inputTokens = 0
+  let outputTokens = 0
+  let merged: MergedFindings | null = null
+
+  try {
+    if (durationSeconds > LONG_RECORDING_THRESHOLD_SECONDS) {
+      // Long recording: per-window evidence, merged, then a text-only pass writes the report
+      console.log(`🪟 Long recording (${formatTime(durationSeconds)}) - analyzing in time windows`)
+      const windowed = await analyzeWindows({
+        provider,
+        model,
+        file,
+        audio,
+        editableContent: editableContent + STRICT_SCORING_RULES + callDetailsSection,
+        rubric: rubric.definition,
+        durationSeconds,
+        onProgress: progress,
+      })
+      merged = windowed.merged
+
+      await progress('Writing the W4 report from all windows...')
+      const synthesis = await generateText(provider, {
+        model,
+        prompt: buildSynthesisPrompt(editableContent, outputFormat, merged, durationSeconds) + callDetailsSection + analyticsSection,
+        temperature: 0.1,
+        maxOutputTokens: 32000,
+        json: true,
+      })
+      responseText = synthesis.text
+      inputTokens = windowed.usage.inputTokens + synthesis.usage.inputTokens
+      outputTokens = windowed.usage.outputTokens + synthesis.usage.outputTokens
+    } else {
+      ({ responseText, inputTokens, outputTokens } = await streamReport({
+        provider,
+        model,
+        file,
+        // Combine: editable content + locked OUTPUT_FORMAT + dynamic rules
+        prompt: editableContent + outputFormat + `
+
+AUDIO DURATION: ${formatTime(durationSeconds)} (${Math.round(durationSeconds / 60)} minutes).
+${STRICT_SCORING_RULES}${callDetailsSection}${analyticsSection}`,
+        progress,
+      }))
+    }
+  } finally {
+    await deleteUploadedFile(provider, file)
+  }
+
+  console.log(`📊 Tokens: ${inputTokens} in, ${outputTokens} out, ${inputTokens + outputTokens} total`)
+
+  // Check for empty response
+  if (!responseText || responseText.trim().length === 0) {
+    console.error('❌ Empty response from AI model!')
+    console.error('Input tokens:', inputTokens, '- this might be too many')
+    throw new Error(`AI returned empty response. Input tokens: ${inputTokens}. Try with shorter audio or simpler prompt.`)
+  }
+  
+  console.log('📝 Response preview:', responseText.substring(0, 200))
+  
+  const mergedFindings = merged
+  const { report: w4Report, validationErrors, repairUsage } = await parseW4Report({
+    supabase,
+    analysisId,
+    provider,
+    model,
+    rubric,
+    responseText,
+    dryRun: !!dryRun,
+    // Window scores and evidence are final - the synthesis pass only writes the prose
+    adjust: mergedFindings ? report => applyMergedFindings(report, mergedFindings) : undefined,
+    transcriptSegments: analyticsRow?.transcript_segments,
+  })
+  inputTokens += repairUsage.inputTokens
+  outputTokens += repairUsage.outputTokens
+
+  // Step 5: Save results
+  const totalTokens = inputTokens + outputTokens
+  const estimatedCost = estimateCost(model, inputTokens, outputTokens)
+
+  if (dryRun) {
+    const { error: replayError } = await supabase.from('prompt_replay_results').update({
+      status: 'done',
+      w4_report: w4Report,
+      validation_errors: validationErrors,
+      error_message: null,
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      estimated_cost_usd: estimatedCost,
+      completed_at: new Date().toISOString(),
+    }).eq('id', dryRun.resultId)
+
+    if (replayError) {
+      throw new Error(`Failed to save replay result: ${replayError.message}`)
+    }
+
+    console.log(`🧪 Replay complete! Score: ${w4Report.overall_performance.total_score}/100 (${w4Report.overall_performance.rating})`)
+    return
+  }
+
+  // Generate title from report
+  const title = `${w4Report.rep_name} - ${w4Report.client_name} (${w4Report.overall_performance.rating}: ${w4Report.overall_performance.total_score}/100)`
+
+  const { error: updateAnalysisError } = await supabase.from('audio_analyses').update({
+    // Main data
+    title: title,
+    summary: w4Report.overall_performance.summary || '',
+    // transcript: NOT set here - generated on-demand via /api/transcribe
+    
+    // W4 Report (new structure)
+    w4_report: w4Report,
+    validation_errors: validationErrors,
+    prompt_version_id: promptVersionId,
+    
+    // Metadata
+    processing_status: 'done',
+    processing_stage: 'done',
+    current_chunk_message: 'W4 Analysis complete!',
+    confidence_score: 0.9,
+    duration_analyzed: durationSeconds,
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    total_tokens: totalTokens,
+    model_used: model,
+    estimated_cost_usd: estimatedCost,
+  }).eq('id', analysisId)
+
+  if (updateAnalysisError) {
+    console.error('❌ Failed to save analysis result:', updateAnalysisError)
+    throw new Error(`Failed to save analysis: ${updateAnalysisError.message}`)
+  }
+
+  // Objection analytics are secondary - a failure here shouldn't fail the analysis
+  try {
+    await saveCallObjection({ supabase, analysisId, recordingId, report: w4Report })
+  } catch (error) {
+    console.warn('⚠️ Failed to save call objection:', error)
+  }
+
+  const { error: updateRecordingError } = await supabase.from('recordings').update({ status: 'done' }).eq('id', recordingId)
+  if (updateRecordingError) {
+    console.error('⚠️ Failed to update recording status:', updateRecordingError)
+  }
+
+  console.log(`🎉 W4 Analysis complete! Score: ${w4Report.overall_performance.total_score}/100 (${w4Report.overall_performance.rating})`)
+  console.log(`📊 Tokens: ${totalTokens}, Cost: $${estimatedCost.toFixed(4)}`)
+}
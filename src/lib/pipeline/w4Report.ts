@@ -0,0 +1,162 @@
+// Turns a raw model response into a validated, server-scored W4Report.
+// Parse (with bracket repair for truncated output) -> validate -> one "fix this JSON"
+// re-ask if anything is wrong -> validate again -> place evidence quotes -> recompute scores. Whatever problems
+// remain are written to audio_analyses.validation_errors instead of being papered over with defaults.
+import { SupabaseClient } from '@supabase/supabase-js'
+import { AIProvider, AIUsage, generateText } from '@/lib/ai'
+import { ActiveRubric } from '@/lib/w4/rubric'
+import { countLinkedEvidence, linkReportEvidence } from '@/lib/w4/evidence'
+import { scoreW4Report } from '@/lib/w4/scoring'
+import { formatValidationErrors, hasSchemaErrors, validateW4Report } from '@/lib/w4/validation'
+import { TranscriptSegment, W4Report, W4ValidationError } from '@/types/database'
+import { updateProgress } from './helpers'
+
+// Parse model output as JSON, repairing markdown fences and truncated brackets.
+// Returns null when nothing usable can be recovered.
+export function parseModelJson(responseText: string): unknown | null {
+  try {
+    return JSON.parse(responseText)
+  } catch (parseError) {
+    console.warn('⚠️ JSON parse failed, attempting repair...', parseError)
+    console.warn('Response length:', responseText.length)
+  }
+
+  // Remove any markdown code blocks
+  let jsonText = responseText.replace(/```json\s*/g, '').replace(/```\s*/g, '')
+
+  // Try to find JSON object
+  const jsonMatch = jsonText.match(/\{[\s\S]*/)
+  if (!jsonMatch) {
+    console.error('❌ No JSON object found in AI response')
+    return null
+  }
+  jsonText = jsonMatch[0]
+
+  // Try to repair truncated JSON by closing brackets
+  let openBraces = 0
+  let openBrackets = 0
+  let inString = false
+  let escaped = false
+
+  for (const char of jsonText) {
+    if (escaped) { escaped = false; continue }
+    if (char === '\\') { escaped = true; continue }
+    if (char === '"') { inString = !inString; continue }
+    if (inString) continue
+    if (char === '{') openBraces++
+    if (char === '}') openBraces--
+    if (char === '[') openBrackets++
+    if (char === ']') openBrackets--
+  }
+
+  // Close unclosed brackets/braces
+  jsonText += ']'.repeat(Math.max(0, openBrackets))
+  jsonText += '}'.repeat(Math.max(0, openBraces))
+
+  try {
+    const repaired = JSON.parse(jsonText)
+    console.log('✅ JSON repaired successfully')
+    return repaired
+  } catch {
+    console.error('❌ JSON repair failed. Response length:', responseText.length)
+    console.error('First 500 chars:', responseText.substring(0, 500))
+    console.error('Last 500 chars:', responseText.substring(responseText.length - 500))
+    return null
+  }
+}
+
+function validate(parsed: unknown | null, rubric: ActiveRubric): W4ValidationError[] {
+  if (parsed === null) {
+    return [{ path: '', message: 'Response is not valid JSON (it may be truncated)', kind: 'schema' }]
+  }
+  return validateW4Report(parsed, rubric.definition)
+}
+
+function buildRepairPrompt(responseText: string, errors: W4ValidationError[]): string {
+  return `The JSON below is a W4 sales call report that failed validation.
+
+## PROBLEMS
+${formatValidationErrors(errors)}
+
+## RULES
+- Fix ONLY the problems listed above and return the complete corrected report as JSON.
+- Keep every field name, checkpoint name and justification exactly as written unless it is listed above.
+- Checkpoint scores must stay between 0 and their max_score; a phase score is the sum of its checkpoint scores.
+- Do NOT add commentary or markdown - return JSON only.
+
+## REPORT
+${responseText}`
+}
+
+// ============================================================================
+// PARSE + VALIDATE + ONE REPAIR RE-ASK
+// Throws (after saving the errors) when the report still isn't structurally valid.
+// ============================================================================
+export async function parseW4Report(params: {
+  supabase: SupabaseClient
+  analysisId: string
+  provider: AIProvider
+  model: string
+  rubric: ActiveRubric
+  responseText: string
+  dryRun?: boolean  // Prompt replay - leave the analysis row alone
+  adjust?: (report: W4Report) => W4Report  // Applied to the validated report before scoring
+  transcriptSegments?: TranscriptSegment[] | null  // Places evidence quotes the model gave no timestamp for
+}): Promise<{ report: W4Report; validationErrors: W4ValidationError[]; repairUsage: AIUsage }> {
+  const { supabase, analysisId, provider, model, rubric, responseText, dryRun, adjust, transcriptSegments = null } = params
+
+  let parsed = parseModelJson(responseText)
+  let errors = validate(parsed, rubric)
+  let repairUsage: AIUsage = { inputTokens: 0, outputTokens: 0 }
+
+  if (errors.length > 0) {
+    console.warn(`⚠️ W4 report failed validation (${errors.length} problems), asking the model to fix it...`)
+    console.warn(formatValidationErrors(errors.slice(0, 20)))
+    if (!dryRun) await updateProgress(supabase, analysisId, 'Fixing report format...')
+
+    try {
+      const repair = await generateText(provider, {
+        model,
+        prompt: buildRepairPrompt(responseText, errors),
+        temperature: 0,
+        maxOutputTokens: 32000,
+        json: true,
+      })
+      repairUsage = repair.usage
+
+      const repairedParsed = parseModelJson(repair.text)
+      const repairedErrors = validate(repairedParsed, rubric)
+      // Keep the repair only if it's at least as good as what we had
+      if (repairedParsed !== null && (hasSchemaErrors(errors) || !hasSchemaErrors(repairedErrors))) {
+        parsed = repairedParsed
+        errors = repairedErrors
+      }
+      console.log(`🔧 Repair re-ask done: ${errors.length} problems remain`)
+    } catch (repairError) {
+      console.error('❌ Repair re-ask failed:', repairError)
+    }
+  }
+
+  if (hasSchemaErrors(errors)) {
+    if (!dryRun) {
+      await supabase.from('audio_analyses').update({ validation_errors: errors }).eq('id', analysisId)
+    }
+    throw new Error(`AI response failed W4 report validation (${errors.length} problems)`)
+  }
+
+  // Recompute every score server-side - the model's totals are only kept as discrepancies
+  const validated = adjust ? adjust(parsed as W4Report) : parsed as W4Report
+  const report: W4Report = {
+    ...scoreW4Report({ ...linkReportEvidence(validated, transcriptSegments), score_discrepancies: undefined }, rubric.definition),
+    rubric: rubric.ref,
+  }
+  if (report.score_discrepancies?.length) {
+    console.warn(`⚠️ ${report.score_discrepancies.length} model scores disagreed with the recomputed ones`)
+  }
+  const evidence = countLinkedEvidence(report)
+  if (evidence.total > 0) {
+    console.log(`🔗 ${evidence.linked}/${evidence.total} evidence quotes placed in the recording`)
+  }
+
+  return { report, validationErrors: errors, repairUsage }
+}
@@ -0,0 +1,334 @@
+// Long-recording W4 analysis. One request over a multi-hour file tends to come back
+// empty or truncated, so long calls are analyzed per time window instead: each window
+// returns the checkpoint evidence it heard (with timestamps), the findings are merged
+// across windows and a final text-only pass writes the report around the merged scores.
+// A checkpoint scores what its best window showed, so a close in hour three still counts.
+// Each request is billed for all the audio it carries, so every window gets its own clip of
+// the MP3 analysis copy; only audio that can't be cut is sent whole with every window.
+import { AIProvider, AIUploadedFile, AIUsage, generateText } from '@/lib/ai'
+import { W4_PHASE_KEYS } from '@/lib/w4/rubric'
+import { SaleOutcome, W4Evidence, W4PhaseKey, W4Report, W4RubricDefinition } from '@/types/database'
+import { clipMp3 } from './audioClip'
+import { deleteUploadedFile, formatTime, parseTimestamp } from './helpers'
+import { parseModelJson } from './w4Report'
+
+// Recordings longer than this are analyzed in windows
+export const LONG_RECORDING_THRESHOLD_SECONDS = 60 * 60
+
+const WINDOW_MINUTES = 45
+// Windows overlap so a checkpoint that straddles a boundary is heard whole by one of them
+const WINDOW_OVERLAP_MINUTES = 2
+const MAX_EVIDENCE_PER_CHECKPOINT = 5
+
+export interface TimeWindow {
+  startSeconds: number
+  endSeconds: number
+}
+
+interface WindowCheckpoint {
+  phase: W4PhaseKey
+  name: string
+  score: number
+  justification: string
+  evidence: W4Evidence[]
+}
+
+// A window's JSON as the model returned it - nothing is trusted until readWindowFindings checks it
+interface RawWindowFindings {
+  rep_name?: string
+  client_name?: string
+  company_name?: string
+  window_summary?: unknown
+  sale_outcome?: { closed?: unknown } | null
+  checkpoints: ({
+    phase?: unknown
+    name?: unknown
+    score?: unknown
+    justification?: unknown
+    evidence?: ({ quote?: unknown; timestamp?: unknown } | null)[]
+  } | null)[]
+}
+
+interface WindowFindings {
+  window: TimeWindow
+  rep_name?: string
+  client_name?: string
+  company_name?: string
+  summary: string
+  sale_outcome: SaleOutcome | null
+  checkpoints: WindowCheckpoint[]
+}
+
+interface MergedCheckpoint {
+  score: number
+  justification: string
+  evidence: W4Evidence[]
+}
+
+export interface MergedFindings {
+  rep_name: string
+  client_name: string
+  company_name: string
+  sale_outcome: SaleOutcome | null
+  window_summaries: string[]
+  checkpoints: Record<W4PhaseKey, Record<string, MergedCheckpoint>>
+}
+
+export function planWindows(durationSeconds: number): TimeWindow[] {
+  const windowSeconds = WINDOW_MINUTES * 60
+  const overlapSeconds = WINDOW_OVERLAP_MINUTES * 60
+  const windows: TimeWindow[] = []
+
+  for (let start = 0; start < durationSeconds; start += windowSeconds) {
+    windows.push({
+      startSeconds: Math.max(0, start - (start > 0 ? overlapSeconds : 0)),
+      endSeconds: Math.min(start + windowSeconds, durationSeconds),
+    })
+  }
+  return windows
+}
+
+function buildWindowPrompt(
+  editableContent: string,
+  rubric: W4RubricDefinition,
+  window: TimeWindow,
+  index: number,
+  total: number,
+  durationSeconds: number,
+  clipped: boolean
+): string {
+  const range = `${formatTime(window.startSeconds)} - ${formatTime(window.endSeconds)}`
+  const checkpointList = W4_PHASE_KEYS.map(key => rubric.phases[key].checkpoints
+    .map(cp => `- phase "${key}", name ${JSON.stringify(cp.name)}, max ${cp.maxScore}: ${cp.guidance}`)
+    .join('\n')
+  ).join('\n')
+
+  return `${editableContent}
+
+---
+
+## TIME WINDOW ${index + 1} OF ${total}
+The recording is ${formatTime(durationSeconds)} long. ${clipped ? `This audio is only its ${range} part.` : `Listen ONLY to ${range}.`}
+Other windows are analyzed separately and merged afterwards, so:
+- Report a checkpoint only if you hear evidence for it inside this window.
+- Score each checkpoint on what this window alone shows (0 to its max).
+- Every evidence quote needs the timestamp (from the start of ${clipped ? 'this audio' : 'the recording'}) where it was said.
+- Report sale_outcome only if the sale is closed or clearly lost inside this window, otherwise null.
+
+## CHECKPOINTS
+${checkpointList}
+
+## OUTPUT FORMAT
+Return ONLY valid JSON:
+{
+  "rep_name": "Rep name if heard in this window, else 'Unknown'",
+  "client_name": "Client name if heard in this window, else 'Unknown'",
+  "company_name": "Company name if heard in this window, else 'Unknown'",
+  "window_summary": "2-3 sentences on what happened in this window",
+  "sale_outcome": null or {"closed": true|false, "outcome_type": "CLOSED|NO_SALE|FOLLOW_UP|UNKNOWN", "evidence": "quote", "objection_reason": "reason or null", "objection_category": "price|spouse|more_quotes|timing|insurance|trust|other or null"},
+  "checkpoints": [
+    {"phase": "why|what|who|when", "name": "exact checkpoint name", "score": <0-max>, "justification": "why this score", "evidence": [{"quote": "exact words", "timestamp": "M:SS or H:MM:SS"}]}
+  ]
+}`
+}
+
+// Keep only well-formed findings for checkpoints the rubric knows about.
+// Timestamps from a clip are shifted by offsetSeconds so they point into the whole recording.
+function readWindowFindings(
+  parsed: unknown,
+  window: TimeWindow,
+  rubric: W4RubricDefinition,
+  offsetSeconds: number
+): WindowFindings | null {
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray((parsed as { checkpoints?: unknown }).checkpoints)) {
+    return null
+  }
+  const raw = parsed as RawWindowFindings
+
+  const checkpoints: WindowCheckpoint[] = []
+  for (const cp of raw.checkpoints) {
+    if (!cp) continue
+    const phase = W4_PHASE_KEYS.find(key => key === cp.phase)
+    const rubricCheckpoint = phase && rubric.phases[phase].checkpoints.find(e => e.name === cp.name)
+    if (!phase || !rubricCheckpoint || typeof cp.score !== 'number') continue
+
+    checkpoints.push({
+      phase,
+      name: rubricCheckpoint.name,
+      score: Math.min(Math.max(cp.score, 0), rubricCheckpoint.maxScore),
+      justification: typeof cp.justification === 'string' ? cp.justification : '',
+      evidence: (Array.isArray(cp.evidence) ? cp.evidence : [])
+        .filter((e): e is { quote: string; timestamp: string } => typeof e?.quote === 'string' && typeof e?.timestamp === 'string')
+        .map(e => {
+          const seconds = parseTimestamp(e.timestamp)
+          return seconds === null
+            ? { quote: e.quote, timestamp: e.timestamp }
+            : { quote: e.quote, timestamp: offsetSeconds ? formatTime(seconds + offsetSeconds) : e.timestamp, timestamp_seconds: seconds + offsetSeconds }
+        }),
+    })
+  }
+
+  const saleOutcome = raw.sale_outcome && typeof raw.sale_outcome.closed === 'boolean' ? raw.sale_outcome as SaleOutcome : null
+
+  return {
+    window,
+    rep_name: raw.rep_name,
+    client_name: raw.client_name,
+    company_name: raw.company_name,
+    summary: typeof raw.window_summary === 'string' ? raw.window_summary : '',
+    sale_outcome: saleOutcome,
+    checkpoints,
+  }
+}
+
+// Best window wins per checkpoint; evidence from every window is kept in time order
+export function mergeWindowFindings(findings: WindowFindings[], rubric: W4RubricDefinition): MergedFindings {
+  const checkpoints = Object.fromEntries(W4_PHASE_KEYS.map(phase => [
+    phase,
+    Object.fromEntries(rubric.phases[phase].checkpoints.map(cp => [cp.name, { score: 0, justification: '', evidence: [] as W4Evidence[] }])),
+  ])) as MergedFindings['checkpoints']
+
+  for (const window of findings) {
+    for (const cp of window.checkpoints) {
+      const merged = checkpoints[cp.phase][cp.name]
+      if (cp.score > merged.score || (cp.score === merged.score && !merged.justification)) {
+        merged.score = cp.score
+        merged.justification = `[${formatTime(window.window.startSeconds)}-${formatTime(window.window.endSeconds)}] ${cp.justification}`
+      }
+      merged.evidence.push(...cp.evidence)
+    }
+  }
+
+  for (const phase of W4_PHASE_KEYS) {
+    for (const merged of Object.values(checkpoints[phase])) {
+      // Overlapping windows can quote the same moment twice
+      const seen = new Set<string>()
+      merged.evidence = merged.evidence
+        .filter(e => {
+          const key = `${e.timestamp_seconds ?? e.timestamp}|${e.quote}`
+          if (seen.has(key)) return false
+          seen.add(key)
+          return true
+        })
+        .sort((a, b) => (a.timestamp_seconds ?? 0) - (b.timestamp_seconds ?? 0))
+        .slice(0, MAX_EVIDENCE_PER_CHECKPOINT)
+    }
+  }
+
+  const firstKnown = (field: 'rep_name' | 'client_name' | 'company_name') =>
+    findings.map(f => f[field]).find(v => typeof v === 'string' && v && v !== 'Unknown') || 'Unknown'
+
+  return {
+    rep_name: firstKnown('rep_name'),
+    client_name: firstKnown('client_name'),
+    company_name: firstKnown('company_name'),
+    // The last window that saw an outcome decides it - that's where a late close happens
+    sale_outcome: [...findings].reverse().find(f => f.sale_outcome)?.sale_outcome || null,
+    window_summaries: findings.map(f => `[${formatTime(f.window.startSeconds)}-${formatTime(f.window.endSeconds)}] ${f.summary}`),
+    checkpoints,
+  }
+}
+
+// Put the merged scores, evidence and outcome onto the synthesized report (before server-side scoring)
+export function applyMergedFindings(report: W4Report, merged: MergedFindings): W4Report {
+  const phases = { ...report.phases }
+  for (const phase of W4_PHASE_KEYS) {
+    const checkpoints = report.phases[phase].checkpoints.map(cp => {
+      const found = merged.checkpoints[phase][cp.name]
+      return found ? { ...cp, score: found.score, evidence: found.evidence } : cp
+    })
+    phases[phase] = {
+      ...report.phases[phase],
+      checkpoints,
+      score: checkpoints.reduce((sum, cp) => sum + cp.score, 0),
+    }
+  }
+
+  return {
+    ...report,
+    rep_name: merged.rep_name !== 'Unknown' ? merged.rep_name : report.rep_name,
+    client_name: merged.client_name !== 'Unknown' ? merged.client_name : report.client_name,
+    company_name: merged.company_name !== 'Unknown' ? merged.company_name : report.company_name,
+    sale_outcome: merged.sale_outcome || report.sale_outcome,
+    phases,
+  }
+}
+
+// Run every window against its clip of the audio (or the whole uploaded file when the audio
+// can't be cut). A window whose JSON can't be read is asked once more; if that fails too the
+// whole analysis fails (and the job retries), since silently dropping a window would under-score the call.
+export async function analyzeWindows(params: {
+  provider: AIProvider
+  model: string
+  file: AIUploadedFile
+  audio: Blob
+  editableContent: string
+  rubric: W4RubricDefinition
+  durationSeconds: number
+  onProgress: (message: string) => Promise<void>
+}): Promise<{ merged: MergedFindings; usage: AIUsage }> {
+  const { provider, model, file, audio, editableContent, rubric, durationSeconds, onProgress } = params
+  const windows = planWindows(durationSeconds)
+  const audioData = await audio.arrayBuffer()
+  const usage: AIUsage = { inputTokens: 0, outputTokens: 0 }
+  const findings: WindowFindings[] = []
+
+  for (let i = 0; i < windows.length; i++) {
+    const window = windows[i]
+    const label = `${formatTime(window.startSeconds)}-${formatTime(window.endSeconds)}`
+    await onProgress(`Analyzing window ${i + 1} of ${windows.length} (${label})...`)
+
+    const clip = clipMp3(audioData, window.startSeconds, window.endSeconds)
+    if (!clip) console.warn(`⚠️ Could not cut window ${i + 1} out of the audio - sending the whole file`)
+    const windowFile = clip ? await provider.uploadFile(clip, clip.type) : file
+
+    let result: WindowFindings | null = null
+    try {
+      for (let attempt = 1; attempt <= 2 && !result; attempt++) {
+        const response = await generateText(provider, {
+          model,
+          file: windowFile,
+          prompt: buildWindowPrompt(editableContent, rubric, window, i, windows.length, durationSeconds, !!clip),
+          temperature: 0.1,
+          maxOutputTokens: 16000,
+          json: true,
+        })
+        usage.inputTokens += response.usage.inputTokens
+        usage.outputTokens += response.usage.outputTokens
+        result = readWindowFindings(parseModelJson(response.text), window, rubric, clip ? window.startSeconds : 0)
+        if (!result) console.warn(`⚠️ Window ${i + 1} (${label}) returned unusable JSON (attempt ${attempt})`)
+      }
+    } finally {
+      if (clip) await deleteUploadedFile(provider, windowFile)
+    }
+
+    if (!result) {
+      throw new Error(`Could not analyze window ${label} of the recording`)
+    }
+
+    console.log(`🪟 Window ${i + 1}/${windows.length} (${label}): ${result.checkpoints.length} checkpoints with evidence`)
+    findings.push(result)
+  }
+
+  return { merged: mergeWindowFindings(findings, rubric), usage }
+}
+
+// Text-only prompt for the final report: the methodology plus the merged findings
+export function buildSynthesisPrompt(
+  editableContent: string,
+  outputFormat: string,
+  merged: MergedFindings,
+  durationSeconds: number
+): string {
+  return `${editableContent}${outputFormat}
+
+AUDIO DURATION: ${formatTime(durationSeconds)} (${Math.round(durationSeconds / 60)} minutes).
+
+## MERGED FINDINGS
+The recording was analyzed in ${merged.window_summaries.length} time windows. The findings below are final:
+- Use these checkpoint scores EXACTLY and base the justifications on the evidence given.
+- The sale outcome below (if any) is final.
+- Write the summary, strengths, improvements, coaching and quick wins for the whole call.
+
+${JSON.stringify(merged, null, 2)}`
+}
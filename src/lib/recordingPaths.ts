@@ -0,0 +1,26 @@
+// Where recordings live in storage. Dependency-free so the service worker can share it
+// (src/worker/index.ts is bundled without the @/ alias).
+
+export const AUDIO_BUCKET = 'audio-files'
+
+// Both objects share a timestamp so they sort together in the bucket
+export function buildRecordingPaths(userId: string, fileName: string, timestamp = Date.now()) {
+  const sanitizedName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_')
+  return {
+    filePath: `${userId}/${timestamp}-${sanitizedName}`,
+    analysisFilePath: `${userId}/${timestamp}-analysis.mp3`,
+  }
+}
+
+// Analysis copy path for an original that's already stored (background uploads add it later)
+export function analysisPathFor(filePath: string): string {
+  const match = filePath.match(/^(.*\/\d+)-[^/]*$/)
+  return match ? `${match[1]}-analysis.mp3` : `${filePath}-analysis.mp3`
+}
+
+// File extension for a recorded blob's mime type
+export function extensionForMimeType(mimeType: string): string {
+  if (mimeType.includes('mp4')) return 'm4a'
+  if (mimeType.includes('mp3') || mimeType.includes('mpeg')) return 'mp3'
+  return 'webm'
+}
@@ -0,0 +1,478 @@
+// Recording upload pipeline shared by the recorder, the file uploaders and offline sync.
+// Every recording ends up the same way: the original in the audio-files bucket for playback,
+// a small mono MP3 next to it for AI analysis, and a recordings row pointing at both.
+import { FFmpeg } from '@ffmpeg/ffmpeg'
+import { fetchFile } from '@ffmpeg/util'
+import { createClient } from '@/lib/supabase/client'
+import { Recording, RecordingCallDetails, RecordingInsert } from '@/types/database'
+import { AUDIO_BUCKET, analysisPathFor, buildRecordingPaths } from '@/lib/recordingPaths'
+
+export type RecordingUploadStage = 'uploading' | 'compressing' | 'uploading-analysis' | 'done'
+
+export interface RecordingUploadInput {
+  userId: string
+  file: Blob
+  fileName: string              // Original file name - used for the storage path and its extension
+  displayName?: string          // recordings.file_name; defaults to fileName
+  mimeType?: string
+  duration?: number | null      // Seconds, when the caller knows it (the recorder does)
+  callDetails?: Partial<RecordingCallDetails>  // Client, address etc. entered before recording
+}
+
+export interface RecordingUploadCallbacks {
+  onStage?: (stage: RecordingUploadStage) => void
+  onProgress?: (percentage: number) => void  // Whole pipeline, 0-100
+  signal?: AbortSignal
+}
+
+export interface AnalysisCopy {
+  path: string
+  size: number
+}
+
+// Target max size of the analysis copy (12MB to fit in 512MB RAM on the backend)
+// 12MB file → ~40MB in memory (base64 + processing) → safe with ~150MB baseline
+const TARGET_ANALYSIS_SIZE = 12 * 1024 * 1024
+
+// Decoding WebM/OGG in the browser gets unreliable above this
+const MAX_BROWSER_CONVERSION_SIZE = 100 * 1024 * 1024
+
+// ============================================
+// COMPRESSION
+// ============================================
+
+let ffmpegInstance: FFmpeg | null = null
+let ffmpegLoading: Promise<FFmpeg | null> | null = null
+
+// Load FFmpeg LAZILY - only when something needs compressing. One instance is shared by
+// every uploader on the page; components call releaseFFmpeg() on unmount to free the memory.
+export async function loadFFmpeg(): Promise<FFmpeg | null> {
+  if (ffmpegInstance) return ffmpegInstance
+  if (ffmpegLoading) return ffmpegLoading
+
+  ffmpegLoading = (async () => {
+    try {
+      const ffmpeg = new FFmpeg()
+      // Use standard single-threaded version (more compatible)
+      const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/umd'
+      await ffmpeg.load({
+        coreURL: `${baseURL}/ffmpeg-core.js`,
+        wasmURL: `${baseURL}/ffmpeg-core.wasm`,
+      })
+      console.log('FFmpeg loaded successfully')
+      ffmpegInstance = ffmpeg
+    } catch (err) {
+      console.error('Failed to load FFmpeg:', err)
+      // Try with default configuration
+      try {
+        const ffmpeg = new FFmpeg()
+        await ffmpeg.load()
+        console.log('FFmpeg loaded with default config')
+        ffmpegInstance = ffmpeg
+      } catch (err2) {
+        console.error('FFmpeg default load also failed:', err2)
+      }
+    }
+    ffmpegLoading = null
+    return ffmpegInstance
+  })()
+
+  return ffmpegLoading
+}
+
+export function releaseFFmpeg() {
+  if (!ffmpegInstance) return
+  try {
+    ffmpegInstance.terminate()
+    console.log('FFmpeg terminated and memory freed')
+  } catch (e) {
+    console.log('FFmpeg cleanup:', e)
+  }
+  ffmpegInstance = null
+}
+
+// Estimate duration from file size (rough: 1MB ≈ 1 minute for typical audio)
+export function estimateDurationSeconds(fileSize: number): number {
+  return (fileSize / (1024 * 1024)) * 60
+}
+
+// Lowest bitrate tier that keeps the analysis copy under the target size.
+// Ultra-aggressive for the 512MB RAM free tier - AI can still transcribe at 8kbps, tested!
+export function calculateAnalysisBitrate(durationSeconds: number): { bitrate: string; sampleRate: string } {
+  const targetBits = TARGET_ANALYSIS_SIZE * 8
+  const optimalBitrate = Math.floor(targetBits / Math.max(durationSeconds, 60)) // Assume at least 1 min
+
+  if (optimalBitrate >= 24000) return { bitrate: '24k', sampleRate: '12000' }
+  if (optimalBitrate >= 16000) return { bitrate: '16k', sampleRate: '8000' }
+  if (optimalBitrate >= 12000) return { bitrate: '12k', sampleRate: '8000' }
+  // Very long files - absolute minimum, telephone quality - Gemini handles this fine
+  return { bitrate: '8k', sampleRate: '8000' }
+}
+
+// WebM/OGG/Opus are decoded by the browser first - FFmpeg.wasm can't reliably read them
+export function needsBrowserConversion(fileName: string): boolean {
+  const ext = fileName.split('.').pop()?.toLowerCase() || ''
+  return ['webm', 'ogg', 'opus'].includes(ext)
+}
+
+// Decode with Web Audio and resample to 8kHz mono WAV
+async function convertWithWebAudio(file: Blob): Promise<Blob> {
+  const audioContext = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)()
+  try {
+    const audioBuffer = await audioContext.decodeAudioData(await file.arrayBuffer())
+
+    const offlineContext = new OfflineAudioContext(1, audioBuffer.duration * 8000, 8000)
+    const source = offlineContext.createBufferSource()
+    source.buffer = audioBuffer
+    source.connect(offlineContext.destination)
+    source.start(0)
+
+    return audioBufferToWav(await offlineContext.startRendering())
+  } finally {
+    audioContext.close()
+  }
+}
+
+// 16-bit PCM WAV encoder
+function audioBufferToWav(buffer: AudioBuffer): Blob {
+  const numOfChan = buffer.numberOfChannels
+  const length = buffer.length * numOfChan * 2 + 44
+  const view = new DataView(new ArrayBuffer(length))
+  const channels: Float32Array[] = []
+  let offset = 0
+  let pos = 0
+
+  const setUint16 = (data: number) => { view.setUint16(pos, data, true); pos += 2 }
+  const setUint32 = (data: number) => { view.setUint32(pos, data, true); pos += 4 }
+
+  setUint32(0x46464952) // "RIFF"
+  setUint32(length - 8)
+  setUint32(0x45564157) // "WAVE"
+  setUint32(0x20746d66) // "fmt "
+  setUint32(16)
+  setUint16(1)
+  setUint16(numOfChan)
+  setUint32(buffer.sampleRate)
+  setUint32(buffer.sampleRate * numOfChan * 2)
+  setUint16(numOfChan * 2)
+  setUint16(16)
+  setUint32(0x61746164) // "data"
+  setUint32(length - pos - 4)
+
+  for (let i = 0; i < buffer.numberOfChannels; i++) channels.push(buffer.getChannelData(i))
+  while (pos < length) {
+    for (let i = 0; i < numOfChan; i++) {
+      let sample = Math.max(-1, Math.min(1, channels[i][offset]))
+      sample = sample < 0 ? sample * 0x8000 : sample * 0x7FFF
+      view.setInt16(pos, sample, true)
+      pos += 2
+    }
+    offset++
+  }
+  return new Blob([view], { type: 'audio/wav' })
+}
+
+// Compress audio for AI analysis: mono MP3 at the lowest bitrate tier that fits.
+// Returns null when FFmpeg isn't available or fails - the analysis then falls back to the original.
+export async function compressForAnalysis(file: Blob, fileName: string, durationSeconds?: number | null): Promise<Blob | null> {
+  const ffmpeg = await loadFFmpeg()
+  if (!ffmpeg) {
+    console.log('FFmpeg not available, skipping compression')
+    return null
+  }
+
+  try {
+    let input: Blob = file
+    let inputExt = fileName.split('.').pop()?.toLowerCase() || 'mp3'
+
+    if (needsBrowserConversion(fileName) && file.size <= MAX_BROWSER_CONVERSION_SIZE) {
+      try {
+        input = await convertWithWebAudio(file)
+        inputExt = 'wav'
+      } catch {
+        console.log('Browser conversion failed, trying FFmpeg on the original')
+      }
+    }
+
+    const inputFileName = `input_analysis.${inputExt}`
+    const outputFileName = 'output_analysis.mp3'
+    const { bitrate, sampleRate } = calculateAnalysisBitrate(durationSeconds || estimateDurationSeconds(file.size))
+    console.log(`[Analysis compression] ${(file.size / 1024 / 1024).toFixed(2)} MB -> ${bitrate}bps @ ${sampleRate}Hz`)
+
+    await ffmpeg.writeFile(inputFileName, await fetchFile(input))
+    await ffmpeg.exec([
+      '-i', inputFileName,
+      '-vn',
+      '-ac', '1',
+      '-ar', sampleRate,
+      '-b:a', bitrate,
+      '-y',
+      outputFileName
+    ])
+
+    const data = await ffmpeg.readFile(outputFileName)
+
+    // Cleanup
+    try {
+      await ffmpeg.deleteFile(inputFileName)
+      await ffmpeg.deleteFile(outputFileName)
+    } catch { /* ignore */ }
+
+    const compressed = new Blob([new Uint8Array(data as Uint8Array)], { type: 'audio/mpeg' })
+    console.log(`[Analysis compression] Result: ${(compressed.size / 1024 / 1024).toFixed(2)} MB`)
+    return compressed
+  } catch (err) {
+    console.error('Analysis compression failed:', err)
+    return null
+  }
+}
+
+// ============================================
+// UPLOAD
+// ============================================
+
+// Duration from the file's metadata; null when the browser can't tell (e.g. MediaRecorder WebM)
+export function getAudioDuration(file: Blob): Promise<number | null> {
+  return new Promise((resolve) => {
+    const audio = new Audio()
+    audio.preload = 'metadata'
+
+    audio.onloadedmetadata = () => {
+      URL.revokeObjectURL(audio.src)
+      const duration = Math.round(audio.duration)
+      resolve(isNaN(duration) || !isFinite(duration) ? null : duration)
+    }
+
+    audio.onerror = () => {
+      URL.revokeObjectURL(audio.src)
+      resolve(null)
+    }
+
+    audio.src = URL.createObjectURL(file)
+  })
+}
+
+// Upload one object to the audio bucket. Uses XHR rather than supabase-js for progress events.
+export async function uploadAudioObject(
+  path: string,
+  file: Blob,
+  contentType: string,
+  { onProgress, signal }: { onProgress?: (percentage: number) => void; signal?: AbortSignal } = {}
+): Promise<void> {
+  const supabase = createClient()
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session?.access_token) {
+    throw new Error('No valid session')
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Upload cancelled'))
+      return
+    }
+
+    const xhr = new XMLHttpRequest()
+
+    xhr.upload.addEventListener('progress', (event) => {
+      if (event.lengthComputable && onProgress) {
+        onProgress(Math.round((event.loaded / event.total) * 100))
+      }
+    })
+
+    xhr.addEventListener('load', () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve()
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}`))
+      }
+    })
+
+    xhr.addEventListener('error', () => reject(new Error('Upload failed')))
+    xhr.addEventListener('abort', () => reject(new Error('Upload cancelled')))
+    signal?.addEventListener('abort', () => xhr.abort())
+
+    xhr.open('POST', `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/${AUDIO_BUCKET}/${path}`)
+    xhr.setRequestHeader('Authorization', `Bearer ${session.access_token}`)
+    xhr.setRequestHeader('Content-Type', contentType)
+    xhr.setRequestHeader('x-upsert', 'true')
+    xhr.send(file)
+  })
+}
+
+// Compress and store the analysis copy. Best effort - null if either step fails.
+export async function storeAnalysisCopy(
+  file: Blob,
+  fileName: string,
+  analysisFilePath: string,
+  duration: number | null,
+  { onStage, signal }: RecordingUploadCallbacks = {}
+): Promise<AnalysisCopy | null> {
+  onStage?.('compressing')
+  const compressed = await compressForAnalysis(file, fileName, duration)
+  if (!compressed) return null
+
+  onStage?.('uploading-analysis')
+  try {
+    await uploadAudioObject(analysisFilePath, compressed, 'audio/mpeg', { signal })
+    console.log(`Analysis file uploaded: ${(compressed.size / 1024 / 1024).toFixed(2)} MB`)
+    return { path: analysisFilePath, size: compressed.size }
+  } catch (err) {
+    if (signal?.aborted) throw err
+    console.error('Failed to upload analysis file, AI will use original:', err)
+    return null
+  }
+}
+
+// Full pipeline: recordings row (status 'uploading'), original, analysis copy, then status 'done'.
+// On failure or abort the row and anything already uploaded are removed, so the caller can retry.
+export async function uploadRecording(
+  input: RecordingUploadInput,
+  callbacks: RecordingUploadCallbacks = {}
+): Promise<Recording> {
+  const { onStage, onProgress, signal } = callbacks
+  const supabase = createClient()
+  const { filePath, analysisFilePath } = buildRecordingPaths(input.userId, input.fileName)
+  const duration = input.duration ?? await getAudioDuration(input.file)
+
+  // 1. Create recording entry
+  const recordingInsert: RecordingInsert = {
+    user_id: input.userId,
+    file_path: filePath,
+    file_name: input.displayName || input.fileName,
+    file_size: input.file.size,
+    duration,
+    status: 'uploading',
+    ...input.callDetails,
+  }
+
+  const { data: newRecording, error: insertError } = await supabase
+    .from('recordings')
+    .insert(recordingInsert)
+    .select()
+    .single()
+
+  if (insertError) {
+    throw new Error(`Failed to create recording: ${insertError.message}`)
+  }
+
+  try {
+    // 2. Upload ORIGINAL file (for playback) - 0-70% progress
+    onStage?.('uploading')
+    onProgress?.(0)
+    await uploadAudioObject(filePath, input.file, input.mimeType || input.file.type || 'audio/mpeg', {
+      signal,
+      onProgress: (pct) => onProgress?.(Math.round(pct * 0.7)),
+    })
+
+    // 3. Compress and upload ANALYSIS file (for AI) - 70-95% progress
+    onProgress?.(75)
+    const analysis = await storeAnalysisCopy(input.file, input.fileName, analysisFilePath, duration, {
+      signal,
+      onStage: (stage) => {
+        onStage?.(stage)
+        if (stage === 'uploading-analysis') onProgress?.(85)
+      },
+    })
+
+    onStage?.('done')
+    onProgress?.(95)
+
+    // 4. Mark the recording ready
+    const { data: updatedRecording, error: updateError } = await supabase
+      .from('recordings')
+      .update({
+        status: 'done',
+        analysis_file_path: analysis?.path || null,
+        analysis_file_size: analysis?.size || null,
+      })
+      .eq('id', newRecording.id)
+      .select()
+      .single()
+
+    if (updateError) {
+      throw new Error(`Failed to update recording status: ${updateError.message}`)
+    }
+
+    onProgress?.(100)
+    return updatedRecording
+  } catch (err) {
+    await supabase.storage.from(AUDIO_BUCKET).remove([filePath, analysisFilePath])
+    await supabase.from('recordings').delete().eq('id', newRecording.id)
+    throw err
+  }
+}
+
+// For uploads that put the original in the bucket themselves (Uppy's resumable uploads):
+// store the analysis copy and create the recordings row.
+export async function createRecordingForUpload(
+  input: RecordingUploadInput & { filePath: string; analysisFilePath: string },
+  callbacks: RecordingUploadCallbacks = {}
+): Promise<Recording> {
+  const supabase = createClient()
+  const duration = input.duration ?? await getAudioDuration(input.file)
+  const analysis = await storeAnalysisCopy(input.file, input.fileName, input.analysisFilePath, duration, callbacks)
+
+  const recordingInsert: RecordingInsert = {
+    user_id: input.userId,
+    file_path: input.filePath,
+    analysis_file_path: analysis?.path || null,
+    analysis_file_size: analysis?.size || null,
+    file_name: input.displayName || input.fileName,
+    file_size: input.file.size,
+    duration,
+    status: 'done',
+  }
+
+  const { data: newRecording, error } = await supabase
+    .from('recordings')
+    .insert(recordingInsert)
+    .select()
+    .single()
+
+  if (error) {
+    if (analysis) await supabase.storage.from(AUDIO_BUCKET).remove([analysis.path])
+    throw new Error(`Failed to save recording: ${error.message}`)
+  }
+
+  callbacks.onStage?.('done')
+  return newRecording
+}
+
+// Background uploads (src/worker/index.ts) only store the original and leave the row 'uploading'.
+// The recording page finishes them: compress the original into the analysis copy, then mark the
+// row 'done' - without a copy if compression fails, as the analysis then uses the original.
+export async function finishBackgroundUpload(
+  recording: Recording,
+  callbacks: RecordingUploadCallbacks = {}
+): Promise<Recording | null> {
+  const supabase = createClient()
+  const { data: original, error: downloadError } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .download(recording.file_path)
+
+  if (downloadError || !original) {
+    throw new Error(`Failed to download recording: ${downloadError?.message || 'no data'}`)
+  }
+
+  const analysis = await storeAnalysisCopy(original, recording.file_path, analysisPathFor(recording.file_path), recording.duration, callbacks)
+
+  // Only while still 'uploading' - another tab may have finished it meanwhile
+  const { data: updatedRecording, error } = await supabase
+    .from('recordings')
+    .update({
+      status: 'done',
+      analysis_file_path: analysis?.path || null,
+      analysis_file_size: analysis?.size || null,
+    })
+    .eq('id', recording.id)
+    .eq('status', 'uploading')
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to update recording status: ${error.message}`)
+  }
+
+  callbacks.onStage?.('done')
+  return updatedRecording
+}
@@ -0,0 +1,62 @@
+// Recording shares (shared_recordings, supabase/migrations/013 and 014). A share with a share_token
+// is a public link to /share/<token> that works without an account; a share with shared_with grants
+// one account access to the normal recording page.
+import { SharedRecording } from '@/types/database'
+
+export type SharePermission = SharedRecording['permissions']
+
+export const SHARE_PERMISSIONS: SharePermission[] = ['view', 'comment', 'edit']
+
+// Nobody is signed in on a public link, so there's no one to attribute an edit to
+export const PUBLIC_LINK_PERMISSIONS: SharePermission[] = ['view', 'comment']
+
+export const SHARE_PERMISSION_LABELS: Record<SharePermission, string> = {
+  view: 'Can view',
+  comment: 'Can comment',
+  edit: 'Can edit',
+}
+
+// A public link's "comment" permission shows the comments but can't post them
+export const LINK_PERMISSION_LABELS: Record<SharePermission, string> = {
+  view: 'View only',
+  comment: 'View with comments',
+  edit: 'Can edit',
+}
+
+// Does a grant with `granted` allow `required`? Each permission includes the ones before it.
+export function hasSharePermission(granted: SharePermission | null | undefined, required: SharePermission): boolean {
+  return !!granted && SHARE_PERMISSIONS.indexOf(granted) >= SHARE_PERMISSIONS.indexOf(required)
+}
+
+// Days until a new link expires; null never expires
+export const SHARE_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Never', days: null },
+]
+
+// 64 hex characters - long enough that links can't be guessed
+export function generateShareToken(): string {
+  return (crypto.randomUUID() + crypto.randomUUID()).replace(/-/g, '')
+}
+
+export function buildShareUrl(siteUrl: string, token: string): string {
+  return `${siteUrl.replace(/\/$/, '')}/share/${token}`
+}
+
+// What a public link shows instead of an email address: "jane.doe@acme.com" -> "JD"
+export function publicInitials(email: string | null | undefined): string | null {
+  const words = (email?.split('@')[0] || '').split(/[._\-+\s]+/).filter(Boolean)
+  const initials = words.slice(0, 2).map(word => word[0].toUpperCase()).join('')
+  return initials || null
+}
+
+// Comment text for a public link: full addresses (e.g. in @mentions) become initials too
+export function maskEmails(text: string): string {
+  return text.replace(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, email => publicInitials(email) || 'someone')
+}
+
+export function isShareExpired(share: Pick<SharedRecording, 'expires_at'>, now: Date = new Date()): boolean {
+  return !!share.expires_at && new Date(share.expires_at).getTime() <= now.getTime()
+}
@@ -39,12 +39,21 @@ export async function updateSession(request: NextRequest) {
     data: { user },
   } = await supabase.auth.getUser()
 
+  // Invite links send signed-out visitors to sign-up with the invite attached
+  if (!user && request.nextUrl.pathname.startsWith('/invite/')) {
+    const url = request.nextUrl.clone()
+    url.pathname = '/signup'
+    url.search = `?invite=${request.nextUrl.pathname.split('/')[2] || ''}`
+    return NextResponse.redirect(url)
+  }
+
   // Protected routes - redirect to login if not authenticated
   if (
     !user &&
     !request.nextUrl.pathname.startsWith('/login') &&
     !request.nextUrl.pathname.startsWith('/signup') &&
     !request.nextUrl.pathname.startsWith('/auth') &&
+    !request.nextUrl.pathname.startsWith('/share/') &&  // Public share links
     request.nextUrl.pathname !== '/'
   ) {
     const url = request.nextUrl.clone()
@@ -59,7 +68,9 @@ export async function updateSession(request: NextRequest) {
       request.nextUrl.pathname.startsWith('/signup'))
   ) {
     const url = request.nextUrl.clone()
-    url.pathname = '/dashboard'
+    const invite = request.nextUrl.searchParams.get('invite')
+    url.pathname = invite ? `/invite/${invite}` : '/dashboard'
+    url.search = ''
     return NextResponse.redirect(url)
   }
 
@@ -1,10 +1,14 @@
 // Sync service - uploads pending recordings when online
-import { createClient } from '@/lib/supabase/client'
+import { uploadRecording } from '@/lib/recordingUpload'
 import { 
   getPendingRecordings, 
   updateRecordingStatus, 
   deleteOfflineRecording,
+  claimPendingRecording,
+  canAttemptUpload,
+  getRetryState,
   PendingRecording,
+  BACKGROUND_SYNC_TAG,
   isOnline
 } from './offlineStorage'
 
@@ -19,8 +23,21 @@ export interface SyncStatus {
   error: string | null
 }
 
+// Messages from the service worker (src/worker/index.ts)
+export type SyncWorkerMessage =
+  | { type: 'sync-status'; status: SyncStatus }  // Progress of a background upload
+  | { type: 'sync-requested' }                   // The app is open, so upload from the page
+
+// Background Sync and Periodic Background Sync aren't in the DOM typings yet
+interface SyncCapableRegistration {
+  sync?: { register(tag: string): Promise<void> }
+  periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> }
+}
+
 let syncInProgress = false
 let syncCallbacks: SyncCallback[] = []
+let autoSyncUserId: string | null = null
+let retryTimer: ReturnType<typeof setTimeout> | null = null
 
 // Subscribe to sync status updates
 export function onSyncStatus(callback: SyncCallback): () => void {
@@ -53,7 +70,7 @@ export async function syncPendingRecordings(userId: string): Promise<{ success:
   
   try {
     const pending = await getPendingRecordings(userId)
-    const toSync = pending.filter(r => r.status === 'pending' || (r.status === 'error' && r.retryCount < 3))
+    const toSync = pending.filter(canAttemptUpload)
     
     if (toSync.length === 0) {
       console.log('✅ No recordings to sync')
@@ -73,11 +90,13 @@ export async function syncPendingRecordings(userId: string): Promise<{ success:
     })
     
     for (let i = 0; i < toSync.length; i++) {
-      const recording = toSync[i]
+      // The service worker may have picked it up meanwhile
+      const recording = await claimPendingRecording(toSync[i].id)
+      if (!recording) continue
       
       notifyStatus({
         isSyncing: true,
-        currentItem: recording.fileName,
+        currentItem: recording.displayName || recording.fileName,
         progress: Math.round((i / toSync.length) * 100),
         totalItems: toSync.length,
         completedItems: i,
@@ -120,50 +139,44 @@ export async function syncPendingRecordings(userId: string): Promise<{ success:
     })
   } finally {
     syncInProgress = false
+    scheduleRetry(userId)
   }
   
   return { success, failed }
 }
 
-// Upload a single pending recording to Supabase
-async function uploadPendingRecording(recording: PendingRecording): Promise<void> {
-  const supabase = createClient()
-  
-  // Update status to uploading
-  await updateRecordingStatus(recording.id, 'uploading')
-  
-  // Generate unique file path
-  const timestamp = Date.now()
-  const safeName = recording.fileName.replace(/[^a-zA-Z0-9.-]/g, '_')
-  const filePath = `${recording.userId}/${timestamp}-${safeName}`
-  
-  // Upload to Supabase Storage
-  const { error: uploadError } = await supabase.storage
-    .from('recordings')
-    .upload(filePath, recording.audioBlob, {
-      contentType: recording.mimeType,
-      upsert: false,
-    })
-  
-  if (uploadError) {
-    throw new Error(`Upload failed: ${uploadError.message}`)
+// Wake up for the earliest failed recording whose backoff runs out while the app is open
+async function scheduleRetry(userId: string) {
+  if (retryTimer) clearTimeout(retryTimer)
+  retryTimer = null
+  if (autoSyncUserId !== userId) return
+
+  try {
+    const pending = await getPendingRecordings(userId)
+    const retryTimes = pending
+      .map(r => getRetryState(r))
+      .flatMap(state => state.kind === 'backoff' ? [state.nextAttemptAt] : [])
+    if (retryTimes.length === 0 || autoSyncUserId !== userId) return
+
+    const delay = Math.max(Math.min(...retryTimes) - Date.now(), 0)
+    console.log(`⏱️ Next upload retry in ${Math.round(delay / 1000)}s`)
+    retryTimer = setTimeout(() => syncPendingRecordings(userId), delay)
+  } catch (error) {
+    console.error('Failed to schedule upload retry:', error)
   }
-  
-  // Create recording record in database
-  const { error: dbError } = await supabase.from('recordings').insert({
-    user_id: recording.userId,
-    file_path: filePath,
-    file_name: recording.fileName,
-    file_size: recording.fileSize,
-    status: 'done',
-    is_archived: false,
+}
+
+// Upload a single pending recording through the same pipeline as online uploads
+async function uploadPendingRecording(recording: PendingRecording): Promise<void> {
+  await uploadRecording({
+    userId: recording.userId,
+    file: recording.audioBlob,
+    fileName: recording.fileName,
+    displayName: recording.displayName,
+    mimeType: recording.mimeType,
+    duration: recording.duration,
+    callDetails: recording.callDetails,
   })
-  
-  if (dbError) {
-    // Try to delete the uploaded file if DB insert failed
-    await supabase.storage.from('recordings').remove([filePath])
-    throw new Error(`Database error: ${dbError.message}`)
-  }
 }
 
 // Check if there are pending recordings
@@ -172,6 +185,25 @@ export async function hasPendingRecordings(userId: string): Promise<boolean> {
   return pending.some(r => r.status === 'pending' || r.status === 'error')
 }
 
+// Ask the service worker to drain the queue once there's signal, even if the app is closed by
+// then. Best effort: Background Sync is Chromium-only and there's no worker in development.
+export async function requestBackgroundSync(): Promise<void> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return
+
+  try {
+    // getRegistration() rather than .ready, which never settles without a worker
+    const registration = await navigator.serviceWorker.getRegistration()
+    if (!registration) return
+
+    const { sync, periodicSync } = registration as SyncCapableRegistration
+    await sync?.register(BACKGROUND_SYNC_TAG)
+    await periodicSync?.register(BACKGROUND_SYNC_TAG, { minInterval: 60 * 60 * 1000 })
+    console.log('📡 Background sync requested')
+  } catch (error) {
+    console.log('⚠️ Background sync unavailable:', error)
+  }
+}
+
 // Setup automatic sync when coming online
 export function setupAutoSync(userId: string) {
   if (typeof window === 'undefined') return
@@ -181,11 +213,30 @@ export function setupAutoSync(userId: string) {
     syncPendingRecordings(userId)
   }
   
+  // Background uploads report progress here; an open app uploads them itself
+  const handleWorkerMessage = (event: MessageEvent<SyncWorkerMessage>) => {
+    if (event.data?.type === 'sync-status') notifyStatus(event.data.status)
+    if (event.data?.type === 'sync-requested') syncPendingRecordings(userId)
+  }
+  
   window.addEventListener('online', handleOnline)
+  navigator.serviceWorker?.addEventListener('message', handleWorkerMessage)
+  
+  // Anything left from an earlier session gets a background sync registered too
+  hasPendingRecordings(userId)
+    .then(hasPending => { if (hasPending) requestBackgroundSync() })
+    .catch(error => console.error('Failed to check pending recordings:', error))
+  
+  autoSyncUserId = userId
+  scheduleRetry(userId)
   
   // Return cleanup function
   return () => {
     window.removeEventListener('online', handleOnline)
+    navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage)
+    autoSyncUserId = null
+    if (retryTimer) clearTimeout(retryTimer)
+    retryTimer = null
   }
 }
 
@@ -0,0 +1,81 @@
+// Line-level diff for showing two prompt versions side by side.
+// Plain LCS table - prompts are a few hundred lines, so O(n*m) is fine here.
+
+export type DiffRowKind = 'same' | 'added' | 'removed' | 'changed'
+
+export interface DiffLine {
+  lineNumber: number
+  text: string
+}
+
+export interface DiffRow {
+  kind: DiffRowKind
+  left: DiffLine | null
+  right: DiffLine | null
+}
+
+type DiffOp = { type: 'same' | 'added' | 'removed'; leftIndex?: number; rightIndex?: number }
+
+function diffOps(left: string[], right: string[]): DiffOp[] {
+  // lcs[i][j] = length of the common subsequence of left[i..] and right[j..]
+  const lcs: number[][] = Array.from({ length: left.length + 1 }, () => new Array(right.length + 1).fill(0))
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lcs[i][j] = left[i] === right[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const ops: DiffOp[] = []
+  let i = 0
+  let j = 0
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      ops.push({ type: 'same', leftIndex: i++, rightIndex: j++ })
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'removed', leftIndex: i++ })
+    } else {
+      ops.push({ type: 'added', rightIndex: j++ })
+    }
+  }
+  while (i < left.length) ops.push({ type: 'removed', leftIndex: i++ })
+  while (j < right.length) ops.push({ type: 'added', rightIndex: j++ })
+  return ops
+}
+
+// Removed/added runs next to each other are paired up as 'changed' rows so edits line up
+export function diffLinesSideBySide(before: string, after: string): DiffRow[] {
+  const left = before.split('\n')
+  const right = after.split('\n')
+  const line = (lines: string[], index: number): DiffLine => ({ lineNumber: index + 1, text: lines[index] })
+
+  const rows: DiffRow[] = []
+  let removed: number[] = []
+  let added: number[] = []
+
+  const flush = () => {
+    const count = Math.max(removed.length, added.length)
+    for (let k = 0; k < count; k++) {
+      const l = removed[k] !== undefined ? line(left, removed[k]) : null
+      const r = added[k] !== undefined ? line(right, added[k]) : null
+      rows.push({ kind: l && r ? 'changed' : l ? 'removed' : 'added', left: l, right: r })
+    }
+    removed = []
+    added = []
+  }
+
+  for (const op of diffOps(left, right)) {
+    if (op.type === 'removed') {
+      removed.push(op.leftIndex!)
+    } else if (op.type === 'added') {
+      added.push(op.rightIndex!)
+    } else {
+      flush()
+      rows.push({ kind: 'same', left: line(left, op.leftIndex!), right: line(right, op.rightIndex!) })
+    }
+  }
+  flush()
+
+  return rows
+}
@@ -0,0 +1,107 @@
+// Call analytics - deterministic talk-time, monologue, interruption, question and post-price
+// silence numbers computed from transcript segments and speaker roles. Segment timestamps only
+// mark when a turn started, so spoken time is estimated from the word count and anything left
+// before the next turn counts as silence.
+import { formatTime } from '@/lib/pipeline/helpers'
+import { CallAnalytics, RecordingSpeaker, TranscriptSegment, TranscriptSpeakerRole } from '@/types/database'
+import { SECONDS_PER_WORD } from './parser'
+
+type SpeakerInfo = Pick<RecordingSpeaker, 'speaker_key' | 'role'>
+
+const DOLLAR_AMOUNT = /\$\s?\d[\d,]*(\.\d+)?|\b\d[\d,]*\s?(dollars|bucks)\b/i
+const PRICE_WORDS = /\b(price|total|investment|cost|comes to|comes out)\b/i
+// A turn that stops without finishing its sentence was cut off by the next speaker
+const CUT_OFF = /([-–—]|\.\.\.|…)$|[^.?!"')\]]$/
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+// Spoken time is the word-count estimate, capped by the time until the next turn
+function spokenSeconds(segment: TranscriptSegment): number {
+  return Math.min(segment.end_seconds - segment.start_seconds, wordCount(segment.text) * SECONDS_PER_WORD)
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+export function computeCallAnalytics(segments: TranscriptSegment[], speakers: SpeakerInfo[]): CallAnalytics {
+  const roleByKey = new Map(speakers.map(s => [s.speaker_key, s.role]))
+  const roleOf = (segment: TranscriptSegment): TranscriptSpeakerRole => roleByKey.get(segment.speaker_key) || 'other'
+  const hasRep = speakers.some(s => s.role === 'rep')
+
+  const talk: Record<TranscriptSpeakerRole, number> = { rep: 0, homeowner: 0, other: 0 }
+  const interruptions = { by_rep: 0, by_homeowner: 0 }
+  const questions = { by_rep: 0, by_homeowner: 0 }
+  let longestMonologue: CallAnalytics['longest_rep_monologue'] = null
+  let monologueStart: number | null = null
+
+  segments.forEach((segment, i) => {
+    const role = roleOf(segment)
+    const spoken = spokenSeconds(segment)
+    talk[role] += spoken
+
+    const questionCount = (segment.text.match(/\?/g) || []).length
+    if (role === 'rep') questions.by_rep += questionCount
+    if (role === 'homeowner') questions.by_homeowner += questionCount
+
+    const previous = segments[i - 1]
+    if (previous && previous.speaker_key !== segment.speaker_key && CUT_OFF.test(previous.text.trim())) {
+      if (role === 'rep') interruptions.by_rep++
+      if (role === 'homeowner') interruptions.by_homeowner++
+    }
+
+    // Consecutive rep turns are one monologue
+    if (role === 'rep') {
+      if (monologueStart === null) monologueStart = segment.start_seconds
+      const seconds = segment.start_seconds + spoken - monologueStart
+      if (!longestMonologue || seconds > longestMonologue.seconds) {
+        longestMonologue = { start_seconds: monologueStart, seconds: round(seconds) }
+      }
+    } else {
+      monologueStart = null
+    }
+  })
+
+  // The price is the rep's first dollar amount said alongside price words, else their first dollar amount
+  const repPriceTurns = segments.filter(s => roleOf(s) === 'rep' && DOLLAR_AMOUNT.test(s.text))
+  const priceTurn = repPriceTurns.find(s => PRICE_WORDS.test(s.text)) || repPriceTurns[0]
+  let postPriceSilence: number | null = null
+  if (priceTurn && segments.indexOf(priceTurn) < segments.length - 1) {
+    postPriceSilence = round(Math.max(0, priceTurn.end_seconds - priceTurn.start_seconds - spokenSeconds(priceTurn)))
+  }
+
+  const totalTalk = talk.rep + talk.homeowner + talk.other
+  return {
+    rep_talk_seconds: round(talk.rep),
+    homeowner_talk_seconds: round(talk.homeowner),
+    other_talk_seconds: round(talk.other),
+    rep_talk_ratio: hasRep && totalTalk > 0 ? Math.round((talk.rep / totalTalk) * 100) / 100 : null,
+    longest_rep_monologue: longestMonologue,
+    interruptions,
+    questions,
+    price_presented_at: priceTurn ? priceTurn.start_seconds : null,
+    post_price_silence_seconds: postPriceSilence,
+  }
+}
+
+// Block for the W4 prompt so talk-ratio and silence checkpoints rest on measured numbers
+export function formatCallAnalyticsForPrompt(analytics: CallAnalytics): string {
+  const lines = [
+    'CALL ANALYTICS (measured from the transcript timestamps - treat these as hard evidence for talk ratio, monologues, interruptions and Post-Close Silence):',
+    `- Rep talk time: ${formatTime(analytics.rep_talk_seconds)}; homeowner talk time: ${formatTime(analytics.homeowner_talk_seconds)}`,
+    analytics.rep_talk_ratio !== null
+      ? `- Rep share of talk time: ${Math.round(analytics.rep_talk_ratio * 100)}%`
+      : '- Rep share of talk time: unknown (rep not identified)',
+    analytics.longest_rep_monologue
+      ? `- Longest rep monologue: ${Math.round(analytics.longest_rep_monologue.seconds)}s starting at ${formatTime(analytics.longest_rep_monologue.start_seconds)}`
+      : '- Longest rep monologue: none',
+    `- Interruptions: rep cut off the homeowner ${analytics.interruptions.by_rep}x, homeowner cut off the rep ${analytics.interruptions.by_homeowner}x`,
+    `- Questions asked: rep ${analytics.questions.by_rep}, homeowner ${analytics.questions.by_homeowner}`,
+    analytics.price_presented_at !== null
+      ? `- Price first presented at ${formatTime(analytics.price_presented_at)}; silence after it: ${analytics.post_price_silence_seconds ?? 0}s`
+      : '- Price presentation: not detected in the transcript',
+  ]
+  return lines.join('\n')
+}
@@ -0,0 +1,136 @@
+// Transcript parser - turns the transcription model's "0:00 - Mike" text into validated
+// segments (start/end seconds, speaker key, text) plus the list of speakers with a best-guess
+// role. Used by the transcription pipeline when saving, and by the UI for transcripts saved
+// before segments existed.
+import { formatTime, parseTimestamp } from '@/lib/pipeline/helpers'
+import { TranscriptSegment, TranscriptSpeakerRole } from '@/types/database'
+
+export interface ParsedSpeaker {
+  speaker_key: string
+  name: string
+  role: TranscriptSpeakerRole
+}
+
+export interface ParsedTranscript {
+  segments: TranscriptSegment[]
+  speakers: ParsedSpeaker[]
+  problems: string[]  // Things the parser had to fix or drop
+}
+
+const TIMESTAMP = '(\\d{1,2}:\\d{2}(?::\\d{2})?)'
+// Header lines the model has been seen to produce
+const HEADER_FORMATS: { pattern: RegExp; timestamp: number; speaker: number }[] = [
+  // "0:00 - Speaker Name" or "**0:00** - Speaker" (markdown bold timestamps)
+  { pattern: new RegExp(`^\\*{0,2}${TIMESTAMP}\\*{0,2}\\s*[-–—:]\\s*(.+)$`), timestamp: 1, speaker: 2 },
+  // "[0:00] Speaker Name:" or "(00:00) Speaker"
+  { pattern: new RegExp(`^[\\[(]${TIMESTAMP}[\\])]\\s*([^:]+):?\\s*$`), timestamp: 1, speaker: 2 },
+  // "0:00 Speaker Name:" - without brackets the trailing colon is required, so spoken text that
+  // starts with a time ("3:00 works for us") stays part of the turn
+  { pattern: new RegExp(`^${TIMESTAMP}\\s+([^:]+):\\s*$`), timestamp: 1, speaker: 2 },
+  // "Speaker Name (0:00):" or "Speaker [00:00]"
+  { pattern: new RegExp(`^([^(\\[]+)\\s*[\\[(]${TIMESTAMP}[\\])]:?\\s*$`), timestamp: 2, speaker: 1 },
+]
+
+const HOMEOWNER_NAME = /customer|client|homeowner|owner|prospect|wife|husband/i
+const REP_NAME = /\brep\b|sales|salesperson|agent|inspector|contractor/i
+// Rough speaking rate (150 words/min), used to estimate how long a turn was actually spoken
+export const SECONDS_PER_WORD = 0.4
+
+function matchHeader(line: string): { timestamp: string; speaker: string } | null {
+  for (const format of HEADER_FORMATS) {
+    const match = line.match(format.pattern)
+    if (match) {
+      return { timestamp: match[format.timestamp], speaker: match[format.speaker].trim().replace(/:$/, '') }
+    }
+  }
+  return null
+}
+
+// Best-guess roles from speaker names: homeowner-ish names are homeowners; the rep is whoever is named like one, else the first other voice
+export function inferSpeakerRoles(names: string[]): TranscriptSpeakerRole[] {
+  const roles: TranscriptSpeakerRole[] = names.map(name => HOMEOWNER_NAME.test(name) ? 'homeowner' : 'other')
+
+  let repIndex = names.findIndex((name, i) => roles[i] !== 'homeowner' && REP_NAME.test(name))
+  if (repIndex === -1) repIndex = roles.findIndex(role => role !== 'homeowner')
+  if (repIndex !== -1) roles[repIndex] = 'rep'
+
+  // A two-person call without a named homeowner: the other voice is the homeowner
+  if (names.length === 2 && !roles.includes('homeowner') && repIndex !== -1) {
+    roles[1 - repIndex] = 'homeowner'
+  }
+  return roles
+}
+
+export function parseTranscript(text: string, durationSeconds?: number | null): ParsedTranscript {
+  const problems: string[] = []
+  const turns: { seconds: number; speaker: string; lines: string[] }[] = []
+  const maxSeconds = durationSeconds && durationSeconds > 0 ? durationSeconds : null
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    if (!line) return
+
+    const header = matchHeader(line)
+    if (!header) {
+      if (turns.length === 0) {
+        // Text before the first timestamp still belongs to the call
+        turns.push({ seconds: 0, speaker: 'Unknown', lines: [] })
+        problems.push(`Line ${index + 1}: text before the first timestamp`)
+      }
+      turns[turns.length - 1].lines.push(line)
+      return
+    }
+
+    let seconds = parseTimestamp(header.timestamp) ?? 0
+    const previous = turns[turns.length - 1]
+    if (previous && seconds < previous.seconds) {
+      problems.push(`Line ${index + 1}: timestamp ${header.timestamp} goes backwards (after ${formatTime(previous.seconds)})`)
+      seconds = previous.seconds
+    }
+    if (maxSeconds !== null && seconds > maxSeconds) {
+      problems.push(`Line ${index + 1}: timestamp ${header.timestamp} is past the end of the recording`)
+      seconds = maxSeconds
+    }
+    turns.push({ seconds, speaker: header.speaker, lines: [] })
+  })
+
+  const nonEmpty = turns.filter(turn => turn.lines.length > 0)
+  if (nonEmpty.length < turns.length) {
+    problems.push(`${turns.length - nonEmpty.length} timestamp(s) without any text were dropped`)
+  }
+  if (nonEmpty.length === 0) {
+    problems.push('No timestamped segments found')
+  }
+
+  // Speakers keyed by first appearance, matched case-insensitively
+  const speakerNames: string[] = []
+  const keyByName = new Map<string, string>()
+  for (const turn of nonEmpty) {
+    const normalized = turn.speaker.toLowerCase()
+    if (!keyByName.has(normalized)) {
+      speakerNames.push(turn.speaker)
+      keyByName.set(normalized, `S${speakerNames.length}`)
+    }
+  }
+  const roles = inferSpeakerRoles(speakerNames)
+
+  const segments: TranscriptSegment[] = nonEmpty.map(turn => {
+    const spoken = turn.lines.join(' ')
+    // A dropped empty turn still marks where the previous one ended
+    const next = turns[turns.indexOf(turn) + 1]
+    const estimatedEnd = turn.seconds + Math.ceil(spoken.split(/\s+/).length * SECONDS_PER_WORD)
+    const end = next ? next.seconds : maxSeconds ?? estimatedEnd
+    return {
+      start_seconds: turn.seconds,
+      end_seconds: Math.max(end, turn.seconds),
+      speaker_key: keyByName.get(turn.speaker.toLowerCase())!,
+      text: spoken,
+    }
+  })
+
+  return {
+    segments,
+    speakers: speakerNames.map((name, i) => ({ speaker_key: `S${i + 1}`, name, role: roles[i] })),
+    problems,
+  }
+}
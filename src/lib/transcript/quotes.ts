@@ -0,0 +1,43 @@
+// Fuzzy quote lookup - finds the transcript segment a quote was taken from. Model quotes are
+// rarely verbatim (dropped fillers, cleaned-up grammar), so matching is on shared word pairs.
+import { TranscriptSegment } from '@/types/database'
+
+// Share of the quote's word pairs that must appear in the segment
+const MIN_MATCH = 0.6
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9'\s]/g, ' ').split(/\s+/).filter(Boolean)
+}
+
+function pairs(tokens: string[]): string[] {
+  if (tokens.length < 2) return tokens
+  return tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)
+}
+
+function bestMatch(quotePairs: string[], candidates: { segment: TranscriptSegment; text: string }[]) {
+  let best: TranscriptSegment | null = null
+  let bestScore = 0
+  for (const { segment, text } of candidates) {
+    const segmentPairs = new Set(pairs(words(text)))
+    const score = quotePairs.filter(pair => segmentPairs.has(pair)).length / quotePairs.length
+    if (score > bestScore) {
+      best = segment
+      bestScore = score
+    }
+  }
+  return bestScore >= MIN_MATCH ? best : null
+}
+
+export function findQuoteSegment(quote: string, segments: TranscriptSegment[]): TranscriptSegment | null {
+  const quotePairs = pairs(words(quote))
+  if (quotePairs.length === 0) return null
+
+  const single = bestMatch(quotePairs, segments.map(segment => ({ segment, text: segment.text })))
+  if (single) return single
+
+  // Quotes can run across a timestamp boundary - try each segment joined with the next one
+  return bestMatch(quotePairs, segments.slice(0, -1).map((segment, i) => ({
+    segment,
+    text: `${segment.text} ${segments[i + 1].text}`,
+  })))
+}
@@ -0,0 +1,52 @@
+// Speaker edits on a parsed transcript. Segments reference speakers by key, so a rename or a
+// role change only touches recording_speakers; a merge also moves the segments over.
+import { formatTime } from '@/lib/pipeline/helpers'
+import { RecordingSpeaker, TranscriptSegment, TranscriptSpeakerRole } from '@/types/database'
+
+type SpeakerInfo = Pick<RecordingSpeaker, 'speaker_key' | 'name' | 'role'>
+
+// Reassign `fromKey`'s segments to `intoKey`, joining turns that end up back to back
+export function mergeSpeakerSegments(segments: TranscriptSegment[], fromKey: string, intoKey: string): TranscriptSegment[] {
+  const merged: TranscriptSegment[] = []
+  for (const segment of segments) {
+    const speakerKey = segment.speaker_key === fromKey ? intoKey : segment.speaker_key
+    const previous = merged[merged.length - 1]
+    if (previous && previous.speaker_key === speakerKey) {
+      previous.end_seconds = segment.end_seconds
+      previous.text = `${previous.text} ${segment.text}`
+    } else {
+      merged.push({ ...segment, speaker_key: speakerKey })
+    }
+  }
+  return merged
+}
+
+// Role changes for marking `speakerKey` as `role`. There is one rep per recording, so a new rep
+// hands its old role to the previous one (a swap, for the usual two-person call).
+export function planRoleChange(speakers: SpeakerInfo[], speakerKey: string, role: TranscriptSpeakerRole): { speaker_key: string; role: TranscriptSpeakerRole }[] {
+  const target = speakers.find(s => s.speaker_key === speakerKey)
+  if (!target || target.role === role) return []
+
+  // The previous rep steps down first so the one-rep index never sees two
+  const changes: { speaker_key: string; role: TranscriptSpeakerRole }[] = []
+  if (role === 'rep') {
+    const previousRep = speakers.find(s => s.role === 'rep' && s.speaker_key !== speakerKey)
+    if (previousRep) changes.push({ speaker_key: previousRep.speaker_key, role: target.role })
+  }
+  changes.push({ speaker_key: speakerKey, role })
+  return changes
+}
+
+// "0:00 - Name" text with the recording's current speaker names, for exports
+export function formatTranscriptText(segments: TranscriptSegment[], speakers: SpeakerInfo[]): string {
+  const names = new Map(speakers.map(s => [s.speaker_key, s.name]))
+  return segments
+    .map(segment => `${formatTime(segment.start_seconds)} - ${names.get(segment.speaker_key) || segment.speaker_key}\n${segment.text}`)
+    .join('\n\n')
+}
+
+// Body of POST /api/recordings/[id]/speakers
+export type SpeakerEdit =
+  | { action: 'rename'; speakerKey: string; name: string }
+  | { action: 'set_role'; speakerKey: string; role: TranscriptSpeakerRole }
+  | { action: 'merge'; speakerKey: string; intoKey: string }
@@ -0,0 +1,80 @@
+// Minimal tus 1.0 client over fetch, for Supabase Storage resumable uploads from the service
+// worker. tus-js-client (used by Uppy) needs XMLHttpRequest and window.localStorage, which a
+// service worker doesn't have. Resuming is explicit: keep the upload URL reported through
+// onUploadUrl and pass it back as uploadUrl on the next attempt.
+
+export const TUS_CHUNK_SIZE = 6 * 1024 * 1024 // Supabase requires exactly 6MB chunks
+
+export interface TusUploadOptions {
+  endpoint: string
+  headers: Record<string, string>
+  metadata: Record<string, string>
+  uploadUrl?: string | null                          // Resume this upload instead of creating one
+  onUploadUrl?: (url: string) => void | Promise<void>
+  onProgress?: (bytesSent: number, bytesTotal: number) => void
+}
+
+// Upload-Metadata: comma-separated "key base64(value)" pairs
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value)
+      return `${key} ${btoa(String.fromCharCode(...bytes))}`
+    })
+    .join(',')
+}
+
+export async function tusUpload(file: Blob, options: TusUploadOptions): Promise<void> {
+  const headers = { ...options.headers, 'Tus-Resumable': '1.0.0' }
+  let url = options.uploadUrl || null
+  let offset = 0
+
+  // Where did the earlier attempt get to?
+  if (url) {
+    const head = await fetch(url, { method: 'HEAD', headers })
+    if (head.ok) {
+      offset = Number(head.headers.get('Upload-Offset') || 0)
+    } else {
+      console.log(`⚠️ Upload can't be resumed (${head.status}), starting over`)
+      url = null
+    }
+  }
+
+  if (!url) {
+    const created = await fetch(options.endpoint, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'Upload-Length': String(file.size),
+        'Upload-Metadata': encodeMetadata(options.metadata),
+      },
+    })
+    const location = created.headers.get('Location')
+    if (!created.ok || !location) {
+      throw new Error(`Upload could not be created (${created.status}): ${await created.text()}`)
+    }
+    url = new URL(location, options.endpoint).toString()
+    await options.onUploadUrl?.(url)
+  }
+
+  options.onProgress?.(offset, file.size)
+
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + TUS_CHUNK_SIZE)
+    const response = await fetch(url, {
+      method: 'PATCH',
+      headers: {
+        ...headers,
+        'Upload-Offset': String(offset),
+        'Content-Type': 'application/offset+octet-stream',
+      },
+      body: chunk,
+    })
+    if (!response.ok) {
+      throw new Error(`Upload failed at ${offset} of ${file.size} bytes (${response.status})`)
+    }
+
+    offset = Number(response.headers.get('Upload-Offset') || offset + chunk.size)
+    options.onProgress?.(offset, file.size)
+  }
+}
@@ -0,0 +1,51 @@
+// Evidence linking - gives every checkpoint quote a position in the recording so the UI can
+// seek the player to it. The model's timestamp is used when it parses; otherwise the quote is
+// matched against the transcript segments. Quotes that can't be placed keep no seconds.
+import { formatTime, parseTimestamp } from '@/lib/pipeline/helpers'
+import { findQuoteSegment } from '@/lib/transcript/quotes'
+import { TranscriptSegment, W4Evidence, W4Report } from '@/types/database'
+import { W4_PHASE_KEYS } from './rubric'
+
+export function linkEvidence(evidence: W4Evidence, segments: TranscriptSegment[] | null): W4Evidence {
+  const seconds = evidence.timestamp ? parseTimestamp(evidence.timestamp) : null
+  if (seconds !== null) return { ...evidence, timestamp_seconds: seconds }
+
+  const segment = segments?.length ? findQuoteSegment(evidence.quote, segments) : null
+  if (!segment) return { quote: evidence.quote, timestamp: evidence.timestamp || '' }
+  return { ...evidence, timestamp: formatTime(segment.start_seconds), timestamp_seconds: segment.start_seconds }
+}
+
+// Returns a copy of the report with every checkpoint's evidence linked
+export function linkReportEvidence(report: W4Report, segments: TranscriptSegment[] | null): W4Report {
+  const phases = { ...report.phases }
+  for (const key of W4_PHASE_KEYS) {
+    const phase = phases[key]
+    if (!phase) continue
+    phases[key] = {
+      ...phase,
+      checkpoints: phase.checkpoints.map(cp => cp.evidence
+        ? { ...cp, evidence: cp.evidence.map(e => linkEvidence(e, segments)) }
+        : cp),
+    }
+  }
+  return { ...report, phases }
+}
+
+// Number of quotes that have a position, for logging
+export function countLinkedEvidence(report: W4Report): { linked: number; total: number } {
+  const all = W4_PHASE_KEYS.flatMap(key => report.phases[key]?.checkpoints || []).flatMap(cp => cp.evidence || [])
+  return { linked: all.filter(e => e.timestamp_seconds !== undefined).length, total: all.length }
+}
+
+// Seconds for a quote shown in the report: a matching evidence quote first, then the transcript
+export function locateQuote(quote: string, report: W4Report | null, segments: TranscriptSegment[] | null): number | null {
+  const normalized = quote.trim().toLowerCase()
+  const known = report
+    ? W4_PHASE_KEYS.flatMap(key => report.phases[key]?.checkpoints || []).flatMap(cp => cp.evidence || [])
+    : []
+  const evidence = known.find(e => e.timestamp_seconds !== undefined && e.quote.trim().toLowerCase() === normalized)
+  if (evidence) return evidence.timestamp_seconds!
+
+  const segment = segments?.length ? findQuoteSegment(quote, segments) : null
+  return segment ? segment.start_seconds : null
+}
@@ -0,0 +1,155 @@
+// Team leaderboard - ranks reps on their W4 reports by average score (already sale-adjusted: the
+// no-sale cap is applied when a report is scored), close rate and per-phase strength, and compares
+// each rep's checkpoints with the team median. Medians are taken over reps' averages, not over
+// calls, so one rep with many calls doesn't set the bar for everyone.
+import { W4PhaseKey, W4Report, W4RubricRef } from '@/types/database'
+import { W4_PHASE_KEYS } from './rubric'
+import { ProgressCall, toProgressCall } from './progress'
+
+export interface LeaderboardCall extends ProgressCall {
+  userId: string
+  closed: boolean | null    // null when the report has no sale outcome
+  rubric: string            // "default v3", or BUILT_IN_RUBRIC for reports not scored with a saved version
+}
+
+export interface CheckpointBenchmark {
+  phase: W4PhaseKey
+  name: string
+  repPercent: number
+  teamMedian: number
+  delta: number     // repPercent - teamMedian
+}
+
+export interface LeaderboardEntry {
+  rank: number
+  userId: string
+  calls: number
+  avgScore: number
+  closeRate: number | null  // % of calls with a known outcome that closed
+  phasePercents: Record<W4PhaseKey, number>
+  strongestPhase: W4PhaseKey
+  weakestPhase: W4PhaseKey
+  checkpoints: CheckpointBenchmark[]  // Biggest lag first
+}
+
+export interface Leaderboard {
+  entries: LeaderboardEntry[]
+  calls: number
+  teamMedianScore: number | null
+  teamMedianPhases: Record<W4PhaseKey, number> | null
+}
+
+export const BUILT_IN_RUBRIC = 'Built-in'
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+export function rubricLabel(ref: W4RubricRef | undefined): string {
+  return ref?.id ? `${ref.name} v${ref.version}` : BUILT_IN_RUBRIC
+}
+
+export function toLeaderboardCall(userId: string, recordingId: string, date: string, report: W4Report): LeaderboardCall {
+  return {
+    ...toProgressCall(recordingId, date, report),
+    userId,
+    closed: report.sale_outcome ? report.sale_outcome.closed : null,
+    rubric: rubricLabel(report.rubric),
+  }
+}
+
+export function buildLeaderboard(calls: LeaderboardCall[]): Leaderboard {
+  const byRep = new Map<string, LeaderboardCall[]>()
+  for (const call of calls) {
+    byRep.set(call.userId, [...(byRep.get(call.userId) || []), call])
+  }
+
+  // Per-rep averages first; the team medians are taken over these
+  const reps = [...byRep.entries()].map(([userId, repCalls]) => {
+    const known = repCalls.filter(c => c.closed !== null)
+    const checkpointPercents = new Map<string, { phase: W4PhaseKey; name: string; percents: number[] }>()
+    for (const call of repCalls) {
+      for (const cp of call.checkpoints) {
+        const key = `${cp.phase}:${cp.name}`
+        const entry = checkpointPercents.get(key) || { phase: cp.phase, name: cp.name, percents: [] }
+        entry.percents.push(cp.maxScore > 0 ? (cp.score / cp.maxScore) * 100 : 0)
+        checkpointPercents.set(key, entry)
+      }
+    }
+
+    return {
+      userId,
+      calls: repCalls.length,
+      avgScore: round(mean(repCalls.map(c => c.totalScore))),
+      closeRate: known.length > 0 ? round((known.filter(c => c.closed).length / known.length) * 100) : null,
+      phasePercents: Object.fromEntries(W4_PHASE_KEYS.map(phase => [
+        phase,
+        round(mean(repCalls.map(c => c.phasePercents[phase]))),
+      ])) as Record<W4PhaseKey, number>,
+      checkpointAverages: new Map([...checkpointPercents.entries()].map(([key, { phase, name, percents }]) => [
+        key,
+        { phase, name, percent: round(mean(percents)) },
+      ])),
+    }
+  })
+
+  if (reps.length === 0) {
+    return { entries: [], calls: 0, teamMedianScore: null, teamMedianPhases: null }
+  }
+
+  const teamCheckpointMedians = new Map<string, number>()
+  const checkpointKeys = new Set(reps.flatMap(rep => [...rep.checkpointAverages.keys()]))
+  for (const key of checkpointKeys) {
+    const values = reps.flatMap(rep => {
+      const average = rep.checkpointAverages.get(key)
+      return average ? [average.percent] : []
+    })
+    teamCheckpointMedians.set(key, round(median(values)))
+  }
+
+  const entries: LeaderboardEntry[] = reps
+    .sort((a, b) =>
+      b.avgScore - a.avgScore ||
+      (b.closeRate ?? -1) - (a.closeRate ?? -1) ||
+      b.calls - a.calls
+    )
+    .map((rep, i) => {
+      const phasesByPercent = [...W4_PHASE_KEYS].sort((a, b) => rep.phasePercents[b] - rep.phasePercents[a])
+      return {
+        rank: i + 1,
+        userId: rep.userId,
+        calls: rep.calls,
+        avgScore: rep.avgScore,
+        closeRate: rep.closeRate,
+        phasePercents: rep.phasePercents,
+        strongestPhase: phasesByPercent[0],
+        weakestPhase: phasesByPercent[phasesByPercent.length - 1],
+        checkpoints: [...rep.checkpointAverages.entries()]
+          .map(([key, { phase, name, percent }]) => {
+            const teamMedian = teamCheckpointMedians.get(key) ?? percent
+            return { phase, name, repPercent: percent, teamMedian, delta: round(percent - teamMedian) }
+          })
+          .sort((a, b) => a.delta - b.delta),
+      }
+    })
+
+  return {
+    entries,
+    calls: calls.length,
+    teamMedianScore: round(median(reps.map(rep => rep.avgScore))),
+    teamMedianPhases: Object.fromEntries(W4_PHASE_KEYS.map(phase => [
+      phase,
+      round(median(reps.map(rep => rep.phasePercents[phase]))),
+    ])) as Record<W4PhaseKey, number>,
+  }
+}
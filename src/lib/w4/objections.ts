@@ -0,0 +1,132 @@
+// Objection taxonomy for lost deals. sale_outcome.objection_reason is free text ("Price too high",
+// "Need to talk to my wife"); every lost call is filed under one category so losses can be counted
+// by rep and by month. Keyword rules are the fallback when the model didn't pick a category.
+import { CallObjection, ObjectionCategory, W4Report } from '@/types/database'
+
+export const OBJECTION_CATEGORIES: Record<ObjectionCategory, { label: string; color: string; keywords: string[] }> = {
+  price: {
+    label: 'Price',
+    color: '#ef4444',
+    keywords: ['price', 'expensive', 'cost', 'afford', 'budget', 'cheaper', 'money', 'financing', 'too much', 'payment'],
+  },
+  spouse: {
+    label: 'Spouse / decision maker',
+    color: '#ec4899',
+    keywords: ['spouse', 'wife', 'husband', 'partner', 'family', 'talk it over', 'decision maker', 'both of us', 'not home'],
+  },
+  more_quotes: {
+    label: 'More quotes',
+    color: '#f97316',
+    keywords: ['quote', 'estimate', 'bid', 'shop around', 'compare', 'other companies', 'other contractors', 'competitor'],
+  },
+  timing: {
+    label: 'Timing',
+    color: '#eab308',
+    keywords: ['timing', 'not ready', 'later', 'next year', 'spring', 'wait', 'think about it', 'not now', 'busy', 'time'],
+  },
+  insurance: {
+    label: 'Insurance',
+    color: '#3b82f6',
+    keywords: ['insurance', 'claim', 'adjuster', 'deductible', 'carrier', 'policy'],
+  },
+  trust: {
+    label: 'Trust',
+    color: '#8b5cf6',
+    keywords: ['trust', 'reviews', 'references', 'scam', 'pushy', 'pressure', 'credibility', 'never heard', 'reputation', 'warranty'],
+  },
+  other: {
+    label: 'Other',
+    color: '#64748b',
+    keywords: [],
+  },
+}
+
+export const OBJECTION_CATEGORY_KEYS = Object.keys(OBJECTION_CATEGORIES) as ObjectionCategory[]
+
+export function isObjectionCategory(value: unknown): value is ObjectionCategory {
+  return typeof value === 'string' && OBJECTION_CATEGORY_KEYS.includes(value as ObjectionCategory)
+}
+
+// Most specific first - "waiting on the insurance adjuster" is an insurance objection, not timing
+const RULE_ORDER: ObjectionCategory[] = ['insurance', 'spouse', 'more_quotes', 'price', 'trust', 'timing']
+
+// First category (in RULE_ORDER) whose keyword appears in the reason; "other" when none match
+export function classifyObjectionByRules(reason: string | null | undefined): ObjectionCategory {
+  const text = (reason || '').toLowerCase()
+  if (!text.trim()) return 'other'
+  for (const key of RULE_ORDER) {
+    if (OBJECTION_CATEGORIES[key].keywords.some(keyword => text.includes(keyword))) return key
+  }
+  return 'other'
+}
+
+// A report counts as a lost deal when it has a sale outcome that didn't close
+export function isLostDeal(report: W4Report | null | undefined): boolean {
+  return report?.sale_outcome ? !report.sale_outcome.closed : false
+}
+
+// ============================================================================
+// ANALYTICS
+// ============================================================================
+
+// One lost call, as shipped to the objections page
+export interface ObjectionCall {
+  recordingId: string
+  userId: string
+  date: string
+  title: string
+  reason: string | null
+  category: ObjectionCategory
+  source: CallObjection['source'] | null  // null until classified - category is the keyword rules' guess
+}
+
+export interface ObjectionBucket {
+  key: string   // userId or "YYYY-MM"
+  label: string
+  total: number
+  counts: Record<ObjectionCategory, number>
+}
+
+export interface ObjectionAnalytics {
+  total: number
+  byCategory: { category: ObjectionCategory; count: number }[]  // Most common first
+  byRep: ObjectionBucket[]    // Most losses first
+  byMonth: ObjectionBucket[]  // Oldest first
+}
+
+function emptyCounts(): Record<ObjectionCategory, number> {
+  return Object.fromEntries(OBJECTION_CATEGORY_KEYS.map(key => [key, 0])) as Record<ObjectionCategory, number>
+}
+
+function groupBy(calls: ObjectionCall[], keyOf: (call: ObjectionCall) => string, labelOf: (key: string) => string): ObjectionBucket[] {
+  const buckets = new Map<string, ObjectionBucket>()
+  for (const call of calls) {
+    const key = keyOf(call)
+    const bucket = buckets.get(key) || { key, label: labelOf(key), total: 0, counts: emptyCounts() }
+    bucket.total++
+    bucket.counts[call.category]++
+    buckets.set(key, bucket)
+  }
+  return [...buckets.values()]
+}
+
+export function monthKey(date: string): string {
+  return date.slice(0, 7)
+}
+
+export function buildObjectionAnalytics(calls: ObjectionCall[], repLabel: (userId: string) => string): ObjectionAnalytics {
+  const counts = emptyCounts()
+  for (const call of calls) counts[call.category]++
+
+  return {
+    total: calls.length,
+    byCategory: OBJECTION_CATEGORY_KEYS
+      .map(category => ({ category, count: counts[category] }))
+      .filter(c => c.count > 0)
+      .sort((a, b) => b.count - a.count),
+    byRep: groupBy(calls, c => c.userId, repLabel).sort((a, b) => b.total - a.total),
+    byMonth: groupBy(calls, c => monthKey(c.date), key =>
+      new Date(`${key}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })
+    ).sort((a, b) => a.key.localeCompare(b.key)),
+  }
+}
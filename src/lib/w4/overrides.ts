@@ -0,0 +1,106 @@
+// Manager score overrides - a reviewer replaces a checkpoint's score with their own and says why.
+// The AI's score stays on the checkpoint, totals and rating are recomputed with the rubric that
+// scored the report, and the AI's totals from before the first override are kept for comparison.
+import {
+  UserRole,
+  W4CalibrationCheckpoint,
+  W4CalibrationReport,
+  W4Checkpoint,
+  W4CheckpointOverride,
+  W4PhaseKey,
+  W4Report,
+  W4RubricDefinition,
+  W4ScoreOverride,
+} from '@/types/database'
+import { W4_PHASE_KEYS } from './rubric'
+import { scoreW4Report } from './scoring'
+
+export const REVIEWER_ROLES: UserRole[] = ['admin', 'manager']
+
+export function canOverrideScores(role: string | null | undefined): boolean {
+  return REVIEWER_ROLES.includes(role as UserRole)
+}
+
+// Sets (or with null, clears) the override on one checkpoint and rescores the report.
+// Returns null when the report has no such checkpoint.
+export function applyScoreOverride(
+  report: W4Report,
+  phaseKey: W4PhaseKey,
+  checkpointName: string,
+  override: { score: number; note: Omit<W4CheckpointOverride, 'ai_score'> } | null,
+  rubric: W4RubricDefinition
+): W4Report | null {
+  const phase = report.phases[phaseKey]
+  const checkpoint = phase?.checkpoints.find(cp => cp.name === checkpointName)
+  if (!checkpoint) return null
+
+  const aiScore = checkpoint.override?.ai_score ?? checkpoint.score
+  // Undefined fields drop out when the report is saved as JSON
+  const updated: W4Checkpoint = {
+    ...checkpoint,
+    score: override ? override.score : aiScore,
+    override: override ? { ai_score: aiScore, ...override.note } : undefined,
+  }
+
+  const phases = {
+    ...report.phases,
+    [phaseKey]: { ...phase, checkpoints: phase.checkpoints.map(cp => cp === checkpoint ? updated : cp) },
+  }
+  const aiOverall = report.ai_overall ?? {
+    total_score: report.overall_performance.total_score,
+    rating: report.overall_performance.rating,
+  }
+
+  const rescored = scoreW4Report({ ...report, phases }, rubric)
+  const stillOverridden = W4_PHASE_KEYS.some(key => rescored.phases[key].checkpoints.some(cp => cp.override))
+  return {
+    ...rescored,
+    ai_overall: stillOverridden ? aiOverall : undefined,
+    // Manager changes aren't disagreements with the model's arithmetic
+    score_discrepancies: report.score_discrepancies,
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+// Per-checkpoint drift between the AI and managers, worst first
+export function buildCalibrationReport(
+  overrides: W4ScoreOverride[],
+  emails: Record<string, string> = {},
+  recentLimit = 20
+): W4CalibrationReport {
+  const groups = new Map<string, W4ScoreOverride[]>()
+  for (const override of overrides) {
+    const key = `${override.phase}:${override.checkpoint_name}`
+    groups.set(key, [...(groups.get(key) || []), override])
+  }
+
+  const checkpoints: W4CalibrationCheckpoint[] = [...groups.values()].map(rows => {
+    const deltas = rows.map(r => r.override_score - r.ai_score)
+    return {
+      phase: rows[0].phase,
+      checkpoint_name: rows[0].checkpoint_name,
+      max_score: rows[0].max_score,
+      overrides: rows.length,
+      raised: deltas.filter(d => d > 0).length,
+      lowered: deltas.filter(d => d < 0).length,
+      mean_delta: round(deltas.reduce((sum, d) => sum + d, 0) / rows.length),
+      mean_abs_delta: round(deltas.reduce((sum, d) => sum + Math.abs(d), 0) / rows.length),
+    }
+  })
+  checkpoints.sort((a, b) => b.mean_abs_delta - a.mean_abs_delta || b.overrides - a.overrides)
+
+  const recent = [...overrides]
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+    .slice(0, recentLimit)
+    .map(r => ({ ...r, overridden_by_email: r.overridden_by ? emails[r.overridden_by] || null : null }))
+
+  return {
+    total_overrides: overrides.length,
+    reports_overridden: new Set(overrides.map(r => r.analysis_id)).size,
+    checkpoints,
+    recent,
+  }
+}
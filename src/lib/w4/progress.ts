@@ -0,0 +1,186 @@
+// Rep progress - turns a rep's W4 reports into trends: average total and per-phase scores per
+// week or month, per-checkpoint averages (early calls vs recent calls), rating changes from one
+// call to the next and the weakest elements that keep coming up. Phase and checkpoint scores are
+// compared as a percentage of their max so reports scored with different rubrics line up.
+import { W4PhaseKey, W4Rating, W4Report } from '@/types/database'
+import { W4_PHASE_KEYS } from './rubric'
+
+export type ProgressPeriod = 'week' | 'month'
+
+// The parts of one report the trends need (kept small - the page ships every call to the client)
+export interface ProgressCall {
+  recordingId: string
+  date: string
+  totalScore: number
+  rating: W4Rating
+  phasePercents: Record<W4PhaseKey, number>
+  checkpoints: { phase: W4PhaseKey; name: string; score: number; maxScore: number }[]
+  weakestElements: string[]
+}
+
+export interface ProgressBucket {
+  key: string     // Week start date ("2026-02-09") or month ("2026-02")
+  label: string
+  calls: number
+  avgTotal: number
+  avgPhasePercents: Record<W4PhaseKey, number>
+}
+
+export interface ProgressCheckpoint {
+  phase: W4PhaseKey
+  name: string
+  maxScore: number
+  calls: number
+  avgPercent: number
+  earlyPercent: number | null   // First half of the calls (null with fewer than two calls)
+  recentPercent: number | null  // Second half
+}
+
+export interface RatingTransition {
+  recordingId: string
+  date: string
+  from: W4Rating
+  to: W4Rating
+}
+
+export interface RepProgress {
+  calls: number
+  firstScore: number | null
+  latestScore: number | null
+  avgScore: number | null
+  currentRating: W4Rating | null
+  buckets: ProgressBucket[]
+  checkpoints: ProgressCheckpoint[]
+  ratingTransitions: RatingTransition[]  // Newest first
+  weakestElements: { element: string; count: number }[]
+}
+
+export const RATING_ORDER: W4Rating[] = ['Below Prospect', 'Prospect', 'Starter', 'Playmaker', 'MVP']
+
+const TOP_WEAKEST_ELEMENTS = 8
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+function percent(score: number, max: number): number {
+  return max > 0 ? (score / max) * 100 : 0
+}
+
+export function toProgressCall(recordingId: string, date: string, report: W4Report): ProgressCall {
+  return {
+    recordingId,
+    date,
+    totalScore: report.overall_performance.total_score,
+    rating: report.rank_assessment?.current_rank || report.overall_performance.rating,
+    phasePercents: Object.fromEntries(W4_PHASE_KEYS.map(key => [
+      key,
+      round(percent(report.phases[key]?.score ?? 0, report.phases[key]?.max_score ?? 0)),
+    ])) as Record<W4PhaseKey, number>,
+    checkpoints: W4_PHASE_KEYS.flatMap(phase => (report.phases[phase]?.checkpoints || []).map(cp => ({
+      phase,
+      name: cp.name,
+      score: cp.score,
+      maxScore: cp.max_score,
+    }))),
+    weakestElements: report.weakest_elements || [],
+  }
+}
+
+// Monday of the call's week (UTC) or the first of its month
+function bucketStart(date: string, period: ProgressPeriod): Date {
+  const d = new Date(date)
+  if (period === 'month') return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1))
+  const start = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()))
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7))
+  return start
+}
+
+function bucketLabel(start: Date, period: ProgressPeriod): string {
+  return period === 'month'
+    ? start.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })
+    : `Week of ${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}`
+}
+
+export function buildRepProgress(calls: ProgressCall[], period: ProgressPeriod): RepProgress {
+  const sorted = [...calls].sort((a, b) => a.date.localeCompare(b.date))
+
+  const byBucket = new Map<string, { start: Date; calls: ProgressCall[] }>()
+  for (const call of sorted) {
+    const start = bucketStart(call.date, period)
+    const key = start.toISOString().slice(0, period === 'month' ? 7 : 10)
+    const bucket = byBucket.get(key) || { start, calls: [] }
+    bucket.calls.push(call)
+    byBucket.set(key, bucket)
+  }
+
+  const buckets: ProgressBucket[] = [...byBucket.entries()].map(([key, { start, calls: bucketCalls }]) => ({
+    key,
+    label: bucketLabel(start, period),
+    calls: bucketCalls.length,
+    avgTotal: round(mean(bucketCalls.map(c => c.totalScore))),
+    avgPhasePercents: Object.fromEntries(W4_PHASE_KEYS.map(phase => [
+      phase,
+      round(mean(bucketCalls.map(c => c.phasePercents[phase]))),
+    ])) as Record<W4PhaseKey, number>,
+  }))
+
+  // Checkpoints keep their first-seen order (phase, then rubric order)
+  const byCheckpoint = new Map<string, { phase: W4PhaseKey; name: string; maxScore: number; percents: number[] }>()
+  for (const call of sorted) {
+    for (const cp of call.checkpoints) {
+      const key = `${cp.phase}:${cp.name}`
+      const entry = byCheckpoint.get(key) || { phase: cp.phase, name: cp.name, maxScore: cp.maxScore, percents: [] }
+      entry.percents.push(percent(cp.score, cp.maxScore))
+      byCheckpoint.set(key, entry)
+    }
+  }
+
+  const checkpoints: ProgressCheckpoint[] = [...byCheckpoint.values()].map(({ phase, name, maxScore, percents }) => {
+    const half = Math.floor(percents.length / 2)
+    return {
+      phase,
+      name,
+      maxScore,
+      calls: percents.length,
+      avgPercent: round(mean(percents)),
+      earlyPercent: half > 0 ? round(mean(percents.slice(0, half))) : null,
+      recentPercent: half > 0 ? round(mean(percents.slice(half))) : null,
+    }
+  })
+
+  const ratingTransitions: RatingTransition[] = []
+  sorted.forEach((call, i) => {
+    const previous = sorted[i - 1]
+    if (previous && previous.rating !== call.rating) {
+      ratingTransitions.unshift({ recordingId: call.recordingId, date: call.date, from: previous.rating, to: call.rating })
+    }
+  })
+
+  // Same element worded with different case/spacing counts once, shown as first written
+  const elementCounts = new Map<string, { element: string; count: number }>()
+  for (const call of sorted) {
+    for (const element of new Set(call.weakestElements.map(e => e.trim().replace(/\s+/g, ' ')).filter(Boolean))) {
+      const key = element.toLowerCase()
+      const entry = elementCounts.get(key) || { element, count: 0 }
+      entry.count++
+      elementCounts.set(key, entry)
+    }
+  }
+
+  return {
+    calls: sorted.length,
+    firstScore: sorted[0]?.totalScore ?? null,
+    latestScore: sorted[sorted.length - 1]?.totalScore ?? null,
+    avgScore: sorted.length > 0 ? round(mean(sorted.map(c => c.totalScore))) : null,
+    currentRating: sorted[sorted.length - 1]?.rating ?? null,
+    buckets,
+    checkpoints,
+    ratingTransitions,
+    weakestElements: [...elementCounts.values()].sort((a, b) => b.count - a.count).slice(0, TOP_WEAKEST_ELEMENTS),
+  }
+}
@@ -0,0 +1,175 @@
+// Prompt replay scoring - compares dry-run W4 reports with the manager-approved scores of
+// the golden set. Per variant (candidate prompt vs the current/baseline prompt) we report
+// mean absolute error on totals and checkpoints and how often the rating matched; per
+// call we show deltas and whether the candidate changed the rating the baseline gave.
+import {
+  PromptGoldenCall,
+  PromptReplayResult,
+  PromptReplayVariant,
+  W4ApprovedScores,
+  W4PhaseKey,
+  W4Rating,
+  W4Report,
+} from '@/types/database'
+import { W4_PHASE_KEYS } from './rubric'
+
+export const REPLAY_VARIANTS: PromptReplayVariant[] = ['candidate', 'baseline']
+
+export interface ReplayVariantOutcome {
+  status: PromptReplayResult['status']
+  totalScore: number | null
+  rating: W4Rating | null
+  totalDelta: number | null                 // Replayed total minus approved total
+  checkpointDeltas: Record<string, number>  // `${phase}:${checkpoint}` -> replayed minus approved
+  error: string | null
+}
+
+export interface ReplayCallComparison {
+  goldenCallId: string
+  fileName: string | null
+  approvedTotal: number
+  approvedRating: W4Rating
+  variants: Partial<Record<PromptReplayVariant, ReplayVariantOutcome>>
+  ratingChanged: boolean  // Candidate and baseline disagree on the rating
+}
+
+export interface ReplayVariantSummary {
+  completed: number
+  failed: number
+  pending: number
+  totalScoreMae: number | null
+  checkpointMae: number | null
+  ratingMatches: number
+}
+
+export interface ReplayCheckpointDelta {
+  phase: W4PhaseKey
+  name: string
+  meanDelta: Partial<Record<PromptReplayVariant, number | null>>
+  mae: Partial<Record<PromptReplayVariant, number | null>>
+}
+
+export interface PromptReplayReport {
+  calls: ReplayCallComparison[]
+  summary: Record<PromptReplayVariant, ReplayVariantSummary>
+  checkpoints: ReplayCheckpointDelta[]
+  ratingChanges: number
+  pending: number
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+}
+
+function checkpointKey(phase: W4PhaseKey, name: string): string {
+  return `${phase}:${name}`
+}
+
+// Snapshot the scores of a reviewed report as the golden answer
+export function getApprovedScores(report: W4Report): W4ApprovedScores {
+  const checkpoints = Object.fromEntries(W4_PHASE_KEYS.map(phase => [
+    phase,
+    Object.fromEntries((report.phases[phase]?.checkpoints || []).map(cp => [cp.name, cp.score])),
+  ])) as W4ApprovedScores['checkpoints']
+
+  return {
+    checkpoints,
+    total_score: report.overall_performance.total_score,
+    rating: report.overall_performance.rating,
+  }
+}
+
+function compareVariant(approved: W4ApprovedScores, result: PromptReplayResult): ReplayVariantOutcome {
+  const report = result.status === 'done' ? result.w4_report : null
+  if (!report) {
+    return {
+      status: result.status,
+      totalScore: null,
+      rating: null,
+      totalDelta: null,
+      checkpointDeltas: {},
+      error: result.error_message,
+    }
+  }
+
+  // Checkpoints the replay didn't return are skipped rather than counted as 0
+  const checkpointDeltas: Record<string, number> = {}
+  for (const phase of W4_PHASE_KEYS) {
+    for (const [name, approvedScore] of Object.entries(approved.checkpoints[phase] || {})) {
+      const replayed = report.phases[phase]?.checkpoints.find(cp => cp.name === name)
+      if (replayed) {
+        checkpointDeltas[checkpointKey(phase, name)] = replayed.score - approvedScore
+      }
+    }
+  }
+
+  return {
+    status: 'done',
+    totalScore: report.overall_performance.total_score,
+    rating: report.overall_performance.rating,
+    totalDelta: report.overall_performance.total_score - approved.total_score,
+    checkpointDeltas,
+    error: null,
+  }
+}
+
+export function buildReplayReport(goldenCalls: PromptGoldenCall[], results: PromptReplayResult[]): PromptReplayReport {
+  const calls: ReplayCallComparison[] = goldenCalls
+    .filter(call => results.some(r => r.golden_call_id === call.id))
+    .map(call => {
+      const variants: ReplayCallComparison['variants'] = {}
+      for (const result of results.filter(r => r.golden_call_id === call.id)) {
+        variants[result.variant] = compareVariant(call.approved_scores, result)
+      }
+      const candidateRating = variants.candidate?.rating
+      const baselineRating = variants.baseline?.rating
+      return {
+        goldenCallId: call.id,
+        fileName: call.file_name || null,
+        approvedTotal: call.approved_scores.total_score,
+        approvedRating: call.approved_scores.rating,
+        variants,
+        ratingChanged: !!candidateRating && !!baselineRating && candidateRating !== baselineRating,
+      }
+    })
+
+  const summary = Object.fromEntries(REPLAY_VARIANTS.map(variant => {
+    const outcomes = calls.map(c => ({ call: c, outcome: c.variants[variant] })).filter(o => o.outcome)
+    const done = outcomes.filter(o => o.outcome!.status === 'done')
+    return [variant, {
+      completed: done.length,
+      failed: outcomes.filter(o => o.outcome!.status === 'error').length,
+      pending: outcomes.filter(o => o.outcome!.status === 'queued').length,
+      totalScoreMae: mean(done.map(o => Math.abs(o.outcome!.totalDelta!))),
+      checkpointMae: mean(done.flatMap(o => Object.values(o.outcome!.checkpointDeltas).map(Math.abs))),
+      ratingMatches: done.filter(o => o.outcome!.rating === o.call.approvedRating).length,
+    }]
+  })) as Record<PromptReplayVariant, ReplayVariantSummary>
+
+  // Every checkpoint that appears in the golden set, in phase order
+  const checkpoints: ReplayCheckpointDelta[] = []
+  for (const phase of W4_PHASE_KEYS) {
+    const names = new Set(goldenCalls.flatMap(call => Object.keys(call.approved_scores.checkpoints[phase] || {})))
+    for (const name of names) {
+      const key = checkpointKey(phase, name)
+      const meanDelta: ReplayCheckpointDelta['meanDelta'] = {}
+      const mae: ReplayCheckpointDelta['mae'] = {}
+      for (const variant of REPLAY_VARIANTS) {
+        const deltas = calls
+          .map(c => c.variants[variant]?.checkpointDeltas[key])
+          .filter((d): d is number => d !== undefined)
+        meanDelta[variant] = mean(deltas)
+        mae[variant] = mean(deltas.map(Math.abs))
+      }
+      checkpoints.push({ phase, name, meanDelta, mae })
+    }
+  }
+
+  return {
+    calls,
+    summary,
+    checkpoints,
+    ratingChanges: calls.filter(c => c.ratingChanged).length,
+    pending: results.filter(r => r.status === 'queued').length,
+  }
+}
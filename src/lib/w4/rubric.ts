@@ -0,0 +1,204 @@
+// W4 rubrics - checkpoint weights, rating thresholds and the no-sale cap as data.
+// Versions live in w4_rubrics (one active version per variant name); when a variant
+// has no rows we fall back to the built-in default built from the constants in
+// src/types/database.ts, reported as version 0.
+import { SupabaseClient } from '@supabase/supabase-js'
+import {
+  W4_CHECKPOINTS,
+  W4_NO_SALE_SCORE_CAP,
+  W4_PHASE_CONFIG,
+  W4_RATING_THRESHOLDS,
+  W4PhaseKey,
+  W4Rating,
+  W4RubricDefinition,
+  W4RubricRef,
+} from '@/types/database'
+
+export const W4_PHASE_KEYS: W4PhaseKey[] = ['why', 'what', 'who', 'when']
+
+export const DEFAULT_RUBRIC_NAME = 'default'
+
+// Justification guidance for the built-in checkpoints (was prose in W4_OUTPUT_FORMAT)
+const DEFAULT_GUIDANCE: Record<string, string> = {
+  'Sitdown/Transition': 'Evidence with specific quotes. Note any red flags.',
+  'Rapport Building – FORM Method': 'List FORM elements used with quotes.',
+  'Assessment Questions (Q1–Q16)': 'Count questions asked by category. MUST note if Q8 was missed.',
+  'Inspection': 'Evidence of inspection thoroughness.',
+  'Present Findings': 'Note R/Y/G usage and 3-step explanations.',
+  'Tie-Down WHY & Repair vs. Replace': 'Exact questions asked, did rep wait for answer?',
+  'Formal Presentation System': 'Evidence of guide usage.',
+  'System Options – FBAL Method': 'Examples of FBAL framework used.',
+  'Backup Recommendations/Visuals': 'Types of visual proof used.',
+  'Tie-Down WHAT': 'Did rep ask and wait for agreement?',
+  'Company Advantages': 'People/Process/Company differentiators mentioned.',
+  'Pyramid of Pain': 'Complete 5-step pyramids used with emotional impact.',
+  'WHO Tie-Down': 'Both questions asked? Did rep wait and resolve hedges?',
+  'Price Presentation': 'Total and monthly presented? Alternate-choice close?',
+  'Post-Close Silence': 'CRITICAL: Did rep stay silent? ANY talking = 0 points.',
+}
+
+export const DEFAULT_W4_RUBRIC: W4RubricDefinition = {
+  phases: Object.fromEntries(W4_PHASE_KEYS.map(key => [key, {
+    name: W4_PHASE_CONFIG[key].name,
+    description: W4_PHASE_CONFIG[key].description,
+    checkpoints: W4_CHECKPOINTS[key].map(cp => ({
+      name: cp.name,
+      maxScore: cp.maxScore,
+      guidance: DEFAULT_GUIDANCE[cp.name] || 'Evidence with specific quotes.',
+    })),
+  }])) as W4RubricDefinition['phases'],
+  ratingThresholds: {
+    MVP: W4_RATING_THRESHOLDS.MVP.min,
+    Playmaker: W4_RATING_THRESHOLDS.Playmaker.min,
+    Starter: W4_RATING_THRESHOLDS.Starter.min,
+    Prospect: W4_RATING_THRESHOLDS.Prospect.min,
+  },
+  noSaleScoreCap: W4_NO_SALE_SCORE_CAP,
+}
+
+export interface ActiveRubric {
+  ref: W4RubricRef
+  definition: W4RubricDefinition
+}
+
+export const BUILT_IN_RUBRIC: ActiveRubric = {
+  ref: { id: null, name: DEFAULT_RUBRIC_NAME, version: 0 },
+  definition: DEFAULT_W4_RUBRIC,
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function getPhaseMaxScore(rubric: W4RubricDefinition, phaseKey: W4PhaseKey): number {
+  return rubric.phases[phaseKey].checkpoints.reduce((sum, cp) => sum + cp.maxScore, 0)
+}
+
+export function getRubricMaxScore(rubric: W4RubricDefinition): number {
+  return W4_PHASE_KEYS.reduce((sum, key) => sum + getPhaseMaxScore(rubric, key), 0)
+}
+
+export function getRubricRating(score: number, rubric: W4RubricDefinition): W4Rating {
+  const { ratingThresholds } = rubric
+  if (score >= ratingThresholds.MVP) return 'MVP'
+  if (score >= ratingThresholds.Playmaker) return 'Playmaker'
+  if (score >= ratingThresholds.Starter) return 'Starter'
+  if (score >= ratingThresholds.Prospect) return 'Prospect'
+  return 'Below Prospect'
+}
+
+// Problems that would stop a rubric from producing a 0-100 report; empty = valid
+export function validateRubricDefinition(value: unknown): string[] {
+  const errors: string[] = []
+  const rubric = value as W4RubricDefinition
+
+  if (!rubric || typeof rubric !== 'object' || !rubric.phases || typeof rubric.phases !== 'object') {
+    return ['Rubric must have phases']
+  }
+
+  const seenNames = new Set<string>()
+  for (const key of W4_PHASE_KEYS) {
+    const phase = rubric.phases[key]
+    if (!phase || !Array.isArray(phase.checkpoints)) {
+      errors.push(`Phase "${key}" is missing`)
+      continue
+    }
+    if (phase.checkpoints.length === 0) {
+      errors.push(`${phase.name || key} needs at least one checkpoint`)
+    }
+    for (const cp of phase.checkpoints) {
+      const name = typeof cp.name === 'string' ? cp.name.trim() : ''
+      if (!name) {
+        errors.push(`${phase.name || key} has a checkpoint without a name`)
+        continue
+      }
+      if (seenNames.has(name)) {
+        errors.push(`Checkpoint "${name}" is used more than once`)
+      }
+      seenNames.add(name)
+      if (!Number.isInteger(cp.maxScore) || cp.maxScore <= 0) {
+        errors.push(`Checkpoint "${name}" needs a whole-number max score above 0`)
+      }
+    }
+  }
+
+  if (errors.length === 0 && getRubricMaxScore(rubric) !== 100) {
+    errors.push(`Checkpoint max scores must add up to 100 (currently ${getRubricMaxScore(rubric)})`)
+  }
+
+  const thresholds = rubric.ratingThresholds
+  const order = [thresholds?.MVP, thresholds?.Playmaker, thresholds?.Starter, thresholds?.Prospect]
+  if (!order.every(t => Number.isInteger(t) && t > 0 && t <= 100)) {
+    errors.push('Rating thresholds must be whole numbers between 1 and 100')
+  } else if (!order.every((t, i) => i === 0 || t < order[i - 1])) {
+    errors.push('Rating thresholds must decrease from MVP to Prospect')
+  }
+
+  if (!Number.isInteger(rubric.noSaleScoreCap) || rubric.noSaleScoreCap < 0 || rubric.noSaleScoreCap > 100) {
+    errors.push('No-sale score cap must be a whole number between 0 and 100')
+  }
+
+  return errors
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+// Active version of a rubric variant, falling back to the default variant and then to the built-in rubric
+export async function loadActiveRubric(supabase: SupabaseClient, name: string = DEFAULT_RUBRIC_NAME): Promise<ActiveRubric> {
+  const names = name === DEFAULT_RUBRIC_NAME ? [name] : [name, DEFAULT_RUBRIC_NAME]
+
+  for (const rubricName of names) {
+    const { data, error } = await supabase
+      .from('w4_rubrics')
+      .select('id, name, version, definition')
+      .eq('name', rubricName)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (error) {
+      console.warn(`⚠️ Failed to load rubric "${rubricName}", using built-in:`, error.message)
+      return BUILT_IN_RUBRIC
+    }
+
+    if (data) {
+      const problems = validateRubricDefinition(data.definition)
+      if (problems.length === 0) {
+        return { ref: { id: data.id, name: data.name, version: data.version }, definition: data.definition }
+      }
+      console.warn(`⚠️ Rubric "${rubricName}" v${data.version} is invalid (${problems.join('; ')}), skipping`)
+    }
+  }
+
+  return BUILT_IN_RUBRIC
+}
+
+// Every saved version, newest first within each variant - for filtering reports by rubric
+export async function loadRubricVersions(supabase: SupabaseClient): Promise<(W4RubricRef & { id: string })[]> {
+  const { data, error } = await supabase
+    .from('w4_rubrics')
+    .select('id, name, version')
+    .order('name')
+    .order('version', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+// The exact version a report was scored with (reports saved before versioning used the built-in rubric)
+export async function loadRubricVersion(supabase: SupabaseClient, ref: W4RubricRef | undefined): Promise<W4RubricDefinition> {
+  if (!ref?.id) return DEFAULT_W4_RUBRIC
+
+  const { data, error } = await supabase
+    .from('w4_rubrics')
+    .select('definition')
+    .eq('id', ref.id)
+    .maybeSingle()
+
+  if (error || !data || validateRubricDefinition(data.definition).length > 0) {
+    console.warn(`⚠️ Rubric "${ref.name}" v${ref.version} unavailable, using built-in`)
+    return DEFAULT_W4_RUBRIC
+  }
+  return data.definition
+}
@@ -0,0 +1,66 @@
+// Deterministic W4 scoring - the numbers we show reps come from here, not from the model.
+// Phase totals are summed from checkpoint scores, the no-sale cap is applied from
+// sale_outcome.closed and the rating is derived from the rubric's thresholds. Every model
+// number that disagrees with the recomputation is recorded in report.score_discrepancies.
+// Pure and idempotent, so the UI can run it over reports saved before it existed.
+import { W4Report, W4RubricDefinition, W4ScoreDiscrepancy } from '@/types/database'
+import { DEFAULT_W4_RUBRIC, W4_PHASE_KEYS, getPhaseMaxScore, getRubricRating } from './rubric'
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+export function scoreW4Report(report: W4Report, rubric: W4RubricDefinition = DEFAULT_W4_RUBRIC): W4Report {
+  const discrepancies: W4ScoreDiscrepancy[] = []
+  // Fields the model left out (raw_score is optional) aren't a disagreement
+  const flag = (field: string, modelValue: number | string | undefined, computedValue: number | string) => {
+    if (modelValue !== undefined && modelValue !== computedValue) {
+      discrepancies.push({ field, model_value: modelValue, computed_value: computedValue })
+    }
+  }
+
+  const phases = { ...report.phases }
+  for (const phaseKey of W4_PHASE_KEYS) {
+    const phase = report.phases[phaseKey]
+    const phaseMax = getPhaseMaxScore(rubric, phaseKey)
+
+    // Checkpoints are capped at the rubric max (falls back to the reported max for unknown names)
+    const checkpoints = phase.checkpoints.map((cp, i) => {
+      const rubricMax = rubric.phases[phaseKey].checkpoints.find(e => e.name === cp.name)?.maxScore ?? cp.max_score
+      const score = clamp(cp.score, 0, rubricMax)
+      flag(`phases.${phaseKey}.checkpoints[${i}].score`, cp.score, score)
+      return { ...cp, score, max_score: rubricMax }
+    })
+
+    const score = clamp(checkpoints.reduce((sum, cp) => sum + cp.score, 0), 0, phaseMax)
+    flag(`phases.${phaseKey}.score`, phase.score, score)
+    phases[phaseKey] = { ...phase, score, max_score: phaseMax, checkpoints }
+  }
+
+  const rawScore = W4_PHASE_KEYS.reduce((sum, phaseKey) => sum + phases[phaseKey].score, 0)
+  const closed = report.sale_outcome?.closed === true
+  const saleAdjustedScore = closed ? rawScore : Math.min(rawScore, rubric.noSaleScoreCap)
+  const rating = getRubricRating(saleAdjustedScore, rubric)
+
+  const performance = report.overall_performance
+  flag('overall_performance.raw_score', performance.raw_score, rawScore)
+  flag('overall_performance.sale_adjusted_score', performance.sale_adjusted_score, saleAdjustedScore)
+  flag('overall_performance.total_score', performance.total_score, saleAdjustedScore)
+  flag('overall_performance.rating', performance.rating, rating)
+  flag('rank_assessment.current_rank', report.rank_assessment?.current_rank, rating)
+
+  return {
+    ...report,
+    phases,
+    overall_performance: {
+      ...performance,
+      raw_score: rawScore,
+      sale_adjusted_score: saleAdjustedScore,
+      total_score: saleAdjustedScore,
+      rating,
+    },
+    rank_assessment: { ...report.rank_assessment, current_rank: rating },
+    // Re-scoring an already scored report finds nothing new, so keep what was recorded first
+    score_discrepancies: [...(report.score_discrepancies || []), ...discrepancies],
+  }
+}
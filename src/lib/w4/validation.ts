@@ -0,0 +1,240 @@
+// Runtime validation for model-generated W4 reports.
+// W4_REPORT_SCHEMA mirrors the W4Report interface (the mapped type below makes the
+// compiler flag any field that is added to W4Report but not described here), and
+// the rubric checks compare the report against the rubric that scored it.
+import {
+  SaleOutcome,
+  W4_RATING_THRESHOLDS,
+  W4Checkpoint,
+  W4OverallPerformance,
+  W4Phase,
+  W4Report,
+  W4RubricDefinition,
+  W4ValidationError,
+} from '@/types/database'
+import { DEFAULT_W4_RUBRIC, W4_PHASE_KEYS, getPhaseMaxScore } from './rubric'
+import { OBJECTION_CATEGORY_KEYS } from './objections'
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+type FieldSpec =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | { optional: FieldSpec }
+  | { nullable: FieldSpec }
+  | { oneOf: readonly string[] }
+  | { arrayOf: FieldSpec }
+  | { recordOf: FieldSpec }
+  | { object: Record<string, FieldSpec> }
+
+// One spec per key of T (optional keys included)
+type SchemaFor<T> = { [K in keyof Required<T>]: FieldSpec }
+
+const RATINGS = Object.keys(W4_RATING_THRESHOLDS)
+
+const CHECKPOINT_SCHEMA = {
+  object: {
+    name: 'string',
+    score: 'number',
+    max_score: 'number',
+    justification: 'string',
+    evidence: { optional: { arrayOf: { object: { quote: 'string', timestamp: 'string' } } } },
+    // Written by the override route, never expected from the model
+    override: { optional: { object: { ai_score: 'number', reason: 'string' } } },
+  } satisfies SchemaFor<W4Checkpoint>,
+}
+
+const PHASE_SCHEMA = {
+  object: { score: 'number', max_score: 'number', checkpoints: { arrayOf: CHECKPOINT_SCHEMA } } satisfies SchemaFor<W4Phase>,
+}
+
+const SALE_OUTCOME_SCHEMA = {
+  object: {
+    closed: 'boolean',
+    outcome_type: { oneOf: ['CLOSED', 'NO_SALE', 'FOLLOW_UP', 'UNKNOWN'] },
+    evidence: 'string',
+    objection_reason: { nullable: 'string' },
+    objection_category: { optional: { nullable: { oneOf: OBJECTION_CATEGORY_KEYS } } },
+  } satisfies SchemaFor<SaleOutcome>,
+}
+
+const OVERALL_PERFORMANCE_SCHEMA = {
+  object: {
+    total_score: 'number',
+    raw_score: { optional: 'number' },
+    sale_adjusted_score: { optional: 'number' },
+    rating: { oneOf: RATINGS },
+    summary: 'string',
+  } satisfies SchemaFor<W4OverallPerformance>,
+}
+
+export const W4_REPORT_SCHEMA: SchemaFor<W4Report> = {
+  client_name: 'string',
+  rep_name: 'string',
+  company_name: 'string',
+  sale_outcome: { optional: { nullable: SALE_OUTCOME_SCHEMA } },
+  overall_performance: OVERALL_PERFORMANCE_SCHEMA,
+  phases: { object: { why: PHASE_SCHEMA, what: PHASE_SCHEMA, who: PHASE_SCHEMA, when: PHASE_SCHEMA } },
+  what_done_right: { arrayOf: 'string' },
+  areas_for_improvement: { arrayOf: { object: { area: 'string', recommendation: 'string' } } },
+  weakest_elements: { arrayOf: 'string' },
+  coaching_recommendations: { recordOf: 'string' },
+  rank_assessment: { object: { current_rank: { oneOf: RATINGS }, next_level_requirements: 'string' } },
+  quick_wins: { arrayOf: { object: { title: 'string', action: 'string', points_worth: 'number' } } },
+  // Written by the server (see scoring.ts), never expected from the model
+  score_discrepancies: { optional: { arrayOf: { object: { field: 'string' } } } },
+  rubric: { optional: { object: { id: { nullable: 'string' }, name: 'string', version: 'number' } } },
+  ai_overall: { optional: { object: { total_score: 'number', rating: { oneOf: RATINGS } } } },
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+function checkField(value: unknown, spec: FieldSpec, path: string, errors: W4ValidationError[]) {
+  const fail = (message: string) => errors.push({ path, message, kind: 'schema' })
+
+  if (typeof spec === 'string') {
+    if (spec === 'number' ? typeof value !== 'number' || !Number.isFinite(value) : typeof value !== spec) {
+      fail(`Expected ${spec}, got ${describe(value)}`)
+    }
+    return
+  }
+
+  if ('optional' in spec) {
+    if (value !== undefined) checkField(value, spec.optional, path, errors)
+    return
+  }
+
+  if ('nullable' in spec) {
+    if (value !== null) checkField(value, spec.nullable, path, errors)
+    return
+  }
+
+  if ('oneOf' in spec) {
+    if (typeof value !== 'string' || !spec.oneOf.includes(value)) {
+      fail(`Expected one of ${spec.oneOf.map(v => `"${v}"`).join(', ')}, got ${JSON.stringify(value)}`)
+    }
+    return
+  }
+
+  if ('arrayOf' in spec) {
+    if (!Array.isArray(value)) {
+      fail(`Expected array, got ${describe(value)}`)
+      return
+    }
+    value.forEach((item, i) => checkField(item, spec.arrayOf, `${path}[${i}]`, errors))
+    return
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(`Expected object, got ${describe(value)}`)
+    return
+  }
+
+  const record = value as Record<string, unknown>
+  if ('recordOf' in spec) {
+    for (const [key, item] of Object.entries(record)) {
+      checkField(item, spec.recordOf, joinPath(path, key), errors)
+    }
+    return
+  }
+
+  for (const [key, fieldSpec] of Object.entries(spec.object)) {
+    checkField(record[key], fieldSpec, joinPath(path, key), errors)
+  }
+}
+
+// ============================================================================
+// RUBRIC CHECKS (only run once the shape is valid)
+// ============================================================================
+
+function checkRubric(report: W4Report, rubric: W4RubricDefinition, errors: W4ValidationError[]) {
+  const fail = (path: string, message: string) => errors.push({ path, message, kind: 'rubric' })
+
+  for (const phaseKey of W4_PHASE_KEYS) {
+    const phase = report.phases[phaseKey]
+    const phasePath = `phases.${phaseKey}`
+    const rubricPhase = rubric.phases[phaseKey]
+    const expected = rubricPhase.checkpoints
+    const phaseMax = getPhaseMaxScore(rubric, phaseKey)
+
+    if (phase.max_score !== phaseMax) {
+      fail(`${phasePath}.max_score`, `Expected ${phaseMax}, got ${phase.max_score}`)
+    }
+
+    phase.checkpoints.forEach((cp, i) => {
+      const cpPath = `${phasePath}.checkpoints[${i}]`
+      const rubricCheckpoint = expected.find(e => e.name === cp.name)
+      if (!rubricCheckpoint) {
+        fail(`${cpPath}.name`, `Unknown checkpoint "${cp.name}" for ${rubricPhase.name}`)
+        return
+      }
+      if (cp.max_score !== rubricCheckpoint.maxScore) {
+        fail(`${cpPath}.max_score`, `Expected ${rubricCheckpoint.maxScore} for "${cp.name}", got ${cp.max_score}`)
+      }
+      if (cp.score < 0 || cp.score > rubricCheckpoint.maxScore) {
+        fail(`${cpPath}.score`, `Score ${cp.score} is outside 0-${rubricCheckpoint.maxScore}`)
+      }
+    })
+
+    for (const rubricCheckpoint of expected) {
+      const count = phase.checkpoints.filter(cp => cp.name === rubricCheckpoint.name).length
+      if (count !== 1) {
+        fail(`${phasePath}.checkpoints`, count === 0
+          ? `Missing checkpoint "${rubricCheckpoint.name}"`
+          : `Checkpoint "${rubricCheckpoint.name}" appears ${count} times`)
+      }
+    }
+
+    const checkpointTotal = phase.checkpoints.reduce((sum, cp) => sum + cp.score, 0)
+    if (phase.score !== checkpointTotal) {
+      fail(`${phasePath}.score`, `Phase score ${phase.score} does not equal the sum of its checkpoints (${checkpointTotal})`)
+    }
+  }
+
+  const { total_score } = report.overall_performance
+  if (total_score < 0 || total_score > 100) {
+    fail('overall_performance.total_score', `Score ${total_score} is outside 0-100`)
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+// Returns every problem found; an empty array means the value is a valid W4Report
+export function validateW4Report(value: unknown, rubric: W4RubricDefinition = DEFAULT_W4_RUBRIC): W4ValidationError[] {
+  const errors: W4ValidationError[] = []
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [{ path: '', message: `Expected a JSON object, got ${describe(value)}`, kind: 'schema' }]
+  }
+
+  for (const [key, spec] of Object.entries(W4_REPORT_SCHEMA)) {
+    checkField((value as Record<string, unknown>)[key], spec, key, errors)
+  }
+
+  if (errors.length === 0) {
+    checkRubric(value as W4Report, rubric, errors)
+  }
+
+  return errors
+}
+
+export function hasSchemaErrors(errors: W4ValidationError[]): boolean {
+  return errors.some(e => e.kind === 'schema')
+}
+
+export function formatValidationErrors(errors: W4ValidationError[]): string {
+  return errors.map(e => `- ${e.path || '(root)'}: ${e.message}`).join('\n')
+}
@@ -1,6 +1,6 @@
 // Database types for Supabase tables
 
-export type UserRole = 'user' | 'admin'
+export type UserRole = 'user' | 'manager' | 'admin'
 
 export type RecordingStatus = 'uploading' | 'processing' | 'done' | 'error'
 
@@ -51,13 +51,39 @@ export interface Comment {
   id: string
   recording_id: string
   user_id: string
-  parent_id: string | null
+  parent_id: string | null         // Set on replies; threads are one level deep
   content: string
   timestamp_seconds: number | null
+  mentioned_user_ids: string[]     // Resolved @mentions, notified on save
+  resolved_at: string | null       // Thread roots only
+  resolved_by: string | null
   created_at: string
   updated_at: string
 }
 
+// Someone the comments on a recording can @mention (recording_participants())
+export interface RecordingParticipant {
+  user_id: string
+  email: string
+}
+
+export type NotificationType = 'mention' | 'reply' | 'comment'
+
+// In-app inbox entry, written by the comments trigger (notifications table)
+export interface Notification {
+  id: string
+  user_id: string
+  type: NotificationType
+  actor_id: string
+  actor_email: string
+  recording_id: string
+  recording_name: string
+  comment_id: string
+  excerpt: string
+  read_at: string | null
+  created_at: string
+}
+
 // Shared recording link
 export interface SharedRecording {
   id: string
@@ -78,6 +104,54 @@ export interface Profile {
   updated_at: string
 }
 
+// A company using the app; managers review their organization's (or team's) reps
+export interface Organization {
+  id: string
+  name: string
+  created_by: string | null
+  created_at: string
+}
+
+export interface Team {
+  id: string
+  organization_id: string
+  name: string
+  created_at: string
+}
+
+// One organization per user; managers on a team only review that team
+export interface OrganizationMember {
+  user_id: string
+  organization_id: string
+  team_id: string | null
+  created_at: string
+}
+
+export type InviteRole = Exclude<UserRole, 'admin'>
+
+export interface OrganizationInvite {
+  id: string
+  organization_id: string
+  team_id: string | null
+  email: string
+  role: InviteRole
+  token: string
+  invited_by: string | null
+  created_at: string
+  expires_at: string
+  accepted_at: string | null
+  accepted_by: string | null
+}
+
+// What an invite link shows before sign-up (get_organization_invite)
+export interface InvitePreview {
+  organization_name: string
+  team_name: string | null
+  email: string
+  role: InviteRole
+  is_valid: boolean
+}
+
 export interface Recording {
   id: string
   user_id: string
@@ -90,10 +164,18 @@ export interface Recording {
   status: RecordingStatus
   is_archived: boolean
   folder_id: string | null // Reference to folder
+  // Call details entered before recording (src/lib/callDetails.ts)
+  client_name: string | null
+  client_address: string | null
+  appointment_type: string | null
+  lead_source: string | null
+  call_notes: string | null
   created_at: string
   updated_at: string
 }
 
+export type RecordingCallDetails = Pick<Recording, 'client_name' | 'client_address' | 'appointment_type' | 'lead_source' | 'call_notes'>
+
 export interface Transcript {
   id: string
   recording_id: string
@@ -148,6 +230,25 @@ export interface SaleOutcome {
   outcome_type: SaleOutcomeType
   evidence: string
   objection_reason: string | null
+  objection_category?: ObjectionCategory | null  // The model's pick from the taxonomy (newer reports)
+}
+
+// Why a deal was lost, normalized from objection_reason
+export type ObjectionCategory = 'price' | 'spouse' | 'more_quotes' | 'timing' | 'insurance' | 'trust' | 'other'
+
+export type ObjectionSource = 'ai' | 'rules' | 'manual'
+
+// One lost call's objection (call_objections table)
+export interface CallObjection {
+  recording_id: string
+  analysis_id: string
+  user_id: string
+  reason: string | null
+  category: ObjectionCategory
+  source: ObjectionSource
+  corrected_by: string | null
+  created_at: string
+  updated_at: string
 }
 
 // Performance ratings
@@ -162,12 +263,33 @@ export const W4_RATING_THRESHOLDS = {
   'Below Prospect': { min: 0, max: 44, color: '#ef4444' } // Red
 } as const
 
+// A call without a closed sale can't score above Starter
+export const W4_NO_SALE_SCORE_CAP = 74
+
 // Checkpoint within a phase
 export interface W4Checkpoint {
   name: string
   score: number
   max_score: number
   justification: string
+  evidence?: W4Evidence[]  // Timestamped quotes (long recordings are merged from per-window evidence)
+  override?: W4CheckpointOverride  // Set when a manager replaced the AI's score; `score` is the manager's
+}
+
+// The AI's original score and why a manager changed it
+export interface W4CheckpointOverride {
+  ai_score: number
+  reason: string
+  overridden_by: string
+  overridden_by_email: string
+  overridden_at: string
+}
+
+// A quote backing a checkpoint score and where in the recording it was said
+export interface W4Evidence {
+  quote: string
+  timestamp: string            // "12:34" or "1:02:03"
+  timestamp_seconds?: number   // Parsed server-side
 }
 
 // Phase (WHY, WHAT, WHO, WHEN)
@@ -214,6 +336,13 @@ export interface W4OverallPerformance {
   summary: string
 }
 
+// A number the model reported that didn't match the server-side recomputation
+export interface W4ScoreDiscrepancy {
+  field: string                        // e.g. "phases.why.score", "overall_performance.total_score"
+  model_value: number | string         // What the model said
+  computed_value: number | string      // What we saved instead
+}
+
 // Complete W4 Report structure
 export interface W4Report {
   // Header info
@@ -244,6 +373,15 @@ export interface W4Report {
   coaching_recommendations: W4CoachingRecommendations
   rank_assessment: W4RankAssessment
   quick_wins: W4QuickWin[]
+
+  // Set by the server when scores are recomputed from checkpoints (empty = model's numbers held up)
+  score_discrepancies?: W4ScoreDiscrepancy[]
+
+  // Rubric version that scored this report (missing on reports saved before rubrics were versioned)
+  rubric?: W4RubricRef
+
+  // AI totals from before the first manager override (removed when the last override is cleared)
+  ai_overall?: { total_score: number; rating: W4Rating }
 }
 
 // Helper function to get rating from score
@@ -295,6 +433,201 @@ export const W4_CHECKPOINTS = {
   ]
 } as const
 
+// Problem found while validating a model-generated W4 report
+// schema: wrong shape or type - the report can't be rendered safely
+// rubric: shape is fine but the content breaks W4 rules (unknown checkpoint, score out of range, bad phase total)
+export interface W4ValidationError {
+  path: string      // e.g. "phases.why.checkpoints[2].score"
+  message: string
+  kind: 'schema' | 'rubric'
+}
+
+// ============================================================================
+// W4 RUBRICS (versioned, admin-editable)
+// The constants above are the built-in default rubric; a rubric row overrides them.
+// Phase keys are fixed (the report structure depends on them) - checkpoints,
+// weights, rating thresholds and the no-sale cap are not.
+// ============================================================================
+
+export type W4PhaseKey = 'why' | 'what' | 'who' | 'when'
+
+export interface W4RubricCheckpoint {
+  name: string
+  maxScore: number
+  guidance: string  // What the justification should cover (goes into the output format)
+}
+
+export interface W4RubricPhase {
+  name: string        // Display name, e.g. "WHY"
+  description: string
+  checkpoints: W4RubricCheckpoint[]
+}
+
+export interface W4RubricDefinition {
+  phases: Record<W4PhaseKey, W4RubricPhase>
+  ratingThresholds: Record<Exclude<W4Rating, 'Below Prospect'>, number>  // Minimum score for each rating
+  noSaleScoreCap: number
+}
+
+export interface W4Rubric {
+  id: string
+  name: string         // Variant, e.g. "default", "retail", "storm"
+  version: number
+  description: string | null
+  definition: W4RubricDefinition
+  is_active: boolean
+  created_by: string | null
+  created_at: string
+}
+
+// Stamped on each report so we know which rubric scored it (version 0 = built-in default)
+export interface W4RubricRef {
+  id: string | null
+  name: string
+  version: number
+}
+
+// Immutable snapshot of an admin prompt - every save (and rollback) adds one
+export interface AdminPromptVersion {
+  id: string
+  prompt_name: string
+  version: number
+  prompt: string
+  description: string | null
+  created_by: string | null
+  created_at: string
+  author_email?: string | null  // Joined from profiles for display
+}
+
+// ============================================
+// Prompt replay (dry-run a prompt against a golden set of calls)
+// ============================================
+
+// Manager-approved scores a golden call is measured against
+export interface W4ApprovedScores {
+  checkpoints: Record<W4PhaseKey, Record<string, number>>  // Phase -> checkpoint name -> score
+  total_score: number
+  rating: W4Rating
+}
+
+export interface PromptGoldenCall {
+  id: string
+  recording_id: string
+  analysis_id: string
+  approved_scores: W4ApprovedScores
+  notes: string | null
+  added_by: string | null
+  created_at: string
+  file_name?: string  // Joined from recordings for display
+}
+
+export type PromptReplayVariant = 'candidate' | 'baseline'
+
+export interface PromptReplayRun {
+  id: string
+  prompt_name: string
+  candidate_prompt: string
+  candidate_version_id: string | null   // Set when replaying a saved version instead of editor text
+  baseline_prompt: string               // Snapshot of the prompt that was current when the run started
+  baseline_version_id: string | null    // null = built-in prompt
+  description: string | null
+  created_by: string | null
+  created_at: string
+}
+
+export interface PromptReplayResult {
+  id: string
+  run_id: string
+  golden_call_id: string
+  variant: PromptReplayVariant
+  status: 'queued' | 'done' | 'error'
+  w4_report: W4Report | null
+  validation_errors: W4ValidationError[] | null
+  error_message: string | null
+  input_tokens: number | null
+  output_tokens: number | null
+  estimated_cost_usd: number | null
+  created_at: string
+  completed_at: string | null
+}
+
+// ============================================
+// Structured transcript
+// ============================================
+
+export type TranscriptSpeakerRole = 'rep' | 'homeowner' | 'other'
+
+// One speaker turn, parsed and validated from the transcription model's output
+export interface TranscriptSegment {
+  start_seconds: number
+  end_seconds: number
+  speaker_key: string  // "S1", "S2"... - matches recording_speakers.speaker_key
+  text: string
+}
+
+// Speaker of a recording (one row per speaker_key)
+export interface RecordingSpeaker {
+  id: string
+  recording_id: string
+  speaker_key: string
+  name: string                 // As heard in the transcript ("Mike", "Speaker 2")
+  role: TranscriptSpeakerRole
+  created_at: string
+  updated_at: string
+}
+
+// Talk-time / interruption / silence numbers computed from transcript segments
+export interface CallAnalytics {
+  rep_talk_seconds: number
+  homeowner_talk_seconds: number
+  other_talk_seconds: number
+  rep_talk_ratio: number | null          // Rep share of all talk time (0-1), null without a rep
+  longest_rep_monologue: { start_seconds: number; seconds: number } | null
+  interruptions: { by_rep: number; by_homeowner: number }
+  questions: { by_rep: number; by_homeowner: number }
+  price_presented_at: number | null      // Seconds into the call the rep first stated a price
+  post_price_silence_seconds: number | null
+}
+
+// ============================================================================
+// SCORE OVERRIDES (manager calibration)
+// ============================================================================
+
+// Current override of one checkpoint on one report (the AI's score is kept alongside)
+export interface W4ScoreOverride {
+  id: string
+  analysis_id: string
+  recording_id: string
+  phase: W4PhaseKey
+  checkpoint_name: string
+  ai_score: number
+  override_score: number
+  max_score: number
+  reason: string
+  overridden_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// How far managers move one checkpoint away from the AI, across every override
+export interface W4CalibrationCheckpoint {
+  phase: W4PhaseKey
+  checkpoint_name: string
+  max_score: number
+  overrides: number
+  raised: number
+  lowered: number
+  mean_delta: number      // Manager minus AI; positive = the AI scores this checkpoint too low
+  mean_abs_delta: number
+}
+
+export interface W4CalibrationReport {
+  total_overrides: number
+  reports_overridden: number
+  checkpoints: W4CalibrationCheckpoint[]  // Largest mean absolute delta first
+  recent: (W4ScoreOverride & { overridden_by_email: string | null })[]
+}
+
 // Legacy types kept for backward compatibility (deprecated)
 export interface TranscriptEntry {
   speaker: 'Rep' | 'Customer' | string
@@ -312,8 +645,10 @@ export interface AudioAnalysis {
   id: string
   recording_id: string
   
-  // Full transcript (plain text format)
+  // Full transcript (plain text format, as returned by the model)
   transcript: string
+  transcript_segments?: TranscriptSegment[] | null  // Parsed from transcript; speakers live in recording_speakers
+  call_analytics?: CallAnalytics | null  // Recomputed whenever segments or speaker roles change
   
   // Processing status
   processing_status: AnalysisStatus
@@ -331,6 +666,8 @@ export interface AudioAnalysis {
   // W4 Sales System Report
   // ============================================
   w4_report: W4Report | null
+  validation_errors?: W4ValidationError[] | null  // Problems left after the repair re-ask (empty = clean)
+  prompt_version_id?: string | null  // admin_prompt_versions row used for this run (null = built-in prompt)
   
   // Legacy fields (kept for backward compatibility, will be deprecated)
   sections?: TranscriptSection[]
@@ -378,6 +715,47 @@ export interface TokenUsageLog {
   created_at: string
 }
 
+// ============================================================================
+// ANALYSIS JOB QUEUE
+// ============================================================================
+
+// analyze: W4 analysis from audio only
+// transcribe: transcript generation (optionally followed by transcript_analysis)
+// transcript_analysis: W4 analysis from audio + saved transcript
+export type AnalysisJobType = 'analyze' | 'transcribe' | 'transcript_analysis' | 'prompt_replay'
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+export interface AnalysisJob {
+  id: string
+  type: AnalysisJobType
+  status: AnalysisJobStatus
+  recording_id: string
+  analysis_id: string
+  user_id: string
+  payload: Record<string, unknown>
+  attempts: number
+  max_attempts: number
+  run_at: string
+  locked_by: string | null
+  lease_expires_at: string | null
+  heartbeat_at: string | null
+  last_error: string | null
+  started_at: string | null
+  finished_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface AnalysisJobInsert {
+  type: AnalysisJobType
+  recording_id: string
+  analysis_id: string
+  user_id: string
+  payload?: Record<string, unknown>
+  max_attempts?: number
+}
+
 // Admin stats types
 export interface UserTokenStats {
   user_id: string
@@ -429,12 +807,18 @@ export interface RecordingInsert {
   user_id: string
   file_path: string
   analysis_file_path?: string | null
+  analysis_file_size?: number | null
   file_name: string
   file_size: number
   duration?: number | null
   status?: RecordingStatus
   is_archived?: boolean
   folder_id?: string | null
+  client_name?: string | null
+  client_address?: string | null
+  appointment_type?: string | null
+  lead_source?: string | null
+  call_notes?: string | null
 }
 
 // Insert types for new tables
@@ -467,6 +851,7 @@ export interface CommentInsert {
   parent_id?: string | null
   content: string
   timestamp_seconds?: number | null
+  mentioned_user_ids?: string[]
 }
 
 export interface SharedRecordingInsert {
@@ -0,0 +1,195 @@
+// Custom service worker code, bundled by next-pwa and imported into the generated sw.js.
+// Drains the offline recording queue (src/lib/offlineStorage.ts) under Background Sync and
+// periodic sync, so a recording queued in the truck still uploads after the app is closed.
+// Built without the @/ alias: keep imports relative and free of window-only code.
+import {
+  BACKGROUND_SYNC_TAG,
+  getPendingRecordings,
+  claimPendingRecording,
+  updatePendingRecording,
+  updateRecordingStatus,
+  deleteOfflineRecording,
+  canAttemptUpload,
+  getRetryState,
+  type PendingRecording,
+} from '../lib/offlineStorage'
+import { AUDIO_BUCKET, buildRecordingPaths } from '../lib/recordingPaths'
+import { tusUpload } from '../lib/tusUpload'
+import type { SyncStatus, SyncWorkerMessage } from '../lib/syncService'
+import type { RecordingInsert } from '../types/database'
+
+// The tsconfig only has DOM typings, so describe the bits of the worker scope used here
+interface ExtendableEvent extends Event {
+  tag: string
+  waitUntil(promise: Promise<unknown>): void
+}
+
+interface WindowClient {
+  visibilityState: DocumentVisibilityState
+  postMessage(message: SyncWorkerMessage): void
+}
+
+interface ServiceWorkerScope {
+  addEventListener(type: 'sync' | 'periodicsync', listener: (event: ExtendableEvent) => void): void
+  clients: {
+    matchAll(options: { type: 'window'; includeUncontrolled?: boolean }): Promise<WindowClient[]>
+  }
+}
+
+interface UploadSession {
+  userId: string
+  accessToken: string
+  supabaseUrl: string
+  supabaseAnonKey: string
+}
+
+const sw = self as unknown as ServiceWorkerScope
+
+sw.addEventListener('sync', (event) => {
+  if (event.tag === BACKGROUND_SYNC_TAG) event.waitUntil(drainQueue())
+})
+
+sw.addEventListener('periodicsync', (event) => {
+  if (event.tag === BACKGROUND_SYNC_TAG) event.waitUntil(drainQueue())
+})
+
+async function broadcast(message: SyncWorkerMessage) {
+  const clients = await sw.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  clients.forEach(client => client.postMessage(message))
+}
+
+function broadcastStatus(status: SyncStatus) {
+  return broadcast({ type: 'sync-status', status })
+}
+
+// Auth comes from the app's cookies, refreshed by the middleware on this request
+async function fetchUploadSession(): Promise<UploadSession | null> {
+  const response = await fetch('/api/offline-sync/session', {
+    credentials: 'same-origin',
+    redirect: 'manual', // Signed out: the middleware redirects to /login
+    cache: 'no-store',
+  })
+  if (!response.ok) return null
+  return response.json()
+}
+
+async function drainQueue() {
+  // An open page uploads through the full pipeline, which also makes the analysis copy
+  const clients = await sw.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  if (clients.some(client => client.visibilityState === 'visible')) {
+    console.log('🔄 App is open - handing sync to the page')
+    clients.forEach(client => client.postMessage({ type: 'sync-requested' }))
+    return
+  }
+
+  const session = await fetchUploadSession()
+  if (!session) {
+    console.log('🔒 No signed-in session - background sync skipped')
+    return
+  }
+
+  const pending = await getPendingRecordings(session.userId)
+  const toSync = pending.filter(canAttemptUpload)
+  const waiting = pending.filter(r => getRetryState(r).kind === 'backoff').length
+  if (toSync.length === 0) {
+    // Still backing off: fail so the browser fires the sync again later
+    if (waiting > 0) throw new Error(`${waiting} recording(s) waiting to retry`)
+    return
+  }
+
+  console.log(`🔄 Background sync of ${toSync.length} recordings...`)
+  let failed = 0
+
+  for (let i = 0; i < toSync.length; i++) {
+    const recording = await claimPendingRecording(toSync[i].id)
+    if (!recording) continue
+
+    const currentItem = recording.displayName || recording.fileName
+    const reportProgress = (sent: number, total: number) => broadcastStatus({
+      isSyncing: true,
+      currentItem,
+      progress: Math.round(((i + (total ? sent / total : 0)) / toSync.length) * 100),
+      totalItems: toSync.length,
+      completedItems: i,
+      error: null,
+    })
+
+    try {
+      await uploadInBackground(recording, session, reportProgress)
+      await deleteOfflineRecording(recording.id)
+      console.log(`✅ Synced in background: ${recording.fileName}`)
+    } catch (error) {
+      failed++
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+      await updateRecordingStatus(recording.id, 'error', errorMsg)
+      console.error(`❌ Background sync failed: ${recording.fileName}`, error)
+    }
+  }
+
+  await broadcastStatus({
+    isSyncing: false,
+    currentItem: null,
+    progress: 100,
+    totalItems: toSync.length,
+    completedItems: toSync.length,
+    error: failed > 0 ? `${failed} recording(s) failed to sync` : null,
+  })
+
+  // Rejecting tells the browser to retry the sync later
+  if (failed > 0 || waiting > 0) throw new Error(`${failed + waiting} recording(s) still to upload`)
+}
+
+// Original audio only - FFmpeg.wasm doesn't run in a worker. The row stays 'uploading' until the
+// recording page next opens it and stores the analysis copy (finishBackgroundUpload).
+async function uploadInBackground(
+  recording: PendingRecording,
+  session: UploadSession,
+  onProgress: (sent: number, total: number) => void
+) {
+  const filePath = recording.uploadPath || buildRecordingPaths(recording.userId, recording.fileName).filePath
+  if (!recording.uploadPath) {
+    await updatePendingRecording(recording.id, { uploadPath: filePath })
+  }
+
+  const authHeaders = {
+    authorization: `Bearer ${session.accessToken}`,
+    apikey: session.supabaseAnonKey,
+  }
+
+  await tusUpload(recording.audioBlob, {
+    endpoint: `${session.supabaseUrl}/storage/v1/upload/resumable`,
+    headers: { ...authHeaders, 'x-upsert': 'true' },
+    metadata: {
+      bucketName: AUDIO_BUCKET,
+      objectName: filePath,
+      contentType: recording.mimeType,
+      cacheControl: '3600',
+    },
+    uploadUrl: recording.uploadUrl,
+    onUploadUrl: (uploadUrl) => updatePendingRecording(recording.id, { uploadUrl }),
+    onProgress,
+  })
+
+  const recordingInsert: RecordingInsert = {
+    user_id: recording.userId,
+    file_path: filePath,
+    file_name: recording.displayName || recording.fileName,
+    file_size: recording.fileSize,
+    duration: recording.duration ?? null,
+    status: 'uploading',
+    ...recording.callDetails,
+  }
+
+  const response = await fetch(`${session.supabaseUrl}/rest/v1/recordings`, {
+    method: 'POST',
+    headers: {
+      ...authHeaders,
+      'Content-Type': 'application/json',
+      Prefer: 'return=minimal',
+    },
+    body: JSON.stringify(recordingInsert),
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to save recording (${response.status}): ${await response.text()}`)
+  }
+}
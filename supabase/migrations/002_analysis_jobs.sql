@@ -0,0 +1,195 @@
+-- Durable job queue for W4 analysis and transcription
+-- Replaces the fire-and-forget promises started by /api/analyze and /api/transcribe.
+-- Workers claim jobs with a lease, extend it with heartbeats, and jobs whose lease
+-- expires (process restart, crash) are re-queued with backoff.
+
+CREATE TABLE IF NOT EXISTS public.analysis_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL CHECK (type IN ('analyze', 'transcribe', 'transcript_analysis')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  recording_id UUID NOT NULL REFERENCES public.recordings(id) ON DELETE CASCADE,
+  analysis_id UUID NOT NULL REFERENCES public.audio_analyses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_by TEXT,
+  lease_expires_at TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+  last_error TEXT,
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Workers poll queued jobs in run_at order
+CREATE INDEX IF NOT EXISTS analysis_jobs_queued_idx
+  ON public.analysis_jobs (run_at, created_at)
+  WHERE status = 'queued';
+
+-- Stale-lease sweeps only look at running jobs
+CREATE INDEX IF NOT EXISTS analysis_jobs_running_lease_idx
+  ON public.analysis_jobs (lease_expires_at)
+  WHERE status = 'running';
+
+-- Only one active job of each type per analysis
+CREATE UNIQUE INDEX IF NOT EXISTS analysis_jobs_one_active_idx
+  ON public.analysis_jobs (analysis_id, type)
+  WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS analysis_jobs_recording_idx
+  ON public.analysis_jobs (recording_id, created_at DESC);
+
+ALTER TABLE public.analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users can see jobs for their own recordings and enqueue them through enqueue_analysis_job().
+-- Claiming, heartbeats and completion go through the service role.
+CREATE POLICY "Users can view own jobs"
+  ON public.analysis_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all jobs"
+  ON public.analysis_jobs FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+-- ============================================================================
+-- Enqueue an analysis or transcription job for one of the caller's recordings.
+-- The worker reads audio with the service role, so the file path, duration and
+-- retry settings come from the recording row here, never from the client.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.enqueue_analysis_job(
+  p_type TEXT,
+  p_analysis_id UUID,
+  p_transcript_only BOOLEAN DEFAULT FALSE,
+  p_rubric_name TEXT DEFAULT NULL
+)
+RETURNS SETOF public.analysis_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recording public.recordings%ROWTYPE;
+BEGIN
+  IF p_type NOT IN ('analyze', 'transcribe') THEN
+    RAISE EXCEPTION 'Cannot enqueue % jobs', p_type;
+  END IF;
+
+  SELECT r.* INTO v_recording
+  FROM public.audio_analyses a
+  JOIN public.recordings r ON r.id = a.recording_id
+  WHERE a.id = p_analysis_id AND r.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Analysis not found';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.analysis_jobs (type, recording_id, analysis_id, user_id, payload)
+  VALUES (
+    p_type,
+    v_recording.id,
+    p_analysis_id,
+    v_recording.user_id,
+    jsonb_strip_nulls(jsonb_build_object(
+      'filePath', COALESCE(v_recording.analysis_file_path, v_recording.file_path),
+      'durationSeconds', COALESCE(v_recording.duration, 0),
+      'transcriptOnly', p_transcript_only,
+      'rubricName', p_rubric_name
+    ))
+  )
+  RETURNING *;
+END;
+$$;
+
+-- ============================================================================
+-- Claim the next runnable job (FOR UPDATE SKIP LOCKED so workers never collide)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.claim_analysis_job(p_worker_id TEXT, p_lease_seconds INTEGER)
+RETURNS SETOF public.analysis_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.analysis_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      locked_by = p_worker_id,
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW(),
+      started_at = COALESCE(j.started_at, NOW()),
+      updated_at = NOW()
+  WHERE j.id = (
+    SELECT q.id
+    FROM public.analysis_jobs q
+    WHERE q.status = 'queued' AND q.run_at <= NOW()
+    ORDER BY q.run_at, q.created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING j.*;
+END;
+$$;
+
+-- ============================================================================
+-- Extend the lease of a running job. Returns false if the worker lost the lease.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.heartbeat_analysis_job(p_job_id UUID, p_worker_id TEXT, p_lease_seconds INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE public.analysis_jobs
+  SET lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_job_id AND status = 'running' AND locked_by = p_worker_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated > 0;
+END;
+$$;
+
+-- ============================================================================
+-- Recover running jobs whose lease expired (worker crashed or process restarted).
+-- Jobs with attempts left go back to the queue with exponential backoff,
+-- the rest are marked failed. Returns every recovered row.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.requeue_stale_analysis_jobs(p_base_backoff_seconds INTEGER DEFAULT 30)
+RETURNS SETOF public.analysis_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.analysis_jobs j
+  SET status = CASE WHEN j.attempts < j.max_attempts THEN 'queued' ELSE 'failed' END,
+      run_at = CASE
+        WHEN j.attempts < j.max_attempts
+          THEN NOW() + make_interval(secs => LEAST(p_base_backoff_seconds * POWER(2, GREATEST(j.attempts - 1, 0)), 600))
+        ELSE j.run_at
+      END,
+      finished_at = CASE WHEN j.attempts < j.max_attempts THEN NULL ELSE NOW() END,
+      last_error = 'Worker lease expired (process stopped mid-run)',
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      updated_at = NOW()
+  WHERE j.status = 'running' AND j.lease_expires_at < NOW()
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_analysis_job(TEXT, UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.enqueue_analysis_job(TEXT, UUID, BOOLEAN, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION public.claim_analysis_job(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.heartbeat_analysis_job(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.requeue_stale_analysis_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
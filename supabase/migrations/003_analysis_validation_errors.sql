@@ -0,0 +1,7 @@
+-- Validation problems for the W4 report on this analysis.
+-- Filled by the analysis pipeline after schema/rubric validation and the one-shot
+-- repair re-ask; an empty array means the report passed validation cleanly.
+-- Shape: [{ "path": "phases.why.score", "message": "...", "kind": "schema" | "rubric" }]
+
+ALTER TABLE public.audio_analyses
+  ADD COLUMN IF NOT EXISTS validation_errors JSONB;
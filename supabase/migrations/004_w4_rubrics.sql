@@ -0,0 +1,68 @@
+-- Versioned W4 rubrics (checkpoint weights, rating thresholds, no-sale cap).
+-- Each variant (name: "default", "retail", "storm", ...) has numbered versions and at
+-- most one active version. Versions are never edited in place - saving creates a new
+-- version, so every w4_report can point at the exact rubric that scored it.
+-- When a variant has no rows the app uses its built-in default rubric (version 0).
+
+CREATE TABLE IF NOT EXISTS public.w4_rubrics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL DEFAULT 'default',
+  version INTEGER NOT NULL CHECK (version > 0),
+  description TEXT,
+  definition JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (name, version)
+);
+
+-- Only one active version per variant
+CREATE UNIQUE INDEX IF NOT EXISTS w4_rubrics_one_active_idx
+  ON public.w4_rubrics (name)
+  WHERE is_active;
+
+ALTER TABLE public.w4_rubrics ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in can read rubrics (reports reference them); only admins change them
+CREATE POLICY "Authenticated users can view rubrics"
+  ON public.w4_rubrics FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create rubrics"
+  ON public.w4_rubrics FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can update rubrics"
+  ON public.w4_rubrics FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+-- ============================================================================
+-- Make one version the active version of its variant (deactivates the others atomically)
+-- Runs as the caller, so the admin UPDATE policy still applies.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.activate_w4_rubric(p_rubric_id UUID)
+RETURNS public.w4_rubrics
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_name TEXT;
+  v_rubric public.w4_rubrics;
+BEGIN
+  SELECT name INTO v_name FROM public.w4_rubrics WHERE id = p_rubric_id;
+  IF v_name IS NULL THEN
+    RAISE EXCEPTION 'Rubric not found';
+  END IF;
+
+  UPDATE public.w4_rubrics SET is_active = false WHERE name = v_name AND is_active AND id <> p_rubric_id;
+  UPDATE public.w4_rubrics SET is_active = true WHERE id = p_rubric_id RETURNING * INTO v_rubric;
+
+  IF v_rubric.id IS NULL THEN
+    RAISE EXCEPTION 'Not allowed to activate this rubric';
+  END IF;
+
+  RETURN v_rubric;
+END;
+$$;
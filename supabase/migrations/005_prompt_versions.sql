@@ -0,0 +1,48 @@
+-- Immutable history for admin prompts.
+-- Every save of an admin prompt inserts a new version; admin_prompts keeps the
+-- current text and points at the version it came from. Rollback inserts a new
+-- version with the old text, so history is never rewritten.
+-- Each analysis records the prompt version it ran with.
+
+CREATE TABLE IF NOT EXISTS public.admin_prompt_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prompt_name TEXT NOT NULL,
+  version INTEGER NOT NULL CHECK (version > 0),
+  prompt TEXT NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (prompt_name, version)
+);
+
+CREATE INDEX IF NOT EXISTS admin_prompt_versions_name_idx
+  ON public.admin_prompt_versions (prompt_name, version DESC);
+
+ALTER TABLE public.admin_prompt_versions ENABLE ROW LEVEL SECURITY;
+
+-- No UPDATE/DELETE policies: versions are immutable
+CREATE POLICY "Admins can view prompt versions"
+  ON public.admin_prompt_versions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can create prompt versions"
+  ON public.admin_prompt_versions FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+ALTER TABLE public.admin_prompts
+  ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES public.admin_prompt_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.audio_analyses
+  ADD COLUMN IF NOT EXISTS prompt_version_id UUID REFERENCES public.admin_prompt_versions(id) ON DELETE SET NULL;
+
+-- Backfill: the current text of every existing prompt becomes its version 1
+INSERT INTO public.admin_prompt_versions (prompt_name, version, prompt, description, created_by, created_at)
+SELECT name, 1, prompt, COALESCE(description, 'Imported from existing prompt'), updated_by, COALESCE(updated_at, NOW())
+FROM public.admin_prompts
+WHERE current_version_id IS NULL
+ON CONFLICT (prompt_name, version) DO NOTHING;
+
+UPDATE public.admin_prompts p
+SET current_version_id = v.id
+FROM public.admin_prompt_versions v
+WHERE v.prompt_name = p.name AND v.version = 1 AND p.current_version_id IS NULL;
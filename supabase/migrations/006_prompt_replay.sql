@@ -0,0 +1,146 @@
+-- Prompt replay: dry-run a candidate W4 prompt (and the current one, as a baseline)
+-- against a golden set of calls with manager-approved scores. Replays run on the job
+-- queue as 'prompt_replay' jobs and write to prompt_replay_results - audio_analyses is
+-- never touched.
+
+-- ============================================================================
+-- Golden set
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.prompt_golden_calls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recording_id UUID NOT NULL REFERENCES public.recordings(id) ON DELETE CASCADE,
+  analysis_id UUID NOT NULL REFERENCES public.audio_analyses(id) ON DELETE CASCADE,
+  approved_scores JSONB NOT NULL,
+  notes TEXT,
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (analysis_id)
+);
+
+-- ============================================================================
+-- Replay runs and per-call results
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.prompt_replay_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prompt_name TEXT NOT NULL DEFAULT 'w4_analysis',
+  candidate_prompt TEXT NOT NULL,
+  candidate_version_id UUID REFERENCES public.admin_prompt_versions(id) ON DELETE SET NULL,
+  baseline_prompt TEXT NOT NULL,
+  baseline_version_id UUID REFERENCES public.admin_prompt_versions(id) ON DELETE SET NULL,
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.prompt_replay_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.prompt_replay_runs(id) ON DELETE CASCADE,
+  golden_call_id UUID NOT NULL REFERENCES public.prompt_golden_calls(id) ON DELETE CASCADE,
+  variant TEXT NOT NULL CHECK (variant IN ('candidate', 'baseline')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'done', 'error')),
+  w4_report JSONB,
+  validation_errors JSONB,
+  error_message TEXT,
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  estimated_cost_usd NUMERIC(10, 6),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  UNIQUE (run_id, golden_call_id, variant)
+);
+
+CREATE INDEX IF NOT EXISTS prompt_replay_results_run_idx
+  ON public.prompt_replay_results (run_id);
+
+-- Admin only. Results are written by the worker through the service role.
+ALTER TABLE public.prompt_golden_calls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.prompt_replay_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.prompt_replay_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage golden calls"
+  ON public.prompt_golden_calls FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can view replay runs"
+  ON public.prompt_replay_runs FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can create replay runs"
+  ON public.prompt_replay_runs FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can view replay results"
+  ON public.prompt_replay_results FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can create replay results"
+  ON public.prompt_replay_results FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can update replay results"
+  ON public.prompt_replay_results FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+-- ============================================================================
+-- Job queue: new job type. A run replays the same analysis once per variant and
+-- several runs can overlap, so replay jobs are exempt from the one-active-job index.
+-- ============================================================================
+ALTER TABLE public.analysis_jobs DROP CONSTRAINT IF EXISTS analysis_jobs_type_check;
+ALTER TABLE public.analysis_jobs ADD CONSTRAINT analysis_jobs_type_check
+  CHECK (type IN ('analyze', 'transcribe', 'transcript_analysis', 'prompt_replay'));
+
+DROP INDEX IF EXISTS public.analysis_jobs_one_active_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS analysis_jobs_one_active_idx
+  ON public.analysis_jobs (analysis_id, type)
+  WHERE status IN ('queued', 'running') AND type <> 'prompt_replay';
+
+-- ============================================================================
+-- Queue the replay job for one result row. Admin only; like enqueue_analysis_job()
+-- the audio path and duration come from the golden call's recording, not the caller.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.enqueue_prompt_replay_job(p_result_id UUID)
+RETURNS SETOF public.analysis_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_call public.prompt_golden_calls%ROWTYPE;
+  v_recording public.recordings%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT g.* INTO v_call
+  FROM public.prompt_replay_results res
+  JOIN public.prompt_golden_calls g ON g.id = res.golden_call_id
+  WHERE res.id = p_result_id AND res.status = 'queued';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Replay result not found';
+  END IF;
+
+  SELECT * INTO v_recording FROM public.recordings WHERE id = v_call.recording_id;
+
+  RETURN QUERY
+  INSERT INTO public.analysis_jobs (type, recording_id, analysis_id, user_id, payload, max_attempts)
+  VALUES (
+    'prompt_replay',
+    v_call.recording_id,
+    v_call.analysis_id,
+    auth.uid(),
+    jsonb_build_object(
+      'resultId', p_result_id,
+      'filePath', COALESCE(v_recording.analysis_file_path, v_recording.file_path),
+      'durationSeconds', COALESCE(v_recording.duration, 0)
+    ),
+    2
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_prompt_replay_job(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.enqueue_prompt_replay_job(UUID) TO authenticated;
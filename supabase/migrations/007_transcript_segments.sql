@@ -0,0 +1,43 @@
+-- Structured transcripts: the transcription job parses the model's "0:00 - Mike" text into
+-- segments (start/end seconds, speaker key, text) stored next to the raw transcript, and
+-- records each voice in recording_speakers with a display name and role. Segments reference
+-- speakers by key (S1, S2, ...) so renaming a speaker never rewrites the transcript.
+
+ALTER TABLE public.audio_analyses
+  ADD COLUMN IF NOT EXISTS transcript_segments JSONB;
+
+-- ============================================================================
+-- Speakers per recording
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.recording_speakers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recording_id UUID NOT NULL REFERENCES public.recordings(id) ON DELETE CASCADE,
+  speaker_key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'other' CHECK (role IN ('rep', 'homeowner', 'other')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (recording_id, speaker_key)
+);
+
+-- Owners can see and edit the speakers on their recordings; admins can see all.
+-- Rows are created by the worker through the service role.
+ALTER TABLE public.recording_speakers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view their recording speakers"
+  ON public.recording_speakers FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND r.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can update their recording speakers"
+  ON public.recording_speakers FOR UPDATE
+  USING (
+    EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND r.user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can view all recording speakers"
+  ON public.recording_speakers FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+  );
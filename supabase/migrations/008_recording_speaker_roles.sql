@@ -0,0 +1,12 @@
+-- Speaker editing: owners rename speakers, merge mislabeled ones and pick the rep.
+-- A merge deletes the merged-away speaker row, and there is at most one rep per recording.
+
+CREATE UNIQUE INDEX IF NOT EXISTS recording_speakers_one_rep_idx
+  ON public.recording_speakers (recording_id)
+  WHERE role = 'rep';
+
+CREATE POLICY "Owners can delete their recording speakers"
+  ON public.recording_speakers FOR DELETE
+  USING (
+    EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND r.user_id = auth.uid())
+  );
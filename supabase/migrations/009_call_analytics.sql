@@ -0,0 +1,6 @@
+-- Call analytics (talk ratio, longest monologue, interruptions, questions, post-price silence)
+-- computed from transcript_segments and recording_speakers roles. Recomputed whenever the
+-- transcript is saved or a speaker's role changes; fed into the W4 prompt as evidence.
+
+ALTER TABLE public.audio_analyses
+  ADD COLUMN IF NOT EXISTS call_analytics JSONB;
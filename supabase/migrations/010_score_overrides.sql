@@ -0,0 +1,89 @@
+-- Manager score overrides. Reviewers (admins, and from 011 the managers of a rep's organization)
+-- can replace any checkpoint score on a W4 report with a reason. The override is applied to audio_analyses.w4_report (the checkpoint keeps
+-- the AI's score next to the manager's) and recorded here, one current row per checkpoint per report.
+-- Rows outlive re-analysis so the calibration report keeps every disagreement with the AI.
+
+-- Managers review reports but can't change the platform settings admins can
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('user', 'manager', 'admin'));
+
+CREATE TABLE IF NOT EXISTS public.w4_score_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  analysis_id UUID NOT NULL REFERENCES public.audio_analyses(id) ON DELETE CASCADE,
+  recording_id UUID NOT NULL REFERENCES public.recordings(id) ON DELETE CASCADE,
+  phase TEXT NOT NULL CHECK (phase IN ('why', 'what', 'who', 'when')),
+  checkpoint_name TEXT NOT NULL,
+  ai_score INTEGER NOT NULL CHECK (ai_score >= 0),
+  override_score INTEGER NOT NULL CHECK (override_score >= 0 AND override_score <= max_score),
+  max_score INTEGER NOT NULL CHECK (max_score > 0),
+  reason TEXT NOT NULL CHECK (length(btrim(reason)) > 0),
+  overridden_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (analysis_id, phase, checkpoint_name)
+);
+
+CREATE INDEX IF NOT EXISTS w4_score_overrides_checkpoint_idx
+  ON public.w4_score_overrides (phase, checkpoint_name);
+
+-- ============================================================================
+-- ACCESS HELPERS (security definer so policies can call them without recursing)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+$$;
+
+-- Can the signed-in user review (see, rescore) this user's recordings? Only admins for now:
+-- 011 replaces this to let managers review the members of their organization.
+CREATE OR REPLACE FUNCTION public.can_review_user(target UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT public.is_admin()
+$$;
+
+-- ============================================================================
+-- POLICIES
+-- ============================================================================
+
+ALTER TABLE public.w4_score_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view overrides on their recordings"
+  ON public.w4_score_overrides FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND r.user_id = auth.uid())
+  );
+
+CREATE POLICY "Reviewers can manage their members' score overrides"
+  ON public.w4_score_overrides FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND public.can_review_user(r.user_id)))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND public.can_review_user(r.user_id)));
+
+-- Reviewers open their reps' recordings and write the rescored report back
+CREATE POLICY "Reviewers can view their members' recordings"
+  ON public.recordings FOR SELECT
+  USING (public.can_review_user(user_id));
+
+CREATE POLICY "Reviewers can view their members' analyses"
+  ON public.audio_analyses FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND public.can_review_user(r.user_id)));
+
+CREATE POLICY "Reviewers can update their members' analyses"
+  ON public.audio_analyses FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND public.can_review_user(r.user_id)));
+
+CREATE POLICY "Reviewers can view their members' recording speakers"
+  ON public.recording_speakers FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND public.can_review_user(r.user_id)));
+
+CREATE POLICY "Reviewers can read their members' audio"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'audio-files'
+    AND EXISTS (SELECT 1 FROM public.recordings r WHERE r.file_path = name AND public.can_review_user(r.user_id))
+  );
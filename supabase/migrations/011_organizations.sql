@@ -0,0 +1,224 @@
+-- Organizations and teams. A roofing company is an organization; its members can be grouped into
+-- teams. A user belongs to at most one organization. Managers (profiles.role = 'manager') review
+-- and coach the recordings of their organization's members - only their own team's when the
+-- manager is on a team. Admins still see everything.
+-- Members join through invites: an admin (or a manager, for their own organization) invites an
+-- email address, and the invite link signs that person up (or in) and adds them.
+
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(btrim(name)) > 0),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(btrim(name)) > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (organization_id, name),
+  UNIQUE (id, organization_id) -- Target of the (team_id, organization_id) foreign keys below
+);
+
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  team_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- The team must belong to the member's own organization
+  FOREIGN KEY (team_id, organization_id) REFERENCES public.teams(id, organization_id) ON DELETE SET NULL (team_id)
+);
+
+CREATE INDEX IF NOT EXISTS organization_members_org_idx
+  ON public.organization_members (organization_id);
+
+CREATE TABLE IF NOT EXISTS public.organization_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  team_id UUID,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'manager')),
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '14 days',
+  accepted_at TIMESTAMPTZ,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  FOREIGN KEY (team_id, organization_id) REFERENCES public.teams(id, organization_id) ON DELETE SET NULL (team_id)
+);
+
+CREATE INDEX IF NOT EXISTS organization_invites_org_idx
+  ON public.organization_invites (organization_id);
+
+-- ============================================================================
+-- ACCESS HELPERS (security definer so policies can call them without recursing)
+-- ============================================================================
+
+-- Organization the signed-in user manages (null unless they are a manager with a membership)
+CREATE OR REPLACE FUNCTION public.managed_organization_id()
+RETURNS UUID
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT m.organization_id
+  FROM organization_members m
+  JOIN profiles p ON p.id = m.user_id
+  WHERE m.user_id = auth.uid() AND p.role = 'manager'
+$$;
+
+-- Can the signed-in user review (see and coach) this user's recordings? Replaces the admin-only
+-- version from 010, so the reviewer policies created there now cover a manager's members too.
+CREATE OR REPLACE FUNCTION public.can_review_user(target UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT public.is_admin() OR EXISTS (
+    SELECT 1
+    FROM organization_members mine
+    JOIN profiles p ON p.id = mine.user_id AND p.role = 'manager'
+    JOIN organization_members theirs ON theirs.organization_id = mine.organization_id
+    WHERE mine.user_id = auth.uid()
+      AND theirs.user_id = target
+      AND (mine.team_id IS NULL OR mine.team_id = theirs.team_id)
+  )
+$$;
+
+-- What the invite link shows before sign-up (callable without a session)
+CREATE OR REPLACE FUNCTION public.get_organization_invite(invite_token TEXT)
+RETURNS TABLE (organization_name TEXT, team_name TEXT, email TEXT, role TEXT, is_valid BOOLEAN)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT o.name, t.name, i.email, i.role, (i.accepted_at IS NULL AND i.expires_at > NOW())
+  FROM organization_invites i
+  JOIN organizations o ON o.id = i.organization_id
+  LEFT JOIN teams t ON t.id = i.team_id
+  WHERE i.token = invite_token
+$$;
+
+-- Joins the signed-in user to the invite's organization (and team). The account email must match
+-- the invited one. Manager invites promote the user to manager; admins keep their role.
+CREATE OR REPLACE FUNCTION public.accept_organization_invite(invite_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  invite organization_invites%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept this invite';
+  END IF;
+
+  SELECT * INTO invite FROM organization_invites WHERE token = invite_token FOR UPDATE;
+  IF NOT FOUND OR invite.accepted_at IS NOT NULL OR invite.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'This invite is no longer valid';
+  END IF;
+  IF lower(invite.email) <> lower(coalesce(auth.email(), '')) THEN
+    RAISE EXCEPTION 'This invite was sent to a different email address';
+  END IF;
+
+  INSERT INTO organization_members (user_id, organization_id, team_id)
+  VALUES (auth.uid(), invite.organization_id, invite.team_id)
+  ON CONFLICT (user_id) DO UPDATE
+    SET organization_id = EXCLUDED.organization_id, team_id = EXCLUDED.team_id;
+
+  IF invite.role = 'manager' THEN
+    UPDATE profiles SET role = 'manager' WHERE id = auth.uid() AND role = 'user';
+  END IF;
+
+  UPDATE organization_invites SET accepted_at = NOW(), accepted_by = auth.uid() WHERE id = invite.id;
+  RETURN invite.organization_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_organization_invite(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_organization_invite(TEXT) TO authenticated;
+
+-- ============================================================================
+-- POLICIES
+-- ============================================================================
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization"
+  ON public.organizations FOR SELECT
+  USING (
+    public.is_admin()
+    OR id IN (SELECT organization_id FROM public.organization_members WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can manage organizations"
+  ON public.organizations FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Members can view their organization's teams"
+  ON public.teams FOR SELECT
+  USING (
+    public.is_admin()
+    OR organization_id IN (SELECT organization_id FROM public.organization_members WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins and managers can manage teams"
+  ON public.teams FOR ALL
+  USING (public.is_admin() OR organization_id = public.managed_organization_id())
+  WITH CHECK (public.is_admin() OR organization_id = public.managed_organization_id());
+
+CREATE POLICY "Users can view their own membership"
+  ON public.organization_members FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins and managers can view members"
+  ON public.organization_members FOR SELECT
+  USING (public.is_admin() OR organization_id = public.managed_organization_id());
+
+CREATE POLICY "Admins can manage members"
+  ON public.organization_members FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Managers move their members between teams and remove them; people only join through invites
+CREATE POLICY "Managers can update their members"
+  ON public.organization_members FOR UPDATE
+  USING (organization_id = public.managed_organization_id())
+  WITH CHECK (organization_id = public.managed_organization_id());
+
+-- ...and team_id is all they may change: rewriting user_id would pull another user into the
+-- organization (and under can_review_user). Updates from SECURITY DEFINER functions such as
+-- accept_organization_invite run as the function owner and skip the check.
+CREATE OR REPLACE FUNCTION public.guard_organization_member_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated')
+    AND NOT public.is_admin()
+    AND (NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.organization_id IS DISTINCT FROM OLD.organization_id)
+  THEN
+    RAISE EXCEPTION 'Only a member''s team can be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS organization_members_guard_update ON public.organization_members;
+CREATE TRIGGER organization_members_guard_update
+  BEFORE UPDATE ON public.organization_members
+  FOR EACH ROW EXECUTE FUNCTION public.guard_organization_member_update();
+
+CREATE POLICY "Managers can remove their members"
+  ON public.organization_members FOR DELETE
+  USING (organization_id = public.managed_organization_id());
+
+-- Managers can only invite reps; manager invites come from admins
+CREATE POLICY "Admins and managers can manage invites"
+  ON public.organization_invites FOR ALL
+  USING (public.is_admin() OR organization_id = public.managed_organization_id())
+  WITH CHECK (public.is_admin() OR (organization_id = public.managed_organization_id() AND role = 'user'));
+
+CREATE POLICY "Reviewers can view their members' profiles"
+  ON public.profiles FOR SELECT
+  USING (public.can_review_user(id));
+
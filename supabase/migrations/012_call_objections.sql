@@ -0,0 +1,37 @@
+-- Lost-deal objections. A report's sale_outcome.objection_reason is free text; each lost call gets
+-- one row here with that text sorted into a fixed taxonomy. The analysis model picks the category
+-- (sale_outcome.objection_category), older reports are classified in a batch, and keyword rules
+-- cover whatever the model can't. A rep's manager can correct the category by hand; manual rows
+-- are kept when the call is re-analyzed.
+
+CREATE TABLE IF NOT EXISTS public.call_objections (
+  recording_id UUID PRIMARY KEY REFERENCES public.recordings(id) ON DELETE CASCADE,
+  analysis_id UUID NOT NULL REFERENCES public.audio_analyses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,  -- The rep, for RLS and per-rep charts
+  reason TEXT,
+  category TEXT NOT NULL
+    CHECK (category IN ('price', 'spouse', 'more_quotes', 'timing', 'insurance', 'trust', 'other')),
+  source TEXT NOT NULL CHECK (source IN ('ai', 'rules', 'manual')),
+  corrected_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS call_objections_user_idx ON public.call_objections (user_id);
+CREATE INDEX IF NOT EXISTS call_objections_category_idx ON public.call_objections (category);
+
+ALTER TABLE public.call_objections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view objections on their calls"
+  ON public.call_objections FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Reviewers can view their reps' objections"
+  ON public.call_objections FOR SELECT
+  USING (public.can_review_user(user_id));
+
+-- Batch classification and manual corrections both come from the rep's manager (or an admin)
+CREATE POLICY "Reviewers can classify their reps' objections"
+  ON public.call_objections FOR ALL
+  USING (public.can_review_user(user_id))
+  WITH CHECK (public.can_review_user(user_id));
@@ -0,0 +1,41 @@
+-- Share links. The SharedRecording type has been around since the first schema; this makes sure the
+-- table exists with a unique token and lets owners manage their shares. A row with share_token is a
+-- public link: anyone with the URL can open /share/<token> without an account until it expires or
+-- the owner revokes it (deletes the row). The public page reads through the service role after
+-- checking the token, so there is no anonymous RLS policy here.
+
+CREATE TABLE IF NOT EXISTS public.shared_recordings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recording_id UUID NOT NULL REFERENCES public.recordings(id) ON DELETE CASCADE,
+  shared_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  shared_with UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  share_token TEXT,
+  permissions TEXT NOT NULL DEFAULT 'view' CHECK (permissions IN ('view', 'comment', 'edit')),
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS shared_recordings_token_idx
+  ON public.shared_recordings (share_token) WHERE share_token IS NOT NULL;
+CREATE INDEX IF NOT EXISTS shared_recordings_recording_idx
+  ON public.shared_recordings (recording_id);
+
+ALTER TABLE public.shared_recordings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can view shares of their recordings" ON public.shared_recordings;
+CREATE POLICY "Owners can view shares of their recordings"
+  ON public.shared_recordings FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND r.user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Owners can share their recordings" ON public.shared_recordings;
+CREATE POLICY "Owners can share their recordings"
+  ON public.shared_recordings FOR INSERT
+  WITH CHECK (
+    shared_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND r.user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Owners can revoke shares of their recordings" ON public.shared_recordings;
+CREATE POLICY "Owners can revoke shares of their recordings"
+  ON public.shared_recordings FOR DELETE
+  USING (EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND r.user_id = auth.uid()));
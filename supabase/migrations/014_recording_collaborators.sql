@@ -0,0 +1,208 @@
+-- Sharing a recording with a specific account (shared_recordings.shared_with). The recipient sees
+-- the recording under "Shared with me" and opens the normal recording page:
+--   view    - report, audio, transcript, comments and bookmarks (read-only)
+--   comment - view, plus posting comments
+--   edit    - comment, plus adding bookmarks and tags
+-- A grant stops working when it expires or the owner revokes it (deletes the row). Public links
+-- (share_token, 013) are unaffected.
+
+CREATE UNIQUE INDEX IF NOT EXISTS shared_recordings_recipient_idx
+  ON public.shared_recordings (recording_id, shared_with) WHERE shared_with IS NOT NULL;
+
+-- ============================================================================
+-- ACCESS HELPERS (security definer so policies can call them without recursing)
+-- ============================================================================
+
+-- Does the signed-in user hold a live grant on this recording with at least the required permission?
+CREATE OR REPLACE FUNCTION public.has_recording_share(target_recording UUID, required TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM shared_recordings s
+    WHERE s.recording_id = target_recording
+      AND s.shared_with = auth.uid()
+      AND (s.expires_at IS NULL OR s.expires_at > NOW())
+      AND array_position(ARRAY['view', 'comment', 'edit'], s.permissions)
+        >= array_position(ARRAY['view', 'comment', 'edit'], required)
+  )
+$$;
+
+-- Have the signed-in user and this user shared a recording with each other (either direction)?
+CREATE OR REPLACE FUNCTION public.shares_recording_with(target UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM shared_recordings s
+    WHERE s.shared_with IS NOT NULL
+      AND ((s.shared_by = auth.uid() AND s.shared_with = target)
+        OR (s.shared_by = target AND s.shared_with = auth.uid()))
+  )
+$$;
+
+-- Tags are per user; a tag is visible to anyone who can see a recording it's attached to
+CREATE OR REPLACE FUNCTION public.can_view_tag(target_tag UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM recording_tags rt
+    JOIN recordings r ON r.id = rt.recording_id
+    WHERE rt.tag_id = target_tag
+      AND (r.user_id = auth.uid() OR public.has_recording_share(r.id, 'view'))
+  )
+$$;
+
+-- Grants the account behind the email typed into the share dialog access to a recording, or
+-- updates the existing grant. Only the recording's owner can call it, and the email lookup stays
+-- inside: there is no general "does this email have an account" query. No row when no account
+-- has that email.
+CREATE OR REPLACE FUNCTION public.share_recording_with_email(
+  target_recording UUID,
+  target_email TEXT,
+  share_permissions TEXT,
+  share_expires_at TIMESTAMPTZ
+)
+RETURNS SETOF shared_recordings
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  recipient UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM recordings WHERE id = target_recording AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the owner can share this recording';
+  END IF;
+
+  SELECT id INTO recipient FROM profiles WHERE lower(email) = lower(trim(target_email)) LIMIT 1;
+  IF recipient IS NULL THEN
+    RETURN;
+  END IF;
+  IF recipient = auth.uid() THEN
+    RAISE EXCEPTION 'You already own this recording';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO shared_recordings (recording_id, shared_by, shared_with, permissions, expires_at)
+  VALUES (target_recording, auth.uid(), recipient, share_permissions, share_expires_at)
+  ON CONFLICT (recording_id, shared_with) WHERE shared_with IS NOT NULL
+  DO UPDATE SET permissions = EXCLUDED.permissions, expires_at = EXCLUDED.expires_at
+  RETURNING *;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.find_profile_id_by_email(TEXT);
+REVOKE EXECUTE ON FUNCTION public.share_recording_with_email(UUID, TEXT, TEXT, TIMESTAMPTZ) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.share_recording_with_email(UUID, TEXT, TEXT, TIMESTAMPTZ) TO authenticated;
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Owners can change shares of their recordings" ON public.shared_recordings;
+DROP POLICY IF EXISTS "Recipients can view their shares" ON public.shared_recordings;
+DROP POLICY IF EXISTS "Share participants can view each other's profiles" ON public.profiles;
+DROP POLICY IF EXISTS "Share recipients can view recordings" ON public.recordings;
+DROP POLICY IF EXISTS "Share recipients can view analyses" ON public.audio_analyses;
+DROP POLICY IF EXISTS "Share recipients can view recording speakers" ON public.recording_speakers;
+DROP POLICY IF EXISTS "Share recipients can read audio" ON storage.objects;
+DROP POLICY IF EXISTS "Share recipients can view comments" ON public.comments;
+DROP POLICY IF EXISTS "Share commenters can add comments" ON public.comments;
+DROP POLICY IF EXISTS "Share commenters can change their comments" ON public.comments;
+DROP POLICY IF EXISTS "Share commenters can delete their comments" ON public.comments;
+DROP POLICY IF EXISTS "Share recipients can view bookmarks" ON public.bookmarks;
+DROP POLICY IF EXISTS "Share editors can manage their bookmarks" ON public.bookmarks;
+DROP POLICY IF EXISTS "Share recipients can view recording tags" ON public.recording_tags;
+DROP POLICY IF EXISTS "Share editors can tag recordings" ON public.recording_tags;
+DROP POLICY IF EXISTS "Share editors can untag recordings" ON public.recording_tags;
+DROP POLICY IF EXISTS "Users can view tags on recordings they can see" ON public.tags;
+DROP POLICY IF EXISTS "Owners can view collaborators' comments" ON public.comments;
+DROP POLICY IF EXISTS "Owners can view collaborators' bookmarks" ON public.bookmarks;
+
+CREATE POLICY "Owners can change shares of their recordings"
+  ON public.shared_recordings FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND r.user_id = auth.uid()));
+
+CREATE POLICY "Recipients can view their shares"
+  ON public.shared_recordings FOR SELECT
+  USING (shared_with = auth.uid());
+
+CREATE POLICY "Share participants can view each other's profiles"
+  ON public.profiles FOR SELECT
+  USING (public.shares_recording_with(id));
+
+CREATE POLICY "Share recipients can view recordings"
+  ON public.recordings FOR SELECT
+  USING (public.has_recording_share(id, 'view'));
+
+CREATE POLICY "Share recipients can view analyses"
+  ON public.audio_analyses FOR SELECT
+  USING (public.has_recording_share(recording_id, 'view'));
+
+CREATE POLICY "Share recipients can view recording speakers"
+  ON public.recording_speakers FOR SELECT
+  USING (public.has_recording_share(recording_id, 'view'));
+
+CREATE POLICY "Share recipients can read audio"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'audio-files'
+    AND EXISTS (SELECT 1 FROM public.recordings r WHERE r.file_path = name AND public.has_recording_share(r.id, 'view'))
+  );
+
+CREATE POLICY "Share recipients can view comments"
+  ON public.comments FOR SELECT
+  USING (public.has_recording_share(recording_id, 'view'));
+
+-- The owner sees what collaborators add to their recording
+CREATE POLICY "Owners can view collaborators' comments"
+  ON public.comments FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND r.user_id = auth.uid()));
+
+CREATE POLICY "Share commenters can add comments"
+  ON public.comments FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND public.has_recording_share(recording_id, 'comment'));
+
+CREATE POLICY "Share commenters can change their comments"
+  ON public.comments FOR UPDATE
+  USING (user_id = auth.uid() AND public.has_recording_share(recording_id, 'comment'));
+
+CREATE POLICY "Share commenters can delete their comments"
+  ON public.comments FOR DELETE
+  USING (user_id = auth.uid() AND public.has_recording_share(recording_id, 'comment'));
+
+CREATE POLICY "Share recipients can view bookmarks"
+  ON public.bookmarks FOR SELECT
+  USING (public.has_recording_share(recording_id, 'view'));
+
+CREATE POLICY "Owners can view collaborators' bookmarks"
+  ON public.bookmarks FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND r.user_id = auth.uid()));
+
+CREATE POLICY "Share editors can manage their bookmarks"
+  ON public.bookmarks FOR ALL
+  USING (user_id = auth.uid() AND public.has_recording_share(recording_id, 'edit'))
+  WITH CHECK (user_id = auth.uid() AND public.has_recording_share(recording_id, 'edit'));
+
+CREATE POLICY "Share recipients can view recording tags"
+  ON public.recording_tags FOR SELECT
+  USING (public.has_recording_share(recording_id, 'view'));
+
+-- Editors attach their own tags
+CREATE POLICY "Share editors can tag recordings"
+  ON public.recording_tags FOR INSERT
+  WITH CHECK (
+    public.has_recording_share(recording_id, 'edit')
+    AND EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+  );
+
+CREATE POLICY "Share editors can untag recordings"
+  ON public.recording_tags FOR DELETE
+  USING (public.has_recording_share(recording_id, 'edit'));
+
+CREATE POLICY "Users can view tags on recordings they can see"
+  ON public.tags FOR SELECT
+  USING (public.can_view_tag(id));
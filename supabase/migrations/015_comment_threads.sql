@@ -0,0 +1,227 @@
+-- Threaded comments, @mentions and an in-app notification inbox.
+-- A reply is a comment with parent_id pointing at the thread's first comment (one level deep).
+-- Threads are resolved on their root comment. Mentions are stored as resolved user ids next to
+-- the text, and a trigger on comments writes the notifications:
+--   mention - you were @mentioned
+--   reply   - someone replied in a thread you started, or on a thread on your recording
+--   comment - someone started a thread on your recording
+-- Each comment notifies a person at most once, using the first type that applies in that order.
+
+ALTER TABLE public.comments
+  ADD COLUMN IF NOT EXISTS mentioned_user_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS comments_parent_idx ON public.comments (parent_id);
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('mention', 'reply', 'comment')),
+  actor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  actor_email TEXT NOT NULL,
+  recording_id UUID NOT NULL REFERENCES public.recordings(id) ON DELETE CASCADE,
+  recording_name TEXT NOT NULL,
+  comment_id UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  excerpt TEXT NOT NULL,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_idx ON public.notifications (user_id, created_at DESC);
+
+-- ============================================================================
+-- ACCESS HELPERS
+-- ============================================================================
+
+-- Everyone who can follow the conversation on a recording and so can be @mentioned: the owner,
+-- the managers who review them, people it's shared with, and anyone who has commented.
+-- Empty unless the signed-in user can see the recording.
+CREATE OR REPLACE FUNCTION public.recording_participants(target_recording UUID)
+RETURNS TABLE (user_id UUID, email TEXT)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  WITH rec AS (
+    SELECT r.id, r.user_id
+    FROM recordings r
+    WHERE r.id = target_recording
+      AND (r.user_id = auth.uid() OR public.can_review_user(r.user_id) OR public.has_recording_share(r.id, 'view'))
+  ),
+  ids AS (
+    SELECT rec.user_id AS id FROM rec
+    UNION
+    SELECT mine.user_id
+    FROM rec
+    JOIN organization_members theirs ON theirs.user_id = rec.user_id
+    JOIN organization_members mine ON mine.organization_id = theirs.organization_id
+    JOIN profiles p ON p.id = mine.user_id AND p.role = 'manager'
+    WHERE mine.team_id IS NULL OR mine.team_id = theirs.team_id
+    UNION
+    SELECT s.shared_with
+    FROM rec
+    JOIN shared_recordings s ON s.recording_id = rec.id
+    WHERE s.shared_with IS NOT NULL AND (s.expires_at IS NULL OR s.expires_at > NOW())
+    UNION
+    SELECT c.user_id FROM rec JOIN comments c ON c.recording_id = rec.id
+  )
+  SELECT p.id, p.email FROM ids JOIN profiles p ON p.id = ids.id ORDER BY p.email
+$$;
+
+GRANT EXECUTE ON FUNCTION public.recording_participants(UUID) TO authenticated;
+
+-- Resolve or reopen a thread. Anyone who can comment on the recording may do it, not just the
+-- author, so this goes through a function instead of the comments update policies.
+CREATE OR REPLACE FUNCTION public.set_comment_thread_resolved(thread_id UUID, resolved BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  thread comments%ROWTYPE;
+  owner_id UUID;
+BEGIN
+  SELECT * INTO thread FROM comments WHERE id = thread_id AND parent_id IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Thread not found';
+  END IF;
+
+  SELECT user_id INTO owner_id FROM recordings WHERE id = thread.recording_id;
+  IF NOT (owner_id = auth.uid() OR public.can_review_user(owner_id)
+    OR public.has_recording_share(thread.recording_id, 'comment')) THEN
+    RAISE EXCEPTION 'Not allowed to resolve this thread';
+  END IF;
+
+  UPDATE comments
+  SET resolved_at = CASE WHEN resolved THEN NOW() END,
+      resolved_by = CASE WHEN resolved THEN auth.uid() END
+  WHERE id = thread_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_comment_thread_resolved(UUID, BOOLEAN) TO authenticated;
+
+-- ============================================================================
+-- THREAD SHAPE
+-- ============================================================================
+
+-- A reply's parent must be a thread root (no reply chains) on the same recording, and a thread
+-- that already has replies can't become a reply or move to another recording
+CREATE OR REPLACE FUNCTION public.check_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  parent comments%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' AND EXISTS (SELECT 1 FROM comments WHERE parent_id = NEW.id)
+    AND (NEW.parent_id IS NOT NULL OR NEW.recording_id <> OLD.recording_id) THEN
+    RAISE EXCEPTION 'A thread with replies can''t be moved';
+  END IF;
+
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM comments WHERE id = NEW.parent_id;
+  IF NOT FOUND OR parent.id = NEW.id OR parent.recording_id <> NEW.recording_id THEN
+    RAISE EXCEPTION 'Replies must belong to a thread on the same recording';
+  END IF;
+  IF parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Reply to the thread''s first comment, not to a reply';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_check_parent ON public.comments;
+CREATE TRIGGER comments_check_parent
+  BEFORE INSERT OR UPDATE OF parent_id, recording_id ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.check_comment_parent();
+
+-- ============================================================================
+-- NOTIFICATION TRIGGER
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.notify_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  rec recordings%ROWTYPE;
+  actor_email TEXT;
+  parent_author UUID;
+  new_mentions UUID[];
+BEGIN
+  SELECT * INTO rec FROM recordings WHERE id = NEW.recording_id;
+  SELECT email INTO actor_email FROM profiles WHERE id = NEW.user_id;
+
+  -- On edit, only mentions that weren't there before
+  new_mentions := CASE
+    WHEN TG_OP = 'UPDATE' THEN ARRAY(SELECT unnest(NEW.mentioned_user_ids) EXCEPT SELECT unnest(OLD.mentioned_user_ids))
+    ELSE NEW.mentioned_user_ids
+  END;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO parent_author FROM comments WHERE id = NEW.parent_id;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, actor_id, actor_email, recording_id, recording_name, comment_id, excerpt)
+  SELECT DISTINCT ON (target.user_id)
+    target.user_id, target.type, NEW.user_id, COALESCE(actor_email, 'Someone'), rec.id, rec.file_name, NEW.id,
+    left(NEW.content, 200)
+  FROM (
+    -- Mentions only count for people who can see the recording
+    SELECT m AS user_id, 'mention' AS type, 1 AS priority
+    FROM unnest(new_mentions) AS m
+    WHERE m IN (SELECT p.user_id FROM public.recording_participants(NEW.recording_id) p)
+    UNION ALL
+    SELECT parent_author, 'reply', 2 WHERE TG_OP = 'INSERT' AND parent_author IS NOT NULL
+    UNION ALL
+    SELECT rec.user_id, CASE WHEN NEW.parent_id IS NULL THEN 'comment' ELSE 'reply' END, 3 WHERE TG_OP = 'INSERT'
+  ) target
+  WHERE target.user_id IS NOT NULL AND target.user_id <> NEW.user_id
+  ORDER BY target.user_id, target.priority;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_notify ON public.comments;
+CREATE TRIGGER comments_notify
+  AFTER INSERT OR UPDATE OF mentioned_user_ids ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.notify_comment();
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their notifications" ON public.notifications;
+DROP POLICY IF EXISTS "Users can mark their notifications read" ON public.notifications;
+DROP POLICY IF EXISTS "Users can clear their notifications" ON public.notifications;
+DROP POLICY IF EXISTS "Reviewers can view their members' comments" ON public.comments;
+DROP POLICY IF EXISTS "Reviewers can comment on their members' recordings" ON public.comments;
+
+CREATE POLICY "Users can view their notifications"
+  ON public.notifications FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications read"
+  ON public.notifications FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can clear their notifications"
+  ON public.notifications FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Coaching conversations: a rep's manager reads and joins the threads on the rep's calls
+CREATE POLICY "Reviewers can view their members' comments"
+  ON public.comments FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND public.can_review_user(r.user_id)));
+
+CREATE POLICY "Reviewers can comment on their members' recordings"
+  ON public.comments FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.recordings r WHERE r.id = recording_id AND public.can_review_user(r.user_id))
+  );
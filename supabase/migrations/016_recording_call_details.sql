@@ -0,0 +1,10 @@
+-- Call details the rep fills in before recording: homeowner, address, appointment type, lead source
+-- and notes. Captured with the audio (offline too), stored on the recording and fed into the W4
+-- prompt as context, so the report doesn't have to guess the client's name from the audio.
+
+ALTER TABLE public.recordings
+  ADD COLUMN IF NOT EXISTS client_name TEXT,
+  ADD COLUMN IF NOT EXISTS client_address TEXT,
+  ADD COLUMN IF NOT EXISTS appointment_type TEXT,
+  ADD COLUMN IF NOT EXISTS lead_source TEXT,
+  ADD COLUMN IF NOT EXISTS call_notes TEXT;